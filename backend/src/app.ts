@@ -4,6 +4,22 @@ import cors from "cors";
 import morgan from 'morgan';
 import cookieParser from 'cookie-parser';
 import { auth } from './utils/auth';
+import devicesRouter from './routes/devices';
+import rulesRouter from './routes/rules';
+import schedulesRouter from './routes/schedules';
+import alertsRouter from './routes/alerts';
+import usersRouter from './routes/users';
+import auditRouter from './routes/audit';
+import calibrationsRouter from './routes/calibrations';
+import interlocksRouter from './routes/interlocks';
+import cameraRouter from './routes/camera';
+import dataRouter from './routes/data';
+import retentionRouter from './routes/retention';
+import cropsRouter from './routes/crops';
+import keysRouter from './routes/keys';
+import healthRouter from './routes/health';
+import anomaliesRouter from './routes/anomalies';
+import irrigationRouter from './routes/irrigation';
 
 const app = express();
 
@@ -32,6 +48,24 @@ app.get('/', (req, res) => {
     res.send('Welcome to GreenHouse Backend API!');
 });
 
+// ESP32 gateway: the dashboard never talks to the boards directly
+app.use('/api/devices', devicesRouter);
+app.use('/api/rules', rulesRouter);
+app.use('/api/schedules', schedulesRouter);
+app.use('/api/alerts', alertsRouter);
+app.use('/api/users', usersRouter);
+app.use('/api/audit', auditRouter);
+app.use('/api/calibrations', calibrationsRouter);
+app.use('/api/interlocks', interlocksRouter);
+app.use('/api/camera', cameraRouter);
+app.use('/api/data', dataRouter);
+app.use('/api/retention', retentionRouter);
+app.use('/api/crops', cropsRouter);
+app.use('/api/keys', keysRouter);
+app.use('/api/health', healthRouter);
+app.use('/api/anomalies', anomaliesRouter);
+app.use('/api/irrigation', irrigationRouter);
+
 
 
 
@@ -0,0 +1,53 @@
+import "dotenv/config";
+
+// How the backend talks to a board: polling its HTTP API, or through an MQTT broker
+export const DEVICE_TRANSPORTS = ["http", "mqtt"] as const;
+
+export type DeviceTransportType = (typeof DEVICE_TRANSPORTS)[number];
+
+export interface DeviceConfig {
+  id: string;
+  transport: DeviceTransportType;
+  baseUrl: string | null;
+}
+
+export const DEFAULT_DEVICE_ID = "main";
+
+/*
+ * Boards declared in the environment. They only seed the device registry on first start,
+ * after that devices are managed through /api/devices.
+ *
+ * ESP_DEVICES="main=192.168.1.100,nursery=http://10.0.0.7,shed=mqtt" registers several boards,
+ * "mqtt" instead of an address for those that come through the MQTT broker.
+ * ESP_IP=192.168.1.100 is the single-board shorthand (registered as "main").
+ */
+export const listConfiguredDevices = (): DeviceConfig[] => {
+  const list = process.env.ESP_DEVICES;
+
+  if (list) {
+    return list
+      .split(",")
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+      .map((entry): DeviceConfig => {
+        const [id, host = ""] = entry.split("=");
+        return host.trim() === "mqtt"
+          ? { id: id.trim(), transport: "mqtt", baseUrl: null }
+          : { id: id.trim(), transport: "http", baseUrl: toBaseUrl(host) };
+      })
+      .filter((device) => device.id && (device.transport === "mqtt" || device.baseUrl));
+  }
+
+  if (process.env.ESP_IP) {
+    return [{ id: DEFAULT_DEVICE_ID, transport: "http", baseUrl: toBaseUrl(process.env.ESP_IP) }];
+  }
+
+  return [];
+};
+
+// "192.168.1.100" or "http://host/" -> "http://host"
+export const toBaseUrl = (host: string) => {
+  const trimmed = host.trim().replace(/\/+$/, "");
+  if (!trimmed) return "";
+  return /^https?:\/\//.test(trimmed) ? trimmed : `http://${trimmed}`;
+};
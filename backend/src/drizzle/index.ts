@@ -6,4 +6,5 @@ import * as schema from "./schema";
 
 const sqlite = new Database(process.env.DB_FILE_NAME); // This will create the file if it doesn't exist
 
-export const db = drizzle(sqlite, { schema , logger: true });
\ No newline at end of file
+// Tests run hundreds of queries, logging them all buries the results
+export const db = drizzle(sqlite, { schema , logger: process.env.NODE_ENV !== "test" });
\ No newline at end of file
@@ -0,0 +1,23 @@
+CREATE TABLE `sensor_reading` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`sample_id` integer NOT NULL,
+	`device_id` text NOT NULL,
+	`sensor` text NOT NULL,
+	`value` real,
+	`recorded_at` integer NOT NULL,
+	FOREIGN KEY (`sample_id`) REFERENCES `telemetry_sample`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `sensor_reading_device_sensor_time_idx` ON `sensor_reading` (`device_id`,`sensor`,`recorded_at`);--> statement-breakpoint
+CREATE TABLE `telemetry_sample` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`device_id` text NOT NULL,
+	`recorded_at` integer NOT NULL,
+	`fan` integer NOT NULL,
+	`pump1` integer NOT NULL,
+	`pump2` integer NOT NULL,
+	`led` integer NOT NULL,
+	`stepper_enabled` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `telemetry_sample_device_time_idx` ON `telemetry_sample` (`device_id`,`recorded_at`);
\ No newline at end of file
@@ -0,0 +1,33 @@
+CREATE TABLE `automation_rule` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`device_id` text NOT NULL,
+	`name` text NOT NULL,
+	`enabled` integer NOT NULL,
+	`match` text NOT NULL,
+	`conditions` text NOT NULL,
+	`action` text NOT NULL,
+	`revert_on_clear` integer NOT NULL,
+	`min_on_seconds` integer NOT NULL,
+	`min_off_seconds` integer NOT NULL,
+	`active` integer NOT NULL,
+	`last_transition_at` integer,
+	`created_by` text,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`created_by`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE TABLE `rule_firing` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`rule_id` integer NOT NULL,
+	`device_id` text NOT NULL,
+	`kind` text NOT NULL,
+	`command` text NOT NULL,
+	`readings` text NOT NULL,
+	`success` integer NOT NULL,
+	`message` text,
+	`fired_at` integer NOT NULL,
+	FOREIGN KEY (`rule_id`) REFERENCES `automation_rule`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `rule_firing_rule_time_idx` ON `rule_firing` (`rule_id`,`fired_at`);
\ No newline at end of file
@@ -0,0 +1,32 @@
+CREATE TABLE `schedule_run` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`schedule_id` integer NOT NULL,
+	`device_id` text NOT NULL,
+	`actuator` text NOT NULL,
+	`state` integer NOT NULL,
+	`scheduled_for` integer NOT NULL,
+	`executed_at` integer NOT NULL,
+	`success` integer NOT NULL,
+	`message` text,
+	FOREIGN KEY (`schedule_id`) REFERENCES `schedule`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `schedule_run_device_time_idx` ON `schedule_run` (`device_id`,`scheduled_for`);--> statement-breakpoint
+CREATE TABLE `schedule` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`device_id` text NOT NULL,
+	`name` text NOT NULL,
+	`actuator` text NOT NULL,
+	`kind` text NOT NULL,
+	`start_time` text,
+	`end_time` text,
+	`days_of_week` text,
+	`cron` text,
+	`duration_seconds` integer,
+	`timezone` text NOT NULL,
+	`enabled` integer NOT NULL,
+	`created_by` text,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`created_by`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE set null
+);
@@ -0,0 +1,38 @@
+CREATE TABLE `alert_definition` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`device_id` text NOT NULL,
+	`name` text NOT NULL,
+	`sensor` text NOT NULL,
+	`min_value` real,
+	`max_value` real,
+	`severity` text NOT NULL,
+	`debounce_seconds` integer NOT NULL,
+	`enabled` integer NOT NULL,
+	`state` text NOT NULL,
+	`state_since` integer,
+	`created_by` text,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`created_by`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE TABLE `alert` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`definition_id` integer NOT NULL,
+	`device_id` text NOT NULL,
+	`sensor` text NOT NULL,
+	`severity` text NOT NULL,
+	`status` text NOT NULL,
+	`message` text NOT NULL,
+	`value` real NOT NULL,
+	`fired_at` integer NOT NULL,
+	`resolved_at` integer,
+	`acknowledged_at` integer,
+	`acknowledged_by` text,
+	FOREIGN KEY (`definition_id`) REFERENCES `alert_definition`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`acknowledged_by`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE INDEX `alert_device_status_idx` ON `alert` (`device_id`,`status`,`fired_at`);--> statement-breakpoint
+ALTER TABLE `user` ADD `alert_email_enabled` integer DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE `user` ADD `alert_webhook_url` text;
\ No newline at end of file
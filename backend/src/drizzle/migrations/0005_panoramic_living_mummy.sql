@@ -0,0 +1,12 @@
+CREATE TABLE `device` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`location` text,
+	`base_url` text NOT NULL,
+	`camera_url` text,
+	`capabilities` text NOT NULL,
+	`created_by` text,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`created_by`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE set null
+);
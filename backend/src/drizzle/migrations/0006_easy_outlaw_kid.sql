@@ -0,0 +1,14 @@
+CREATE TABLE `device_membership` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`device_id` text NOT NULL,
+	`user_id` text NOT NULL,
+	`role` text NOT NULL,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`device_id`) REFERENCES `device`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `device_membership_device_user_idx` ON `device_membership` (`device_id`,`user_id`);--> statement-breakpoint
+ALTER TABLE `user` ADD `role` text DEFAULT 'viewer' NOT NULL;--> statement-breakpoint
+-- Accounts created before roles existed could do everything, keep it that way
+UPDATE `user` SET `role` = 'owner';
\ No newline at end of file
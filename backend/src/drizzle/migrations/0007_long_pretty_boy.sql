@@ -0,0 +1,16 @@
+CREATE TABLE `audit_log` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`user_id` text,
+	`device_id` text NOT NULL,
+	`source` text NOT NULL,
+	`actuator` text NOT NULL,
+	`command` text NOT NULL,
+	`success` integer NOT NULL,
+	`response` text NOT NULL,
+	`latency_ms` integer,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE INDEX `audit_log_device_time_idx` ON `audit_log` (`device_id`,`created_at`);--> statement-breakpoint
+CREATE INDEX `audit_log_time_idx` ON `audit_log` (`created_at`);
\ No newline at end of file
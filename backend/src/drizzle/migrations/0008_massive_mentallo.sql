@@ -0,0 +1,19 @@
+CREATE TABLE `sensor_calibration` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`device_id` text NOT NULL,
+	`sensor` text NOT NULL,
+	`slope` real NOT NULL,
+	`offset` real NOT NULL,
+	`points` text NOT NULL,
+	`active` integer NOT NULL,
+	`created_by` text,
+	`created_at` integer NOT NULL,
+	`retired_at` integer,
+	FOREIGN KEY (`device_id`) REFERENCES `device`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`created_by`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE INDEX `sensor_calibration_device_sensor_idx` ON `sensor_calibration` (`device_id`,`sensor`,`created_at`);--> statement-breakpoint
+ALTER TABLE `sensor_reading` ADD `raw_value` real;--> statement-breakpoint
+-- Everything stored so far came straight from the boards
+UPDATE `sensor_reading` SET `raw_value` = `value`;
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE `device_command` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`device_id` text NOT NULL,
+	`source` text NOT NULL,
+	`user_id` text,
+	`command` text NOT NULL,
+	`status` text NOT NULL,
+	`attempts` integer NOT NULL,
+	`message` text,
+	`created_at` integer NOT NULL,
+	`sent_at` integer,
+	`settled_at` integer,
+	FOREIGN KEY (`device_id`) REFERENCES `device`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE INDEX `device_command_device_time_idx` ON `device_command` (`device_id`,`created_at`);--> statement-breakpoint
+CREATE INDEX `device_command_status_idx` ON `device_command` (`status`);
\ No newline at end of file
@@ -0,0 +1,23 @@
+CREATE TABLE `device_interlock` (
+	`device_id` text PRIMARY KEY NOT NULL,
+	`pump_max_run_seconds` integer,
+	`max_water_distance` real,
+	`stepper_min_position` real NOT NULL,
+	`stepper_max_position` real NOT NULL,
+	`stepper_position` real NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`device_id`) REFERENCES `device`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE TABLE `interlock_trip` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`device_id` text NOT NULL,
+	`interlock` text NOT NULL,
+	`actuator` text NOT NULL,
+	`action` text NOT NULL,
+	`message` text NOT NULL,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`device_id`) REFERENCES `device`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `interlock_trip_device_time_idx` ON `interlock_trip` (`device_id`,`created_at`);
\ No newline at end of file
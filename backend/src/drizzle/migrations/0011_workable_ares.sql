@@ -0,0 +1 @@
+ALTER TABLE `device_interlock` ADD `stepper_homed_at` integer;
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE `camera_snapshot` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`device_id` text NOT NULL,
+	`file_name` text NOT NULL,
+	`source` text NOT NULL,
+	`size_bytes` integer NOT NULL,
+	`width` integer,
+	`height` integer,
+	`captured_by` text,
+	`captured_at` integer NOT NULL,
+	FOREIGN KEY (`device_id`) REFERENCES `device`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`captured_by`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `camera_snapshot_file_name_unique` ON `camera_snapshot` (`file_name`);--> statement-breakpoint
+CREATE INDEX `camera_snapshot_device_time_idx` ON `camera_snapshot` (`device_id`,`captured_at`);
\ No newline at end of file
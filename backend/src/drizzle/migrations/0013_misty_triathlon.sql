@@ -0,0 +1 @@
+ALTER TABLE `telemetry_sample` ADD `source` text DEFAULT 'poll' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,23 @@
+CREATE TABLE `retention_policy` (
+	`tier` text PRIMARY KEY NOT NULL,
+	`keep_days` integer,
+	`rolled_up_to` integer,
+	`last_run_at` integer,
+	`updated_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `sensor_rollup` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`device_id` text NOT NULL,
+	`sensor` text NOT NULL,
+	`resolution` text NOT NULL,
+	`bucket_start` integer NOT NULL,
+	`avg` real NOT NULL,
+	`min` real NOT NULL,
+	`max` real NOT NULL,
+	`count` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `sensor_rollup_bucket_idx` ON `sensor_rollup` (`device_id`,`sensor`,`resolution`,`bucket_start`);--> statement-breakpoint
+CREATE INDEX `sensor_rollup_resolution_time_idx` ON `sensor_rollup` (`resolution`,`bucket_start`);--> statement-breakpoint
+CREATE INDEX `sensor_reading_time_idx` ON `sensor_reading` (`recorded_at`);
\ No newline at end of file
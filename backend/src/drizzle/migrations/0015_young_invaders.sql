@@ -0,0 +1,22 @@
+CREATE TABLE `crop_profile` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`name` text NOT NULL,
+	`description` text,
+	`stages` text NOT NULL,
+	`created_by` text,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`created_by`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `crop_profile_name_unique` ON `crop_profile` (`name`);--> statement-breakpoint
+CREATE TABLE `device_crop` (
+	`device_id` text PRIMARY KEY NOT NULL,
+	`profile_id` integer NOT NULL,
+	`started_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`device_id`) REFERENCES `device`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`profile_id`) REFERENCES `crop_profile`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+ALTER TABLE `alert_definition` ADD `follow_crop_profile` integer DEFAULT false NOT NULL;
\ No newline at end of file
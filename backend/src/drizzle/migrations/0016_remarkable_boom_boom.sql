@@ -0,0 +1,18 @@
+CREATE TABLE `api_key` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`user_id` text NOT NULL,
+	`name` text NOT NULL,
+	`prefix` text NOT NULL,
+	`key_hash` text NOT NULL,
+	`scope` text NOT NULL,
+	`rate_limit_per_minute` integer DEFAULT 120 NOT NULL,
+	`last_used_at` integer,
+	`last_used_ip` text,
+	`expires_at` integer,
+	`revoked_at` integer,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `api_key_key_hash_unique` ON `api_key` (`key_hash`);--> statement-breakpoint
+CREATE INDEX `api_key_user_idx` ON `api_key` (`user_id`);
\ No newline at end of file
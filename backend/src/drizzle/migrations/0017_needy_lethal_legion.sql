@@ -0,0 +1,42 @@
+CREATE TABLE `device_health_daily` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`device_id` text NOT NULL,
+	`component` text NOT NULL,
+	`day` text NOT NULL,
+	`checks` integer NOT NULL,
+	`failures` integer NOT NULL,
+	`latency_total_ms` integer NOT NULL,
+	`latency_max_ms` integer,
+	FOREIGN KEY (`device_id`) REFERENCES `device`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `device_health_daily_idx` ON `device_health_daily` (`device_id`,`component`,`day`);--> statement-breakpoint
+CREATE TABLE `device_health` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`device_id` text NOT NULL,
+	`component` text NOT NULL,
+	`online` integer NOT NULL,
+	`since` integer NOT NULL,
+	`last_check_at` integer NOT NULL,
+	`last_seen_at` integer,
+	`last_latency_ms` integer,
+	`consecutive_failures` integer DEFAULT 0 NOT NULL,
+	`last_error` text,
+	`offline_alert_minutes` integer,
+	FOREIGN KEY (`device_id`) REFERENCES `device`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `device_health_device_component_idx` ON `device_health` (`device_id`,`component`);--> statement-breakpoint
+CREATE TABLE `device_outage` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`device_id` text NOT NULL,
+	`component` text NOT NULL,
+	`started_at` integer NOT NULL,
+	`ended_at` integer,
+	`error` text,
+	`failures` integer DEFAULT 1 NOT NULL,
+	`alerted_at` integer,
+	FOREIGN KEY (`device_id`) REFERENCES `device`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `device_outage_device_time_idx` ON `device_outage` (`device_id`,`started_at`);
\ No newline at end of file
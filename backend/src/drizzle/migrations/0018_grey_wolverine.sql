@@ -0,0 +1,19 @@
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+CREATE TABLE `__new_device` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`location` text,
+	`transport` text DEFAULT 'http' NOT NULL,
+	`base_url` text,
+	`camera_url` text,
+	`capabilities` text NOT NULL,
+	`created_by` text,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`created_by`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+INSERT INTO `__new_device`("id", "name", "location", "transport", "base_url", "camera_url", "capabilities", "created_by", "created_at", "updated_at") SELECT "id", "name", "location", 'http', "base_url", "camera_url", "capabilities", "created_by", "created_at", "updated_at" FROM `device`;--> statement-breakpoint
+DROP TABLE `device`;--> statement-breakpoint
+ALTER TABLE `__new_device` RENAME TO `device`;--> statement-breakpoint
+PRAGMA foreign_keys=ON;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `sensor_reading` ADD `quality` text DEFAULT 'good' NOT NULL;--> statement-breakpoint
+ALTER TABLE `sensor_reading` ADD `quality_reason` text;--> statement-breakpoint
+UPDATE `sensor_reading` SET `quality` = 'missing', `quality_reason` = 'The board sent no reading' WHERE `value` IS NULL;
\ No newline at end of file
@@ -0,0 +1,32 @@
+CREATE TABLE `anomaly` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`device_id` text NOT NULL,
+	`sensor` text NOT NULL,
+	`kind` text NOT NULL,
+	`actuator` text,
+	`severity` text NOT NULL,
+	`message` text NOT NULL,
+	`value` real NOT NULL,
+	`expected` real,
+	`score` real,
+	`started_at` integer NOT NULL,
+	`last_seen_at` integer NOT NULL,
+	`resolved_at` integer,
+	FOREIGN KEY (`device_id`) REFERENCES `device`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `anomaly_device_time_idx` ON `anomaly` (`device_id`,`started_at`);--> statement-breakpoint
+CREATE TABLE `pump_run` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`device_id` text NOT NULL,
+	`actuator` text NOT NULL,
+	`started_at` integer NOT NULL,
+	`ended_at` integer NOT NULL,
+	`distance_before` real,
+	`distance_after` real,
+	FOREIGN KEY (`device_id`) REFERENCES `device`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `pump_run_idx` ON `pump_run` (`device_id`,`actuator`,`started_at`);--> statement-breakpoint
+ALTER TABLE `alert_definition` ADD `watch_anomalies` integer DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE `alert` ADD `anomaly_id` integer REFERENCES anomaly(id);
\ No newline at end of file
@@ -0,0 +1,55 @@
+CREATE TABLE `irrigation_program` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`device_id` text NOT NULL,
+	`name` text NOT NULL,
+	`pump` text NOT NULL,
+	`mode` text NOT NULL,
+	`duration_seconds` integer NOT NULL,
+	`level_drop_cm` real,
+	`cycle_seconds` integer,
+	`soak_seconds` integer DEFAULT 0 NOT NULL,
+	`max_daily_seconds` integer,
+	`skip_above_humidity` real,
+	`cron` text,
+	`timezone` text NOT NULL,
+	`enabled` integer NOT NULL,
+	`created_by` text,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`device_id`) REFERENCES `device`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`created_by`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE TABLE `irrigation_run` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`program_id` integer NOT NULL,
+	`device_id` text NOT NULL,
+	`pump` text NOT NULL,
+	`trigger` text NOT NULL,
+	`user_id` text,
+	`status` text NOT NULL,
+	`message` text,
+	`started_at` integer NOT NULL,
+	`ended_at` integer,
+	`pump_seconds` integer DEFAULT 0 NOT NULL,
+	`cycles` integer DEFAULT 0 NOT NULL,
+	`level_before` real,
+	`level_after` real,
+	`liters` real,
+	FOREIGN KEY (`program_id`) REFERENCES `irrigation_program`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE INDEX `irrigation_run_device_time_idx` ON `irrigation_run` (`device_id`,`started_at`);--> statement-breakpoint
+CREATE INDEX `irrigation_run_program_time_idx` ON `irrigation_run` (`program_id`,`started_at`);--> statement-breakpoint
+CREATE TABLE `reservoir` (
+	`device_id` text PRIMARY KEY NOT NULL,
+	`full_distance_cm` real NOT NULL,
+	`empty_distance_cm` real NOT NULL,
+	`capacity_liters` real NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`device_id`) REFERENCES `device`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+ALTER TABLE `pump_run` ADD `liters` real;--> statement-breakpoint
+ALTER TABLE `pump_run` ADD `irrigation_run_id` integer REFERENCES irrigation_run(id);
\ No newline at end of file
@@ -0,0 +1,19 @@
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+CREATE TABLE `__new_rule_firing` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`rule_id` integer NOT NULL,
+	`device_id` text NOT NULL,
+	`kind` text NOT NULL,
+	`command` text NOT NULL,
+	`readings` text NOT NULL,
+	`success` integer,
+	`message` text,
+	`fired_at` integer NOT NULL,
+	FOREIGN KEY (`rule_id`) REFERENCES `automation_rule`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+INSERT INTO `__new_rule_firing`("id", "rule_id", "device_id", "kind", "command", "readings", "success", "message", "fired_at") SELECT "id", "rule_id", "device_id", "kind", "command", "readings", "success", "message", "fired_at" FROM `rule_firing`;--> statement-breakpoint
+DROP TABLE `rule_firing`;--> statement-breakpoint
+ALTER TABLE `__new_rule_firing` RENAME TO `rule_firing`;--> statement-breakpoint
+PRAGMA foreign_keys=ON;--> statement-breakpoint
+CREATE INDEX `rule_firing_rule_time_idx` ON `rule_firing` (`rule_id`,`fired_at`);
\ No newline at end of file
@@ -1,6 +1,18 @@
 
 import { sql } from "drizzle-orm";
-import { sqliteTable, text, integer, uniqueIndex } from "drizzle-orm/sqlite-core";
+import { sqliteTable, text, integer, real, index, uniqueIndex } from "drizzle-orm/sqlite-core";
+import { CALIBRATED_SENSORS, READING_QUALITIES, SENSORS } from "../utils/sensors";
+import { PUMPS, RELAY_ACTUATORS, type DeviceCommand } from "../services/esp32Client";
+import type { RuleCondition } from "../services/rulesEngine";
+import type { DeviceCapability } from "../services/deviceRegistry";
+import type { CalibrationPoint } from "../services/calibration";
+import type { CropStage } from "../services/cropProfiles";
+import { API_KEY_SCOPES, ROLES } from "../utils/permissions";
+import { INTERLOCKS } from "../utils/interlocks";
+import { RETENTION_TIERS, ROLLUP_RESOLUTIONS } from "../utils/retention";
+import { ANOMALY_KINDS } from "../utils/anomalies";
+import { HEALTH_COMPONENTS } from "../utils/health";
+import { DEVICE_TRANSPORTS } from "../config/devices";
 
 
 /* AUTH SECHEMAS BY BETTER-AUTH */
@@ -10,6 +22,11 @@ export const userTable = sqliteTable("user", {
 	email: text('email').notNull().unique(),
 	emailVerified: integer('email_verified', { mode: 'boolean' }).$defaultFn(() => false).notNull(),
 	image: text('image'),
+	// Alert channel preferences, declared as additionalFields in utils/auth.ts
+	alertEmailEnabled: integer('alert_email_enabled', { mode: 'boolean' }).default(false).notNull(),
+	alertWebhookUrl: text('alert_webhook_url'),
+	// Global role, see utils/permissions.ts; device_membership can override it per greenhouse
+	role: text('role', { enum: ROLES }).default('viewer').notNull(),
 	createdAt: integer('created_at', { mode: 'timestamp' }).$defaultFn(() => /* @__PURE__ */ new Date()).notNull(),
 	updatedAt: integer('updated_at', { mode: 'timestamp' }).$defaultFn(() => /* @__PURE__ */ new Date()).notNull()
 });
@@ -50,3 +67,554 @@ export const verificationTable = sqliteTable("verification", {
 	updatedAt: integer('updated_at', { mode: 'timestamp' }).$defaultFn(() => /* @__PURE__ */ new Date())
 });
 
+
+/* API KEYS */
+
+// Machine access for scripts and integrations, see services/apiKeys.ts; only a hash of the key is stored
+export const apiKeyTable = sqliteTable("api_key", {
+	id: integer('id').primaryKey({ autoIncrement: true }),
+	userId: text('user_id').notNull().references(() => userTable.id, { onDelete: 'cascade' }),
+	name: text('name').notNull(),
+	// First characters of the key, enough to recognise it in the list
+	prefix: text('prefix').notNull(),
+	// SHA-256 of the full key, hex
+	keyHash: text('key_hash').notNull().unique(),
+	scope: text('scope', { enum: API_KEY_SCOPES }).notNull(),
+	rateLimitPerMinute: integer('rate_limit_per_minute').default(120).notNull(),
+	lastUsedAt: integer('last_used_at', { mode: 'timestamp' }),
+	lastUsedIp: text('last_used_ip'),
+	// Null for keys that do not expire
+	expiresAt: integer('expires_at', { mode: 'timestamp' }),
+	revokedAt: integer('revoked_at', { mode: 'timestamp' }),
+	createdAt: integer('created_at', { mode: 'timestamp' }).$defaultFn(() => /* @__PURE__ */ new Date()).notNull()
+}, (table) => [
+	index('api_key_user_idx').on(table.userId)
+]);
+
+
+/* DEVICES */
+
+// Registered ESP32 boards; the id is what every other table stores as device_id
+export const deviceTable = sqliteTable("device", {
+	id: text('id').primaryKey(),
+	name: text('name').notNull(),
+	location: text('location'),
+	transport: text('transport', { enum: DEVICE_TRANSPORTS }).default('http').notNull(),
+	// HTTP boards only, MQTT boards are addressed by their id under MQTT_TOPIC_PREFIX
+	baseUrl: text('base_url'),
+	cameraUrl: text('camera_url'),
+	capabilities: text('capabilities', { mode: 'json' }).$type<DeviceCapability[]>().notNull(),
+	createdBy: text('created_by').references(() => userTable.id, { onDelete: 'set null' }),
+	createdAt: integer('created_at', { mode: 'timestamp' }).$defaultFn(() => /* @__PURE__ */ new Date()).notNull(),
+	updatedAt: integer('updated_at', { mode: 'timestamp' }).$defaultFn(() => /* @__PURE__ */ new Date()).notNull()
+});
+
+// Per-greenhouse role that takes precedence over the user's global role
+export const deviceMembershipTable = sqliteTable("device_membership", {
+	id: integer('id').primaryKey({ autoIncrement: true }),
+	deviceId: text('device_id').notNull().references(() => deviceTable.id, { onDelete: 'cascade' }),
+	userId: text('user_id').notNull().references(() => userTable.id, { onDelete: 'cascade' }),
+	role: text('role', { enum: ROLES }).notNull(),
+	createdAt: integer('created_at', { mode: 'timestamp' }).$defaultFn(() => /* @__PURE__ */ new Date()).notNull()
+}, (table) => [
+	uniqueIndex('device_membership_device_user_idx').on(table.deviceId, table.userId)
+]);
+
+
+/* TELEMETRY */
+
+// One row per successful poll of a device's /api/status, with the actuator states at that moment
+export const telemetrySampleTable = sqliteTable("telemetry_sample", {
+	id: integer('id').primaryKey({ autoIncrement: true }),
+	deviceId: text('device_id').notNull(),
+	recordedAt: integer('recorded_at', { mode: 'timestamp' }).notNull(),
+	// Imported samples come from another logger: they have no actuator states (stored as off) and no raw values
+	source: text('source', { enum: ['poll', 'import'] }).default('poll').notNull(),
+	fan: integer('fan', { mode: 'boolean' }).notNull(),
+	pump1: integer('pump1', { mode: 'boolean' }).notNull(),
+	pump2: integer('pump2', { mode: 'boolean' }).notNull(),
+	led: integer('led', { mode: 'boolean' }).notNull(),
+	stepperEnabled: integer('stepper_enabled', { mode: 'boolean' }).notNull()
+}, (table) => [
+	index('telemetry_sample_device_time_idx').on(table.deviceId, table.recordedAt)
+]);
+
+// One row per sensor per sample; value is null when the board did not report that sensor
+export const sensorReadingTable = sqliteTable("sensor_reading", {
+	id: integer('id').primaryKey({ autoIncrement: true }),
+	sampleId: integer('sample_id').notNull().references(() => telemetrySampleTable.id, { onDelete: 'cascade' }),
+	deviceId: text('device_id').notNull(),
+	sensor: text('sensor', { enum: SENSORS }).notNull(),
+	// In engineering units, after the device's calibration (if any) was applied
+	value: real('value'),
+	// As the board reported it, so readings can be recomputed after a recalibration
+	rawValue: real('raw_value'),
+	// See services/dataQuality.ts, bad readings are left out of history and rollups
+	quality: text('quality', { enum: READING_QUALITIES }).default('good').notNull(),
+	// Why the reading is not good
+	qualityReason: text('quality_reason'),
+	recordedAt: integer('recorded_at', { mode: 'timestamp' }).notNull()
+}, (table) => [
+	index('sensor_reading_device_sensor_time_idx').on(table.deviceId, table.sensor, table.recordedAt),
+	// Rollups and retention work on time ranges across all devices
+	index('sensor_reading_time_idx').on(table.recordedAt)
+]);
+
+// Aggregates of sensor_reading per time bucket, kept after the raw samples expire (see services/telemetryRollups.ts)
+export const sensorRollupTable = sqliteTable("sensor_rollup", {
+	id: integer('id').primaryKey({ autoIncrement: true }),
+	deviceId: text('device_id').notNull(),
+	sensor: text('sensor', { enum: SENSORS }).notNull(),
+	resolution: text('resolution', { enum: ROLLUP_RESOLUTIONS }).notNull(),
+	bucketStart: integer('bucket_start', { mode: 'timestamp' }).notNull(),
+	avg: real('avg').notNull(),
+	min: real('min').notNull(),
+	max: real('max').notNull(),
+	// Readings behind the bucket, weights the average when buckets are combined
+	count: integer('count').notNull()
+}, (table) => [
+	uniqueIndex('sensor_rollup_bucket_idx').on(table.deviceId, table.sensor, table.resolution, table.bucketStart),
+	index('sensor_rollup_resolution_time_idx').on(table.resolution, table.bucketStart)
+]);
+
+// One row per storage tier, created with the defaults on first use
+export const retentionPolicyTable = sqliteTable("retention_policy", {
+	tier: text('tier', { enum: RETENTION_TIERS }).primaryKey(),
+	// Data older than this is deleted once the next tier has rolled it up, null keeps it forever
+	keepDays: integer('keep_days'),
+	// Rollup tiers only: every bucket before this has been computed
+	rolledUpTo: integer('rolled_up_to', { mode: 'timestamp' }),
+	lastRunAt: integer('last_run_at', { mode: 'timestamp' }),
+	updatedAt: integer('updated_at', { mode: 'timestamp' }).$defaultFn(() => /* @__PURE__ */ new Date()).notNull()
+});
+
+
+/* CALIBRATION */
+
+// Calibration history; value = slope * raw + offset, at most one active row per device and sensor
+export const sensorCalibrationTable = sqliteTable("sensor_calibration", {
+	id: integer('id').primaryKey({ autoIncrement: true }),
+	deviceId: text('device_id').notNull().references(() => deviceTable.id, { onDelete: 'cascade' }),
+	sensor: text('sensor', { enum: CALIBRATED_SENSORS }).notNull(),
+	slope: real('slope').notNull(),
+	offset: real('offset').notNull(),
+	// Buffer solutions / reference gas readings the fit was computed from
+	points: text('points', { mode: 'json' }).$type<CalibrationPoint[]>().notNull(),
+	active: integer('active', { mode: 'boolean' }).$defaultFn(() => true).notNull(),
+	createdBy: text('created_by').references(() => userTable.id, { onDelete: 'set null' }),
+	createdAt: integer('created_at', { mode: 'timestamp' }).$defaultFn(() => /* @__PURE__ */ new Date()).notNull(),
+	// When it stopped being the active calibration
+	retiredAt: integer('retired_at', { mode: 'timestamp' })
+}, (table) => [
+	index('sensor_calibration_device_sensor_idx').on(table.deviceId, table.sensor, table.createdAt)
+]);
+
+
+/* CROPS */
+
+// Reusable growing plan: consecutive stages, each with the optimal range per sensor (see services/cropProfiles.ts)
+export const cropProfileTable = sqliteTable("crop_profile", {
+	id: integer('id').primaryKey({ autoIncrement: true }),
+	name: text('name').notNull().unique(),
+	description: text('description'),
+	stages: text('stages', { mode: 'json' }).$type<CropStage[]>().notNull(),
+	createdBy: text('created_by').references(() => userTable.id, { onDelete: 'set null' }),
+	createdAt: integer('created_at', { mode: 'timestamp' }).$defaultFn(() => /* @__PURE__ */ new Date()).notNull(),
+	updatedAt: integer('updated_at', { mode: 'timestamp' }).$defaultFn(() => /* @__PURE__ */ new Date()).notNull()
+});
+
+// The crop growing in each greenhouse; the current stage follows from startedAt and the stage lengths
+export const deviceCropTable = sqliteTable("device_crop", {
+	deviceId: text('device_id').primaryKey().references(() => deviceTable.id, { onDelete: 'cascade' }),
+	profileId: integer('profile_id').notNull().references(() => cropProfileTable.id),
+	// When the first stage began, e.g. the sowing date
+	startedAt: integer('started_at', { mode: 'timestamp' }).notNull(),
+	updatedAt: integer('updated_at', { mode: 'timestamp' }).$defaultFn(() => /* @__PURE__ */ new Date()).notNull()
+});
+
+
+/* AUTOMATION */
+
+export const automationRuleTable = sqliteTable("automation_rule", {
+	id: integer('id').primaryKey({ autoIncrement: true }),
+	deviceId: text('device_id').notNull(),
+	name: text('name').notNull(),
+	enabled: integer('enabled', { mode: 'boolean' }).$defaultFn(() => true).notNull(),
+	match: text('match', { enum: ['all', 'any'] }).$defaultFn(() => 'all').notNull(),
+	conditions: text('conditions', { mode: 'json' }).$type<RuleCondition[]>().notNull(),
+	action: text('action', { mode: 'json' }).$type<DeviceCommand>().notNull(),
+	// Send the opposite command once the conditions clear
+	revertOnClear: integer('revert_on_clear', { mode: 'boolean' }).$defaultFn(() => true).notNull(),
+	minOnSeconds: integer('min_on_seconds').$defaultFn(() => 0).notNull(),
+	minOffSeconds: integer('min_off_seconds').$defaultFn(() => 0).notNull(),
+	// Evaluator state: whether the action is currently applied and since when
+	active: integer('active', { mode: 'boolean' }).$defaultFn(() => false).notNull(),
+	lastTransitionAt: integer('last_transition_at', { mode: 'timestamp' }),
+	createdBy: text('created_by').references(() => userTable.id, { onDelete: 'set null' }),
+	createdAt: integer('created_at', { mode: 'timestamp' }).$defaultFn(() => /* @__PURE__ */ new Date()).notNull(),
+	updatedAt: integer('updated_at', { mode: 'timestamp' }).$defaultFn(() => /* @__PURE__ */ new Date()).notNull()
+});
+
+export const ruleFiringTable = sqliteTable("rule_firing", {
+	id: integer('id').primaryKey({ autoIncrement: true }),
+	ruleId: integer('rule_id').notNull().references(() => automationRuleTable.id, { onDelete: 'cascade' }),
+	deviceId: text('device_id').notNull(),
+	kind: text('kind', { enum: ['activate', 'clear', 'test'] }).notNull(),
+	command: text('command', { mode: 'json' }).$type<DeviceCommand>().notNull(),
+	readings: text('readings', { mode: 'json' }).$type<Record<string, number | null>>().notNull(),
+	// null while the command waits for the board's answer
+	success: integer('success', { mode: 'boolean' }),
+	message: text('message'),
+	firedAt: integer('fired_at', { mode: 'timestamp' }).$defaultFn(() => /* @__PURE__ */ new Date()).notNull()
+}, (table) => [
+	index('rule_firing_rule_time_idx').on(table.ruleId, table.firedAt)
+]);
+
+
+/* SCHEDULES */
+
+export const scheduleTable = sqliteTable("schedule", {
+	id: integer('id').primaryKey({ autoIncrement: true }),
+	deviceId: text('device_id').notNull(),
+	name: text('name').notNull(),
+	actuator: text('actuator', { enum: RELAY_ACTUATORS }).notNull(),
+	// window: ON between startTime and endTime on daysOfWeek; pulse: ON for durationSeconds at every cron match
+	kind: text('kind', { enum: ['window', 'pulse'] }).notNull(),
+	startTime: text('start_time'),
+	endTime: text('end_time'),
+	daysOfWeek: text('days_of_week', { mode: 'json' }).$type<number[]>(),
+	cron: text('cron'),
+	durationSeconds: integer('duration_seconds'),
+	timezone: text('timezone').notNull(),
+	enabled: integer('enabled', { mode: 'boolean' }).$defaultFn(() => true).notNull(),
+	createdBy: text('created_by').references(() => userTable.id, { onDelete: 'set null' }),
+	createdAt: integer('created_at', { mode: 'timestamp' }).$defaultFn(() => /* @__PURE__ */ new Date()).notNull(),
+	updatedAt: integer('updated_at', { mode: 'timestamp' }).$defaultFn(() => /* @__PURE__ */ new Date()).notNull()
+});
+
+export const scheduleRunTable = sqliteTable("schedule_run", {
+	id: integer('id').primaryKey({ autoIncrement: true }),
+	scheduleId: integer('schedule_id').notNull().references(() => scheduleTable.id, { onDelete: 'cascade' }),
+	deviceId: text('device_id').notNull(),
+	actuator: text('actuator', { enum: RELAY_ACTUATORS }).notNull(),
+	state: integer('state', { mode: 'boolean' }).notNull(),
+	scheduledFor: integer('scheduled_for', { mode: 'timestamp' }).notNull(),
+	executedAt: integer('executed_at', { mode: 'timestamp' }).$defaultFn(() => /* @__PURE__ */ new Date()).notNull(),
+	success: integer('success', { mode: 'boolean' }).notNull(),
+	message: text('message')
+}, (table) => [
+	index('schedule_run_device_time_idx').on(table.deviceId, table.scheduledFor)
+]);
+
+
+/* ALERTS */
+
+export const alertDefinitionTable = sqliteTable("alert_definition", {
+	id: integer('id').primaryKey({ autoIncrement: true }),
+	deviceId: text('device_id').notNull(),
+	name: text('name').notNull(),
+	sensor: text('sensor', { enum: SENSORS }).notNull(),
+	// Allowed range, either bound may be left open
+	minValue: real('min_value'),
+	maxValue: real('max_value'),
+	severity: text('severity', { enum: ['warning', 'critical'] }).$defaultFn(() => 'warning').notNull(),
+	// How long a reading must stay out of (or back in) range before the alert fires (or resolves)
+	debounceSeconds: integer('debounce_seconds').$defaultFn(() => 60).notNull(),
+	enabled: integer('enabled', { mode: 'boolean' }).$defaultFn(() => true).notNull(),
+	// Use the active crop stage's optimal range instead of minValue/maxValue
+	followCropProfile: integer('follow_crop_profile', { mode: 'boolean' }).default(false).notNull(),
+	// Fire on the sensor's anomalies (services/anomalyDetection.ts) instead of on a range
+	watchAnomalies: integer('watch_anomalies', { mode: 'boolean' }).default(false).notNull(),
+	// Evaluator state, see services/alerting.ts
+	state: text('state', { enum: ['ok', 'pending', 'firing', 'resolving'] }).$defaultFn(() => 'ok').notNull(),
+	stateSince: integer('state_since', { mode: 'timestamp' }),
+	createdBy: text('created_by').references(() => userTable.id, { onDelete: 'set null' }),
+	createdAt: integer('created_at', { mode: 'timestamp' }).$defaultFn(() => /* @__PURE__ */ new Date()).notNull(),
+	updatedAt: integer('updated_at', { mode: 'timestamp' }).$defaultFn(() => /* @__PURE__ */ new Date()).notNull()
+});
+
+// One row per time a definition fired; resolvedAt is set once the reading is back in range
+export const alertTable = sqliteTable("alert", {
+	id: integer('id').primaryKey({ autoIncrement: true }),
+	definitionId: integer('definition_id').notNull().references(() => alertDefinitionTable.id, { onDelete: 'cascade' }),
+	deviceId: text('device_id').notNull(),
+	sensor: text('sensor', { enum: SENSORS }).notNull(),
+	severity: text('severity', { enum: ['warning', 'critical'] }).notNull(),
+	status: text('status', { enum: ['firing', 'resolved'] }).notNull(),
+	message: text('message').notNull(),
+	value: real('value').notNull(),
+	firedAt: integer('fired_at', { mode: 'timestamp' }).notNull(),
+	resolvedAt: integer('resolved_at', { mode: 'timestamp' }),
+	acknowledgedAt: integer('acknowledged_at', { mode: 'timestamp' }),
+	acknowledgedBy: text('acknowledged_by').references(() => userTable.id, { onDelete: 'set null' }),
+	// Set for alerts of anomaly-watching definitions, they resolve with the anomaly
+	anomalyId: integer('anomaly_id').references(() => anomalyTable.id, { onDelete: 'set null' })
+}, (table) => [
+	index('alert_device_status_idx').on(table.deviceId, table.status, table.firedAt)
+]);
+
+
+/* COMMAND QUEUE */
+
+// Every command queued through services/deviceCommands.ts and where it is in its life cycle
+export const deviceCommandTable = sqliteTable("device_command", {
+	id: integer('id').primaryKey({ autoIncrement: true }),
+	deviceId: text('device_id').notNull().references(() => deviceTable.id, { onDelete: 'cascade' }),
+	// See CommandSource in services/deviceCommands.ts
+	source: text('source', { enum: ['manual', 'rule', 'schedule', 'irrigation', 'interlock'] }).notNull(),
+	userId: text('user_id').references(() => userTable.id, { onDelete: 'set null' }),
+	command: text('command', { mode: 'json' }).$type<DeviceCommand>().notNull(),
+	// queued -> sent (the board answered) -> confirmed (a later /api/status shows the new state), or failed
+	status: text('status', { enum: ['queued', 'sent', 'confirmed', 'failed'] }).$defaultFn(() => 'queued').notNull(),
+	attempts: integer('attempts').$defaultFn(() => 0).notNull(),
+	// Firmware response, why it is being retried, or why it failed
+	message: text('message'),
+	createdAt: integer('created_at', { mode: 'timestamp' }).$defaultFn(() => /* @__PURE__ */ new Date()).notNull(),
+	sentAt: integer('sent_at', { mode: 'timestamp' }),
+	settledAt: integer('settled_at', { mode: 'timestamp' })
+}, (table) => [
+	index('device_command_device_time_idx').on(table.deviceId, table.createdAt),
+	index('device_command_status_idx').on(table.status)
+]);
+
+
+/* SAFETY INTERLOCKS */
+
+// Per-device limits enforced by services/interlocks.ts, a row is created with the defaults on first use
+export const deviceInterlockTable = sqliteTable("device_interlock", {
+	deviceId: text('device_id').primaryKey().references(() => deviceTable.id, { onDelete: 'cascade' }),
+	// Pumps are switched off after running this long, null for no limit
+	pumpMaxRunSeconds: integer('pump_max_run_seconds').$defaultFn(() => 600),
+	// Ultrasonic distance to the water surface (cm) above which the tank counts as empty, null to disable
+	maxWaterDistance: real('max_water_distance').$defaultFn(() => 50),
+	// Soft limits for the roof vent in mm of travel, the firmware's full travel is 100 mm
+	stepperMinPosition: real('stepper_min_position').$defaultFn(() => 0).notNull(),
+	stepperMaxPosition: real('stepper_max_position').$defaultFn(() => 100).notNull(),
+	// Net travel of the acknowledged moves, the board itself does not know where the vent is
+	stepperPosition: real('stepper_position').$defaultFn(() => 0).notNull(),
+	// When the position was last referenced to the closed end, by homing or zeroing; null if it never was
+	stepperHomedAt: integer('stepper_homed_at', { mode: 'timestamp' }),
+	updatedAt: integer('updated_at', { mode: 'timestamp' }).$defaultFn(() => /* @__PURE__ */ new Date()).notNull()
+});
+
+// One row per time an interlock refused a command or switched an actuator off
+export const interlockTripTable = sqliteTable("interlock_trip", {
+	id: integer('id').primaryKey({ autoIncrement: true }),
+	deviceId: text('device_id').notNull().references(() => deviceTable.id, { onDelete: 'cascade' }),
+	interlock: text('interlock', { enum: INTERLOCKS }).notNull(),
+	actuator: text('actuator', { enum: [...RELAY_ACTUATORS, 'stepper'] }).notNull(),
+	action: text('action', { enum: ['refused', 'stopped'] }).notNull(),
+	message: text('message').notNull(),
+	createdAt: integer('created_at', { mode: 'timestamp' }).$defaultFn(() => /* @__PURE__ */ new Date()).notNull()
+}, (table) => [
+	index('interlock_trip_device_time_idx').on(table.deviceId, table.createdAt)
+]);
+
+
+/* CAMERA */
+
+// One row per stored camera frame, the JPEG itself lives under SNAPSHOT_DIR (see services/snapshots.ts)
+export const cameraSnapshotTable = sqliteTable("camera_snapshot", {
+	id: integer('id').primaryKey({ autoIncrement: true }),
+	deviceId: text('device_id').notNull().references(() => deviceTable.id, { onDelete: 'cascade' }),
+	// Relative to SNAPSHOT_DIR, e.g. main/20250831_125025.jpg
+	fileName: text('file_name').notNull().unique(),
+	// Scheduled and manual captures come from the stream, imported files were already on disk
+	source: text('source', { enum: ['scheduled', 'manual', 'import'] }).notNull(),
+	sizeBytes: integer('size_bytes').notNull(),
+	width: integer('width'),
+	height: integer('height'),
+	// Null for scheduled captures and imports
+	capturedBy: text('captured_by').references(() => userTable.id, { onDelete: 'set null' }),
+	capturedAt: integer('captured_at', { mode: 'timestamp' }).notNull()
+}, (table) => [
+	index('camera_snapshot_device_time_idx').on(table.deviceId, table.capturedAt)
+]);
+
+
+/* DEVICE HEALTH */
+
+// Current connectivity of each board and camera, updated on every heartbeat (see services/deviceHealth.ts)
+export const deviceHealthTable = sqliteTable("device_health", {
+	id: integer('id').primaryKey({ autoIncrement: true }),
+	deviceId: text('device_id').notNull().references(() => deviceTable.id, { onDelete: 'cascade' }),
+	component: text('component', { enum: HEALTH_COMPONENTS }).notNull(),
+	online: integer('online', { mode: 'boolean' }).notNull(),
+	// When online last changed
+	since: integer('since', { mode: 'timestamp' }).notNull(),
+	lastCheckAt: integer('last_check_at', { mode: 'timestamp' }).notNull(),
+	// Last successful check, null if there never was one
+	lastSeenAt: integer('last_seen_at', { mode: 'timestamp' }),
+	lastLatencyMs: integer('last_latency_ms'),
+	consecutiveFailures: integer('consecutive_failures').default(0).notNull(),
+	lastError: text('last_error'),
+	// Notify once the component has been offline this long, null for no notification
+	offlineAlertMinutes: integer('offline_alert_minutes')
+}, (table) => [
+	uniqueIndex('device_health_device_component_idx').on(table.deviceId, table.component)
+]);
+
+// Heartbeat counts per UTC day, availability is the share of checks that succeeded
+export const deviceHealthDailyTable = sqliteTable("device_health_daily", {
+	id: integer('id').primaryKey({ autoIncrement: true }),
+	deviceId: text('device_id').notNull().references(() => deviceTable.id, { onDelete: 'cascade' }),
+	component: text('component', { enum: HEALTH_COMPONENTS }).notNull(),
+	// YYYY-MM-DD
+	day: text('day').notNull(),
+	checks: integer('checks').notNull(),
+	failures: integer('failures').notNull(),
+	// Over the successful checks only, pushed MQTT statuses are not timed
+	latencyTotalMs: integer('latency_total_ms').notNull(),
+	latencyMaxMs: integer('latency_max_ms')
+}, (table) => [
+	uniqueIndex('device_health_daily_idx').on(table.deviceId, table.component, table.day)
+]);
+
+// One row per time a component went offline; endedAt is set once it answers again
+export const deviceOutageTable = sqliteTable("device_outage", {
+	id: integer('id').primaryKey({ autoIncrement: true }),
+	deviceId: text('device_id').notNull().references(() => deviceTable.id, { onDelete: 'cascade' }),
+	component: text('component', { enum: HEALTH_COMPONENTS }).notNull(),
+	startedAt: integer('started_at', { mode: 'timestamp' }).notNull(),
+	endedAt: integer('ended_at', { mode: 'timestamp' }),
+	// The failure that started the outage
+	error: text('error'),
+	failures: integer('failures').default(1).notNull(),
+	// When the offline notification went out, null if the outage stayed below offlineAlertMinutes
+	alertedAt: integer('alerted_at', { mode: 'timestamp' })
+}, (table) => [
+	index('device_outage_device_time_idx').on(table.deviceId, table.startedAt)
+]);
+
+
+/* ANOMALIES */
+
+// Something unusual found in the stored telemetry (see services/anomalyDetection.ts); resolvedAt is set once it is back to normal
+export const anomalyTable = sqliteTable("anomaly", {
+	id: integer('id').primaryKey({ autoIncrement: true }),
+	deviceId: text('device_id').notNull().references(() => deviceTable.id, { onDelete: 'cascade' }),
+	sensor: text('sensor', { enum: SENSORS }).notNull(),
+	kind: text('kind', { enum: ANOMALY_KINDS }).notNull(),
+	// The pump of a pump_effect anomaly
+	actuator: text('actuator', { enum: PUMPS }),
+	severity: text('severity', { enum: ['warning', 'critical'] }).notNull(),
+	message: text('message').notNull(),
+	// Latest observation and what the baseline expected: an hourly average, the last daily
+	// average for drift, cm per minute for pump_effect
+	value: real('value').notNull(),
+	expected: real('expected'),
+	// How many baseline spreads the value is off, deviations only
+	score: real('score'),
+	startedAt: integer('started_at', { mode: 'timestamp' }).notNull(),
+	// End of the last hour or pump run that was still anomalous
+	lastSeenAt: integer('last_seen_at', { mode: 'timestamp' }).notNull(),
+	resolvedAt: integer('resolved_at', { mode: 'timestamp' })
+}, (table) => [
+	index('anomaly_device_time_idx').on(table.deviceId, table.startedAt)
+]);
+
+
+/* IRRIGATION */
+
+// The tank the ultrasonic sensor watches, one per device; turns a change in distance into liters
+export const reservoirTable = sqliteTable("reservoir", {
+	deviceId: text('device_id').primaryKey().references(() => deviceTable.id, { onDelete: 'cascade' }),
+	// Distance from the sensor to the water with the tank full and empty, and what it holds in between
+	fullDistanceCm: real('full_distance_cm').notNull(),
+	emptyDistanceCm: real('empty_distance_cm').notNull(),
+	capacityLiters: real('capacity_liters').notNull(),
+	updatedAt: integer('updated_at', { mode: 'timestamp' }).$defaultFn(() => /* @__PURE__ */ new Date()).notNull()
+});
+
+// How and when a pump waters, see services/irrigation.ts
+export const irrigationProgramTable = sqliteTable("irrigation_program", {
+	id: integer('id').primaryKey({ autoIncrement: true }),
+	deviceId: text('device_id').notNull().references(() => deviceTable.id, { onDelete: 'cascade' }),
+	name: text('name').notNull(),
+	pump: text('pump', { enum: PUMPS }).notNull(),
+	// duration: pump for durationSeconds; level: until the distance to the water grew by levelDropCm,
+	// at most durationSeconds
+	mode: text('mode', { enum: ['duration', 'level'] }).notNull(),
+	durationSeconds: integer('duration_seconds').notNull(),
+	levelDropCm: real('level_drop_cm'),
+	// Soak/cycle: at most cycleSeconds on at a time, then soakSeconds off so the water can sink in
+	cycleSeconds: integer('cycle_seconds'),
+	soakSeconds: integer('soak_seconds').default(0).notNull(),
+	// Pump time the program may use per UTC day
+	maxDailySeconds: integer('max_daily_seconds'),
+	// Skipped while the latest humidity reading is above this
+	skipAboveHumidity: real('skip_above_humidity'),
+	// When it starts by itself, null for programs that are only run by hand
+	cron: text('cron'),
+	timezone: text('timezone').notNull(),
+	enabled: integer('enabled', { mode: 'boolean' }).$defaultFn(() => true).notNull(),
+	createdBy: text('created_by').references(() => userTable.id, { onDelete: 'set null' }),
+	createdAt: integer('created_at', { mode: 'timestamp' }).$defaultFn(() => /* @__PURE__ */ new Date()).notNull(),
+	updatedAt: integer('updated_at', { mode: 'timestamp' }).$defaultFn(() => /* @__PURE__ */ new Date()).notNull()
+});
+
+// One start of a program, including the ones it skipped
+export const irrigationRunTable = sqliteTable("irrigation_run", {
+	id: integer('id').primaryKey({ autoIncrement: true }),
+	programId: integer('program_id').notNull().references(() => irrigationProgramTable.id, { onDelete: 'cascade' }),
+	deviceId: text('device_id').notNull(),
+	pump: text('pump', { enum: PUMPS }).notNull(),
+	trigger: text('trigger', { enum: ['schedule', 'manual'] }).notNull(),
+	userId: text('user_id').references(() => userTable.id, { onDelete: 'set null' }),
+	status: text('status', { enum: ['running', 'completed', 'stopped', 'skipped', 'failed'] }).notNull(),
+	// Why it was skipped, stopped or failed, or what ended it
+	message: text('message'),
+	startedAt: integer('started_at', { mode: 'timestamp' }).notNull(),
+	endedAt: integer('ended_at', { mode: 'timestamp' }),
+	pumpSeconds: integer('pump_seconds').default(0).notNull(),
+	cycles: integer('cycles').default(0).notNull(),
+	levelBefore: real('level_before'),
+	levelAfter: real('level_after'),
+	// From the level change and the reservoir, null without either
+	liters: real('liters')
+}, (table) => [
+	index('irrigation_run_device_time_idx').on(table.deviceId, table.startedAt),
+	index('irrigation_run_program_time_idx').on(table.programId, table.startedAt)
+]);
+
+// Water usage ledger: every pump run seen in the telemetry, whoever switched the pump (see services/waterUsage.ts)
+export const pumpRunTable = sqliteTable("pump_run", {
+	id: integer('id').primaryKey({ autoIncrement: true }),
+	deviceId: text('device_id').notNull().references(() => deviceTable.id, { onDelete: 'cascade' }),
+	actuator: text('actuator', { enum: PUMPS }).notNull(),
+	startedAt: integer('started_at', { mode: 'timestamp' }).notNull(),
+	endedAt: integer('ended_at', { mode: 'timestamp' }).notNull(),
+	// Water level (ultrasonic distance) right before the pump started and right after it stopped
+	distanceBefore: real('distance_before'),
+	distanceAfter: real('distance_after'),
+	// Estimated from the level change with the reservoir at the time, null without either
+	liters: real('liters'),
+	// Set when the run was a cycle of an irrigation program
+	irrigationRunId: integer('irrigation_run_id').references(() => irrigationRunTable.id, { onDelete: 'set null' })
+}, (table) => [
+	uniqueIndex('pump_run_idx').on(table.deviceId, table.actuator, table.startedAt)
+]);
+
+
+/* AUDIT */
+
+// Every command sent through services/deviceCommands.ts, kept when the device or user is deleted
+export const auditLogTable = sqliteTable("audit_log", {
+	id: integer('id').primaryKey({ autoIncrement: true }),
+	// Null for automations, and once the user is deleted
+	userId: text('user_id').references(() => userTable.id, { onDelete: 'set null' }),
+	deviceId: text('device_id').notNull(),
+	// See CommandSource in services/deviceCommands.ts
+	source: text('source', { enum: ['manual', 'rule', 'schedule', 'irrigation', 'interlock'] }).notNull(),
+	actuator: text('actuator', { enum: [...RELAY_ACTUATORS, 'stepper'] }).notNull(),
+	command: text('command', { mode: 'json' }).$type<DeviceCommand>().notNull(),
+	success: integer('success', { mode: 'boolean' }).notNull(),
+	// Firmware response text, or the error when the command failed
+	response: text('response').notNull(),
+	// Round trip to the board, null when the command was rejected before it was sent
+	latencyMs: integer('latency_ms'),
+	createdAt: integer('created_at', { mode: 'timestamp' }).$defaultFn(() => /* @__PURE__ */ new Date()).notNull()
+}, (table) => [
+	index('audit_log_device_time_idx').on(table.deviceId, table.createdAt),
+	index('audit_log_time_idx').on(table.createdAt)
+]);
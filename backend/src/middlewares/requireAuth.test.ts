@@ -0,0 +1,116 @@
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import app from "../app";
+import { db } from "../drizzle";
+import { userTable } from "../drizzle/schema";
+import { createApiKey, revokeApiKey } from "../services/apiKeys";
+import { ApiKeyScope } from "../utils/permissions";
+import { addDevice } from "../test/fixtures";
+
+/*
+ * API keys through the real routes: requireAuth authenticates them, requirePermission and
+ * the key's scope decide what they may do.
+ */
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = app.listen(0);
+  await new Promise<void>((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  // Keys act as this owner, so anything refused below is refused by the key's scope
+  db.insert(userTable).values({ id: "owner", name: "Owner", email: "owner@greenhouse.test", role: "owner" }).run();
+});
+
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+const addKey = (scope: ApiKeyScope, changes: Partial<Parameters<typeof createApiKey>[1]> = {}) =>
+  createApiKey("owner", { name: "Script", scope, rateLimitPerMinute: 120, expiresAt: null, ...changes });
+
+const request = (key: string, path: string, init: { method?: string; body?: unknown } = {}) =>
+  fetch(`${baseUrl}${path}`, {
+    method: init.method ?? "GET",
+    headers: { Authorization: `Bearer ${key}`, "Content-Type": "application/json" },
+    body: init.body === undefined ? undefined : JSON.stringify(init.body),
+  });
+
+describe("API key requests", () => {
+  it("lets a valid key read, with its rate limit in the headers", async () => {
+    const { key } = addKey("read");
+
+    const res = await request(key, "/api/audit");
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("X-RateLimit-Limit")).toBe("120");
+    expect(res.headers.get("X-RateLimit-Remaining")).toBe("119");
+  });
+
+  it("answers 401 to revoked and expired keys", async () => {
+    const revoked = addKey("admin");
+    revokeApiKey("owner", revoked.id);
+    const expired = addKey("admin", { expiresAt: new Date(Date.now() - 1000) });
+
+    expect((await request(revoked.key, "/api/audit")).status).toBe(401);
+    const res = await request(expired.key, "/api/audit");
+    expect(res.status).toBe(401);
+    expect(await res.json()).toEqual({ error: "API key has expired" });
+  });
+
+  it("answers 403 to a read key that tries to write", async () => {
+    const { id } = addDevice();
+    const { key } = addKey("read");
+
+    const res = await request(key, `/api/devices/${id}/commands`, {
+      method: "POST",
+      body: { actuator: "fan", state: true },
+    });
+
+    expect(res.status).toBe(403);
+    expect(await res.json()).toEqual({ error: "This API key can only read" });
+  });
+
+  it("keeps a control key out of automation and device management, whatever its owner's role", async () => {
+    const { id } = addDevice();
+    const { key } = addKey("control");
+
+    const rule = await request(key, "/api/rules", {
+      method: "POST",
+      body: { deviceId: id, name: "Cool down" },
+    });
+    const device = await request(key, "/api/devices", {
+      method: "POST",
+      body: { id: "shed", name: "Shed", baseUrl: "http://shed.test" },
+    });
+
+    expect(rule.status).toBe(403);
+    expect(device.status).toBe(403);
+    expect(await device.json()).toEqual({ error: "Your role does not allow this" });
+  });
+
+  it("answers 429 with Retry-After once the key is over its rate limit", async () => {
+    const { key } = addKey("read", { rateLimitPerMinute: 2 });
+
+    await request(key, "/api/audit");
+    await request(key, "/api/audit");
+    const res = await request(key, "/api/audit");
+
+    expect(res.status).toBe(429);
+    expect(Number(res.headers.get("Retry-After"))).toBeGreaterThan(0);
+    expect(Number(res.headers.get("Retry-After"))).toBeLessThanOrEqual(60);
+  });
+
+  it("refuses to manage API keys with an API key, even an admin one", async () => {
+    const { key } = addKey("admin");
+
+    const list = await request(key, "/api/keys");
+    const create = await request(key, "/api/keys", { method: "POST", body: { name: "Another", scope: "admin" } });
+
+    expect(list.status).toBe(403);
+    expect(create.status).toBe(403);
+    expect(await list.json()).toEqual({ error: "API keys cannot manage API keys" });
+  });
+});
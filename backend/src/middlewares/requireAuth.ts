@@ -1,6 +1,40 @@
 import { auth } from "../utils/auth";
+import { API_KEY_MARKER, ApiKeyError, authenticateApiKey } from "../services/apiKeys";
+
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+// Scripts send `Authorization: Bearer gh_...`, the dashboard its session cookie
+const apiKeyFrom = (req: any): string | undefined => {
+    const [type, token] = (req.headers.authorization ?? '').split(' ');
+    return type === 'Bearer' && token?.startsWith(API_KEY_MARKER) ? token : undefined;
+};
+
+const requireApiKey = (req: any, res: any, next: any, token: string) => {
+    try {
+        const { user, key, rateLimit } = authenticateApiKey(token, req.ip);
+
+        res.set('X-RateLimit-Limit', String(rateLimit.limit));
+        res.set('X-RateLimit-Remaining', String(rateLimit.remaining));
+
+        if (key.scope === 'read' && !READ_METHODS.includes(req.method)) {
+            return res.status(403).json({ error: 'This API key can only read' });
+        }
+
+        req.user = user;
+        req.apiKey = key;
+        next();
+    } catch (error) {
+        if (!(error instanceof ApiKeyError)) throw error;
+
+        if (error.retryAfter !== undefined) res.set('Retry-After', String(error.retryAfter));
+        return res.status(error.status).json({ error: error.message });
+    }
+};
 
 const requireAuth = async (req: any, res: any, next: any) => {
+    const apiKey = apiKeyFrom(req);
+    if (apiKey) return requireApiKey(req, res, next, apiKey);
+
     try {
         const session = await auth.api.getSession({
             headers: req.headers,
@@ -17,4 +51,4 @@ const requireAuth = async (req: any, res: any, next: any) => {
     }
 };
 
-export default requireAuth;
\ No newline at end of file
+export default requireAuth;
@@ -0,0 +1,25 @@
+import { can } from "../services/access";
+import { Permission } from "../utils/permissions";
+
+type DeviceIdResolver = (req: any) => string | undefined;
+
+// Most write routes carry the target device in the body (POST) or the query string
+const deviceIdFromRequest: DeviceIdResolver = (req) => {
+    const deviceId = req.body?.deviceId ?? req.query?.deviceId;
+    return typeof deviceId === 'string' ? deviceId : undefined;
+};
+
+/*
+ * Runs after requireAuth. The user's role on the resolved device (or their global role
+ * when no device applies) must grant the permission, otherwise the request gets a 403.
+ */
+const requirePermission = (permission: Permission, resolveDeviceId: DeviceIdResolver = deviceIdFromRequest) =>
+    (req: any, res: any, next: any) => {
+        if (!can(req.user, permission, resolveDeviceId(req))) {
+            return res.status(403).json({ error: 'Your role does not allow this' });
+        }
+
+        next();
+    };
+
+export default requirePermission;
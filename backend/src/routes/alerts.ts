@@ -0,0 +1,211 @@
+import { Router } from "express";
+import { and, desc, eq } from "drizzle-orm";
+import { z } from "zod";
+
+import requireAuth from "../middlewares/requireAuth";
+import requirePermission from "../middlewares/requirePermission";
+import { db } from "../drizzle";
+import { alertDefinitionTable, alertTable } from "../drizzle/schema";
+import { getDevice } from "../services/deviceRegistry";
+import { resolveAlerts } from "../services/alerting";
+import { notifyUser } from "../services/notifications";
+import { SENSORS } from "../utils/sensors";
+
+const router = Router();
+
+const definitionFields = z.object({
+  name: z.string().trim().min(1).max(100),
+  sensor: z.enum(SENSORS),
+  minValue: z.number().nullable().default(null),
+  maxValue: z.number().nullable().default(null),
+  severity: z.enum(["warning", "critical"]).default("warning"),
+  debounceSeconds: z.number().int().min(0).max(24 * 60 * 60).default(60),
+  enabled: z.boolean().default(true),
+  // The range then comes from the greenhouse's crop stage, minValue/maxValue are ignored
+  followCropProfile: z.boolean().default(false),
+  // Fire on the sensor's anomalies instead, the range is then ignored
+  watchAnomalies: z.boolean().default(false),
+});
+
+const hasValidRange = (range: { minValue?: number | null; maxValue?: number | null }) =>
+  range.minValue == null || range.maxValue == null || range.minValue < range.maxValue;
+
+const hasBounds = (definition: {
+  minValue?: number | null;
+  maxValue?: number | null;
+  followCropProfile?: boolean;
+  watchAnomalies?: boolean;
+}) =>
+  !!definition.followCropProfile ||
+  !!definition.watchAnomalies ||
+  definition.minValue != null ||
+  definition.maxValue != null;
+
+const definitionSchema = definitionFields
+  .extend({ deviceId: z.string().refine((id) => !!getDevice(id), "Unknown device") })
+  .refine(hasBounds, "Set a minimum or a maximum, or watch anomalies")
+  .refine(hasValidRange, "Minimum must be below maximum");
+
+const WATCH_FIELDS = [
+  "sensor",
+  "minValue",
+  "maxValue",
+  "debounceSeconds",
+  "enabled",
+  "followCropProfile",
+  "watchAnomalies",
+] as const;
+
+const ALERT_LIMIT = 100;
+
+router.use(requireAuth);
+
+const definitionDeviceId = (req: any) =>
+  db
+    .select()
+    .from(alertDefinitionTable)
+    .where(eq(alertDefinitionTable.id, Number(req.params.definitionId)))
+    .get()?.deviceId;
+
+const alertDeviceId = (req: any) =>
+  db.select().from(alertTable).where(eq(alertTable.id, Number(req.params.alertId))).get()?.deviceId;
+
+// ?deviceId=main
+router.get("/definitions", (req, res) => {
+  const deviceId = typeof req.query.deviceId === "string" ? req.query.deviceId : undefined;
+
+  const definitions = db
+    .select()
+    .from(alertDefinitionTable)
+    .where(deviceId ? eq(alertDefinitionTable.deviceId, deviceId) : undefined)
+    .orderBy(alertDefinitionTable.id)
+    .all();
+
+  res.json(definitions);
+});
+
+router.post("/definitions", requirePermission("automation:manage"), (req: any, res) => {
+  const parsed = definitionSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid alert definition", details: parsed.error.flatten() });
+    return;
+  }
+
+  const definition = db
+    .insert(alertDefinitionTable)
+    .values({ ...parsed.data, createdBy: req.user.id })
+    .returning()
+    .get();
+
+  res.status(201).json(definition);
+});
+
+router.patch("/definitions/:definitionId", requirePermission("automation:manage", definitionDeviceId), (req, res) => {
+  const id = Number(req.params.definitionId);
+  const existing = db.select().from(alertDefinitionTable).where(eq(alertDefinitionTable.id, id)).get();
+  if (!existing) {
+    res.status(404).json({ error: "Alert definition not found" });
+    return;
+  }
+
+  const parsed = definitionFields.partial().safeParse(req.body);
+  if (!parsed.success || !hasValidRange({ ...existing, ...parsed.data }) || !hasBounds({ ...existing, ...parsed.data })) {
+    res.status(400).json({ error: "Invalid alert definition", details: parsed.error?.flatten() });
+    return;
+  }
+
+  // Changing what is watched starts the state machine over and closes open alerts
+  const now = new Date();
+  const resetsState = WATCH_FIELDS.some((field) => parsed.data[field] !== undefined);
+  if (resetsState) resolveAlerts(id, now);
+
+  const updated = db
+    .update(alertDefinitionTable)
+    .set({ ...parsed.data, ...(resetsState && { state: "ok" as const, stateSince: null }), updatedAt: now })
+    .where(eq(alertDefinitionTable.id, id))
+    .returning()
+    .get();
+
+  res.json(updated);
+});
+
+router.delete("/definitions/:definitionId", requirePermission("automation:manage", definitionDeviceId), (req, res) => {
+  const deleted = db
+    .delete(alertDefinitionTable)
+    .where(eq(alertDefinitionTable.id, Number(req.params.definitionId)))
+    .returning()
+    .get();
+
+  if (!deleted) {
+    res.status(404).json({ error: "Alert definition not found" });
+    return;
+  }
+
+  res.status(204).end();
+});
+
+// Sends a sample notification to the signed-in user's own channels
+router.post("/notifications/test", async (req: any, res) => {
+  const results = await notifyUser(req.user, {
+    event: "test",
+    alert: {
+      id: null,
+      name: "Test notification",
+      deviceId: "-",
+      sensor: "-",
+      severity: "warning",
+      message: "This is a test of your greenhouse alert channels.",
+      value: null,
+      firedAt: new Date(),
+      resolvedAt: null,
+    },
+  });
+
+  if (results.length === 0) {
+    res.status(400).json({ error: "No notification channels enabled" });
+    return;
+  }
+
+  res.json(results);
+});
+
+// ?deviceId=main&status=firing
+router.get("/", (req, res) => {
+  const deviceId = typeof req.query.deviceId === "string" ? req.query.deviceId : undefined;
+  const status = req.query.status === "firing" || req.query.status === "resolved" ? req.query.status : undefined;
+
+  const alerts = db
+    .select({ alert: alertTable, definitionName: alertDefinitionTable.name })
+    .from(alertTable)
+    .innerJoin(alertDefinitionTable, eq(alertTable.definitionId, alertDefinitionTable.id))
+    .where(
+      and(
+        deviceId ? eq(alertTable.deviceId, deviceId) : undefined,
+        status ? eq(alertTable.status, status) : undefined
+      )
+    )
+    .orderBy(desc(alertTable.firedAt))
+    .limit(ALERT_LIMIT)
+    .all()
+    .map(({ alert, definitionName }) => ({ ...alert, definitionName }));
+
+  res.json(alerts);
+});
+
+router.post("/:alertId/acknowledge", requirePermission("alerts:acknowledge", alertDeviceId), (req: any, res) => {
+  const acknowledged = db
+    .update(alertTable)
+    .set({ acknowledgedAt: new Date(), acknowledgedBy: req.user.id })
+    .where(eq(alertTable.id, Number(req.params.alertId)))
+    .returning()
+    .get();
+
+  if (!acknowledged) {
+    res.status(404).json({ error: "Alert not found" });
+    return;
+  }
+
+  res.json(acknowledged);
+});
+
+export default router;
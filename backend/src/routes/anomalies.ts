@@ -0,0 +1,41 @@
+import { Router } from "express";
+import { z } from "zod";
+
+import requireAuth from "../middlewares/requireAuth";
+import { getDevice } from "../services/deviceRegistry";
+import { listAnomalies } from "../services/anomalyDetection";
+import { SENSORS } from "../utils/sensors";
+
+const router = Router();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ?deviceId=main&sensor=distance&from=2025-08-01&to=2025-08-08, the last week by default
+const anomalyQuerySchema = z
+  .object({
+    deviceId: z.string().refine((id) => !!getDevice(id), "Unknown device"),
+    sensor: z.enum(SENSORS).optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+  })
+  .transform(({ from, to, ...query }) => {
+    const end = to ?? new Date();
+    return { ...query, to: end, from: from ?? new Date(end.getTime() - 7 * DAY_MS) };
+  })
+  .refine(({ from, to }) => from < to, "from must be before to");
+
+router.use(requireAuth);
+
+// Anomalies overlapping the period, newest first, including the ones still open
+router.get("/", (req, res) => {
+  const parsed = anomalyQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid anomaly query", details: parsed.error.flatten() });
+    return;
+  }
+
+  const { deviceId, ...query } = parsed.data;
+  res.json(listAnomalies(deviceId, query));
+});
+
+export default router;
@@ -0,0 +1,91 @@
+import { Router } from "express";
+import { z } from "zod";
+
+import requireAuth from "../middlewares/requireAuth";
+import { countAuditLog, queryAuditLog } from "../services/auditLog";
+import { RELAY_ACTUATORS } from "../services/esp32Client";
+import { toCsv } from "../utils/csv";
+
+const router = Router();
+
+const EXPORT_LIMIT = 10000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// `to` is exclusive; a plain date (2025-01-31) still covers that whole UTC day
+const rangeEnd = z.preprocess(
+  (value) => (typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(Date.parse(value) + DAY_MS) : value),
+  z.coerce.date()
+);
+
+// ?deviceId=main&source=manual&actuator=pump1&success=false&from=2025-01-01&to=2025-01-31
+const filterSchema = z.object({
+  deviceId: z.string().optional(),
+  userId: z.string().optional(),
+  source: z.enum(["manual", "rule", "schedule", "irrigation", "interlock"]).optional(),
+  actuator: z.enum([...RELAY_ACTUATORS, "stepper"]).optional(),
+  success: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+  from: z.coerce.date().optional(),
+  to: rangeEnd.optional(),
+});
+
+const pageSchema = filterSchema.extend({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+// Relay commands become ON/OFF, stepper commands keep their action (and distance or vent percentage)
+const describeRequest = (command: { state?: boolean; action?: string; distance?: number; percent?: number }) => {
+  if (command.state !== undefined) return command.state ? "ON" : "OFF";
+  if (command.percent !== undefined) return `${command.action} ${command.percent}%`;
+  return command.distance ? `${command.action} ${command.distance}mm` : command.action;
+};
+
+router.use(requireAuth);
+
+router.get("/", (req, res) => {
+  const parsed = pageSchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid audit query", details: parsed.error.flatten() });
+    return;
+  }
+
+  const { page, pageSize, ...filters } = parsed.data;
+
+  res.json({
+    entries: queryAuditLog(filters, pageSize, (page - 1) * pageSize),
+    total: countAuditLog(filters),
+    page,
+    pageSize,
+  });
+});
+
+// Same filters as above, newest EXPORT_LIMIT entries as a CSV download
+router.get("/export.csv", (req, res) => {
+  const parsed = filterSchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid audit query", details: parsed.error.flatten() });
+    return;
+  }
+
+  const rows = queryAuditLog(parsed.data, EXPORT_LIMIT).map((entry) => [
+    entry.createdAt,
+    entry.deviceId,
+    entry.source,
+    entry.userName ?? "",
+    entry.userEmail ?? "",
+    entry.actuator,
+    describeRequest(entry.command),
+    entry.success,
+    entry.response,
+    entry.latencyMs,
+  ]);
+
+  const header = ["time", "device", "source", "user", "email", "actuator", "requested", "success", "response", "latency_ms"];
+
+  res.setHeader("Content-Type", "text/csv; charset=utf-8");
+  res.setHeader("Content-Disposition", `attachment; filename="audit-log-${new Date().toISOString().slice(0, 10)}.csv"`);
+  res.send(toCsv(header, rows));
+});
+
+export default router;
@@ -0,0 +1,159 @@
+import { Router } from "express";
+import { z } from "zod";
+
+import requireAuth from "../middlewares/requireAuth";
+import requirePermission from "../middlewares/requirePermission";
+import {
+  activateCalibration,
+  CalibrationError,
+  CalibrationPoint,
+  deactivateCalibration,
+  fitCalibration,
+  getCalibration,
+  listCalibrations,
+  sampleRawReading,
+  saveCalibration,
+} from "../services/calibration";
+import { getDevice } from "../services/deviceRegistry";
+import { Esp32Error } from "../services/esp32Client";
+import { transportFor } from "../services/deviceTransport";
+import { CALIBRATED_SENSORS, CalibratedSensor } from "../utils/sensors";
+
+const router = Router();
+
+// What a reference can sensibly be: pH buffers span 0-14, MQ135 references are ppm
+const REFERENCE_RANGES: Record<CalibratedSensor, { min: number; max: number }> = {
+  ph: { min: 0, max: 14 },
+  mq135: { min: 0, max: 10000 },
+};
+
+const targetSchema = z.object({
+  deviceId: z.string().refine((id) => !!getDevice(id), "Unknown device"),
+  sensor: z.enum(CALIBRATED_SENSORS),
+});
+
+const pointsInRange = ({ sensor, points }: { sensor: CalibratedSensor; points: CalibrationPoint[] }) =>
+  points.every(({ reference }) => reference >= REFERENCE_RANGES[sensor].min && reference <= REFERENCE_RANGES[sensor].max);
+
+const distinctReferences = ({ points }: { points: CalibrationPoint[] }) =>
+  new Set(points.map((point) => point.reference)).size === points.length;
+
+// Two or three points: e.g. pH 7.00 and 4.01 buffers, optionally 10.01
+const calibrationSchema = targetSchema
+  .extend({
+    points: z
+      .array(z.object({ raw: z.number().min(0).max(4095), reference: z.number() }))
+      .min(2)
+      .max(3),
+  })
+  .refine(pointsInRange, "Reference value out of range for this sensor")
+  .refine(distinctReferences, "Use a different reference for every point");
+
+router.use(requireAuth);
+
+const calibrationDeviceId = (req: any) => getCalibration(Number(req.params.calibrationId))?.deviceId;
+
+const sendCalibrationError = (res: any, error: unknown) => {
+  if (error instanceof Esp32Error) {
+    res.status(502).json({ error: error.message });
+    return;
+  }
+  if (error instanceof CalibrationError) {
+    res.status(400).json({ error: error.message });
+    return;
+  }
+  throw error;
+};
+
+// ?deviceId=main&sensor=ph -> the active calibration per sensor and the full history, newest first
+router.get("/", (req, res) => {
+  const parsed = targetSchema.partial({ sensor: true }).safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid calibration query", details: parsed.error.flatten() });
+    return;
+  }
+
+  const history = listCalibrations(parsed.data.deviceId, parsed.data.sensor);
+  const active = Object.fromEntries(
+    CALIBRATED_SENSORS.map((sensor) => [
+      sensor,
+      history.find((calibration) => calibration.sensor === sensor && calibration.active) ?? null,
+    ])
+  );
+
+  res.json({ active, history });
+});
+
+// Wizard step: averages a few raw readings while the probe sits in a buffer solution
+router.get("/raw", requirePermission("calibration:manage"), async (req, res) => {
+  const parsed = targetSchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid calibration query", details: parsed.error.flatten() });
+    return;
+  }
+
+  const { deviceId, sensor } = parsed.data;
+
+  try {
+    const reading = await sampleRawReading(transportFor(getDevice(deviceId)!), sensor);
+    res.json({ sensor, ...reading });
+  } catch (error) {
+    sendCalibrationError(res, error);
+  }
+});
+
+// Wizard review step: the line the points would produce, nothing is stored
+router.post("/fit", requirePermission("calibration:manage"), (req, res) => {
+  const parsed = calibrationSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid calibration", details: parsed.error.flatten() });
+    return;
+  }
+
+  try {
+    res.json(fitCalibration(parsed.data.points));
+  } catch (error) {
+    sendCalibrationError(res, error);
+  }
+});
+
+router.post("/", requirePermission("calibration:manage"), (req: any, res) => {
+  const parsed = calibrationSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid calibration", details: parsed.error.flatten() });
+    return;
+  }
+
+  const { deviceId, sensor, points } = parsed.data;
+
+  try {
+    res.status(201).json(saveCalibration(deviceId, sensor, points, req.user.id));
+  } catch (error) {
+    sendCalibrationError(res, error);
+  }
+});
+
+// Roll back to an earlier calibration
+router.post("/:calibrationId/activate", requirePermission("calibration:manage", calibrationDeviceId), (req, res) => {
+  const calibration = getCalibration(Number(req.params.calibrationId));
+  if (!calibration) {
+    res.status(404).json({ error: "Calibration not found" });
+    return;
+  }
+
+  res.json(activateCalibration(calibration));
+});
+
+// ?deviceId=main&sensor=ph -> report raw ADC counts again, the history is kept
+router.delete("/active", requirePermission("calibration:manage"), (req, res) => {
+  const parsed = targetSchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid calibration query", details: parsed.error.flatten() });
+    return;
+  }
+
+  deactivateCalibration(parsed.data.deviceId, parsed.data.sensor);
+  res.status(204).end();
+});
+
+export default router;
@@ -0,0 +1,153 @@
+import fs from "fs";
+import { Router } from "express";
+import { z } from "zod";
+
+import requireAuth from "../middlewares/requireAuth";
+import requirePermission from "../middlewares/requirePermission";
+import { getDevice } from "../services/deviceRegistry";
+import {
+  captureSnapshot,
+  deleteSnapshot,
+  getSnapshot,
+  listSnapshots,
+  listTimelapseFrames,
+  snapshotPath,
+  SnapshotError,
+} from "../services/snapshots";
+
+const router = Router();
+
+const MJPEG_BOUNDARY = "timelapse";
+
+const deviceSchema = z.object({
+  deviceId: z.string().refine((id) => !!getDevice(id), "Unknown device"),
+});
+
+// ?deviceId=main&from=2025-08-31&to=2025-09-01&page=1&pageSize=24
+const gallerySchema = deviceSchema.extend({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(24),
+});
+
+// ?deviceId=main&from=...&to=...&fps=10&maxFrames=300&download=true
+const timelapseSchema = deviceSchema
+  .extend({
+    from: z.coerce.date(),
+    to: z.coerce.date(),
+    fps: z.coerce.number().min(1).max(30).default(10),
+    maxFrames: z.coerce.number().int().min(2).max(2000).default(300),
+    download: z.enum(["true", "false"]).transform((value) => value === "true").default("false"),
+  })
+  .refine(({ from, to }) => from < to, { message: "The time-lapse must end after it starts", path: ["to"] });
+
+const snapshotDeviceId = (req: any) => getSnapshot(Number(req.params.snapshotId))?.deviceId;
+
+router.use(requireAuth);
+
+router.get("/snapshots", (req, res) => {
+  const parsed = gallerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid snapshot query", details: parsed.error.flatten() });
+    return;
+  }
+
+  const { deviceId, from, to, page, pageSize } = parsed.data;
+  res.json({ ...listSnapshots(deviceId, { from, to, limit: pageSize, offset: (page - 1) * pageSize }), page, pageSize });
+});
+
+// Grabs a frame from the stream right now, next to the scheduled captures
+router.post("/snapshots", requirePermission("devices:control"), async (req: any, res) => {
+  const parsed = deviceSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid snapshot request", details: parsed.error.flatten() });
+    return;
+  }
+
+  try {
+    res.status(201).json(await captureSnapshot(getDevice(parsed.data.deviceId)!, "manual", req.user.id));
+  } catch (error) {
+    if (error instanceof SnapshotError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    throw error;
+  }
+});
+
+// The JPEG itself, for <img> tags: the session cookie is all the authentication it needs
+router.get("/snapshots/:snapshotId/image", (req, res) => {
+  const snapshot = getSnapshot(Number(req.params.snapshotId));
+  if (!snapshot || !fs.existsSync(snapshotPath(snapshot))) {
+    res.status(404).json({ error: "Snapshot not found" });
+    return;
+  }
+
+  // Stored frames never change, browsers may keep them
+  res.setHeader("Cache-Control", "private, max-age=86400, immutable");
+  res.type("image/jpeg").sendFile(snapshotPath(snapshot));
+});
+
+router.delete("/snapshots/:snapshotId", requirePermission("devices:manage", snapshotDeviceId), async (req, res) => {
+  const snapshot = getSnapshot(Number(req.params.snapshotId));
+  if (!snapshot) {
+    res.status(404).json({ error: "Snapshot not found" });
+    return;
+  }
+
+  await deleteSnapshot(snapshot);
+  res.status(204).end();
+});
+
+/*
+ * The snapshots between two dates as Motion JPEG. By default a multipart/x-mixed-replace
+ * stream paced at fps, which an <img> tag plays like the live camera; with download=true the
+ * frames back to back in a .mjpeg file (e.g. ffmpeg -framerate 10 -i timelapse.mjpeg out.mp4).
+ */
+router.get("/timelapse", async (req, res) => {
+  const parsed = timelapseSchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid time-lapse query", details: parsed.error.flatten() });
+    return;
+  }
+
+  const { deviceId, from, to, fps, maxFrames, download } = parsed.data;
+  const frames = listTimelapseFrames(deviceId, from, to, maxFrames).filter((frame) => fs.existsSync(snapshotPath(frame)));
+  if (frames.length === 0) {
+    res.status(404).json({ error: "No snapshots in this time range" });
+    return;
+  }
+
+  if (download) {
+    const day = (date: Date) => date.toISOString().slice(0, 10);
+    res.setHeader("Content-Type", "video/x-motion-jpeg");
+    res.setHeader("Content-Disposition", `attachment; filename="timelapse-${deviceId}-${day(from)}-${day(to)}.mjpeg"`);
+    for (const frame of frames) res.write(await fs.promises.readFile(snapshotPath(frame)));
+    res.end();
+    return;
+  }
+
+  let closed = false;
+  req.on("close", () => {
+    closed = true;
+  });
+
+  res.setHeader("Content-Type", `multipart/x-mixed-replace; boundary=${MJPEG_BOUNDARY}`);
+  res.setHeader("Cache-Control", "no-cache");
+
+  for (const frame of frames) {
+    if (closed) return;
+
+    const data = await fs.promises.readFile(snapshotPath(frame));
+    res.write(`--${MJPEG_BOUNDARY}\r\nContent-Type: image/jpeg\r\nContent-Length: ${data.length}\r\n\r\n`);
+    res.write(data);
+    res.write("\r\n");
+    await new Promise((resolve) => setTimeout(resolve, 1000 / fps));
+  }
+
+  // The last frame stays on screen once the stream ends
+  res.end(`--${MJPEG_BOUNDARY}--\r\n`);
+});
+
+export default router;
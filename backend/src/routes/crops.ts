@@ -0,0 +1,153 @@
+import { Router } from "express";
+import { z } from "zod";
+
+import requireAuth from "../middlewares/requireAuth";
+import requirePermission from "../middlewares/requirePermission";
+import {
+  clearActiveCrop,
+  createCropProfile,
+  CropProfileError,
+  deleteCropProfile,
+  getActiveCrop,
+  getOptimalRanges,
+  listCropProfiles,
+  setActiveCrop,
+  updateCropProfile,
+} from "../services/cropProfiles";
+import { getDevice } from "../services/deviceRegistry";
+import { Sensor, SENSOR_RANGES, SENSORS } from "../utils/sensors";
+
+const router = Router();
+
+const rangeSchema = (sensor: Sensor) =>
+  z
+    .object({
+      min: z.number().min(SENSOR_RANGES[sensor].min).max(SENSOR_RANGES[sensor].max),
+      max: z.number().min(SENSOR_RANGES[sensor].min).max(SENSOR_RANGES[sensor].max),
+    })
+    .refine(({ min, max }) => min < max, { message: "Minimum must be below maximum", path: ["max"] });
+
+// A sensor left out of a stage keeps the default range
+const stageSchema = z.object({
+  name: z.string().trim().min(1).max(50),
+  days: z.number().int().min(1).max(365),
+  ranges: z
+    .object(Object.fromEntries(SENSORS.map((sensor) => [sensor, rangeSchema(sensor).optional()])) as {
+      [S in Sensor]: z.ZodOptional<ReturnType<typeof rangeSchema>>;
+    })
+    .strict(),
+});
+
+const profileFields = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().trim().max(500).nullable().default(null),
+  stages: z.array(stageSchema).min(1).max(12),
+});
+
+const activeCropSchema = z.object({
+  deviceId: z.string().refine((id) => !!getDevice(id), "Unknown device"),
+  profileId: z.number().int(),
+  // Defaults to now, i.e. the first stage starts today
+  startedAt: z.coerce.date().optional(),
+});
+
+const deviceQuerySchema = z.object({
+  deviceId: z.string().refine((id) => !!getDevice(id), "Unknown device"),
+});
+
+// Profiles are shared by every greenhouse, so they follow the user's global role
+const requireProfileManage = requirePermission("automation:manage", () => undefined);
+
+const sendCropProfileError = (res: any, error: unknown) => {
+  if (error instanceof CropProfileError) {
+    res.status(error.status).json({ error: error.message });
+    return;
+  }
+  throw error;
+};
+
+router.use(requireAuth);
+
+router.get("/profiles", (_req, res) => {
+  res.json(listCropProfiles());
+});
+
+router.post("/profiles", requireProfileManage, (req: any, res) => {
+  const parsed = profileFields.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid crop profile", details: parsed.error.flatten() });
+    return;
+  }
+
+  try {
+    res.status(201).json(createCropProfile(parsed.data, req.user.id));
+  } catch (error) {
+    sendCropProfileError(res, error);
+  }
+});
+
+router.patch("/profiles/:profileId", requireProfileManage, (req, res) => {
+  const parsed = profileFields.partial().safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid crop profile", details: parsed.error.flatten() });
+    return;
+  }
+
+  try {
+    res.json(updateCropProfile(Number(req.params.profileId), parsed.data));
+  } catch (error) {
+    sendCropProfileError(res, error);
+  }
+});
+
+router.delete("/profiles/:profileId", requireProfileManage, (req, res) => {
+  try {
+    deleteCropProfile(Number(req.params.profileId));
+    res.status(204).end();
+  } catch (error) {
+    sendCropProfileError(res, error);
+  }
+});
+
+// ?deviceId=main -> the crop and its current stage (null without one) and the optimal ranges in effect
+router.get("/active", (req, res) => {
+  const parsed = deviceQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid crop query", details: parsed.error.flatten() });
+    return;
+  }
+
+  const { deviceId } = parsed.data;
+  res.json({ crop: getActiveCrop(deviceId), ranges: getOptimalRanges(deviceId) });
+});
+
+// Planting a crop changes what alerts and automations aim for, like editing them does
+router.put("/active", requirePermission("automation:manage"), (req, res) => {
+  const parsed = activeCropSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid crop", details: parsed.error.flatten() });
+    return;
+  }
+
+  const { deviceId, profileId, startedAt } = parsed.data;
+  try {
+    const crop = setActiveCrop(deviceId, profileId, startedAt ?? new Date());
+    res.json({ crop, ranges: crop.ranges });
+  } catch (error) {
+    sendCropProfileError(res, error);
+  }
+});
+
+// ?deviceId=main -> back to the default ranges
+router.delete("/active", requirePermission("automation:manage"), (req, res) => {
+  const parsed = deviceQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid crop query", details: parsed.error.flatten() });
+    return;
+  }
+
+  clearActiveCrop(parsed.data.deviceId);
+  res.status(204).end();
+});
+
+export default router;
@@ -0,0 +1,137 @@
+import express, { Router } from "express";
+import { z } from "zod";
+
+import requireAuth from "../middlewares/requireAuth";
+import requirePermission from "../middlewares/requirePermission";
+import { getDevice } from "../services/deviceRegistry";
+import { EXPORT_DATASETS, exportTable } from "../services/dataExport";
+import { importTelemetryCsv, TelemetryImportError } from "../services/telemetryImport";
+import { toCsvRows } from "../utils/csv";
+import { SENSORS } from "../utils/sensors";
+
+const router = Router();
+
+const EXPORT_FORMATS = {
+  csv: { contentType: "text/csv; charset=utf-8", extension: "csv" },
+  json: { contentType: "application/json; charset=utf-8", extension: "json" },
+  ndjson: { contentType: "application/x-ndjson; charset=utf-8", extension: "ndjson" },
+} as const;
+
+type ExportFormat = keyof typeof EXPORT_FORMATS;
+
+// ?deviceId=main&from=2025-08-01&to=2025-08-31&sensors=temperature,humidity&format=csv
+const exportQuerySchema = z.object({
+  deviceId: z
+    .string()
+    .refine((id) => !!getDevice(id), "Unknown device")
+    .optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  sensors: z
+    .string()
+    .default(SENSORS.join(","))
+    .transform((value) => value.split(",").filter(Boolean))
+    .pipe(z.array(z.enum(SENSORS)).min(1)),
+  format: z.enum(Object.keys(EXPORT_FORMATS) as [ExportFormat, ...ExportFormat[]]).default("csv"),
+});
+
+const importQuerySchema = z.object({
+  deviceId: z.string().refine((id) => !!getDevice(id), "Unknown device"),
+  dryRun: z.enum(["true", "false"]).transform((value) => value === "true").default("false"),
+});
+
+router.use(requireAuth);
+
+// Resolves once the client took the chunk, or hung up
+const write = (res: any, chunk: string) =>
+  new Promise<void>((resolve) => {
+    if (res.write(chunk)) {
+      resolve();
+      return;
+    }
+    res.once("drain", resolve);
+    res.once("close", resolve);
+  });
+
+/*
+ * Streams a whole dataset, oldest first. Sensors pick the telemetry columns and the alert
+ * rows; without deviceId every device is included.
+ */
+router.get("/export/:dataset", async (req, res) => {
+  const dataset = z.enum(EXPORT_DATASETS).safeParse(req.params.dataset);
+  const parsed = exportQuerySchema.safeParse(req.query);
+  if (!dataset.success || !parsed.success) {
+    res.status(400).json({
+      error: dataset.success ? "Invalid export query" : `Unknown dataset, use one of: ${EXPORT_DATASETS.join(", ")}`,
+      details: parsed.success ? undefined : parsed.error.flatten(),
+    });
+    return;
+  }
+
+  const { format, ...filters } = parsed.data;
+  const { columns, batches } = exportTable(dataset.data, filters);
+  const fileName = `${dataset.data}-${filters.deviceId ?? "all"}-${new Date().toISOString().slice(0, 10)}`;
+
+  res.setHeader("Content-Type", EXPORT_FORMATS[format].contentType);
+  res.setHeader("Content-Disposition", `attachment; filename="${fileName}.${EXPORT_FORMATS[format].extension}"`);
+
+  const toObject = (row: unknown[]) => Object.fromEntries(columns.map((column, index) => [column, row[index]]));
+  let first = true;
+
+  if (format === "csv") await write(res, toCsvRows([columns]));
+  if (format === "json") await write(res, "[");
+
+  for (const rows of batches) {
+    if (res.destroyed) return;
+
+    if (format === "csv") {
+      await write(res, toCsvRows(rows));
+    } else if (format === "ndjson") {
+      await write(res, rows.map((row) => JSON.stringify(toObject(row)) + "\n").join(""));
+    } else {
+      const separator = (index: number) => (first && index === 0 ? "\n" : ",\n");
+      await write(res, rows.map((row, index) => separator(index) + JSON.stringify(toObject(row))).join(""));
+      first = false;
+    }
+  }
+
+  res.end(format === "json" ? "\n]\n" : undefined);
+});
+
+/*
+ * Backfills readings from a CSV upload (Content-Type: text/csv). Nothing is stored when a
+ * row is invalid; dryRun=true only reports what would be imported.
+ */
+router.post(
+  "/import/telemetry",
+  requirePermission("devices:manage"),
+  express.text({ type: ["text/csv", "text/plain"], limit: "20mb" }),
+  (req, res) => {
+    const parsed = importQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({ error: "Invalid import query", details: parsed.error.flatten() });
+      return;
+    }
+    if (typeof req.body !== "string") {
+      res.status(415).json({ error: "Send the file as text/csv" });
+      return;
+    }
+
+    try {
+      const report = importTelemetryCsv(parsed.data.deviceId, req.body, parsed.data.dryRun);
+      if (report.errors.length > 0) {
+        res.status(400).json({ error: "Some rows are invalid, nothing was imported", ...report });
+        return;
+      }
+      res.status(parsed.data.dryRun ? 200 : 201).json(report);
+    } catch (error) {
+      if (error instanceof TelemetryImportError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      throw error;
+    }
+  }
+);
+
+export default router;
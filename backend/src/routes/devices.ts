@@ -0,0 +1,302 @@
+import { Router } from "express";
+import { eq } from "drizzle-orm";
+import { z } from "zod";
+
+import requireAuth from "../middlewares/requireAuth";
+import requirePermission from "../middlewares/requirePermission";
+import { db } from "../drizzle";
+import { deviceTable } from "../drizzle/schema";
+import { DEVICE_TRANSPORTS, toBaseUrl } from "../config/devices";
+import { roleFor } from "../services/access";
+import { calibrateStatus } from "../services/calibration";
+import { assessStatus } from "../services/dataQuality";
+import { DEVICE_CAPABILITIES, deleteDevice, getDevice, listDevices } from "../services/deviceRegistry";
+import { DeviceCommand, Esp32Error } from "../services/esp32Client";
+import { transportFor } from "../services/deviceTransport";
+import { getDeviceCommand, listDeviceCommands, queueDeviceCommand } from "../services/deviceCommands";
+import { LiveEvent, liveSnapshot, subscribeLiveEvents } from "../services/liveEvents";
+import { getSensorHistory, HISTORY_RANGES, HistoryRange } from "../services/telemetryHistory";
+import { getVentState, zeroVent } from "../services/vent";
+import { SENSORS } from "../utils/sensors";
+import { deviceCommandSchema } from "../utils/validation";
+
+const router = Router();
+
+const urlSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .transform(toBaseUrl)
+  .refine((url) => URL.canParse(url), "Invalid URL");
+
+const deviceFields = z.object({
+  name: z.string().trim().min(1).max(100),
+  location: z.string().trim().max(200).nullable().default(null),
+  transport: z.enum(DEVICE_TRANSPORTS).default("http"),
+  // Required for HTTP devices, see missingBaseUrl
+  baseUrl: urlSchema.nullable().default(null),
+  cameraUrl: urlSchema.nullable().default(null),
+  capabilities: z.array(z.enum(DEVICE_CAPABILITIES)).default([...DEVICE_CAPABILITIES]),
+});
+
+// The id ends up in URLs and every device_id column, so keep it a slug
+const deviceSchema = deviceFields.extend({
+  id: z
+    .string()
+    .regex(/^[a-z0-9][a-z0-9-]{0,49}$/, "Use lowercase letters, digits and dashes")
+    .optional(),
+});
+
+// Polling needs an address, MQTT boards come to the broker instead
+const missingBaseUrl = (device: { transport: string; baseUrl: string | null }) =>
+  device.transport === "http" && !device.baseUrl;
+
+const slugify = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 50) || "device";
+
+const COMMAND_LIST_DEFAULT = 20;
+const COMMAND_LIST_MAX = 100;
+
+// Keeps proxies from closing an idle event stream
+const EVENT_STREAM_HEARTBEAT_MS = 25000;
+
+// ?sensors=temperature,humidity&range=24h
+const historyQuerySchema = z.object({
+  sensors: z
+    .string()
+    .default(SENSORS.join(","))
+    .transform((value) => value.split(",").filter(Boolean))
+    .pipe(z.array(z.enum(SENSORS)).min(1)),
+  range: z.enum(Object.keys(HISTORY_RANGES) as [HistoryRange, ...HistoryRange[]]).default("24h"),
+});
+
+// Every device route needs a signed-in user, anything beyond reading also needs the right role
+router.use(requireAuth);
+
+const deviceIdParam = (req: any) => req.params.id;
+
+const sendDeviceError = (res: any, error: unknown) => {
+  if (error instanceof Esp32Error) {
+    // 4xx from the board (e.g. "Stepper disabled") is the caller's problem, anything else is ours
+    const status = error.status && error.status < 500 ? 400 : 502;
+    res.status(status).json({ error: error.message });
+    return;
+  }
+  throw error;
+};
+
+// Each device carries the caller's effective role on it so the UI can hide what they may not do
+router.get("/", (req: any, res) => {
+  res.json(listDevices().map((device) => ({ ...device, role: roleFor(req.user, device.id) })));
+});
+
+// Registering a device is not tied to an existing one, so the global role decides
+router.post("/", requirePermission("devices:manage", () => undefined), (req: any, res) => {
+  const parsed = deviceSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid device", details: parsed.error.flatten() });
+    return;
+  }
+
+  if (missingBaseUrl(parsed.data)) {
+    res.status(400).json({ error: "HTTP devices need a base URL" });
+    return;
+  }
+
+  const id = parsed.data.id ?? slugify(parsed.data.name);
+  if (getDevice(id)) {
+    res.status(409).json({ error: `Device ${id} already exists` });
+    return;
+  }
+
+  const device = db
+    .insert(deviceTable)
+    .values({ ...parsed.data, id, createdBy: req.user.id })
+    .returning()
+    .get();
+
+  res.status(201).json(device);
+});
+
+router.get("/:id", (req: any, res) => {
+  const device = getDevice(req.params.id);
+  if (!device) {
+    res.status(404).json({ error: "Device not found" });
+    return;
+  }
+
+  res.json({ ...device, role: roleFor(req.user, device.id) });
+});
+
+router.patch("/:id", requirePermission("devices:manage", deviceIdParam), (req, res) => {
+  const parsed = deviceFields.partial().safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid device", details: parsed.error.flatten() });
+    return;
+  }
+
+  const device = getDevice(req.params.id);
+  if (!device) {
+    res.status(404).json({ error: "Device not found" });
+    return;
+  }
+  if (missingBaseUrl({ ...device, ...parsed.data })) {
+    res.status(400).json({ error: "HTTP devices need a base URL" });
+    return;
+  }
+
+  const updated = db
+    .update(deviceTable)
+    .set({ ...parsed.data, updatedAt: new Date() })
+    .where(eq(deviceTable.id, device.id))
+    .returning()
+    .get();
+
+  res.json(updated);
+});
+
+router.delete("/:id", requirePermission("devices:manage", deviceIdParam), (req, res) => {
+  if (!deleteDevice(req.params.id)) {
+    res.status(404).json({ error: "Device not found" });
+    return;
+  }
+
+  res.status(204).end();
+});
+
+router.get("/:id/status", async (req, res) => {
+  const device = getDevice(req.params.id);
+  if (!device) {
+    res.status(404).json({ error: "Device not found" });
+    return;
+  }
+
+  try {
+    const status = calibrateStatus(device.id, await transportFor(device).getStatus());
+    // Judged like a stored reading, without becoming the one the next is compared with
+    res.json(assessStatus(device.id, status, false));
+  } catch (error) {
+    sendDeviceError(res, error);
+  }
+});
+
+// Most recent commands first, ?limit=20
+router.get("/:id/commands", (req, res) => {
+  if (!getDevice(req.params.id)) {
+    res.status(404).json({ error: "Device not found" });
+    return;
+  }
+
+  const limit = Math.min(Number(req.query.limit) || COMMAND_LIST_DEFAULT, COMMAND_LIST_MAX);
+  res.json(listDeviceCommands(req.params.id, limit));
+});
+
+router.get("/:id/commands/:commandId", (req, res) => {
+  const command = getDeviceCommand(req.params.id, Number(req.params.commandId));
+  if (!command) {
+    res.status(404).json({ error: "Command not found" });
+    return;
+  }
+
+  res.json(command);
+});
+
+// Answers 202 with the queued command, its progress follows as "command" live events
+router.post("/:id/commands", requirePermission("devices:control", deviceIdParam), (req: any, res) => {
+  if (!getDevice(req.params.id)) {
+    res.status(404).json({ error: "Device not found" });
+    return;
+  }
+
+  const parsed = deviceCommandSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid command", details: parsed.error.flatten() });
+    return;
+  }
+
+  const command: DeviceCommand = parsed.data;
+
+  try {
+    const queued = queueDeviceCommand({
+      deviceId: req.params.id,
+      command,
+      source: "manual",
+      userId: req.user.id,
+    });
+    res.status(202).json(queued);
+  } catch (error) {
+    sendDeviceError(res, error);
+  }
+});
+
+// Tracked roof vent position; move it with "position" and "home" stepper commands
+router.get("/:id/vent", (req, res) => {
+  if (!getDevice(req.params.id)) {
+    res.status(404).json({ error: "Device not found" });
+    return;
+  }
+
+  res.json(getVentState(req.params.id));
+});
+
+// The vent is closed right now: take its current position as 0 % without moving it
+router.post("/:id/vent/zero", requirePermission("devices:control", deviceIdParam), (req, res) => {
+  if (!getDevice(req.params.id)) {
+    res.status(404).json({ error: "Device not found" });
+    return;
+  }
+
+  res.json(zeroVent(req.params.id));
+});
+
+/*
+ * Server-Sent Events: the last known state right away, then telemetry, actuator changes,
+ * command status changes and connection changes as the backend sees them.
+ * Browsers authenticate with the session cookie (EventSource withCredentials).
+ */
+router.get("/:id/events", (req, res) => {
+  const deviceId = req.params.id;
+  if (!getDevice(deviceId)) {
+    res.status(404).json({ error: "Device not found" });
+    return;
+  }
+
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+  res.flushHeaders();
+
+  const send = (event: LiveEvent) => {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+
+  liveSnapshot(deviceId).forEach(send);
+  const unsubscribe = subscribeLiveEvents(deviceId, send);
+  const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), EVENT_STREAM_HEARTBEAT_MS);
+
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
+router.get("/:id/history", (req, res) => {
+  if (!getDevice(req.params.id)) {
+    res.status(404).json({ error: "Device not found" });
+    return;
+  }
+
+  const parsed = historyQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid history query", details: parsed.error.flatten() });
+    return;
+  }
+
+  res.json(getSensorHistory(req.params.id, parsed.data.sensors, parsed.data.range));
+});
+
+export default router;
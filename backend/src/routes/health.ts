@@ -0,0 +1,67 @@
+import { Router } from "express";
+import { z } from "zod";
+
+import requireAuth from "../middlewares/requireAuth";
+import requirePermission from "../middlewares/requirePermission";
+import { getDailyAvailability, listDeviceHealth, listOutages, setOfflineAlert } from "../services/deviceHealth";
+import { getDevice } from "../services/deviceRegistry";
+import { HEALTH_COMPONENTS } from "../utils/health";
+
+const router = Router();
+
+const historyQuerySchema = z.object({
+  deviceId: z.string().refine((id) => !!getDevice(id), "Unknown device"),
+  days: z.coerce.number().int().min(1).max(365).default(30),
+});
+
+const offlineAlertSchema = z.object({
+  deviceId: z.string().refine((id) => !!getDevice(id), "Unknown device"),
+  component: z.enum(HEALTH_COMPONENTS),
+  // Up to a week, null switches the notification off
+  offlineAlertMinutes: z.number().int().min(1).max(7 * 24 * 60).nullable(),
+});
+
+router.use(requireAuth);
+
+// Current state of every board and camera, for an overview across greenhouses
+router.get("/", (_req, res) => {
+  res.json(listDeviceHealth());
+});
+
+// ?deviceId=main&days=30 -> current state, availability per day and the outages in that period
+router.get("/history", (req, res) => {
+  const parsed = historyQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid health query", details: parsed.error.flatten() });
+    return;
+  }
+
+  const { deviceId, days } = parsed.data;
+  const now = new Date();
+
+  res.json({
+    components: listDeviceHealth(deviceId),
+    daily: getDailyAvailability(deviceId, days, now),
+    outages: listOutages(deviceId, new Date(now.getTime() - days * 24 * 60 * 60 * 1000)),
+  });
+});
+
+// Offline notifications go to the same people as alerts, so they are managed like alert definitions
+router.put("/offline-alert", requirePermission("automation:manage"), (req, res) => {
+  const parsed = offlineAlertSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid offline alert", details: parsed.error.flatten() });
+    return;
+  }
+
+  const { deviceId, component, offlineAlertMinutes } = parsed.data;
+  const health = setOfflineAlert(deviceId, component, offlineAlertMinutes);
+  if (!health) {
+    res.status(404).json({ error: `No heartbeat from the ${component} of ${deviceId} yet` });
+    return;
+  }
+
+  res.json(health);
+});
+
+export default router;
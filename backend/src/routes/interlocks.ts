@@ -0,0 +1,63 @@
+import { Router } from "express";
+import { z } from "zod";
+
+import requireAuth from "../middlewares/requireAuth";
+import requirePermission from "../middlewares/requirePermission";
+import { getDevice } from "../services/deviceRegistry";
+import { getInterlockSettings, listInterlockTrips, updateInterlockSettings } from "../services/interlocks";
+
+const router = Router();
+
+const deviceQuerySchema = z.object({
+  deviceId: z.string().refine((id) => !!getDevice(id), "Unknown device"),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+// Every field is optional, null switches the pump limits off
+const settingsSchema = z
+  .object({
+    deviceId: z.string().refine((id) => !!getDevice(id), "Unknown device"),
+    pumpMaxRunSeconds: z.number().int().min(10).max(24 * 60 * 60).nullable().optional(),
+    maxWaterDistance: z.number().min(1).max(500).nullable().optional(),
+    stepperMinPosition: z.number().min(-1000).max(1000).optional(),
+    stepperMaxPosition: z.number().min(-1000).max(1000).optional(),
+    // Corrects the tracked vent position, e.g. after it was moved by hand
+    stepperPosition: z.number().min(-1000).max(1000).optional(),
+  })
+  .refine(
+    ({ deviceId, stepperMinPosition, stepperMaxPosition }) => {
+      const current = getDevice(deviceId) ? getInterlockSettings(deviceId) : null;
+      const min = stepperMinPosition ?? current?.stepperMinPosition ?? 0;
+      const max = stepperMaxPosition ?? current?.stepperMaxPosition ?? 0;
+      return min < max;
+    },
+    { message: "The minimum vent position must be below the maximum", path: ["stepperMaxPosition"] }
+  );
+
+router.use(requireAuth);
+
+// ?deviceId=main&limit=20 -> the device's limits, tracked vent position and most recent trips
+router.get("/", (req, res) => {
+  const parsed = deviceQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid interlock query", details: parsed.error.flatten() });
+    return;
+  }
+
+  const { deviceId, limit } = parsed.data;
+  res.json({ settings: getInterlockSettings(deviceId), trips: listInterlockTrips(deviceId, limit) });
+});
+
+// Safety limits are the owner's call, like the rest of the device setup
+router.put("/", requirePermission("devices:manage"), (req, res) => {
+  const parsed = settingsSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid interlock settings", details: parsed.error.flatten() });
+    return;
+  }
+
+  const { deviceId, ...changes } = parsed.data;
+  res.json(updateInterlockSettings(deviceId, changes));
+});
+
+export default router;
@@ -0,0 +1,273 @@
+import { Router } from "express";
+import { eq } from "drizzle-orm";
+import { z } from "zod";
+
+import requireAuth from "../middlewares/requireAuth";
+import requirePermission from "../middlewares/requirePermission";
+import { db } from "../drizzle";
+import { irrigationProgramTable, irrigationRunTable } from "../drizzle/schema";
+import { getDevice, hasCapability } from "../services/deviceRegistry";
+import { Esp32Error, PUMPS } from "../services/esp32Client";
+import {
+  getProgram,
+  interlockConflict,
+  IrrigationError,
+  IrrigationProgram,
+  isProgramRunning,
+  listIrrigationRuns,
+  listPrograms,
+  runProgram,
+  stopIrrigationRun,
+} from "../services/irrigation";
+import { DEFAULT_TIMEZONE, isValidTimezone, validateCron } from "../services/scheduler";
+import { currentLevel, fillPercent, getReservoir, getWaterUsage, litersPerCm, saveReservoir } from "../services/waterUsage";
+
+const router = Router();
+
+const USAGE_MAX_DAYS = 365;
+
+const deviceSchema = z.string().refine((id) => !!getDevice(id), "Unknown device");
+
+const programFields = {
+  name: z.string().trim().min(1).max(100),
+  pump: z.enum(PUMPS),
+  mode: z.enum(["duration", "level"]),
+  // The most a run pumps, in level mode too
+  durationSeconds: z.number().int().min(1).max(24 * 60 * 60),
+  levelDropCm: z.number().positive().max(500).nullable(),
+  cycleSeconds: z.number().int().min(10).max(24 * 60 * 60).nullable(),
+  soakSeconds: z.number().int().min(0).max(24 * 60 * 60),
+  maxDailySeconds: z.number().int().min(1).max(24 * 60 * 60).nullable(),
+  skipAboveHumidity: z.number().min(0).max(100).nullable(),
+  cron: z.string().refine(validateCron, "Invalid cron expression").nullable(),
+  timezone: z.string().refine(isValidTimezone, "Unknown timezone"),
+  enabled: z.boolean(),
+};
+
+const programSchema = z.object({
+  deviceId: deviceSchema,
+  ...programFields,
+  levelDropCm: programFields.levelDropCm.default(null),
+  cycleSeconds: programFields.cycleSeconds.default(null),
+  soakSeconds: programFields.soakSeconds.default(0),
+  maxDailySeconds: programFields.maxDailySeconds.default(null),
+  skipAboveHumidity: programFields.skipAboveHumidity.default(null),
+  cron: programFields.cron.default(null),
+  timezone: programFields.timezone.default(DEFAULT_TIMEZONE),
+  enabled: programFields.enabled.default(true),
+});
+
+const reservoirSchema = z
+  .object({
+    deviceId: deviceSchema,
+    // Distance sensor to the water surface with the tank full and empty
+    fullDistanceCm: z.number().min(0).max(1000),
+    emptyDistanceCm: z.number().min(0).max(1000),
+    capacityLiters: z.number().positive().max(100000),
+  })
+  .refine(({ fullDistanceCm, emptyDistanceCm }) => emptyDistanceCm > fullDistanceCm, {
+    message: "The empty distance must be larger than the full one",
+    path: ["emptyDistanceCm"],
+  });
+
+type ProgramValues = Omit<IrrigationProgram, "id" | "createdBy" | "createdAt" | "updatedAt">;
+
+// What the schema cannot check on its own: the mode's fields, the board's pump and the interlock's run limit
+const checkProgram = (program: ProgramValues) => {
+  if (program.mode === "level" && program.levelDropCm === null) {
+    return "A level program needs levelDropCm";
+  }
+
+  const device = getDevice(program.deviceId)!;
+  if (!hasCapability(device, program.pump)) {
+    return `${device.name} has no ${program.pump}`;
+  }
+
+  return interlockConflict(program);
+};
+
+const sendIrrigationError = (res: any, error: unknown) => {
+  if (error instanceof Esp32Error) {
+    res.status(502).json({ error: error.message });
+    return;
+  }
+  if (error instanceof IrrigationError) {
+    res.status(error.status).json({ error: error.message });
+    return;
+  }
+  throw error;
+};
+
+router.use(requireAuth);
+
+const programDeviceId = (req: any) => getProgram(Number(req.params.programId))?.deviceId;
+
+const runDeviceId = (req: any) =>
+  db.select().from(irrigationRunTable).where(eq(irrigationRunTable.id, Number(req.params.runId))).get()?.deviceId;
+
+// ?deviceId=main, each program with whether it is running right now
+router.get("/programs", (req, res) => {
+  const deviceId = typeof req.query.deviceId === "string" ? req.query.deviceId : undefined;
+  res.json(listPrograms(deviceId).map((program) => ({ ...program, running: isProgramRunning(program.id) })));
+});
+
+router.post("/programs", requirePermission("automation:manage"), (req: any, res) => {
+  const parsed = programSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid irrigation program", details: parsed.error.flatten() });
+    return;
+  }
+
+  const problem = checkProgram(parsed.data);
+  if (problem) {
+    res.status(400).json({ error: problem });
+    return;
+  }
+
+  const program = db
+    .insert(irrigationProgramTable)
+    .values({ ...parsed.data, createdBy: req.user.id })
+    .returning()
+    .get();
+
+  res.status(201).json({ ...program, running: false });
+});
+
+// Any field but the device, checked again together with the ones left as they are
+router.patch("/programs/:programId", requirePermission("automation:manage", programDeviceId), (req, res) => {
+  const existing = getProgram(Number(req.params.programId));
+  if (!existing) {
+    res.status(404).json({ error: "Irrigation program not found" });
+    return;
+  }
+
+  const parsed = z.object(programFields).partial().safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid irrigation program", details: parsed.error.flatten() });
+    return;
+  }
+
+  const problem = checkProgram({ ...existing, ...parsed.data });
+  if (problem) {
+    res.status(400).json({ error: problem });
+    return;
+  }
+
+  const updated = db
+    .update(irrigationProgramTable)
+    .set({ ...parsed.data, updatedAt: new Date() })
+    .where(eq(irrigationProgramTable.id, existing.id))
+    .returning()
+    .get()!;
+
+  res.json({ ...updated, running: isProgramRunning(updated.id) });
+});
+
+router.delete("/programs/:programId", requirePermission("automation:manage", programDeviceId), (req, res) => {
+  const programId = Number(req.params.programId);
+  if (isProgramRunning(programId)) {
+    res.status(409).json({ error: "The program is running, stop it first" });
+    return;
+  }
+
+  const deleted = db
+    .delete(irrigationProgramTable)
+    .where(eq(irrigationProgramTable.id, programId))
+    .returning()
+    .get();
+
+  if (!deleted) {
+    res.status(404).json({ error: "Irrigation program not found" });
+    return;
+  }
+
+  db.delete(irrigationRunTable).where(eq(irrigationRunTable.programId, programId)).run();
+  res.status(204).end();
+});
+
+// Starts the program now, whether or not it is enabled; the run comes back as running, skipped or failed
+router.post("/programs/:programId/run", requirePermission("devices:control", programDeviceId), (req: any, res) => {
+  const program = getProgram(Number(req.params.programId));
+  if (!program) {
+    res.status(404).json({ error: "Irrigation program not found" });
+    return;
+  }
+
+  try {
+    res.status(201).json(runProgram(program, "manual", req.user.id));
+  } catch (error) {
+    sendIrrigationError(res, error);
+  }
+});
+
+router.post("/runs/:runId/stop", requirePermission("devices:control", runDeviceId), (req, res) => {
+  if (!stopIrrigationRun(Number(req.params.runId))) {
+    res.status(409).json({ error: "The run is not running" });
+    return;
+  }
+
+  res.status(202).json({ stopping: true });
+});
+
+// ?deviceId=main&limit=50, newest first
+router.get("/runs", (req, res) => {
+  const parsed = z
+    .object({ deviceId: deviceSchema, limit: z.coerce.number().int().min(1).optional() })
+    .safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid irrigation run query", details: parsed.error.flatten() });
+    return;
+  }
+
+  res.json(listIrrigationRuns(parsed.data.deviceId, parsed.data.limit));
+});
+
+// ?deviceId=main -> the calibration (null when there is none) and what the current level means with it
+router.get("/reservoir", (req, res) => {
+  const parsed = z.object({ deviceId: deviceSchema }).safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid reservoir query", details: parsed.error.flatten() });
+    return;
+  }
+
+  const reservoir = getReservoir(parsed.data.deviceId) ?? null;
+  const distance = currentLevel(parsed.data.deviceId);
+  const fill = reservoir && distance !== null ? fillPercent(reservoir, distance) : null;
+
+  res.json({
+    reservoir,
+    distance,
+    fillPercent: fill,
+    liters: reservoir && fill !== null ? (fill / 100) * reservoir.capacityLiters : null,
+    litersPerCm: reservoir ? litersPerCm(reservoir) : null,
+  });
+});
+
+router.put("/reservoir", requirePermission("calibration:manage"), (req, res) => {
+  const parsed = reservoirSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid reservoir", details: parsed.error.flatten() });
+    return;
+  }
+
+  res.json(saveReservoir(parsed.data));
+});
+
+// ?deviceId=main&days=28&timezone=Europe/Berlin -> liters per local day and per week, from the pump run ledger
+router.get("/usage", (req, res) => {
+  const parsed = z
+    .object({
+      deviceId: deviceSchema,
+      days: z.coerce.number().int().min(1).max(USAGE_MAX_DAYS).default(28),
+      timezone: programFields.timezone.default(DEFAULT_TIMEZONE),
+    })
+    .safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid water usage query", details: parsed.error.flatten() });
+    return;
+  }
+
+  res.json(getWaterUsage(parsed.data.deviceId, parsed.data.days, parsed.data.timezone));
+});
+
+export default router;
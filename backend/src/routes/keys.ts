@@ -0,0 +1,62 @@
+import { Router } from "express";
+import { z } from "zod";
+
+import requireAuth from "../middlewares/requireAuth";
+import { createApiKey, listApiKeys, revokeApiKey } from "../services/apiKeys";
+import { API_KEY_SCOPES } from "../utils/permissions";
+
+const router = Router();
+
+const createKeySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scope: z.enum(API_KEY_SCOPES),
+  rateLimitPerMinute: z.number().int().min(1).max(6000).default(120),
+  // Null keeps the key valid until it is revoked
+  expiresAt: z.coerce
+    .date()
+    .refine((date) => date > new Date(), "Expiry must be in the future")
+    .nullable()
+    .default(null),
+});
+
+const keyIdSchema = z.coerce.number().int().positive();
+
+router.use(requireAuth);
+
+// Keys are managed from a signed-in session, a leaked key must not be able to mint or revoke others
+router.use((req: any, res, next) => {
+  if (req.apiKey) {
+    res.status(403).json({ error: "API keys cannot manage API keys" });
+    return;
+  }
+  next();
+});
+
+// The signed-in user's own keys, revoked ones included
+router.get("/", (req: any, res) => {
+  res.json(listApiKeys(req.user.id));
+});
+
+// The response carries the plain key, it is never shown again
+router.post("/", (req: any, res) => {
+  const parsed = createKeySchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid API key", details: parsed.error.flatten() });
+    return;
+  }
+
+  res.status(201).json(createApiKey(req.user.id, parsed.data));
+});
+
+router.delete("/:keyId", (req: any, res) => {
+  const keyId = keyIdSchema.safeParse(req.params.keyId);
+  const revoked = keyId.success ? revokeApiKey(req.user.id, keyId.data) : undefined;
+  if (!revoked) {
+    res.status(404).json({ error: "API key not found" });
+    return;
+  }
+
+  res.json(revoked);
+});
+
+export default router;
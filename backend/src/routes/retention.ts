@@ -0,0 +1,49 @@
+import { Router } from "express";
+import { z } from "zod";
+
+import requireAuth from "../middlewares/requireAuth";
+import requirePermission from "../middlewares/requirePermission";
+import { getRetentionUsage, listRetentionPolicies, runRetention, updateRetentionPolicy } from "../services/telemetryRollups";
+import { RETENTION_TIERS } from "../utils/retention";
+
+const router = Router();
+
+const tierSchema = z.enum(RETENTION_TIERS);
+
+// null keeps the tier forever
+const policySchema = z.object({
+  keepDays: z.number().int().min(1).max(100 * 365).nullable(),
+});
+
+// Retention spans every greenhouse, so the permission is checked against the user's global role
+const requireManage = requirePermission("devices:manage", () => undefined);
+
+router.use(requireAuth);
+
+// Each tier's policy with how many rows it holds and how far back they go
+router.get("/", (_req, res) => {
+  res.json({ policies: listRetentionPolicies(), usage: getRetentionUsage() });
+});
+
+router.put("/:tier", requireManage, (req, res) => {
+  const tier = tierSchema.safeParse(req.params.tier);
+  if (!tier.success) {
+    res.status(404).json({ error: "Unknown retention tier" });
+    return;
+  }
+
+  const parsed = policySchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid retention policy", details: parsed.error.flatten() });
+    return;
+  }
+
+  res.json(updateRetentionPolicy(tier.data, parsed.data.keepDays));
+});
+
+// Applies a changed policy right away instead of at the job's next run
+router.post("/run", requireManage, (_req, res) => {
+  res.json({ ...runRetention(), usage: getRetentionUsage() });
+});
+
+export default router;
@@ -0,0 +1,188 @@
+import { Router } from "express";
+import { and, desc, eq } from "drizzle-orm";
+import { z } from "zod";
+
+import requireAuth from "../middlewares/requireAuth";
+import requirePermission from "../middlewares/requirePermission";
+import { db } from "../drizzle";
+import { automationRuleTable, ruleFiringTable } from "../drizzle/schema";
+import { can } from "../services/access";
+import { calibrateStatus } from "../services/calibration";
+import { assessStatus, trustedReadings } from "../services/dataQuality";
+import { getDevice } from "../services/deviceRegistry";
+import { Esp32Error } from "../services/esp32Client";
+import { transportFor } from "../services/deviceTransport";
+import { evaluateRule, executeRuleCommand } from "../services/rulesEngine";
+import { SENSORS } from "../utils/sensors";
+import { deviceCommandSchema } from "../utils/validation";
+
+const router = Router();
+
+const conditionSchema = z.object({
+  sensor: z.enum(SENSORS),
+  operator: z.enum(["gt", "lt"]),
+  threshold: z.number(),
+  hysteresis: z.number().min(0).default(0),
+});
+
+const ruleSchema = z.object({
+  deviceId: z.string().refine((id) => !!getDevice(id), "Unknown device"),
+  name: z.string().trim().min(1).max(100),
+  enabled: z.boolean().default(true),
+  match: z.enum(["all", "any"]).default("all"),
+  conditions: z.array(conditionSchema).min(1).max(10),
+  action: deviceCommandSchema.refine(
+    (command) => command.actuator !== "stepper" || command.action !== "home",
+    "Homing the vent cannot be a rule action"
+  ),
+  revertOnClear: z.boolean().default(true),
+  minOnSeconds: z.number().int().min(0).default(0),
+  minOffSeconds: z.number().int().min(0).default(0),
+});
+
+const FIRING_LIMIT = 100;
+
+router.use(requireAuth);
+
+const findRule = (id: string) =>
+  db.select().from(automationRuleTable).where(eq(automationRuleTable.id, Number(id))).get();
+
+const ruleDeviceId = (req: any) => findRule(req.params.ruleId)?.deviceId;
+
+// ?deviceId=main
+router.get("/", (req, res) => {
+  const deviceId = typeof req.query.deviceId === "string" ? req.query.deviceId : undefined;
+
+  const rules = db
+    .select()
+    .from(automationRuleTable)
+    .where(deviceId ? eq(automationRuleTable.deviceId, deviceId) : undefined)
+    .orderBy(automationRuleTable.id)
+    .all();
+
+  res.json(rules);
+});
+
+router.post("/", requirePermission("automation:manage"), (req: any, res) => {
+  const parsed = ruleSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid rule", details: parsed.error.flatten() });
+    return;
+  }
+
+  const rule = db
+    .insert(automationRuleTable)
+    .values({ ...parsed.data, createdBy: req.user.id })
+    .returning()
+    .get();
+
+  res.status(201).json(rule);
+});
+
+router.patch("/:ruleId", requirePermission("automation:manage", ruleDeviceId), (req: any, res) => {
+  const rule = findRule(req.params.ruleId);
+  if (!rule) {
+    res.status(404).json({ error: "Rule not found" });
+    return;
+  }
+
+  const parsed = ruleSchema.partial().safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid rule", details: parsed.error.flatten() });
+    return;
+  }
+
+  const changes = parsed.data;
+
+  // Moving a rule to another greenhouse needs the same rights over there
+  if (changes.deviceId && !can(req.user, "automation:manage", changes.deviceId)) {
+    res.status(403).json({ error: "Your role does not allow this" });
+    return;
+  }
+
+  // Editing or disabling a rule resets the evaluator so it starts from a clean state
+  const updated = db
+    .update(automationRuleTable)
+    .set({ ...changes, active: false, lastTransitionAt: null, updatedAt: new Date() })
+    .where(eq(automationRuleTable.id, rule.id))
+    .returning()
+    .get();
+
+  res.json(updated);
+});
+
+router.delete("/:ruleId", requirePermission("automation:manage", ruleDeviceId), (req, res) => {
+  const deleted = db
+    .delete(automationRuleTable)
+    .where(eq(automationRuleTable.id, Number(req.params.ruleId)))
+    .returning()
+    .get();
+
+  if (!deleted) {
+    res.status(404).json({ error: "Rule not found" });
+    return;
+  }
+
+  res.status(204).end();
+});
+
+/*
+ * Evaluates a rule against the device's live readings, calibrated and quality-checked the
+ * same way as in evaluateRulesForSample.
+ * With { "execute": true } the rule's action is also sent and logged as a "test" firing.
+ */
+router.post("/:ruleId/test", requirePermission("automation:manage", ruleDeviceId), async (req: any, res) => {
+  const rule = findRule(req.params.ruleId);
+  if (!rule) {
+    res.status(404).json({ error: "Rule not found" });
+    return;
+  }
+
+  const device = getDevice(rule.deviceId);
+  if (!device) {
+    res.status(404).json({ error: "Device not found" });
+    return;
+  }
+
+  try {
+    // Judged without becoming the reading the next one is compared with
+    const status = assessStatus(device.id, calibrateStatus(device.id, await transportFor(device).getStatus()), false);
+    const readings = trustedReadings(status);
+    const evaluation = evaluateRule(rule, readings);
+    const firing = req.body?.execute
+      ? await executeRuleCommand(rule, "test", rule.action, readings, req.user.id)
+      : null;
+
+    res.json({ status, evaluation, firing });
+  } catch (error) {
+    if (error instanceof Esp32Error) {
+      res.status(502).json({ error: error.message });
+      return;
+    }
+    throw error;
+  }
+});
+
+// ?deviceId=main or ?ruleId=3 narrow the log
+router.get("/firings", (req, res) => {
+  const ruleId = Number(req.query.ruleId);
+  const deviceId = typeof req.query.deviceId === "string" ? req.query.deviceId : undefined;
+
+  const firings = db
+    .select({ firing: ruleFiringTable, ruleName: automationRuleTable.name })
+    .from(ruleFiringTable)
+    .innerJoin(automationRuleTable, eq(ruleFiringTable.ruleId, automationRuleTable.id))
+    .where(
+      and(
+        ruleId ? eq(ruleFiringTable.ruleId, ruleId) : undefined,
+        deviceId ? eq(ruleFiringTable.deviceId, deviceId) : undefined
+      )
+    )
+    .orderBy(desc(ruleFiringTable.firedAt), desc(ruleFiringTable.id))
+    .limit(FIRING_LIMIT)
+    .all();
+
+  res.json(firings.map(({ firing, ruleName }) => ({ ...firing, ruleName })));
+});
+
+export default router;
@@ -0,0 +1,154 @@
+import { Router } from "express";
+import { and, desc, eq, gte } from "drizzle-orm";
+import { z } from "zod";
+
+import requireAuth from "../middlewares/requireAuth";
+import requirePermission from "../middlewares/requirePermission";
+import { db } from "../drizzle";
+import { scheduleRunTable, scheduleTable } from "../drizzle/schema";
+import { getDevice } from "../services/deviceRegistry";
+import { RELAY_ACTUATORS } from "../services/esp32Client";
+import { DEFAULT_TIMEZONE, isValidTimezone, scheduleEvents, validateCron } from "../services/scheduler";
+
+const router = Router();
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Expected HH:mm");
+
+const baseScheduleSchema = z.object({
+  deviceId: z.string().refine((id) => !!getDevice(id), "Unknown device"),
+  name: z.string().trim().min(1).max(100),
+  actuator: z.enum(RELAY_ACTUATORS),
+  timezone: z.string().refine(isValidTimezone, "Unknown timezone").default(DEFAULT_TIMEZONE),
+  enabled: z.boolean().default(true),
+});
+
+const scheduleSchema = z.discriminatedUnion("kind", [
+  baseScheduleSchema.extend({
+    kind: z.literal("window"),
+    startTime: timeOfDay,
+    endTime: timeOfDay,
+    daysOfWeek: z.array(z.number().int().min(0).max(6)).min(1).default([0, 1, 2, 3, 4, 5, 6]),
+  }),
+  baseScheduleSchema.extend({
+    kind: z.literal("pulse"),
+    cron: z.string().refine(validateCron, "Invalid cron expression"),
+    durationSeconds: z.number().int().min(1).max(24 * 60 * 60),
+  }),
+]);
+
+const TIMELINE_MAX_HOURS = 24 * 7;
+
+router.use(requireAuth);
+
+const scheduleDeviceId = (req: any) =>
+  db.select().from(scheduleTable).where(eq(scheduleTable.id, Number(req.params.scheduleId))).get()?.deviceId;
+
+// ?deviceId=main
+router.get("/", (req, res) => {
+  const deviceId = typeof req.query.deviceId === "string" ? req.query.deviceId : undefined;
+
+  const schedules = db
+    .select()
+    .from(scheduleTable)
+    .where(deviceId ? eq(scheduleTable.deviceId, deviceId) : undefined)
+    .orderBy(scheduleTable.id)
+    .all();
+
+  res.json(schedules);
+});
+
+router.post("/", requirePermission("automation:manage"), (req: any, res) => {
+  const parsed = scheduleSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid schedule", details: parsed.error.flatten() });
+    return;
+  }
+
+  const schedule = db
+    .insert(scheduleTable)
+    .values({ ...parsed.data, createdBy: req.user.id })
+    .returning()
+    .get();
+
+  res.status(201).json(schedule);
+});
+
+// Only toggling and renaming in place, changing the timing means a new schedule
+router.patch("/:scheduleId", requirePermission("automation:manage", scheduleDeviceId), (req, res) => {
+  const parsed = z
+    .object({ name: z.string().trim().min(1).max(100), enabled: z.boolean() })
+    .partial()
+    .safeParse(req.body);
+
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid schedule", details: parsed.error.flatten() });
+    return;
+  }
+
+  const updated = db
+    .update(scheduleTable)
+    .set({ ...parsed.data, updatedAt: new Date() })
+    .where(eq(scheduleTable.id, Number(req.params.scheduleId)))
+    .returning()
+    .get();
+
+  if (!updated) {
+    res.status(404).json({ error: "Schedule not found" });
+    return;
+  }
+
+  res.json(updated);
+});
+
+router.delete("/:scheduleId", requirePermission("automation:manage", scheduleDeviceId), (req, res) => {
+  const deleted = db
+    .delete(scheduleTable)
+    .where(eq(scheduleTable.id, Number(req.params.scheduleId)))
+    .returning()
+    .get();
+
+  if (!deleted) {
+    res.status(404).json({ error: "Schedule not found" });
+    return;
+  }
+
+  res.status(204).end();
+});
+
+/*
+ * Timeline around now: the transitions each enabled schedule produces (past and upcoming)
+ * and the runs that were actually executed. ?deviceId=main&hours=24 covers 24 hours each way.
+ */
+router.get("/timeline", (req, res) => {
+  const deviceId = typeof req.query.deviceId === "string" ? req.query.deviceId : "";
+  if (!getDevice(deviceId)) {
+    res.status(404).json({ error: "Device not found" });
+    return;
+  }
+
+  const hours = Math.min(Number(req.query.hours) || 24, TIMELINE_MAX_HOURS);
+  const now = new Date();
+  const from = new Date(now.getTime() - hours * 60 * 60 * 1000);
+  const to = new Date(now.getTime() + hours * 60 * 60 * 1000);
+
+  const runs = db
+    .select({ run: scheduleRunTable, scheduleName: scheduleTable.name })
+    .from(scheduleRunTable)
+    .innerJoin(scheduleTable, eq(scheduleRunTable.scheduleId, scheduleTable.id))
+    .where(and(eq(scheduleRunTable.deviceId, deviceId), gte(scheduleRunTable.scheduledFor, from)))
+    .orderBy(desc(scheduleRunTable.scheduledFor))
+    .all()
+    .map(({ run, scheduleName }) => ({ ...run, scheduleName }));
+
+  const events = db
+    .select()
+    .from(scheduleTable)
+    .where(and(eq(scheduleTable.deviceId, deviceId), eq(scheduleTable.enabled, true)))
+    .all()
+    .flatMap((schedule) => scheduleEvents(schedule, from, to))
+    .sort((a, b) => a.at.getTime() - b.at.getTime());
+
+  res.json({ from, now, to, events, runs });
+});
+
+export default router;
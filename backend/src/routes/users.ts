@@ -0,0 +1,127 @@
+import { Router } from "express";
+import { and, eq } from "drizzle-orm";
+import { z } from "zod";
+
+import requireAuth from "../middlewares/requireAuth";
+import requirePermission from "../middlewares/requirePermission";
+import { db } from "../drizzle";
+import { deviceMembershipTable, userTable } from "../drizzle/schema";
+import { countOwners } from "../services/access";
+import { getDevice } from "../services/deviceRegistry";
+import { ROLES } from "../utils/permissions";
+
+const router = Router();
+
+const roleSchema = z.object({ role: z.enum(ROLES) });
+
+// Managing people is an installation-wide concern, so only the global role counts
+router.use(requireAuth, requirePermission("users:manage", () => undefined));
+
+const findUser = (id: string) => db.select().from(userTable).where(eq(userTable.id, id)).get();
+
+router.get("/", (req, res) => {
+  const users = db
+    .select({
+      id: userTable.id,
+      name: userTable.name,
+      email: userTable.email,
+      role: userTable.role,
+      createdAt: userTable.createdAt,
+    })
+    .from(userTable)
+    .orderBy(userTable.createdAt)
+    .all();
+
+  const memberships = db.select().from(deviceMembershipTable).all();
+
+  res.json(
+    users.map((user) => ({
+      ...user,
+      memberships: memberships
+        .filter((membership) => membership.userId === user.id)
+        .map(({ deviceId, role }) => ({ deviceId, role })),
+    }))
+  );
+});
+
+router.patch("/:userId", (req, res) => {
+  const parsed = roleSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid role", details: parsed.error.flatten() });
+    return;
+  }
+
+  const user = findUser(req.params.userId);
+  if (!user) {
+    res.status(404).json({ error: "User not found" });
+    return;
+  }
+
+  // Without an owner nobody could manage devices or users any more
+  if (user.role === "owner" && parsed.data.role !== "owner" && countOwners() <= 1) {
+    res.status(409).json({ error: "At least one owner is required" });
+    return;
+  }
+
+  const updated = db
+    .update(userTable)
+    .set({ role: parsed.data.role, updatedAt: new Date() })
+    .where(eq(userTable.id, user.id))
+    .returning({ id: userTable.id, role: userTable.role })
+    .get();
+
+  res.json(updated);
+});
+
+// Grants (or changes) a role on a single greenhouse, overriding the global role there
+router.put("/:userId/memberships/:deviceId", (req, res) => {
+  const parsed = roleSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid role", details: parsed.error.flatten() });
+    return;
+  }
+
+  if (!findUser(req.params.userId)) {
+    res.status(404).json({ error: "User not found" });
+    return;
+  }
+
+  if (!getDevice(req.params.deviceId)) {
+    res.status(404).json({ error: "Device not found" });
+    return;
+  }
+
+  const membership = db
+    .insert(deviceMembershipTable)
+    .values({ userId: req.params.userId, deviceId: req.params.deviceId, role: parsed.data.role })
+    .onConflictDoUpdate({
+      target: [deviceMembershipTable.deviceId, deviceMembershipTable.userId],
+      set: { role: parsed.data.role },
+    })
+    .returning()
+    .get();
+
+  res.json(membership);
+});
+
+router.delete("/:userId/memberships/:deviceId", (req, res) => {
+  const deleted = db
+    .delete(deviceMembershipTable)
+    .where(
+      and(
+        eq(deviceMembershipTable.userId, req.params.userId),
+        eq(deviceMembershipTable.deviceId, req.params.deviceId)
+      )
+    )
+    .returning()
+    .get();
+
+  if (!deleted) {
+    res.status(404).json({ error: "Membership not found" });
+    return;
+  }
+
+  res.status(204).end();
+});
+
+export default router;
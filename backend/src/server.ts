@@ -1,4 +1,20 @@
 import app from "./app";
+import { onPollFailure, onTelemetrySample, startTelemetryPoller } from "./services/telemetryPoller";
+import { closeInterruptedFirings, evaluateRulesForSample } from "./services/rulesEngine";
+import { alertOnAnomaly, evaluateAlertsForSample } from "./services/alerting";
+import { startScheduler } from "./services/scheduler";
+import { seedDevicesFromConfig } from "./services/deviceRegistry";
+import { publishPollFailure, publishTelemetrySample } from "./services/liveEvents";
+import { confirmDeviceCommands, resumeCommandQueue } from "./services/deviceCommands";
+import { enforcePumpInterlocks, onPumpInterlock } from "./services/interlocks";
+import { importSnapshots, startSnapshotScheduler } from "./services/snapshots";
+import { startRetentionJob } from "./services/telemetryRollups";
+import { seedCropProfiles } from "./services/cropProfiles";
+import { recordBoardFailure, recordBoardHeartbeat } from "./services/deviceHealth";
+import { startMqttTransport } from "./services/mqttTransport";
+import { onAnomaly, startAnomalyDetection } from "./services/anomalyDetection";
+import { recordPumpRuns } from "./services/waterUsage";
+import { endRunOnInterlock, startIrrigationScheduler } from "./services/irrigation";
 
 
 const PORT = process.env.PORT || 5000
@@ -6,4 +22,27 @@ const PORT = process.env.PORT || 5000
 
 app.listen(PORT, () => {
     console.log(`HabitForge app listening on port ${PORT}!`);
-}); 
\ No newline at end of file
+    seedDevicesFromConfig();
+    seedCropProfiles();
+    onTelemetrySample(publishTelemetrySample);
+    onPollFailure(publishPollFailure);
+    onTelemetrySample(recordBoardHeartbeat);
+    onPollFailure(recordBoardFailure);
+    onTelemetrySample(confirmDeviceCommands);
+    onTelemetrySample(enforcePumpInterlocks);
+    onTelemetrySample(recordPumpRuns);
+    onTelemetrySample(evaluateRulesForSample);
+    onTelemetrySample(evaluateAlertsForSample);
+    onAnomaly(alertOnAnomaly);
+    onPumpInterlock(endRunOnInterlock);
+    startMqttTransport();
+    closeInterruptedFirings();
+    resumeCommandQueue();
+    startTelemetryPoller();
+    startScheduler();
+    startIrrigationScheduler();
+    importSnapshots();
+    startSnapshotScheduler();
+    startRetentionJob();
+    startAnomalyDetection();
+}); 
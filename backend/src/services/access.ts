@@ -0,0 +1,33 @@
+import { and, eq, sql } from "drizzle-orm";
+
+import { db } from "../drizzle";
+import { deviceMembershipTable, userTable } from "../drizzle/schema";
+import { ApiKeyScope, Permission, Role, SCOPE_PERMISSIONS, roleHasPermission } from "../utils/permissions";
+
+export interface AccessUser {
+  id: string;
+  role: Role;
+  // Set when the request came with an API key instead of a session
+  apiKeyScope?: ApiKeyScope;
+}
+
+export const getMembership = (userId: string, deviceId: string) =>
+  db
+    .select()
+    .from(deviceMembershipTable)
+    .where(and(eq(deviceMembershipTable.userId, userId), eq(deviceMembershipTable.deviceId, deviceId)))
+    .get();
+
+// A membership on the device wins; without one (or without a device) the global role applies
+export const roleFor = (user: AccessUser, deviceId?: string): Role => {
+  if (!deviceId) return user.role;
+  return getMembership(user.id, deviceId)?.role ?? user.role;
+};
+
+// An API key's scope can only take permissions away from its owner's role
+export const can = (user: AccessUser, permission: Permission, deviceId?: string) =>
+  (!user.apiKeyScope || SCOPE_PERMISSIONS[user.apiKeyScope].includes(permission)) &&
+  roleHasPermission(roleFor(user, deviceId), permission);
+
+export const countOwners = () =>
+  db.select({ count: sql<number>`count(*)` }).from(userTable).where(eq(userTable.role, "owner")).get()!.count;
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+
+import { AlertDefinition, nextAlertState } from "./alerting";
+
+const START = new Date("2026-06-01T12:00:00Z");
+
+const after = (seconds: number) => new Date(START.getTime() + seconds * 1000);
+
+// Too hot above 35 °C once it lasted a minute
+const definition = (changes: Partial<AlertDefinition> = {}): AlertDefinition => ({
+  id: 1,
+  deviceId: "board",
+  name: "Heat",
+  sensor: "temperature",
+  minValue: null,
+  maxValue: 35,
+  severity: "warning",
+  debounceSeconds: 60,
+  enabled: true,
+  followCropProfile: false,
+  watchAnomalies: false,
+  state: "ok",
+  stateSince: null,
+  createdBy: null,
+  createdAt: START,
+  updatedAt: START,
+  ...changes,
+});
+
+describe("nextAlertState", () => {
+  it("waits out the debounce before firing", () => {
+    const pending = nextAlertState(definition(), 38, START);
+    expect(pending).toEqual({ state: "pending", stateSince: START, event: null });
+
+    expect(nextAlertState(definition(pending), 38, after(59))).toEqual({ state: "pending", stateSince: START, event: null });
+    expect(nextAlertState(definition(pending), 38, after(60))).toEqual({ state: "firing", stateSince: after(60), event: "fire" });
+  });
+
+  it("goes back to ok when the reading returns to range during the debounce", () => {
+    const pending = definition({ state: "pending", stateSince: START });
+
+    expect(nextAlertState(pending, 30, after(30))).toEqual({ state: "ok", stateSince: after(30), event: null });
+  });
+
+  it("resolves a firing alert only once the reading stayed in range for the debounce", () => {
+    const firing = definition({ state: "firing", stateSince: START });
+
+    const resolving = nextAlertState(firing, 30, after(10));
+    expect(resolving).toEqual({ state: "resolving", stateSince: after(10), event: null });
+    expect(nextAlertState(definition(resolving), 36, after(20))).toEqual({ state: "firing", stateSince: after(20), event: null });
+    expect(nextAlertState(definition(resolving), 30, after(70))).toEqual({ state: "ok", stateSince: after(70), event: "resolve" });
+  });
+
+  it("fires on the first reading without a debounce", () => {
+    expect(nextAlertState(definition({ debounceSeconds: 0 }), 36, START)).toMatchObject({ state: "firing", event: "fire" });
+  });
+
+  it("leaves the state alone on a missing reading", () => {
+    const pending = definition({ state: "pending", stateSince: START });
+
+    expect(nextAlertState(pending, null, after(120))).toEqual({ state: "pending", stateSince: START, event: null });
+  });
+});
@@ -0,0 +1,241 @@
+import { and, eq, sql } from "drizzle-orm";
+
+import { db } from "../drizzle";
+import { alertDefinitionTable, alertTable } from "../drizzle/schema";
+import { Anomaly, AnomalyEvent } from "./anomalyDetection";
+import { getOptimalRanges } from "./cropProfiles";
+import { isUncalibrated, trustedReadings } from "./dataQuality";
+import { AlertNotification, notifyAll } from "./notifications";
+import { TelemetrySample } from "./telemetryPoller";
+import { Sensor, SensorRange } from "../utils/sensors";
+
+export type AlertDefinition = typeof alertDefinitionTable.$inferSelect;
+export type Alert = typeof alertTable.$inferSelect;
+export type AlertState = AlertDefinition["state"];
+
+export interface AlertStep {
+  state: AlertState;
+  stateSince: Date | null;
+  // Set when this step crosses the debounce and the alert fires or resolves
+  event: "fire" | "resolve" | null;
+}
+
+// Definitions that follow the crop profile take the current stage's range for their sensor
+export const withCropRange = (definition: AlertDefinition, ranges: Record<Sensor, SensorRange>): AlertDefinition =>
+  definition.followCropProfile
+    ? { ...definition, minValue: ranges[definition.sensor].min, maxValue: ranges[definition.sensor].max }
+    : definition;
+
+export const isOutOfRange = (definition: AlertDefinition, value: number) =>
+  (definition.minValue !== null && value < definition.minValue) ||
+  (definition.maxValue !== null && value > definition.maxValue);
+
+export const describeReading = (definition: AlertDefinition, value: number) => {
+  if (definition.minValue !== null && value < definition.minValue) {
+    return `${definition.sensor} at ${value} is below ${definition.minValue}`;
+  }
+  if (definition.maxValue !== null && value > definition.maxValue) {
+    return `${definition.sensor} at ${value} is above ${definition.maxValue}`;
+  }
+  return `${definition.sensor} at ${value} is within range`;
+};
+
+/*
+ * Alert state machine: ok -> pending -> firing -> resolving -> ok.
+ *
+ * "ok" and "firing" are the settled states. A reading that disagrees with the settled
+ * state moves the definition into pending/resolving, and only once the disagreement has
+ * lasted debounceSeconds does it settle on the other side (emitting fire/resolve).
+ * Missing readings leave the state untouched.
+ */
+export const nextAlertState = (definition: AlertDefinition, value: number | null, now = new Date()): AlertStep => {
+  const current = { state: definition.state, stateSince: definition.stateSince, event: null };
+  if (value === null) return current;
+
+  const settled = definition.state === "ok" || definition.state === "pending" ? "ok" : "firing";
+  const target = isOutOfRange(definition, value) ? "firing" : "ok";
+
+  if (target === settled) {
+    return definition.state === settled ? current : { state: settled, stateSince: now, event: null };
+  }
+
+  const transitional = target === "firing" ? "pending" : "resolving";
+  const since = definition.state === transitional && definition.stateSince ? definition.stateSince : now;
+
+  if ((now.getTime() - since.getTime()) / 1000 >= definition.debounceSeconds) {
+    return { state: target, stateSince: now, event: target === "firing" ? "fire" : "resolve" };
+  }
+  return { state: transitional, stateSince: since, event: null };
+};
+
+const toNotification = (event: AlertNotification["event"], definition: AlertDefinition, alert: Alert): AlertNotification => ({
+  event,
+  alert: {
+    id: alert.id,
+    name: definition.name,
+    deviceId: alert.deviceId,
+    sensor: alert.sensor,
+    severity: alert.severity,
+    message: alert.message,
+    value: alert.value,
+    firedAt: alert.firedAt,
+    resolvedAt: alert.resolvedAt,
+  },
+});
+
+const fireAlert = (definition: AlertDefinition, value: number, now: Date) => {
+  const alert = db
+    .insert(alertTable)
+    .values({
+      definitionId: definition.id,
+      deviceId: definition.deviceId,
+      sensor: definition.sensor,
+      severity: definition.severity,
+      status: "firing",
+      message: describeReading(definition, value),
+      value,
+      firedAt: now,
+    })
+    .returning()
+    .get();
+
+  return toNotification("firing", definition, alert);
+};
+
+// Closes whatever is still open for the definition (normally a single alert)
+export const resolveAlerts = (definitionId: number, now = new Date()) =>
+  db
+    .update(alertTable)
+    .set({ status: "resolved", resolvedAt: now })
+    .where(and(eq(alertTable.definitionId, definitionId), eq(alertTable.status, "firing")))
+    .returning()
+    .all();
+
+// Telemetry listener: steps every enabled alert definition of the sampled device
+export const evaluateAlertsForSample = async (sample: TelemetrySample) => {
+  const definitions = db
+    .select()
+    .from(alertDefinitionTable)
+    .where(
+      and(
+        eq(alertDefinitionTable.deviceId, sample.deviceId),
+        eq(alertDefinitionTable.enabled, true),
+        // Those are stepped by alertOnAnomaly
+        eq(alertDefinitionTable.watchAnomalies, false)
+      )
+    )
+    .all();
+
+  const notifications: AlertNotification[] = [];
+  const now = new Date();
+  const ranges = getOptimalRanges(sample.deviceId, now);
+  // A bad reading neither fires nor resolves an alert
+  const readings = trustedReadings(sample.status);
+
+  for (const stored of definitions) {
+    /*
+     * Neither a crop range nor a threshold in pH or ppm can be compared with an ADC count.
+     * The definition waits for a calibration, and whatever it raised on raw counts is closed.
+     */
+    if (isUncalibrated(sample.status, stored.sensor)) {
+      if (stored.state !== "ok") {
+        db.update(alertDefinitionTable)
+          .set({ state: "ok", stateSince: now })
+          .where(eq(alertDefinitionTable.id, stored.id))
+          .run();
+        notifications.push(...resolveAlerts(stored.id, now).map((alert) => toNotification("resolved", stored, alert)));
+      }
+      continue;
+    }
+
+    const definition = withCropRange(stored, ranges);
+    const value = readings[definition.sensor];
+    const step = nextAlertState(definition, value, now);
+
+    if (step.state !== definition.state || step.stateSince !== definition.stateSince) {
+      db.update(alertDefinitionTable)
+        .set({ state: step.state, stateSince: step.stateSince })
+        .where(eq(alertDefinitionTable.id, definition.id))
+        .run();
+    }
+
+    if (step.event === "fire" && value !== null) {
+      notifications.push(fireAlert(definition, value, now));
+    }
+    if (step.event === "resolve") {
+      notifications.push(...resolveAlerts(definition.id, now).map((alert) => toNotification("resolved", definition, alert)));
+    }
+  }
+
+  // Delivery is slow compared to the database work, so it happens after all state is stored
+  for (const notification of notifications) {
+    await notifyAll(notification);
+  }
+};
+
+/*
+ * Anomaly listener: an opened anomaly fires every enabled definition that watches anomalies
+ * of its sensor, and resolving it resolves those alerts. There is no debounce, the anomaly
+ * is already the result of a whole hour (or pump run) of telemetry.
+ */
+export const alertOnAnomaly = async (anomaly: Anomaly, event: AnomalyEvent) => {
+  const definitions = db
+    .select()
+    .from(alertDefinitionTable)
+    .where(
+      and(
+        eq(alertDefinitionTable.deviceId, anomaly.deviceId),
+        eq(alertDefinitionTable.sensor, anomaly.sensor),
+        eq(alertDefinitionTable.watchAnomalies, true),
+        event === "opened" ? eq(alertDefinitionTable.enabled, true) : undefined
+      )
+    )
+    .all();
+
+  const notifications: AlertNotification[] = [];
+  const now = new Date();
+
+  for (const definition of definitions) {
+    if (event === "opened") {
+      const alert = db
+        .insert(alertTable)
+        .values({
+          definitionId: definition.id,
+          deviceId: definition.deviceId,
+          sensor: definition.sensor,
+          severity: definition.severity,
+          status: "firing",
+          message: anomaly.message,
+          value: anomaly.value,
+          firedAt: now,
+          anomalyId: anomaly.id,
+        })
+        .returning()
+        .get();
+      notifications.push(toNotification("firing", definition, alert));
+    } else {
+      const resolved = db
+        .update(alertTable)
+        .set({ status: "resolved", resolvedAt: now })
+        .where(and(eq(alertTable.anomalyId, anomaly.id), eq(alertTable.definitionId, definition.id), eq(alertTable.status, "firing")))
+        .returning()
+        .all();
+      notifications.push(...resolved.map((alert) => toNotification("resolved", definition, alert)));
+    }
+
+    // Firing while any of its anomalies is still open
+    const { open } = db
+      .select({ open: sql<number>`count(*)` })
+      .from(alertTable)
+      .where(and(eq(alertTable.definitionId, definition.id), eq(alertTable.status, "firing")))
+      .get()!;
+    db.update(alertDefinitionTable)
+      .set({ state: open > 0 ? "firing" : "ok", stateSince: now })
+      .where(eq(alertDefinitionTable.id, definition.id))
+      .run();
+  }
+
+  for (const notification of notifications) {
+    await notifyAll(notification);
+  }
+};
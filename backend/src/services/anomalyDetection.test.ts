@@ -0,0 +1,157 @@
+import { eq } from "drizzle-orm";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { db } from "../drizzle";
+import { anomalyTable, pumpRunTable, retentionPolicyTable, sensorRollupTable } from "../drizzle/schema";
+import { Anomaly, AnomalyEvent, onAnomaly, runAnomalyDetection } from "./anomalyDetection";
+import { listRetentionPolicies } from "./telemetryRollups";
+import { Sensor } from "../utils/sensors";
+import { addDevice } from "../test/fixtures";
+
+/*
+ * The checks over hand-seeded hourly rollups and pump runs. runAnomalyDetection() remembers
+ * how far it has analysed, so every test works on a stretch of time after the previous one's.
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const listener = vi.fn<(anomaly: Anomaly, event: AnomalyEvent) => void>();
+onAnomaly(listener);
+
+beforeEach(() => {
+  listener.mockClear();
+});
+
+const addHour = (deviceId: string, sensor: Sensor, bucketStart: Date, avg: number) =>
+  db
+    .insert(sensorRollupTable)
+    .values({ deviceId, sensor, resolution: "1h", bucketStart, avg, min: avg, max: avg, count: 60 })
+    .run();
+
+// The same hour on each of the `days` days before `hour`, alternating between two values
+const addBaseline = (deviceId: string, sensor: Sensor, hour: Date, days: number, [low, high]: [number, number]) => {
+  for (let day = 1; day <= days; day++) {
+    addHour(deviceId, sensor, new Date(hour.getTime() - day * DAY_MS), day % 2 ? low : high);
+  }
+};
+
+// Pretends the retention job has rolled up every hour before `to` and runs one pass
+const analyzeUntil = (to: Date) => {
+  listRetentionPolicies();
+  db.update(retentionPolicyTable).set({ rolledUpTo: to }).where(eq(retentionPolicyTable.tier, "1h")).run();
+  return runAnomalyDetection();
+};
+
+const anomaliesOf = (deviceId: string) =>
+  db.select().from(anomalyTable).where(eq(anomalyTable.deviceId, deviceId)).orderBy(anomalyTable.id).all();
+
+describe("runAnomalyDetection", () => {
+  it("opens a warning three spreads away from the baseline and a critical anomaly six spreads away", async () => {
+    const { id } = addDevice();
+    const hour = new Date("2025-03-01T12:00:00Z");
+    // 20.5 ± 0.5 and 61 ± 1, the humidity spread is raised to its minimum of 2
+    addBaseline(id, "temperature", hour, 14, [20, 21]);
+    addBaseline(id, "humidity", hour, 14, [60, 62]);
+    addHour(id, "temperature", hour, 22.5);
+    addHour(id, "humidity", hour, 75);
+
+    await analyzeUntil(new Date("2025-03-01T13:00:00Z"));
+
+    expect(anomaliesOf(id)).toMatchObject([
+      { sensor: "temperature", kind: "deviation", severity: "warning", value: 22.5, expected: 20.5, score: 4 },
+      { sensor: "humidity", kind: "deviation", severity: "critical", value: 75, expected: 61, score: 7 },
+    ]);
+    expect(anomaliesOf(id)[0]).toMatchObject({
+      startedAt: hour,
+      lastSeenAt: new Date("2025-03-01T13:00:00Z"),
+      resolvedAt: null,
+      message: "temperature averaged 22.5 between 12:00 and 13:00 UTC, usually 20.5 ± 0.5 at that time",
+    });
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ deviceId: id, sensor: "humidity" }), "opened");
+  });
+
+  it("gives no verdict on an hour with fewer than five days of baseline", async () => {
+    const { id } = addDevice();
+    const hour = new Date("2025-04-01T12:00:00Z");
+    addBaseline(id, "temperature", hour, 4, [20, 21]);
+    addHour(id, "temperature", hour, 35);
+
+    await analyzeUntil(new Date("2025-04-01T13:00:00Z"));
+
+    expect(anomaliesOf(id)).toEqual([]);
+  });
+
+  it("opens a drift anomaly once a day completes a steady seven-day trend", async () => {
+    const { id } = addDevice();
+    const end = new Date("2025-05-01T00:00:00Z");
+    // A degree warmer every day, too gradual for any single hour to deviate
+    for (let day = 0; day < 7; day++) {
+      for (let hour = 0; hour < 24; hour++) {
+        addHour(id, "temperature", new Date(end.getTime() - (7 - day) * DAY_MS + hour * HOUR_MS), 20 + day);
+      }
+    }
+
+    await analyzeUntil(end);
+
+    expect(anomaliesOf(id)).toMatchObject([
+      {
+        sensor: "temperature",
+        kind: "drift",
+        severity: "warning",
+        value: 26,
+        expected: 20,
+        startedAt: new Date("2025-04-24T00:00:00Z"),
+        lastSeenAt: end,
+        message: "temperature has been drifting up by about 6 over 7 days, daily average now 26",
+      },
+    ]);
+  });
+
+  it("opens a pump_effect anomaly for a pump run that did not lower the water", async () => {
+    const { id } = addDevice();
+    db.insert(pumpRunTable)
+      .values({
+        deviceId: id,
+        actuator: "pump1",
+        startedAt: new Date("2025-06-01T11:10:00Z"),
+        endedAt: new Date("2025-06-01T11:15:00Z"),
+        distanceBefore: 20,
+        distanceAfter: 20.2,
+      })
+      .run();
+
+    await analyzeUntil(new Date("2025-06-01T12:00:00Z"));
+
+    expect(anomaliesOf(id)).toMatchObject([
+      {
+        sensor: "distance",
+        kind: "pump_effect",
+        actuator: "pump1",
+        severity: "critical",
+        expected: null,
+        startedAt: new Date("2025-06-01T11:10:00Z"),
+        lastSeenAt: new Date("2025-06-01T11:15:00Z"),
+      },
+    ]);
+    expect(anomaliesOf(id)[0].message).toMatch(/^pump1 ran for 5 minutes but the water level did not drop/);
+  });
+
+  it("resolves an anomaly with the first normal hour and tells the listeners", async () => {
+    const { id } = addDevice();
+    const hot = new Date("2025-07-01T12:00:00Z");
+    const normal = new Date("2025-07-01T13:00:00Z");
+    addBaseline(id, "temperature", hot, 14, [20, 21]);
+    addBaseline(id, "temperature", normal, 14, [20, 21]);
+    addHour(id, "temperature", hot, 30);
+    await analyzeUntil(normal);
+    listener.mockClear();
+
+    addHour(id, "temperature", normal, 20.6);
+    await analyzeUntil(new Date("2025-07-01T14:00:00Z"));
+
+    const [anomaly] = anomaliesOf(id);
+    expect(anomaly).toMatchObject({ kind: "deviation", startedAt: hot, lastSeenAt: normal, resolvedAt: normal });
+    expect(listener.mock.calls).toEqual([[anomaly, "resolved"]]);
+  });
+});
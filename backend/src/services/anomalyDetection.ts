@@ -0,0 +1,445 @@
+import { and, desc, eq, gte, isNull, lt, or } from "drizzle-orm";
+
+import { db } from "../drizzle";
+import { anomalyTable, pumpRunTable, sensorRollupTable } from "../drizzle/schema";
+import { listCalibrations } from "./calibration";
+import { listDevices } from "./deviceRegistry";
+import { Pump, PUMPS } from "./esp32Client";
+import { listRetentionPolicies } from "./telemetryRollups";
+import { listPumpRuns, PumpRun } from "./waterUsage";
+import { AnomalyKind } from "../utils/anomalies";
+import { CALIBRATED_SENSORS, CalibratedSensor, Sensor, SENSORS } from "../utils/sensors";
+
+/*
+ * Anomaly detection over the stored telemetry, run as a background job on the hourly rollups
+ * once the retention job has completed them:
+ *
+ *   deviation    an hour whose average is more than Z_WARNING spreads away from the same hour
+ *                of the previous BASELINE_DAYS days, so the daily cycle is part of the baseline
+ *   drift        daily averages that moved steadily in one direction over the last DRIFT_DAYS
+ *   pump_effect  a pump run after which the water level did not drop, or dropped much more
+ *                slowly than the pump's recent runs did
+ *
+ * An anomaly stays open while later hours (or pump runs) are still anomalous and is resolved by
+ * the first normal one. Hours without enough history to judge leave it as it is.
+ */
+
+export type Anomaly = typeof anomalyTable.$inferSelect;
+export type AnomalyEvent = "opened" | "resolved";
+
+type AnomalyListener = (anomaly: Anomaly, event: AnomalyEvent) => void | Promise<void>;
+
+interface Finding {
+  severity: Anomaly["severity"];
+  message: string;
+  value: number;
+  expected: number | null;
+  score: number | null;
+}
+
+// undefined: not enough data to judge, null: normal, otherwise what is wrong
+type CheckResult = Finding | null | undefined;
+
+interface AnomalyKey {
+  deviceId: string;
+  sensor: Sensor;
+  kind: AnomalyKind;
+  actuator: Pump | null;
+}
+
+export interface AnomalyQuery {
+  sensor?: Sensor;
+  from: Date;
+  to: Date;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const DEFAULT_ANOMALY_INTERVAL_MS = 15 * 60 * 1000;
+
+// After downtime only the most recent hours are analysed, older ones are not worth alerting on
+const MAX_CATCH_UP_HOURS = 24;
+
+const BASELINE_DAYS = 14;
+const MIN_BASELINE_DAYS = 5;
+const Z_WARNING = 3;
+const Z_CRITICAL = 6;
+
+// Smallest spread a baseline is given, so a very steady sensor does not flag every small wobble
+const MIN_SPREAD: Record<Sensor, number> = {
+  temperature: 0.5,
+  humidity: 2,
+  ph: 0.1,
+  distance: 1,
+  mq135: 20,
+};
+
+const DRIFT_DAYS = 7;
+const MIN_DRIFT_DAYS = 5;
+// Hours a day needs for its average to count
+const MIN_DAY_HOURS = 12;
+// How well a straight line has to fit the daily averages (R²)
+const MIN_DRIFT_FIT = 0.8;
+
+// Change over DRIFT_DAYS that counts as drift. The water level is left out, it falls between refills by design
+const DRIFT_LIMITS: Partial<Record<Sensor, number>> = {
+  temperature: 5,
+  humidity: 15,
+  ph: 0.5,
+  mq135: 150,
+};
+
+// Shorter runs move the level less than the ultrasonic noise
+const MIN_PUMP_RUN_SECONDS = 60;
+const NO_EFFECT_CM = 0.5;
+const WEAK_EFFECT_RATIO = 0.5;
+const MIN_BASELINE_RUNS = 3;
+
+const ANOMALY_LIMIT = 500;
+
+const listeners: AnomalyListener[] = [];
+
+// End of the last hour that was analysed, unset until the first run
+let analyzedTo: Date | undefined;
+
+// Subscribe to anomalies being opened and resolved, e.g. to alert on them
+export const onAnomaly = (listener: AnomalyListener) => {
+  listeners.push(listener);
+};
+
+const round = (value: number) => Number(value.toFixed(2));
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const standardDeviation = (values: number[]) => {
+  const average = mean(values);
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - average) ** 2, 0) / values.length);
+};
+
+const utcHour = (time: number) => new Date(time).getUTCHours().toString().padStart(2, "0");
+
+const isAnalog = (sensor: Sensor): sensor is CalibratedSensor => (CALIBRATED_SENSORS as readonly Sensor[]).includes(sensor);
+
+/*
+ * Since when the sensor's readings are on the scale it reads now, null when it is not worth
+ * analysing. Analog readings change scale with every calibration switch and mean little
+ * as ADC counts, so they are only compared within their current calibration.
+ */
+const comparableSince = (deviceId: string, sensor: Sensor): Date | null => {
+  if (!isAnalog(sensor)) return new Date(0);
+
+  const calibrations = listCalibrations(deviceId, sensor);
+  if (!calibrations.some((calibration) => calibration.active)) return null;
+
+  // Every switch creates or retires a calibration, the latest of those times is the current one's start
+  const switches = calibrations.flatMap((calibration) => [calibration.createdAt, calibration.retiredAt ?? new Date(0)]);
+  return new Date(Math.max(...switches.map((date) => date.getTime())));
+};
+
+// Hourly averages per sensor, keyed by bucket start in milliseconds
+const loadHourlyAverages = (deviceId: string, from: Date, to: Date) => {
+  const rows = db
+    .select({ sensor: sensorRollupTable.sensor, bucketStart: sensorRollupTable.bucketStart, avg: sensorRollupTable.avg })
+    .from(sensorRollupTable)
+    .where(
+      and(
+        eq(sensorRollupTable.deviceId, deviceId),
+        eq(sensorRollupTable.resolution, "1h"),
+        gte(sensorRollupTable.bucketStart, from),
+        lt(sensorRollupTable.bucketStart, to)
+      )
+    )
+    .all();
+
+  const series = new Map<Sensor, Map<number, number>>(SENSORS.map((sensor) => [sensor, new Map()]));
+  for (const row of rows) series.get(row.sensor)!.set(row.bucketStart.getTime(), row.avg);
+  return series;
+};
+
+const checkDeviation = (sensor: Sensor, hours: Map<number, number>, hour: number): CheckResult => {
+  const value = hours.get(hour);
+  if (value === undefined) return undefined;
+
+  const history = Array.from({ length: BASELINE_DAYS }, (_, day) => hours.get(hour - (day + 1) * DAY_MS)).filter(
+    (average): average is number => average !== undefined
+  );
+  if (history.length < MIN_BASELINE_DAYS) return undefined;
+
+  const expected = mean(history);
+  const spread = standardDeviation(history);
+  const score = (value - expected) / Math.max(spread, MIN_SPREAD[sensor]);
+  if (Math.abs(score) < Z_WARNING) return null;
+
+  const from = utcHour(hour);
+  const to = utcHour(hour + HOUR_MS);
+  return {
+    severity: Math.abs(score) >= Z_CRITICAL ? "critical" : "warning",
+    message:
+      `${sensor} averaged ${round(value)} between ${from}:00 and ${to}:00 UTC, ` +
+      `usually ${round(expected)} ± ${round(spread)} at that time`,
+    value,
+    expected,
+    score,
+  };
+};
+
+// Least-squares line through the daily averages of the DRIFT_DAYS days before dayEnd
+const checkDrift = (sensor: Sensor, hours: Map<number, number>, dayEnd: number): CheckResult => {
+  const limit = DRIFT_LIMITS[sensor];
+  if (limit === undefined) return undefined;
+
+  const days: { day: number; average: number }[] = [];
+  for (let day = 0; day < DRIFT_DAYS; day++) {
+    const start = dayEnd - (DRIFT_DAYS - day) * DAY_MS;
+    const values = Array.from({ length: 24 }, (_, hour) => hours.get(start + hour * HOUR_MS)).filter(
+      (average): average is number => average !== undefined
+    );
+    if (values.length >= MIN_DAY_HOURS) days.push({ day, average: mean(values) });
+  }
+  if (days.length < MIN_DRIFT_DAYS) return undefined;
+
+  const meanDay = mean(days.map(({ day }) => day));
+  const meanAverage = mean(days.map(({ average }) => average));
+  const covariance = days.reduce((sum, { day, average }) => sum + (day - meanDay) * (average - meanAverage), 0);
+  const variance = days.reduce((sum, { day }) => sum + (day - meanDay) ** 2, 0);
+  const totalSquares = days.reduce((sum, { average }) => sum + (average - meanAverage) ** 2, 0);
+
+  const slope = covariance / variance;
+  const change = slope * (DRIFT_DAYS - 1);
+  // A flat series fits any line perfectly, the change limit already rules it out
+  const fit = totalSquares === 0 ? 1 : (slope * covariance) / totalSquares;
+  if (Math.abs(change) < limit || fit < MIN_DRIFT_FIT) return null;
+
+  const first = meanAverage + slope * (0 - meanDay);
+  const last = days[days.length - 1].average;
+  return {
+    severity: Math.abs(change) >= 2 * limit ? "critical" : "warning",
+    message:
+      `${sensor} has been drifting ${change > 0 ? "up" : "down"} by about ${round(Math.abs(change))} ` +
+      `over ${DRIFT_DAYS} days, daily average now ${round(last)}`,
+    value: last,
+    expected: first,
+    score: null,
+  };
+};
+
+const runMinutes = (run: PumpRun) => (run.endedAt.getTime() - run.startedAt.getTime()) / 60000;
+
+// Centimetres per minute the run lowered the water by (the distance to the water grows)
+const runRate = (run: PumpRun) =>
+  run.distanceBefore === null || run.distanceAfter === null ? null : (run.distanceAfter - run.distanceBefore) / runMinutes(run);
+
+const checkPumpRun = (run: PumpRun): CheckResult => {
+  const rate = runRate(run);
+  if (rate === null || runMinutes(run) * 60 < MIN_PUMP_RUN_SECONDS) return undefined;
+
+  const baseline = db
+    .select()
+    .from(pumpRunTable)
+    .where(
+      and(
+        eq(pumpRunTable.deviceId, run.deviceId),
+        eq(pumpRunTable.actuator, run.actuator),
+        gte(pumpRunTable.startedAt, new Date(run.startedAt.getTime() - BASELINE_DAYS * DAY_MS)),
+        lt(pumpRunTable.startedAt, run.startedAt)
+      )
+    )
+    .all()
+    .filter((previous) => runMinutes(previous) * 60 >= MIN_PUMP_RUN_SECONDS)
+    .map(runRate)
+    .filter((previous): previous is number => previous !== null);
+  const expected = baseline.length >= MIN_BASELINE_RUNS ? median(baseline) : null;
+
+  const minutes = round(runMinutes(run));
+  const drop = run.distanceAfter! - run.distanceBefore!;
+
+  if (drop < NO_EFFECT_CM) {
+    return {
+      severity: "critical",
+      message:
+        `${run.actuator} ran for ${minutes} minutes but the water level did not drop ` +
+        `(distance ${round(run.distanceBefore!)} → ${round(run.distanceAfter!)} cm), is it dry or blocked?`,
+      value: rate,
+      expected,
+      score: null,
+    };
+  }
+
+  if (expected !== null && expected > 0 && rate < WEAK_EFFECT_RATIO * expected) {
+    return {
+      severity: "warning",
+      message:
+        `${run.actuator} lowered the water level by ${round(rate)} cm per minute over ${minutes} minutes, ` +
+        `usually ${round(expected)}`,
+      value: rate,
+      expected,
+      score: null,
+    };
+  }
+
+  return null;
+};
+
+const matchesKey = (key: AnomalyKey) =>
+  and(
+    eq(anomalyTable.deviceId, key.deviceId),
+    eq(anomalyTable.sensor, key.sensor),
+    eq(anomalyTable.kind, key.kind),
+    key.actuator ? eq(anomalyTable.actuator, key.actuator) : isNull(anomalyTable.actuator)
+  );
+
+/*
+ * Opens, extends or resolves the anomaly of a key with the result of one check covering
+ * [start, end). Returns the anomaly when it was opened or resolved.
+ */
+const applyResult = (key: AnomalyKey, result: CheckResult, start: Date, end: Date) => {
+  if (result === undefined) return null;
+
+  const open = db.select().from(anomalyTable).where(and(matchesKey(key), isNull(anomalyTable.resolvedAt))).get();
+
+  if (result === null) {
+    if (!open) return null;
+    const resolved = db
+      .update(anomalyTable)
+      .set({ resolvedAt: start < open.lastSeenAt ? open.lastSeenAt : start })
+      .where(eq(anomalyTable.id, open.id))
+      .returning()
+      .get();
+    return { anomaly: resolved, event: "resolved" as const };
+  }
+
+  if (open) {
+    // The same hour can be analysed twice after a restart, it is not a new observation
+    if (end <= open.lastSeenAt) return null;
+    db.update(anomalyTable)
+      .set({
+        ...result,
+        // Alerts have already gone out with the first severity, a milder hour does not lower it
+        severity: open.severity === "critical" ? "critical" : result.severity,
+        lastSeenAt: end,
+      })
+      .where(eq(anomalyTable.id, open.id))
+      .run();
+    return null;
+  }
+
+  const opened = db
+    .insert(anomalyTable)
+    .values({ ...key, ...result, startedAt: start, lastSeenAt: end })
+    .returning()
+    .get();
+  return { anomaly: opened, event: "opened" as const };
+};
+
+// Runs every check of one device over the complete hours in [from, to)
+const analyzeDevice = (deviceId: string, from: Date, to: Date) => {
+  const events: { anomaly: Anomaly; event: AnomalyEvent }[] = [];
+  const record = (key: AnomalyKey, result: CheckResult, start: Date, end: Date) => {
+    const event = applyResult(key, result, start, end);
+    if (event) events.push(event);
+  };
+
+  const series = loadHourlyAverages(deviceId, new Date(from.getTime() - BASELINE_DAYS * DAY_MS), to);
+
+  for (const sensor of SENSORS) {
+    const since = comparableSince(deviceId, sensor);
+    if (!since) continue;
+
+    const hours = new Map([...series.get(sensor)!].filter(([bucketStart]) => bucketStart >= since.getTime()));
+
+    for (let hour = from.getTime(); hour < to.getTime(); hour += HOUR_MS) {
+      const end = new Date(hour + HOUR_MS);
+      record({ deviceId, sensor, kind: "deviation", actuator: null }, checkDeviation(sensor, hours, hour), new Date(hour), end);
+
+      // Drift is judged on whole days, once a day is complete
+      if (end.getTime() % DAY_MS === 0) {
+        const windowStart = new Date(end.getTime() - DRIFT_DAYS * DAY_MS);
+        record({ deviceId, sensor, kind: "drift", actuator: null }, checkDrift(sensor, hours, end.getTime()), windowStart, end);
+      }
+    }
+  }
+
+  for (const pump of PUMPS) {
+    // From the water usage ledger, see services/waterUsage.ts
+    for (const run of listPumpRuns(deviceId, from, to, pump)) {
+      record({ deviceId, sensor: "distance", kind: "pump_effect", actuator: pump }, checkPumpRun(run), run.startedAt, run.endedAt);
+    }
+  }
+
+  return events;
+};
+
+/*
+ * One pass of the background job: analyses every device over the hours the hourly rollups
+ * completed since the previous pass. Returns the anomalies that were opened or resolved.
+ */
+export const runAnomalyDetection = async () => {
+  const hourly = listRetentionPolicies().find((policy) => policy.tier === "1h");
+  const to = hourly?.rolledUpTo;
+  if (!to) return [];
+
+  const earliest = new Date(to.getTime() - MAX_CATCH_UP_HOURS * HOUR_MS);
+  // The first pass only looks at the last complete hour
+  let from = analyzedTo ?? new Date(to.getTime() - HOUR_MS);
+  if (from < earliest) from = earliest;
+  if (from >= to) return [];
+
+  const events = listDevices().flatMap((device) => analyzeDevice(device.id, from, to));
+  analyzedTo = to;
+
+  // Listeners may deliver notifications, which is slow compared to the analysis
+  for (const { anomaly, event } of events) {
+    for (const listener of listeners) {
+      try {
+        await listener(anomaly, event);
+      } catch (error) {
+        console.error(`Anomaly listener failed for anomaly ${anomaly.id}:`, error);
+      }
+    }
+  }
+
+  return events;
+};
+
+/*
+ * Runs runAnomalyDetection() at startup and then every ANOMALY_INTERVAL_MS. It only has
+ * work to do once an hour, when the retention job has rolled up the previous one.
+ * Returns a function that stops the job.
+ */
+export const startAnomalyDetection = () => {
+  const intervalMs = Number(process.env.ANOMALY_INTERVAL_MS) || DEFAULT_ANOMALY_INTERVAL_MS;
+
+  const tick = () => {
+    runAnomalyDetection().catch((error) => console.error("Anomaly detection failed:", error));
+  };
+
+  tick();
+  const timer = setInterval(tick, intervalMs);
+  console.log(`Anomaly detection started (every ${intervalMs} ms)`);
+
+  return () => clearInterval(timer);
+};
+
+// Anomalies that overlap [from, to), newest first; open ones count as ongoing
+export const listAnomalies = (deviceId: string, { sensor, from, to }: AnomalyQuery) =>
+  db
+    .select()
+    .from(anomalyTable)
+    .where(
+      and(
+        eq(anomalyTable.deviceId, deviceId),
+        sensor ? eq(anomalyTable.sensor, sensor) : undefined,
+        lt(anomalyTable.startedAt, to),
+        or(isNull(anomalyTable.resolvedAt), gte(anomalyTable.lastSeenAt, from))
+      )
+    )
+    .orderBy(desc(anomalyTable.startedAt), desc(anomalyTable.id))
+    .limit(ANOMALY_LIMIT)
+    .all();
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+
+import { db } from "../drizzle";
+import { userTable } from "../drizzle/schema";
+import { ApiKeyError, authenticateApiKey, createApiKey, revokeApiKey } from "./apiKeys";
+
+let userCount = 0;
+
+const addUser = () => {
+  userCount++;
+  return db
+    .insert(userTable)
+    .values({ id: `user-${userCount}`, name: `User ${userCount}`, email: `user-${userCount}@greenhouse.test`, role: "owner" })
+    .returning()
+    .get();
+};
+
+const addKey = (changes: Partial<Parameters<typeof createApiKey>[1]> = {}) =>
+  createApiKey(addUser().id, { name: "Script", scope: "read", rateLimitPerMinute: 120, expiresAt: null, ...changes });
+
+describe("authenticateApiKey", () => {
+  it("resolves the key's owner with the key's scope attached", () => {
+    const { key, userId } = addKey({ scope: "control" });
+
+    const { user, rateLimit } = authenticateApiKey(key, "10.0.0.1");
+
+    expect(user).toMatchObject({ id: userId, role: "owner", apiKeyScope: "control" });
+    expect(rateLimit).toEqual({ limit: 120, remaining: 119 });
+  });
+
+  it("rejects unknown, revoked and expired keys with a 401", () => {
+    const revoked = addKey();
+    revokeApiKey(revoked.userId, revoked.id);
+    const expired = addKey({ expiresAt: new Date("2025-01-01T00:00:00Z") });
+
+    expect(() => authenticateApiKey("gh_unknown", undefined)).toThrow(new ApiKeyError("Invalid API key"));
+    expect(() => authenticateApiKey(revoked.key, undefined)).toThrow(new ApiKeyError("Invalid API key"));
+    expect(() => authenticateApiKey(expired.key, undefined, new Date("2025-01-01T00:00:00Z"))).toThrow(
+      new ApiKeyError("API key has expired")
+    );
+    expect(() => authenticateApiKey(revoked.key, undefined)).toThrow(expect.objectContaining({ status: 401 }));
+  });
+
+  it("refuses requests over the rate limit with a 429 until the minute is over", () => {
+    const { key } = addKey({ rateLimitPerMinute: 2 });
+    const start = new Date("2025-06-01T12:00:00Z");
+
+    authenticateApiKey(key, undefined, start);
+    authenticateApiKey(key, undefined, new Date(start.getTime() + 1000));
+
+    expect(() => authenticateApiKey(key, undefined, new Date(start.getTime() + 20 * 1000))).toThrow(
+      expect.objectContaining({ status: 429, retryAfter: 40 })
+    );
+    expect(authenticateApiKey(key, undefined, new Date(start.getTime() + 60 * 1000)).rateLimit.remaining).toBe(1);
+  });
+});
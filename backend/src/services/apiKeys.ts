@@ -0,0 +1,131 @@
+import { createHash, randomBytes } from "crypto";
+import { and, desc, eq, isNull } from "drizzle-orm";
+
+import { db } from "../drizzle";
+import { apiKeyTable, userTable } from "../drizzle/schema";
+import { ApiKeyScope } from "../utils/permissions";
+
+/*
+ * API keys let scripts and integrations call the backend without a browser session. A key
+ * acts as the user who created it, narrowed to its scope, so it can never do more than its
+ * owner. Only a SHA-256 of the key is stored: the keys are random enough that a slow hash
+ * adds nothing, and the plain key is shown once, when it is created.
+ */
+
+export type ApiKey = typeof apiKeyTable.$inferSelect;
+
+// What the key list returns, without the hash
+export type ApiKeySummary = Omit<ApiKey, "keyHash">;
+
+export type ApiKeyUser = typeof userTable.$inferSelect & { apiKeyScope: ApiKeyScope };
+
+// Keys look like gh_<43 base64url characters>, the marker tells them apart from session tokens
+export const API_KEY_MARKER = "gh_";
+
+const PREFIX_LENGTH = API_KEY_MARKER.length + 8;
+
+// Writing lastUsedAt on every request of a busy script is not worth it, a minute is precise enough
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+const RATE_WINDOW_MS = 60 * 1000;
+
+export class ApiKeyError extends Error {
+  status: number;
+  // Seconds until the rate limit window resets, for the Retry-After header
+  retryAfter?: number;
+
+  constructor(message: string, status = 401, retryAfter?: number) {
+    super(message);
+    this.name = "ApiKeyError";
+    this.status = status;
+    this.retryAfter = retryAfter;
+  }
+}
+
+// Requests per key in the current one-minute window
+const usage = new Map<number, { windowStart: number; count: number }>();
+
+const hashKey = (key: string) => createHash("sha256").update(key).digest("hex");
+
+const summary = ({ keyHash: _keyHash, ...key }: ApiKey): ApiKeySummary => key;
+
+export const listApiKeys = (userId: string) =>
+  db
+    .select()
+    .from(apiKeyTable)
+    .where(eq(apiKeyTable.userId, userId))
+    .orderBy(desc(apiKeyTable.createdAt), desc(apiKeyTable.id))
+    .all()
+    .map(summary);
+
+// Returns the plain key once, it cannot be recovered afterwards
+export const createApiKey = (
+  userId: string,
+  options: { name: string; scope: ApiKeyScope; rateLimitPerMinute: number; expiresAt: Date | null }
+) => {
+  const key = `${API_KEY_MARKER}${randomBytes(32).toString("base64url")}`;
+
+  const stored = db
+    .insert(apiKeyTable)
+    .values({ ...options, userId, prefix: key.slice(0, PREFIX_LENGTH), keyHash: hashKey(key) })
+    .returning()
+    .get();
+
+  return { ...summary(stored), key };
+};
+
+// Revoked keys stay listed so their last use can still be looked up
+export const revokeApiKey = (userId: string, id: number) => {
+  const revoked = db
+    .update(apiKeyTable)
+    .set({ revokedAt: new Date() })
+    .where(and(eq(apiKeyTable.id, id), eq(apiKeyTable.userId, userId), isNull(apiKeyTable.revokedAt)))
+    .returning()
+    .get();
+
+  if (revoked) usage.delete(id);
+  return revoked ? summary(revoked) : undefined;
+};
+
+const countRequest = (key: ApiKey, now: number) => {
+  const current = usage.get(key.id);
+  const window = current && now - current.windowStart < RATE_WINDOW_MS ? current : { windowStart: now, count: 0 };
+
+  if (window.count >= key.rateLimitPerMinute) {
+    const retryAfter = Math.ceil((window.windowStart + RATE_WINDOW_MS - now) / 1000);
+    throw new ApiKeyError(`Rate limit of ${key.rateLimitPerMinute} requests per minute exceeded`, 429, retryAfter);
+  }
+
+  window.count++;
+  usage.set(key.id, window);
+  return { limit: key.rateLimitPerMinute, remaining: key.rateLimitPerMinute - window.count };
+};
+
+/*
+ * Used by requireAuth for `Authorization: Bearer gh_...`. Resolves the key's owner with the
+ * key's scope attached, counts the request against the key's rate limit and records the use.
+ */
+export const authenticateApiKey = (key: string, ip: string | undefined, now = new Date()) => {
+  const row = db
+    .select()
+    .from(apiKeyTable)
+    .innerJoin(userTable, eq(apiKeyTable.userId, userTable.id))
+    .where(eq(apiKeyTable.keyHash, hashKey(key)))
+    .get();
+
+  if (!row || row.api_key.revokedAt) throw new ApiKeyError("Invalid API key");
+  if (row.api_key.expiresAt && row.api_key.expiresAt <= now) throw new ApiKeyError("API key has expired");
+
+  const rateLimit = countRequest(row.api_key, now.getTime());
+
+  const { lastUsedAt } = row.api_key;
+  if (!lastUsedAt || now.getTime() - lastUsedAt.getTime() >= LAST_USED_RESOLUTION_MS || row.api_key.lastUsedIp !== ip) {
+    db.update(apiKeyTable)
+      .set({ lastUsedAt: now, lastUsedIp: ip ?? null })
+      .where(eq(apiKeyTable.id, row.api_key.id))
+      .run();
+  }
+
+  const user: ApiKeyUser = { ...row.user, apiKeyScope: row.api_key.scope };
+  return { user, key: summary(row.api_key), rateLimit };
+};
@@ -0,0 +1,69 @@
+import { and, desc, eq, gte, lt, sql } from "drizzle-orm";
+
+import { db } from "../drizzle";
+import { auditLogTable, userTable } from "../drizzle/schema";
+import type { CommandRequest } from "./deviceCommands";
+import type { DeviceCommand } from "./esp32Client";
+
+export interface AuditFilters {
+  deviceId?: string;
+  userId?: string;
+  source?: CommandRequest["source"];
+  actuator?: DeviceCommand["actuator"];
+  success?: boolean;
+  from?: Date;
+  // Exclusive
+  to?: Date;
+}
+
+export const recordCommand = (
+  request: CommandRequest,
+  success: boolean,
+  response: string,
+  latencyMs: number | null
+) => {
+  try {
+    db.insert(auditLogTable)
+      .values({
+        userId: request.userId ?? null,
+        deviceId: request.deviceId,
+        source: request.source,
+        actuator: request.command.actuator,
+        command: request.command,
+        success,
+        response,
+        latencyMs,
+      })
+      .run();
+  } catch (error) {
+    // The command already happened, losing its audit row must not turn it into a failure
+    console.error("Failed to write audit log:", error);
+  }
+};
+
+const whereFilters = (filters: AuditFilters) =>
+  and(
+    filters.deviceId ? eq(auditLogTable.deviceId, filters.deviceId) : undefined,
+    filters.userId ? eq(auditLogTable.userId, filters.userId) : undefined,
+    filters.source ? eq(auditLogTable.source, filters.source) : undefined,
+    filters.actuator ? eq(auditLogTable.actuator, filters.actuator) : undefined,
+    filters.success !== undefined ? eq(auditLogTable.success, filters.success) : undefined,
+    filters.from ? gte(auditLogTable.createdAt, filters.from) : undefined,
+    filters.to ? lt(auditLogTable.createdAt, filters.to) : undefined
+  );
+
+// Newest first, with the name and email of whoever sent the command
+export const queryAuditLog = (filters: AuditFilters, limit: number, offset = 0) =>
+  db
+    .select({ entry: auditLogTable, userName: userTable.name, userEmail: userTable.email })
+    .from(auditLogTable)
+    .leftJoin(userTable, eq(auditLogTable.userId, userTable.id))
+    .where(whereFilters(filters))
+    .orderBy(desc(auditLogTable.createdAt), desc(auditLogTable.id))
+    .limit(limit)
+    .offset(offset)
+    .all()
+    .map(({ entry, userName, userEmail }) => ({ ...entry, userName, userEmail }));
+
+export const countAuditLog = (filters: AuditFilters) =>
+  db.select({ count: sql<number>`count(*)` }).from(auditLogTable).where(whereFilters(filters)).get()!.count;
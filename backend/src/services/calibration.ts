@@ -0,0 +1,183 @@
+import { and, desc, eq } from "drizzle-orm";
+
+import { db } from "../drizzle";
+import { sensorCalibrationTable } from "../drizzle/schema";
+import type { DeviceTransport } from "./deviceTransport";
+import { DeviceStatus, Esp32Error, SensorReadings } from "./esp32Client";
+import { CALIBRATED_SENSORS, CalibratedSensor } from "../utils/sensors";
+
+export type SensorCalibration = typeof sensorCalibrationTable.$inferSelect;
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// One buffer solution (pH) or reference gas concentration (MQ135) and what the board read for it
+export interface CalibrationPoint {
+  raw: number;
+  reference: number;
+}
+
+export interface CalibrationFit {
+  slope: number;
+  offset: number;
+  // Largest distance between a reference and the fitted line, 0 for two-point calibrations
+  maxResidual: number;
+}
+
+export interface CalibratedStatus extends DeviceStatus {
+  // Readings exactly as the board sent them
+  raw: SensorReadings;
+  // Analog sensors without an active calibration, their values are still ADC counts
+  uncalibrated: CalibratedSensor[];
+}
+
+// Points that do not make a usable calibration
+export class CalibrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CalibrationError";
+  }
+}
+
+// Raw samples averaged per wizard step, analog probes jitter by a few counts
+const RAW_SAMPLE_COUNT = 5;
+const RAW_SAMPLE_INTERVAL_MS = 500;
+
+/*
+ * Least-squares line through the points (exact for two). Throws when the raw readings
+ * are too close together to tell the buffers apart, e.g. the probe was not moved.
+ */
+export const fitCalibration = (points: CalibrationPoint[]): CalibrationFit => {
+  const meanRaw = points.reduce((sum, point) => sum + point.raw, 0) / points.length;
+  const meanReference = points.reduce((sum, point) => sum + point.reference, 0) / points.length;
+
+  let covariance = 0;
+  let variance = 0;
+  for (const point of points) {
+    covariance += (point.raw - meanRaw) * (point.reference - meanReference);
+    variance += (point.raw - meanRaw) ** 2;
+  }
+
+  if (variance < 1) {
+    throw new CalibrationError("Raw readings are identical, make sure the probe was moved between solutions");
+  }
+
+  const slope = covariance / variance;
+  const offset = meanReference - slope * meanRaw;
+  const maxResidual = Math.max(...points.map((point) => Math.abs(slope * point.raw + offset - point.reference)));
+
+  return { slope, offset, maxResidual };
+};
+
+export const getActiveCalibrations = (deviceId: string) =>
+  db
+    .select()
+    .from(sensorCalibrationTable)
+    .where(and(eq(sensorCalibrationTable.deviceId, deviceId), eq(sensorCalibrationTable.active, true)))
+    .all();
+
+export const listCalibrations = (deviceId: string, sensor?: CalibratedSensor) =>
+  db
+    .select()
+    .from(sensorCalibrationTable)
+    .where(
+      and(
+        eq(sensorCalibrationTable.deviceId, deviceId),
+        sensor ? eq(sensorCalibrationTable.sensor, sensor) : undefined
+      )
+    )
+    .orderBy(desc(sensorCalibrationTable.createdAt), desc(sensorCalibrationTable.id))
+    .all();
+
+export const getCalibration = (id: number) =>
+  db.select().from(sensorCalibrationTable).where(eq(sensorCalibrationTable.id, id)).get();
+
+// Retires whatever is active for the sensor, then makes `activate` (if given) the active one
+const switchActive = (deviceId: string, sensor: CalibratedSensor, activate?: (tx: Transaction) => SensorCalibration) =>
+  db.transaction((tx) => {
+    tx.update(sensorCalibrationTable)
+      .set({ active: false, retiredAt: new Date() })
+      .where(
+        and(
+          eq(sensorCalibrationTable.deviceId, deviceId),
+          eq(sensorCalibrationTable.sensor, sensor),
+          eq(sensorCalibrationTable.active, true)
+        )
+      )
+      .run();
+
+    return activate?.(tx);
+  });
+
+export const saveCalibration = (
+  deviceId: string,
+  sensor: CalibratedSensor,
+  points: CalibrationPoint[],
+  userId: string | null
+) => {
+  const { slope, offset } = fitCalibration(points);
+
+  return switchActive(deviceId, sensor, (tx) =>
+    tx
+      .insert(sensorCalibrationTable)
+      .values({ deviceId, sensor, slope, offset, points, createdBy: userId })
+      .returning()
+      .get()
+  )!;
+};
+
+// Rolls back to an earlier calibration from the history
+export const activateCalibration = (calibration: SensorCalibration) =>
+  switchActive(calibration.deviceId, calibration.sensor, (tx) =>
+    tx
+      .update(sensorCalibrationTable)
+      .set({ active: true, retiredAt: null })
+      .where(eq(sensorCalibrationTable.id, calibration.id))
+      .returning()
+      .get()
+  )!;
+
+// Back to raw ADC counts until the sensor is calibrated again
+export const deactivateCalibration = (deviceId: string, sensor: CalibratedSensor) => {
+  switchActive(deviceId, sensor);
+};
+
+/*
+ * Converts the analog readings of a status into engineering units (pH, ppm) using the
+ * device's active calibrations. Runs before telemetry is stored, evaluated by rules and
+ * alerts, or shown anywhere, so nothing downstream ever sees ADC counts for a calibrated sensor.
+ */
+export const calibrateStatus = (deviceId: string, status: DeviceStatus): CalibratedStatus => {
+  const calibrations = getActiveCalibrations(deviceId);
+  const sensors = { ...status.sensors };
+
+  for (const { sensor, slope, offset } of calibrations) {
+    const raw = status.sensors[sensor];
+    // Three decimals is well below what either probe resolves, and keeps alert messages readable
+    if (raw !== null) sensors[sensor] = Math.round((slope * raw + offset) * 1000) / 1000;
+  }
+
+  return {
+    ...status,
+    sensors,
+    raw: status.sensors,
+    uncalibrated: CALIBRATED_SENSORS.filter((sensor) => !calibrations.some((c) => c.sensor === sensor)),
+  };
+};
+
+// Averages a few raw readings for one wizard step
+export const sampleRawReading = async (client: DeviceTransport, sensor: CalibratedSensor) => {
+  const samples: number[] = [];
+
+  for (let i = 0; i < RAW_SAMPLE_COUNT; i++) {
+    if (i > 0) await new Promise((resolve) => setTimeout(resolve, RAW_SAMPLE_INTERVAL_MS));
+
+    const value = (await client.getStatus()).sensors[sensor];
+    if (value !== null) samples.push(value);
+  }
+
+  if (samples.length === 0) {
+    throw new Esp32Error(`The board did not report ${sensor}, check the probe wiring`);
+  }
+
+  return { raw: samples.reduce((sum, value) => sum + value, 0) / samples.length, samples };
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+
+import { createCropProfile, getActiveCrop, setActiveCrop } from "./cropProfiles";
+import { DEFAULT_OPTIMAL_RANGES } from "../utils/sensors";
+import { addDevice } from "../test/fixtures";
+
+const STARTED_AT = new Date("2026-03-01T06:00:00Z");
+
+const afterDays = (days: number) => new Date(STARTED_AT.getTime() + days * 24 * 60 * 60 * 1000);
+
+let profileCount = 0;
+
+// Ten days of seedling, then twenty of growing, then fruiting for as long as it takes
+const addCrop = () => {
+  profileCount++;
+  const profile = createCropProfile(
+    {
+      name: `Pepper ${profileCount}`,
+      description: null,
+      stages: [
+        { name: "Seedling", days: 10, ranges: { temperature: { min: 22, max: 26 } } },
+        { name: "Growing", days: 20, ranges: { humidity: { min: 55, max: 65 } } },
+        { name: "Fruiting", days: 40, ranges: {} },
+      ],
+    },
+    null
+  );
+  const { id } = addDevice();
+  setActiveCrop(id, profile.id, STARTED_AT);
+  return id;
+};
+
+const stageOn = (deviceId: string, now: Date) => {
+  const crop = getActiveCrop(deviceId, now)!;
+  return { name: crop.stage.name, stageStartedAt: crop.stageStartedAt, stageEndsAt: crop.stageEndsAt };
+};
+
+describe("getActiveCrop", () => {
+  it("moves to the next stage exactly when the previous one's days are up", () => {
+    const id = addCrop();
+
+    expect(stageOn(id, STARTED_AT)).toEqual({ name: "Seedling", stageStartedAt: STARTED_AT, stageEndsAt: afterDays(10) });
+    expect(stageOn(id, new Date(afterDays(10).getTime() - 1)).name).toBe("Seedling");
+    expect(stageOn(id, afterDays(10))).toEqual({ name: "Growing", stageStartedAt: afterDays(10), stageEndsAt: afterDays(30) });
+    expect(stageOn(id, afterDays(30))).toEqual({ name: "Fruiting", stageStartedAt: afterDays(30), stageEndsAt: null });
+  });
+
+  it("keeps the last stage going past its days", () => {
+    const id = addCrop();
+
+    expect(stageOn(id, afterDays(365))).toEqual({ name: "Fruiting", stageStartedAt: afterDays(30), stageEndsAt: null });
+  });
+
+  it("puts a crop that starts later in its first stage already", () => {
+    const id = addCrop();
+
+    expect(stageOn(id, afterDays(-3))).toEqual({ name: "Seedling", stageStartedAt: STARTED_AT, stageEndsAt: afterDays(10) });
+  });
+
+  it("lays the stage's ranges over the defaults", () => {
+    const id = addCrop();
+
+    expect(getActiveCrop(id, afterDays(12))!.ranges).toEqual({
+      ...DEFAULT_OPTIMAL_RANGES,
+      humidity: { min: 55, max: 65 },
+    });
+  });
+});
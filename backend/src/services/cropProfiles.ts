@@ -0,0 +1,208 @@
+import { eq, sql } from "drizzle-orm";
+
+import { db } from "../drizzle";
+import { cropProfileTable, deviceCropTable } from "../drizzle/schema";
+import { DEFAULT_OPTIMAL_RANGES, Sensor, SensorRange } from "../utils/sensors";
+
+/*
+ * Crop profiles replace the fixed optimal ranges. A profile is a list of growth stages that
+ * follow each other, and each stage sets the optimal range of the sensors it cares about;
+ * the others keep DEFAULT_OPTIMAL_RANGES. A greenhouse grows one profile at a time, and its
+ * current stage is worked out from the start date, so it moves on without anyone touching it.
+ */
+
+export interface CropStage {
+  name: string;
+  days: number;
+  ranges: Partial<Record<Sensor, SensorRange>>;
+}
+
+export type CropProfile = typeof cropProfileTable.$inferSelect;
+
+export interface ActiveCrop {
+  deviceId: string;
+  profile: CropProfile;
+  startedAt: Date;
+  stageIndex: number;
+  stage: CropStage;
+  stageStartedAt: Date;
+  // Null during the last stage, which lasts until the greenhouse gets another crop
+  stageEndsAt: Date | null;
+  // Every sensor, the stage's ranges on top of the defaults
+  ranges: Record<Sensor, SensorRange>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Starting points for new installations, editable like any other profile
+const BUILT_IN_PROFILES: { name: string; description: string; stages: CropStage[] }[] = [
+  {
+    name: "Tomato",
+    description: "Indeterminate tomatoes from seed",
+    stages: [
+      {
+        name: "Seedling",
+        days: 21,
+        ranges: { temperature: { min: 20, max: 25 }, humidity: { min: 60, max: 80 }, ph: { min: 5.8, max: 6.5 } },
+      },
+      {
+        name: "Vegetative",
+        days: 30,
+        ranges: { temperature: { min: 21, max: 27 }, humidity: { min: 60, max: 70 }, ph: { min: 6.0, max: 6.8 } },
+      },
+      {
+        name: "Flowering and fruiting",
+        days: 60,
+        ranges: { temperature: { min: 20, max: 28 }, humidity: { min: 50, max: 70 }, ph: { min: 6.0, max: 6.8 } },
+      },
+    ],
+  },
+  {
+    name: "Lettuce",
+    description: "Leaf lettuce, cool season",
+    stages: [
+      {
+        name: "Seedling",
+        days: 14,
+        ranges: { temperature: { min: 18, max: 22 }, humidity: { min: 60, max: 70 }, ph: { min: 5.8, max: 6.2 } },
+      },
+      {
+        name: "Growing",
+        days: 35,
+        ranges: { temperature: { min: 15, max: 22 }, humidity: { min: 50, max: 70 }, ph: { min: 6.0, max: 6.8 } },
+      },
+    ],
+  },
+];
+
+export class CropProfileError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "CropProfileError";
+    this.status = status;
+  }
+}
+
+export const listCropProfiles = () => db.select().from(cropProfileTable).orderBy(cropProfileTable.name).all();
+
+export const getCropProfile = (id: number) => db.select().from(cropProfileTable).where(eq(cropProfileTable.id, id)).get();
+
+const assertUniqueName = (name: string, id?: number) => {
+  const existing = db.select().from(cropProfileTable).where(eq(cropProfileTable.name, name)).get();
+  if (existing && existing.id !== id) {
+    throw new CropProfileError(`A crop profile named "${name}" already exists`, 409);
+  }
+};
+
+export const createCropProfile = (
+  profile: Pick<CropProfile, "name" | "description" | "stages">,
+  userId: string | null
+) => {
+  assertUniqueName(profile.name);
+  return db
+    .insert(cropProfileTable)
+    .values({ ...profile, createdBy: userId })
+    .returning()
+    .get();
+};
+
+export const updateCropProfile = (id: number, changes: Partial<Pick<CropProfile, "name" | "description" | "stages">>) => {
+  if (!getCropProfile(id)) throw new CropProfileError("Crop profile not found", 404);
+  if (changes.name) assertUniqueName(changes.name, id);
+
+  return db
+    .update(cropProfileTable)
+    .set({ ...changes, updatedAt: new Date() })
+    .where(eq(cropProfileTable.id, id))
+    .returning()
+    .get()!;
+};
+
+// A profile still growing somewhere has to be replaced there first
+export const deleteCropProfile = (id: number) => {
+  const inUse = db.select().from(deviceCropTable).where(eq(deviceCropTable.profileId, id)).all();
+  if (inUse.length > 0) {
+    throw new CropProfileError(
+      `Crop profile is active on ${inUse.map(({ deviceId }) => deviceId).join(", ")}`,
+      409
+    );
+  }
+
+  const deleted = db.delete(cropProfileTable).where(eq(cropProfileTable.id, id)).returning().get();
+  if (!deleted) throw new CropProfileError("Crop profile not found", 404);
+  return deleted;
+};
+
+// The stage a crop started at startedAt is in at `now`; the last one never ends, and a crop
+// that starts later is in its first stage already so the greenhouse can be prepared for it
+const stageAt = (stages: CropStage[], startedAt: Date, now: Date) => {
+  let stageStart = startedAt.getTime();
+
+  for (const [index, stage] of stages.entries()) {
+    const stageEnd = stageStart + stage.days * DAY_MS;
+    if (now.getTime() < stageEnd || index === stages.length - 1) {
+      return {
+        stageIndex: index,
+        stage,
+        stageStartedAt: new Date(stageStart),
+        stageEndsAt: index === stages.length - 1 ? null : new Date(stageEnd),
+      };
+    }
+    stageStart = stageEnd;
+  }
+
+  throw new CropProfileError("Crop profile has no stages");
+};
+
+// The greenhouse's crop and current stage, null when it has none
+export const getActiveCrop = (deviceId: string, now = new Date()): ActiveCrop | null => {
+  const row = db
+    .select()
+    .from(deviceCropTable)
+    .innerJoin(cropProfileTable, eq(deviceCropTable.profileId, cropProfileTable.id))
+    .where(eq(deviceCropTable.deviceId, deviceId))
+    .get();
+  if (!row) return null;
+
+  const { startedAt } = row.device_crop;
+  const current = stageAt(row.crop_profile.stages, startedAt, now);
+
+  return {
+    deviceId,
+    profile: row.crop_profile,
+    startedAt,
+    ...current,
+    ranges: { ...DEFAULT_OPTIMAL_RANGES, ...current.stage.ranges },
+  };
+};
+
+// What the dashboard, alerts and rule defaults treat as optimal for the greenhouse right now
+export const getOptimalRanges = (deviceId: string, now = new Date()) =>
+  getActiveCrop(deviceId, now)?.ranges ?? DEFAULT_OPTIMAL_RANGES;
+
+export const setActiveCrop = (deviceId: string, profileId: number, startedAt: Date) => {
+  if (!getCropProfile(profileId)) throw new CropProfileError("Crop profile not found", 404);
+
+  db.insert(deviceCropTable)
+    .values({ deviceId, profileId, startedAt })
+    .onConflictDoUpdate({ target: deviceCropTable.deviceId, set: { profileId, startedAt, updatedAt: new Date() } })
+    .run();
+
+  return getActiveCrop(deviceId)!;
+};
+
+// Back to the default ranges
+export const clearActiveCrop = (deviceId: string) =>
+  db.delete(deviceCropTable).where(eq(deviceCropTable.deviceId, deviceId)).run().changes > 0;
+
+// First start only, like the device registry seed
+export const seedCropProfiles = () => {
+  const { count } = db.select({ count: sql<number>`count(*)` }).from(cropProfileTable).get()!;
+  if (count > 0) return;
+
+  for (const profile of BUILT_IN_PROFILES) {
+    db.insert(cropProfileTable).values(profile).run();
+  }
+};
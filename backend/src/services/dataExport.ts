@@ -0,0 +1,216 @@
+import { and, asc, eq, gt, gte, inArray, lte, or } from "drizzle-orm";
+
+import { db } from "../drizzle";
+import { alertTable, auditLogTable, sensorReadingTable, telemetrySampleTable, userTable } from "../drizzle/schema";
+import { ReadingQuality, Sensor } from "../utils/sensors";
+
+/*
+ * Bulk exports of stored data, oldest first. Rows are read in batches so an export of a
+ * whole year never sits in memory at once; routes/data.ts writes each batch out as it comes.
+ */
+
+export const EXPORT_DATASETS = ["telemetry", "commands", "alerts"] as const;
+
+export type ExportDataset = (typeof EXPORT_DATASETS)[number];
+
+const BATCH_SIZE = 1000;
+
+export interface ExportFilters {
+  // All devices when omitted
+  deviceId?: string;
+  from?: Date;
+  to?: Date;
+  // Telemetry columns and alert rows; commands are not tied to a sensor
+  sensors: Sensor[];
+}
+
+export interface ExportTable {
+  columns: string[];
+  // Each batch is a list of rows with one value per column
+  batches: Generator<unknown[][]>;
+}
+
+type TelemetrySampleRow = typeof telemetrySampleTable.$inferSelect;
+
+const ACTUATOR_COLUMNS = ["fan", "pump1", "pump2", "led", "stepper_enabled"];
+
+// Every sensor's value followed by its quality (see services/dataQuality.ts)
+const qualifiedColumns = (sensor: Sensor) => [sensor, `${sensor}_quality`];
+
+// Samples in time order, paged by (recordedAt, id) since imported samples have later ids than their time suggests
+function* telemetryBatches(filters: ExportFilters): Generator<unknown[][]> {
+  let cursor: { recordedAt: Date; id: number } | null = null;
+
+  while (true) {
+    const samples: TelemetrySampleRow[] = db
+      .select()
+      .from(telemetrySampleTable)
+      .where(
+        and(
+          filters.deviceId ? eq(telemetrySampleTable.deviceId, filters.deviceId) : undefined,
+          filters.from ? gte(telemetrySampleTable.recordedAt, filters.from) : undefined,
+          filters.to ? lte(telemetrySampleTable.recordedAt, filters.to) : undefined,
+          cursor
+            ? or(
+                gt(telemetrySampleTable.recordedAt, cursor.recordedAt),
+                and(eq(telemetrySampleTable.recordedAt, cursor.recordedAt), gt(telemetrySampleTable.id, cursor.id))
+              )
+            : undefined
+        )
+      )
+      .orderBy(asc(telemetrySampleTable.recordedAt), asc(telemetrySampleTable.id))
+      .limit(BATCH_SIZE)
+      .all();
+    if (samples.length === 0) return;
+
+    const values = new Map<number, Partial<Record<Sensor, { value: number | null; quality: ReadingQuality }>>>();
+    const readings = db
+      .select({
+        sampleId: sensorReadingTable.sampleId,
+        sensor: sensorReadingTable.sensor,
+        value: sensorReadingTable.value,
+        quality: sensorReadingTable.quality,
+      })
+      .from(sensorReadingTable)
+      .where(
+        and(
+          inArray(sensorReadingTable.sampleId, samples.map((sample) => sample.id)),
+          inArray(sensorReadingTable.sensor, filters.sensors)
+        )
+      )
+      .all();
+    for (const reading of readings) {
+      values.set(reading.sampleId, { ...values.get(reading.sampleId), [reading.sensor]: reading });
+    }
+
+    yield samples.map((sample) => [
+      sample.recordedAt,
+      sample.deviceId,
+      sample.source,
+      ...filters.sensors.flatMap((sensor) => {
+        const reading = values.get(sample.id)?.[sensor];
+        return [reading?.value ?? null, reading?.quality ?? null];
+      }),
+      // Other loggers did not record the actuators, blank beats a made-up "off"
+      ...(sample.source === "import"
+        ? ACTUATOR_COLUMNS.map(() => null)
+        : [sample.fan, sample.pump1, sample.pump2, sample.led, sample.stepperEnabled]),
+    ]);
+
+    if (samples.length < BATCH_SIZE) return;
+    const last = samples[samples.length - 1];
+    cursor = { recordedAt: last.recordedAt, id: last.id };
+  }
+}
+
+// Audit rows are only ever appended, so their id order is their time order
+function* commandBatches(filters: ExportFilters): Generator<unknown[][]> {
+  let lastId = 0;
+
+  while (true) {
+    const entries = db
+      .select({ entry: auditLogTable, userName: userTable.name, userEmail: userTable.email })
+      .from(auditLogTable)
+      .leftJoin(userTable, eq(auditLogTable.userId, userTable.id))
+      .where(
+        and(
+          gt(auditLogTable.id, lastId),
+          filters.deviceId ? eq(auditLogTable.deviceId, filters.deviceId) : undefined,
+          filters.from ? gte(auditLogTable.createdAt, filters.from) : undefined,
+          filters.to ? lte(auditLogTable.createdAt, filters.to) : undefined
+        )
+      )
+      .orderBy(asc(auditLogTable.id))
+      .limit(BATCH_SIZE)
+      .all();
+    if (entries.length === 0) return;
+
+    yield entries.map(({ entry, userName, userEmail }) => [
+      entry.createdAt,
+      entry.deviceId,
+      entry.source,
+      userName,
+      userEmail,
+      entry.actuator,
+      entry.command,
+      entry.success,
+      entry.response,
+      entry.latencyMs,
+    ]);
+
+    if (entries.length < BATCH_SIZE) return;
+    lastId = entries[entries.length - 1].entry.id;
+  }
+}
+
+function* alertBatches(filters: ExportFilters): Generator<unknown[][]> {
+  let lastId = 0;
+
+  while (true) {
+    const alerts = db
+      .select({ alert: alertTable, acknowledgedBy: userTable.email })
+      .from(alertTable)
+      .leftJoin(userTable, eq(alertTable.acknowledgedBy, userTable.id))
+      .where(
+        and(
+          gt(alertTable.id, lastId),
+          inArray(alertTable.sensor, filters.sensors),
+          filters.deviceId ? eq(alertTable.deviceId, filters.deviceId) : undefined,
+          filters.from ? gte(alertTable.firedAt, filters.from) : undefined,
+          filters.to ? lte(alertTable.firedAt, filters.to) : undefined
+        )
+      )
+      .orderBy(asc(alertTable.id))
+      .limit(BATCH_SIZE)
+      .all();
+    if (alerts.length === 0) return;
+
+    yield alerts.map(({ alert, acknowledgedBy }) => [
+      alert.firedAt,
+      alert.deviceId,
+      alert.sensor,
+      alert.severity,
+      alert.status,
+      alert.value,
+      alert.message,
+      alert.resolvedAt,
+      alert.acknowledgedAt,
+      acknowledgedBy,
+    ]);
+
+    if (alerts.length < BATCH_SIZE) return;
+    lastId = alerts[alerts.length - 1].alert.id;
+  }
+}
+
+export const exportTable = (dataset: ExportDataset, filters: ExportFilters): ExportTable => {
+  switch (dataset) {
+    case "telemetry":
+      // Same layout the telemetry import reads, so an export can be loaded into another installation
+      return {
+        columns: ["time", "device", "source", ...filters.sensors.flatMap(qualifiedColumns), ...ACTUATOR_COLUMNS],
+        batches: telemetryBatches(filters),
+      };
+    case "commands":
+      return {
+        columns: ["time", "device", "source", "user", "email", "actuator", "command", "success", "response", "latency_ms"],
+        batches: commandBatches(filters),
+      };
+    case "alerts":
+      return {
+        columns: [
+          "fired_at",
+          "device",
+          "sensor",
+          "severity",
+          "status",
+          "value",
+          "message",
+          "resolved_at",
+          "acknowledged_at",
+          "acknowledged_by",
+        ],
+        batches: alertBatches(filters),
+      };
+  }
+};
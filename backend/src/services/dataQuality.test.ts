@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+
+import { assessStatus, trustedReadings } from "./dataQuality";
+import { calibratedStatus } from "../test/fixtures";
+
+const START = new Date("2026-06-01T12:00:00Z").getTime();
+
+const at = (minutes: number) => new Date(START + minutes * 60 * 1000);
+
+describe("assessStatus", () => {
+  it("flags readings outside what the sensor can report as bad", () => {
+    const { quality } = assessStatus("range", calibratedStatus({ humidity: 104 }));
+
+    expect(quality.humidity).toEqual({ quality: "bad", reason: "104 is outside the possible 0 to 100" });
+    expect(quality.temperature.quality).toBe("good");
+  });
+
+  it("flags an analog probe reading exactly 0 as bad", () => {
+    const status = calibratedStatus({ ph: 7 });
+    status.raw = { ...status.raw, ph: 0 };
+
+    expect(assessStatus("probe", status).quality.ph).toEqual({ quality: "bad", reason: "The probe reads 0, is it connected?" });
+  });
+
+  it("flags uncalibrated analog readings as suspect, whatever their value", () => {
+    const status = calibratedStatus({ ph: 2048, mq135: 1500 }, { uncalibrated: ["ph", "mq135"] });
+    const { quality } = assessStatus("raw", status);
+
+    expect(quality.ph).toEqual({ quality: "suspect", reason: "Not calibrated yet, this is a raw ADC count" });
+    expect(quality.mq135.quality).toBe("suspect");
+    expect(assessStatus("raw", calibratedStatus({ ph: 5000 }, { uncalibrated: ["ph"] })).quality.ph.quality).toBe("bad");
+  });
+
+  it("flags a jump as suspect until the next reading confirms it", () => {
+    assessStatus("jump", calibratedStatus({ temperature: 20 }, { fetchedAt: at(0) }));
+
+    const jumped = assessStatus("jump", calibratedStatus({ temperature: 32 }, { fetchedAt: at(1) }));
+    expect(jumped.quality.temperature).toEqual({ quality: "suspect", reason: "Jumped from 20 to 32" });
+
+    const confirmed = assessStatus("jump", calibratedStatus({ temperature: 32.5 }, { fetchedAt: at(2) }));
+    expect(confirmed.quality.temperature.quality).toBe("good");
+  });
+
+  it("flags a value that has not moved for too long as stuck", () => {
+    for (let minute = 0; minute < 30; minute++) {
+      assessStatus("stuck", calibratedStatus({ temperature: 21.3 }, { fetchedAt: at(minute) }));
+    }
+
+    const { quality } = assessStatus("stuck", calibratedStatus({ temperature: 21.3 }, { fetchedAt: at(30) }));
+    expect(quality.temperature).toEqual({ quality: "suspect", reason: "Unchanged for 30 minutes" });
+  });
+
+  it("trusts a steady temperature and humidity that only repeat for a few minutes", () => {
+    for (let minute = 0; minute < 20; minute++) {
+      const status = calibratedStatus({ temperature: 21.3, humidity: 64 }, { fetchedAt: at(minute) });
+      const { quality } = assessStatus("steady", status);
+      expect([quality.temperature.quality, quality.humidity.quality]).toEqual(["good", "good"]);
+    }
+  });
+
+  it("judges one-off reads without remembering them", () => {
+    assessStatus("peek", calibratedStatus({ temperature: 20 }, { fetchedAt: at(0) }));
+    assessStatus("peek", calibratedStatus({ temperature: 40 }, { fetchedAt: at(1) }), false);
+
+    expect(assessStatus("peek", calibratedStatus({ temperature: 20.5 }, { fetchedAt: at(2) })).quality.temperature.quality).toBe(
+      "good"
+    );
+  });
+});
+
+describe("trustedReadings", () => {
+  it("reads bad and uncalibrated values as missing and keeps the rest", () => {
+    const status = assessStatus("trusted", calibratedStatus({ humidity: 120, ph: 1800 }, { uncalibrated: ["ph"] }));
+
+    expect(trustedReadings(status)).toEqual({ temperature: 22, humidity: null, ph: null, mq135: 400, distance: 20 });
+  });
+});
@@ -0,0 +1,148 @@
+import { CalibratedStatus } from "./calibration";
+import { SensorReadings } from "./esp32Client";
+import {
+  ADC_RANGE,
+  CALIBRATED_SENSORS,
+  CalibratedSensor,
+  ReadingQuality,
+  Sensor,
+  SENSOR_RANGES,
+  SENSOR_RATE_LIMITS,
+  SENSORS,
+  STUCK_AFTER_MINUTES,
+} from "../utils/sensors";
+
+/*
+ * Data-quality checks, run on every reading before it is stored:
+ *
+ *   missing  the board sent no number, e.g. NaN from a failed DHT22 read
+ *   bad      outside what the sensor can report (SENSOR_RANGES, the ADC range while uncalibrated),
+ *            or an analog probe at exactly 0, which is what a disconnected input floats to
+ *   suspect  a jump faster than SENSOR_RATE_LIMITS, a value that has not moved at all for
+ *            STUCK_AFTER_MINUTES (the firmware repeats the last value when a read fails), or an
+ *            analog reading without a calibration, which is an ADC count rather than pH or ppm
+ *   good     everything else
+ *
+ * Bad readings are stored for the record but left out of charts, rollups, rules and alerts.
+ * Suspect ones still count: a real heat wave can look like a jump. Uncalibrated ones are the
+ * exception, rules, alerts and anomaly baselines ignore them until a calibration exists. The
+ * jump and stuck checks compare with earlier readings kept in memory, so they start over when
+ * the backend restarts.
+ */
+
+export interface ReadingAssessment {
+  quality: ReadingQuality;
+  // Why the reading is not good, null when it is
+  reason: string | null;
+}
+
+export interface QualifiedStatus extends CalibratedStatus {
+  quality: Record<Sensor, ReadingAssessment>;
+}
+
+interface TimedValue {
+  value: number;
+  at: number;
+}
+
+interface SensorHistory {
+  // Last reading that passed the jump check, the next one is compared with it
+  accepted: TimedValue;
+  // A jump the following reading has not confirmed yet
+  pending: TimedValue | null;
+  // The latest value and since when it has been exactly that
+  last: TimedValue;
+}
+
+const MS_PER_MINUTE = 60 * 1000;
+
+const GOOD: ReadingAssessment = { quality: "good", reason: null };
+
+const UNCALIBRATED: ReadingAssessment = { quality: "suspect", reason: "Not calibrated yet, this is a raw ADC count" };
+
+const histories = new Map<string, SensorHistory>();
+
+const isAnalog = (sensor: Sensor): sensor is CalibratedSensor => (CALIBRATED_SENSORS as readonly Sensor[]).includes(sensor);
+
+// Readings taken within a minute of each other are allowed a full minute's change, so jitter is not a jump
+const withinRate = (sensor: Sensor, from: TimedValue, to: TimedValue) =>
+  Math.abs(to.value - from.value) <= SENSOR_RATE_LIMITS[sensor] * Math.max((to.at - from.at) / MS_PER_MINUTE, 1);
+
+const assessReading = (
+  deviceId: string,
+  sensor: Sensor,
+  status: CalibratedStatus,
+  track: boolean
+): ReadingAssessment => {
+  const value = status.sensors[sensor];
+  if (value === null) return { quality: "missing", reason: "The board sent no reading" };
+
+  const uncalibrated = isUncalibrated(status, sensor);
+  const range = uncalibrated ? ADC_RANGE : SENSOR_RANGES[sensor];
+  if (value < range.min || value > range.max) {
+    return { quality: "bad", reason: `${value} is outside the possible ${range.min} to ${range.max}` };
+  }
+  if (isAnalog(sensor) && status.raw[sensor] === 0) {
+    return { quality: "bad", reason: "The probe reads 0, is it connected?" };
+  }
+  // ADC counts have no believable rate, and the jump and stuck checks start once there is a calibration
+  if (uncalibrated) return UNCALIBRATED;
+
+  const key = `${deviceId}:${sensor}`;
+  const reading = { value, at: status.fetchedAt.getTime() };
+  const previous = histories.get(key);
+
+  if (!previous) {
+    if (track) histories.set(key, { accepted: reading, pending: null, last: reading });
+    return GOOD;
+  }
+
+  // A second reading at the new level confirms a jump
+  const accepted =
+    withinRate(sensor, previous.accepted, reading) ||
+    (previous.pending !== null && withinRate(sensor, previous.pending, reading));
+  const last = value === previous.last.value ? previous.last : reading;
+
+  if (track) {
+    histories.set(key, {
+      accepted: accepted ? reading : previous.accepted,
+      pending: accepted ? null : reading,
+      last,
+    });
+  }
+
+  if (!accepted) {
+    return { quality: "suspect", reason: `Jumped from ${previous.accepted.value} to ${value}` };
+  }
+
+  const unchangedMinutes = (reading.at - last.at) / MS_PER_MINUTE;
+  if (unchangedMinutes >= STUCK_AFTER_MINUTES[sensor]) {
+    return { quality: "suspect", reason: `Unchanged for ${Math.floor(unchangedMinutes)} minutes` };
+  }
+
+  return GOOD;
+};
+
+/*
+ * Flags every reading of a calibrated status. One-off reads (e.g. GET /api/devices/:id/status)
+ * pass track = false so they are judged against the stored readings without becoming part of them.
+ */
+export const assessStatus = (deviceId: string, status: CalibratedStatus, track = true): QualifiedStatus => ({
+  ...status,
+  quality: Object.fromEntries(
+    SENSORS.map((sensor) => [sensor, assessReading(deviceId, sensor, status, track)])
+  ) as Record<Sensor, ReadingAssessment>,
+});
+
+// Whether the sensor's value is still an ADC count
+export const isUncalibrated = (status: CalibratedStatus, sensor: Sensor) =>
+  isAnalog(sensor) && status.uncalibrated.includes(sensor);
+
+const isTrusted = (status: QualifiedStatus, sensor: Sensor) =>
+  status.quality[sensor].quality !== "bad" && !isUncalibrated(status, sensor);
+
+// The readings automations may act on: bad and uncalibrated ones read as missing
+export const trustedReadings = (status: QualifiedStatus): SensorReadings =>
+  Object.fromEntries(
+    SENSORS.map((sensor) => [sensor, isTrusted(status, sensor) ? status.sensors[sensor] : null])
+  ) as Record<Sensor, number | null>;
@@ -0,0 +1,129 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  confirmDeviceCommands,
+  getDeviceCommand,
+  listDeviceCommands,
+  queueDeviceCommand,
+  sendDeviceCommand,
+} from "./deviceCommands";
+import { transportFor } from "./deviceTransport";
+import { Esp32Error, FirmwareCommand } from "./esp32Client";
+import { addDevice, telemetrySample } from "../test/fixtures";
+
+vi.mock("./deviceTransport", () => ({ transportFor: vi.fn() }));
+
+const sendCommand = vi.fn<(command: FirmwareCommand) => Promise<string>>();
+
+beforeEach(() => {
+  sendCommand.mockReset();
+  sendCommand.mockResolvedValue("OK");
+  vi.mocked(transportFor).mockReturnValue({ getStatus: vi.fn(), sendCommand });
+});
+
+const fanOn = (deviceId: string) => ({
+  deviceId,
+  command: { actuator: "fan", state: true } as const,
+  source: "manual" as const,
+});
+
+describe("queueDeviceCommand", () => {
+  it("sends a device's commands one at a time, in the order they were queued", async () => {
+    const { id } = addDevice();
+    sendCommand.mockImplementation(async (command) => `OK ${command.actuator}`);
+
+    const answers = await Promise.all([
+      sendDeviceCommand(fanOn(id)),
+      sendDeviceCommand({ deviceId: id, command: { actuator: "led", state: true }, source: "schedule" }),
+    ]);
+
+    expect(answers).toEqual(["OK fan", "OK led"]);
+    expect(sendCommand.mock.calls.map(([command]) => command.actuator)).toEqual(["fan", "led"]);
+    expect(listDeviceCommands(id, 10).map((command) => command.status)).toEqual(["sent", "sent"]);
+  });
+
+  it("rejects a command for an actuator the device does not have, without reaching the board", () => {
+    const { id, name } = addDevice(["temperature", "pump1"]);
+
+    expect(() => queueDeviceCommand(fanOn(id))).toThrow(new Esp32Error(`${name} has no fan`, 400));
+    expect(sendCommand).not.toHaveBeenCalled();
+    expect(listDeviceCommands(id, 10)).toMatchObject([{ status: "failed", message: `${name} has no fan` }]);
+  });
+
+  it("gives up right away on a command the board refused", async () => {
+    const { id } = addDevice();
+    sendCommand.mockRejectedValue(new Esp32Error("Unknown command", 400));
+
+    await expect(sendDeviceCommand(fanOn(id))).rejects.toThrow("Unknown command");
+    expect(sendCommand).toHaveBeenCalledTimes(1);
+    expect(listDeviceCommands(id, 1)).toMatchObject([{ status: "failed", attempts: 1 }]);
+  });
+});
+
+describe("confirmDeviceCommands", () => {
+  it("confirms a command once a reading shows it applied", async () => {
+    const { id } = addDevice();
+    await sendDeviceCommand(fanOn(id));
+    const [command] = listDeviceCommands(id, 1);
+
+    confirmDeviceCommands(telemetrySample(id, { actuators: { fan: true } }));
+
+    expect(getDeviceCommand(id, command.id)?.status).toBe("confirmed");
+  });
+
+  it("ignores readings taken before the command was sent", async () => {
+    const { id } = addDevice();
+    const before = new Date(Date.now() - 1000);
+    await sendDeviceCommand(fanOn(id));
+    const [command] = listDeviceCommands(id, 1);
+
+    confirmDeviceCommands(telemetrySample(id, { fetchedAt: before }));
+
+    expect(getDeviceCommand(id, command.id)?.status).toBe("sent");
+  });
+
+  it("sends a command the board did not apply again, and fails it after three attempts", async () => {
+    const { id } = addDevice();
+    await sendDeviceCommand(fanOn(id));
+    const [{ id: commandId }] = listDeviceCommands(id, 1);
+
+    for (const attempts of [2, 3]) {
+      confirmDeviceCommands(telemetrySample(id, { actuators: { fan: false } }));
+      await vi.waitFor(() => expect(getDeviceCommand(id, commandId)).toMatchObject({ status: "sent", attempts }));
+    }
+    confirmDeviceCommands(telemetrySample(id, { actuators: { fan: false } }));
+
+    expect(sendCommand).toHaveBeenCalledTimes(3);
+    expect(getDeviceCommand(id, commandId)).toMatchObject({
+      status: "failed",
+      message: "Board acknowledged fan ON but never applied it",
+    });
+  });
+
+  it("leaves a command superseded before the next reading sent, settled but never confirmed", async () => {
+    const { id } = addDevice();
+    await sendDeviceCommand(fanOn(id));
+    await sendDeviceCommand({ ...fanOn(id), command: { actuator: "fan", state: false } });
+    const [newer, older] = listDeviceCommands(id, 2);
+
+    expect(older).toMatchObject({ status: "sent", message: `Superseded by command #${newer.id}` });
+    expect(older.settledAt).not.toBeNull();
+
+    confirmDeviceCommands(telemetrySample(id, { actuators: { fan: false } }));
+    expect(getDeviceCommand(id, newer.id)?.status).toBe("confirmed");
+    expect(getDeviceCommand(id, older.id)?.status).toBe("sent");
+  });
+
+  it("does not confirm a superseded command from a reading that shows its state", async () => {
+    const { id } = addDevice();
+    await sendDeviceCommand(fanOn(id));
+    await sendDeviceCommand({ ...fanOn(id), command: { actuator: "fan", state: false } });
+    const [newer, older] = listDeviceCommands(id, 2);
+
+    // The board still shows the first command's state: the newer one goes out again
+    confirmDeviceCommands(telemetrySample(id, { actuators: { fan: true } }));
+
+    expect(getDeviceCommand(id, older.id)?.status).toBe("sent");
+    await vi.waitFor(() => expect(getDeviceCommand(id, newer.id)).toMatchObject({ status: "sent", attempts: 2 }));
+  });
+});
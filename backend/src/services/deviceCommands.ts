@@ -0,0 +1,370 @@
+import { and, desc, eq, inArray, isNull } from "drizzle-orm";
+
+import { db } from "../drizzle";
+import { deviceCommandTable } from "../drizzle/schema";
+import { recordCommand } from "./auditLog";
+import { getDevice, hasCapability } from "./deviceRegistry";
+import { DeviceCommand, Esp32Error, FirmwareCommand, isCommandApplied } from "./esp32Client";
+import { transportFor } from "./deviceTransport";
+import { enforceInterlocks, InterlockError } from "./interlocks";
+import { isVentCommand, loseVentPosition, recordVentMove, toFirmwareCommand } from "./vent";
+import { publishLiveEvent } from "./liveEvents";
+import type { TelemetrySample } from "./telemetryPoller";
+
+// Who asked for a command: a person on the dashboard, one of the backend automations or a safety interlock
+export type CommandSource = "manual" | "rule" | "schedule" | "irrigation" | "interlock";
+
+export type QueuedCommand = typeof deviceCommandTable.$inferSelect;
+export type CommandStatus = QueuedCommand["status"];
+
+export interface CommandRequest {
+  deviceId: string;
+  command: DeviceCommand;
+  source: CommandSource;
+  // The signed-in user behind a manual command (or a rule test run)
+  userId?: string | null;
+}
+
+// Minimum gap between two commands to the same board, its web server handles one request at a time
+const COMMAND_SPACING_MS = Number(process.env.COMMAND_SPACING_MS) || 250;
+
+// How long a command waits for an unreachable board before it is given up
+const COMMAND_TTL_MS = Number(process.env.COMMAND_TTL_MS) || 10 * 60 * 1000;
+
+// For commands the board answered with an error or did not apply
+const MAX_ATTEMPTS = 3;
+
+const RETRY_BASE_MS = 1000;
+const RETRY_MAX_MS = 30000;
+
+interface QueueEntry {
+  record: QueuedCommand;
+  request: CommandRequest;
+  // When the board acknowledged it (ms precision, the column only keeps seconds)
+  sentAt: number | null;
+  // sendDeviceCommand() callers waiting for the board's answer
+  waiters: { resolve: (message: string) => void; reject: (error: Error) => void }[];
+}
+
+interface DeviceQueue {
+  entries: QueueEntry[];
+  running: boolean;
+  lastSentAt: number;
+}
+
+const queues = new Map<string, DeviceQueue>();
+
+// Acknowledged commands waiting for a status reading that shows them, the latest per actuator
+const awaitingConfirmation = new Map<string, Map<DeviceCommand["actuator"], QueueEntry>>();
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Moves are relative, sending one twice moves the vent twice (vent positions are sent as moves too)
+const isStepperMove = (command: DeviceCommand) =>
+  command.actuator === "stepper" && command.action !== "enable" && command.action !== "disable";
+
+const describeState = (command: DeviceCommand) =>
+  command.actuator === "stepper" ? `stepper ${command.action}d` : `${command.actuator} ${command.state ? "ON" : "OFF"}`;
+
+// Persists the change and tells everyone watching the device
+const updateCommand = (entry: QueueEntry, changes: Partial<QueuedCommand>) => {
+  const record = db
+    .update(deviceCommandTable)
+    .set(changes)
+    .where(eq(deviceCommandTable.id, entry.record.id))
+    .returning()
+    .get();
+
+  // Gone with its device
+  if (!record) return;
+
+  entry.record = record;
+  publishLiveEvent({ type: "command", ...entry.record, at: new Date() });
+};
+
+const failCommand = (entry: QueueEntry, message: string, attempts = entry.record.attempts, status?: number) => {
+  updateCommand(entry, { status: "failed", attempts, message, settledAt: new Date() });
+
+  const awaiting = awaitingConfirmation.get(entry.record.deviceId);
+  if (awaiting?.get(entry.request.command.actuator) === entry) awaiting.delete(entry.request.command.actuator);
+
+  entry.waiters.forEach(({ reject }) => reject(new Esp32Error(message, status)));
+  entry.waiters = [];
+};
+
+const awaitConfirmation = (entry: QueueEntry) => {
+  const awaiting = awaitingConfirmation.get(entry.record.deviceId) ?? new Map();
+  const previous = awaiting.get(entry.request.command.actuator);
+
+  // A newer command for the same actuator decides what the next reading should show; no
+  // reading ever checks the older one, so it stays sent, settled without a confirmation
+  if (previous && previous !== entry) {
+    updateCommand(previous, { message: `Superseded by command #${entry.record.id}`, settledAt: new Date() });
+  }
+
+  awaiting.set(entry.request.command.actuator, entry);
+  awaitingConfirmation.set(entry.record.deviceId, awaiting);
+};
+
+// sent is what actually went to the board, null when a vent position needed no move
+const markSent = (entry: QueueEntry, attempts: number, message: string, sent: FirmwareCommand | null) => {
+  const now = new Date();
+  entry.sentAt = now.getTime();
+
+  if (isStepperMove(entry.request.command)) {
+    // The firmware only answers once the move is done, there is nothing left to check
+    if (sent) recordVentMove(entry.record.deviceId, entry.request.command, sent);
+    updateCommand(entry, { status: "confirmed", attempts, message, sentAt: now, settledAt: now });
+  } else {
+    updateCommand(entry, { status: "sent", attempts, message, sentAt: now });
+    awaitConfirmation(entry);
+  }
+
+  entry.waiters.forEach(({ resolve }) => resolve(message));
+  entry.waiters = [];
+};
+
+/*
+ * When to try a failed send again, or null to give up:
+ *   - stepper moves are never repeated, the board may have moved before the error
+ *   - 4xx answers ("Stepper disabled") will not change by retrying
+ *   - an unreachable board is waited for with backoff until COMMAND_TTL_MS has passed
+ *   - anything else gets MAX_ATTEMPTS tries
+ */
+const retryDelay = (entry: QueueEntry, attempts: number, error: Esp32Error) => {
+  if (isStepperMove(entry.request.command)) return null;
+  if (error.status !== undefined && error.status < 500) return null;
+
+  const delay = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** (attempts - 1));
+
+  if (error.status === undefined) {
+    const age = Date.now() - entry.record.createdAt.getTime();
+    return age + delay <= COMMAND_TTL_MS ? delay : null;
+  }
+  return attempts < MAX_ATTEMPTS ? delay : null;
+};
+
+// One round trip to the board; returns how long to wait before retrying, or null when the entry is done
+const attemptCommand = async (entry: QueueEntry): Promise<number | null> => {
+  const device = getDevice(entry.record.deviceId);
+  if (!device) {
+    failCommand(entry, "Device was removed");
+    return null;
+  }
+
+  // The tank or the vent may have changed while the command waited
+  try {
+    enforceInterlocks(entry.request);
+  } catch (error) {
+    if (!(error instanceof InterlockError)) throw error;
+    recordCommand(entry.request, false, error.message, null);
+    failCommand(entry, error.message, entry.record.attempts, 409);
+    return null;
+  }
+
+  // Vent positions become a move from wherever the commands before this one left the vent
+  const firmwareCommand = toFirmwareCommand(entry.record.deviceId, entry.request.command);
+  if (!firmwareCommand) {
+    markSent(entry, entry.record.attempts, "Vent is already there", null);
+    return null;
+  }
+
+  const attempts = entry.record.attempts + 1;
+  const startedAt = Date.now();
+  let moving = false;
+
+  try {
+    const client = transportFor(device);
+    // The firmware refuses to move a disabled stepper, and asking for a position implies moving it
+    if (isVentCommand(entry.request.command)) {
+      await client.sendCommand({ actuator: "stepper", action: "enable" });
+    }
+
+    moving = isStepperMove(entry.request.command);
+    const message = await client.sendCommand(firmwareCommand);
+    recordCommand(entry.request, true, message, Date.now() - startedAt);
+    markSent(entry, attempts, message, firmwareCommand);
+    return null;
+  } catch (error) {
+    const esp32Error = error instanceof Esp32Error ? error : new Esp32Error((error as Error).message);
+    recordCommand(entry.request, false, esp32Error.message, Date.now() - startedAt);
+    // A refused move never started, one without an answer may have stopped anywhere
+    if (moving && (esp32Error.status === undefined || esp32Error.status >= 500)) loseVentPosition(entry.record.deviceId);
+
+    const delay = retryDelay(entry, attempts, esp32Error);
+    if (delay === null) {
+      failCommand(entry, esp32Error.message, attempts, esp32Error.status);
+      return null;
+    }
+
+    updateCommand(entry, { attempts, message: `${esp32Error.message}, retrying in ${Math.round(delay / 1000)} s` });
+    return delay;
+  }
+};
+
+// Works through a device's queue in order, one command at a time
+const processQueue = async (deviceId: string) => {
+  const queue = queues.get(deviceId);
+  if (!queue || queue.running) return;
+  queue.running = true;
+
+  try {
+    while (queue.entries.length > 0) {
+      const wait = queue.lastSentAt + COMMAND_SPACING_MS - Date.now();
+      if (wait > 0) await sleep(wait);
+
+      const entry = queue.entries[0];
+      const retryIn = await attemptCommand(entry);
+      queue.lastSentAt = Date.now();
+
+      if (retryIn === null) {
+        // Not necessarily the head any more, an unconfirmed command may have been put in front
+        queue.entries.splice(queue.entries.indexOf(entry), 1);
+      } else {
+        await sleep(retryIn);
+      }
+    }
+  } catch (error) {
+    console.error(`Command queue for ${deviceId} stopped:`, error);
+  } finally {
+    queue.running = false;
+  }
+};
+
+const enqueue = (entry: QueueEntry, { front = false } = {}) => {
+  const queue = queues.get(entry.record.deviceId) ?? { entries: [], running: false, lastSentAt: 0 };
+  queues.set(entry.record.deviceId, queue);
+
+  if (front) {
+    queue.entries.unshift(entry);
+  } else {
+    queue.entries.push(entry);
+  }
+  processQueue(entry.record.deviceId);
+};
+
+const insertCommand = (request: CommandRequest, values: Partial<QueuedCommand> = {}) => {
+  const record = db
+    .insert(deviceCommandTable)
+    .values({
+      deviceId: request.deviceId,
+      source: request.source,
+      userId: request.userId ?? null,
+      command: request.command,
+      ...values,
+    })
+    .returning()
+    .get();
+
+  publishLiveEvent({ type: "command", ...record, at: new Date() });
+  return record;
+};
+
+// For commands refused before they were queued: recorded as failed, then thrown at the caller
+const rejectCommand = (request: CommandRequest, message: string, status: number): never => {
+  recordCommand(request, false, message, null);
+  insertCommand(request, { status: "failed", message, settledAt: new Date() });
+  throw new Esp32Error(message, status);
+};
+
+/*
+ * Single entry point for every actuator command the backend sends. The command is stored
+ * and queued right away (synchronously, so calls keep their order) and the queued record is
+ * returned; its status moves on in the background and is pushed as "command" live events.
+ * Commands for an actuator the device does not have, or that a safety interlock refuses
+ * (see services/interlocks.ts), are rejected with Esp32Error.
+ */
+export const queueDeviceCommand = (request: CommandRequest, waiter?: QueueEntry["waiters"][number]) => {
+  const device = getDevice(request.deviceId);
+  if (!device) {
+    throw new Esp32Error(`Device ${request.deviceId} not found`, 404);
+  }
+  if (!hasCapability(device, request.command.actuator)) {
+    rejectCommand(request, `${device.name} has no ${request.command.actuator}`, 400);
+  }
+  try {
+    enforceInterlocks(request);
+  } catch (error) {
+    if (!(error instanceof InterlockError)) throw error;
+    rejectCommand(request, error.message, 409);
+  }
+
+  const entry: QueueEntry = { record: insertCommand(request), request, sentAt: null, waiters: waiter ? [waiter] : [] };
+  enqueue(entry);
+  return entry.record;
+};
+
+// Queues the command and resolves with the firmware's response once the board acknowledged it
+export const sendDeviceCommand = (request: CommandRequest) =>
+  new Promise<string>((resolve, reject) => {
+    queueDeviceCommand(request, { resolve, reject });
+  });
+
+/*
+ * Telemetry listener: compares acknowledged commands with the first reading taken after
+ * them. A command the board did not apply goes back to the front of its queue.
+ */
+export const confirmDeviceCommands = ({ deviceId, status }: TelemetrySample) => {
+  const awaiting = awaitingConfirmation.get(deviceId);
+  if (!awaiting) return;
+
+  for (const [actuator, entry] of awaiting) {
+    if (entry.sentAt !== null && status.fetchedAt.getTime() < entry.sentAt) continue;
+    awaiting.delete(actuator);
+
+    if (isCommandApplied(entry.request.command, status.actuators)) {
+      updateCommand(entry, { status: "confirmed", settledAt: new Date() });
+    } else if (entry.record.attempts >= MAX_ATTEMPTS) {
+      failCommand(entry, `Board acknowledged ${describeState(entry.request.command)} but never applied it`);
+    } else {
+      updateCommand(entry, { status: "queued", message: `Board did not apply ${describeState(entry.request.command)}, retrying` });
+      enqueue(entry, { front: true });
+    }
+  }
+};
+
+export const listDeviceCommands = (deviceId: string, limit: number) =>
+  db
+    .select()
+    .from(deviceCommandTable)
+    .where(eq(deviceCommandTable.deviceId, deviceId))
+    .orderBy(desc(deviceCommandTable.createdAt), desc(deviceCommandTable.id))
+    .limit(limit)
+    .all();
+
+export const getDeviceCommand = (deviceId: string, id: number) =>
+  db
+    .select()
+    .from(deviceCommandTable)
+    .where(and(eq(deviceCommandTable.deviceId, deviceId), eq(deviceCommandTable.id, id)))
+    .get();
+
+/*
+ * Picks up where the backend left off: queued commands that are still within COMMAND_TTL_MS
+ * are sent, older ones failed, and acknowledged ones wait for their confirmation again.
+ */
+export const resumeCommandQueue = () => {
+  const pending = db
+    .select()
+    .from(deviceCommandTable)
+    .where(and(inArray(deviceCommandTable.status, ["queued", "sent"]), isNull(deviceCommandTable.settledAt)))
+    .orderBy(deviceCommandTable.id)
+    .all();
+
+  for (const record of pending) {
+    const entry: QueueEntry = {
+      record,
+      request: { deviceId: record.deviceId, command: record.command, source: record.source, userId: record.userId },
+      sentAt: record.sentAt?.getTime() ?? null,
+      waiters: [],
+    };
+
+    if (record.status === "sent") {
+      awaitConfirmation(entry);
+    } else if (Date.now() - record.createdAt.getTime() > COMMAND_TTL_MS) {
+      failCommand(entry, "Expired while the backend was down");
+    } else {
+      enqueue(entry);
+    }
+  }
+};
@@ -0,0 +1,122 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { getDailyAvailability, listDeviceHealth, listOutages, recordHeartbeat, setOfflineAlert } from "./deviceHealth";
+import { notifyAll } from "./notifications";
+import { addDevice } from "../test/fixtures";
+
+vi.mock("./notifications", () => ({ notifyAll: vi.fn() }));
+
+const START = new Date("2026-06-01T12:00:00Z");
+
+const after = (minutes: number) => new Date(START.getTime() + minutes * 60000);
+
+const up = (deviceId: string, minutes: number, latencyMs: number | null = 100) =>
+  recordHeartbeat(deviceId, "board", { ok: true, latencyMs }, after(minutes));
+
+const down = (deviceId: string, minutes: number) =>
+  recordHeartbeat(deviceId, "board", { ok: false, error: "ESP32 unreachable" }, after(minutes));
+
+beforeEach(() => {
+  vi.mocked(notifyAll).mockReset();
+});
+
+describe("recordHeartbeat", () => {
+  it("opens an outage at the first failure and closes it at the first success", async () => {
+    const { id } = addDevice();
+    await up(id, 0);
+
+    await down(id, 1);
+    await down(id, 2);
+
+    expect(listDeviceHealth(id)).toMatchObject([
+      { component: "board", online: false, since: after(1), consecutiveFailures: 2, lastError: "ESP32 unreachable" },
+    ]);
+    expect(listOutages(id, START)).toMatchObject([{ startedAt: after(1), endedAt: null, failures: 2 }]);
+
+    await up(id, 3);
+
+    expect(listDeviceHealth(id)).toMatchObject([
+      { online: true, since: after(3), lastSeenAt: after(3), consecutiveFailures: 0 },
+    ]);
+    expect(listOutages(id, START)).toMatchObject([{ startedAt: after(1), endedAt: after(3) }]);
+    expect(notifyAll).not.toHaveBeenCalled();
+  });
+
+  it("alerts once when an outage outlasts offlineAlertMinutes and again when it is over", async () => {
+    const { id, name } = addDevice();
+    await up(id, 0);
+    setOfflineAlert(id, "board", 5);
+
+    await down(id, 1);
+    await down(id, 5);
+    expect(notifyAll).not.toHaveBeenCalled();
+
+    await down(id, 6);
+    await down(id, 7);
+    expect(notifyAll).toHaveBeenCalledTimes(1);
+    expect(notifyAll).toHaveBeenCalledWith({
+      event: "firing",
+      alert: expect.objectContaining({
+        name: `${name} board offline`,
+        severity: "critical",
+        message: `The board of ${name} has been offline for 5 minutes: ESP32 unreachable`,
+        firedAt: after(1),
+        resolvedAt: null,
+      }),
+    });
+    expect(listOutages(id, START)).toMatchObject([{ alertedAt: after(6) }]);
+
+    await up(id, 9);
+    expect(notifyAll).toHaveBeenCalledTimes(2);
+    expect(notifyAll).toHaveBeenLastCalledWith({
+      event: "resolved",
+      alert: expect.objectContaining({
+        message: `The board of ${name} is back online after 8 minutes`,
+        resolvedAt: after(9),
+      }),
+    });
+  });
+
+  it("sends nothing for an outage that ended before offlineAlertMinutes", async () => {
+    const { id } = addDevice();
+    await up(id, 0);
+    setOfflineAlert(id, "board", 5);
+
+    await down(id, 1);
+    await down(id, 3);
+    await up(id, 4);
+
+    expect(notifyAll).not.toHaveBeenCalled();
+  });
+
+  it("counts checks, failures and latency per UTC day", async () => {
+    const { id } = addDevice();
+    await up(id, 0, 100);
+    await up(id, 1, 300);
+    // A pushed status is a successful check without a latency
+    await up(id, 2, null);
+    await down(id, 3);
+    await up(id, 24 * 60, 50);
+
+    expect(getDailyAvailability(id, 7, after(24 * 60))).toEqual([
+      {
+        day: "2026-06-01",
+        component: "board",
+        checks: 4,
+        failures: 1,
+        availability: 75,
+        avgLatencyMs: 133,
+        maxLatencyMs: 300,
+      },
+      {
+        day: "2026-06-02",
+        component: "board",
+        checks: 1,
+        failures: 0,
+        availability: 100,
+        avgLatencyMs: 50,
+        maxLatencyMs: 50,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,276 @@
+import { and, desc, eq, gte, isNull, or, sql } from "drizzle-orm";
+
+import { db } from "../drizzle";
+import { deviceHealthDailyTable, deviceHealthTable, deviceOutageTable } from "../drizzle/schema";
+import { getDevice } from "./deviceRegistry";
+import { AlertNotification, notifyAll } from "./notifications";
+import { TelemetrySample } from "./telemetryPoller";
+import { HealthComponent } from "../utils/health";
+
+/*
+ * Every poll of a board and every camera capture is a heartbeat. A component goes offline at
+ * its first failed heartbeat and back online at its first successful one; each offline spell
+ * is stored as an outage. Daily counters give the availability and latency history, and an
+ * outage that lasts longer than the component's offlineAlertMinutes is sent to everyone who
+ * receives alerts, followed by a resolved notification when the component is back.
+ */
+
+export type DeviceHealth = typeof deviceHealthTable.$inferSelect;
+export type DeviceOutage = typeof deviceOutageTable.$inferSelect;
+
+// Latency is null when the device pushed its status instead of answering a request
+export type Heartbeat = { ok: true; latencyMs: number | null } | { ok: false; error: string };
+
+export interface DailyAvailability {
+  day: string;
+  component: HealthComponent;
+  checks: number;
+  failures: number;
+  // Percentage of successful checks
+  availability: number;
+  // Null on days without a timed successful check
+  avgLatencyMs: number | null;
+  maxLatencyMs: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const OUTAGE_LIMIT = 100;
+
+// UTC day, like the 1-day telemetry rollups
+const dayOf = (date: Date) => date.toISOString().slice(0, 10);
+
+export const listDeviceHealth = (deviceId?: string) =>
+  db
+    .select()
+    .from(deviceHealthTable)
+    .where(deviceId ? eq(deviceHealthTable.deviceId, deviceId) : undefined)
+    .orderBy(deviceHealthTable.deviceId, deviceHealthTable.component)
+    .all();
+
+const countCheck = (deviceId: string, component: HealthComponent, heartbeat: Heartbeat, now: Date) => {
+  const latencyMs = heartbeat.ok ? heartbeat.latencyMs : null;
+  const failures = heartbeat.ok ? 0 : 1;
+
+  db.insert(deviceHealthDailyTable)
+    .values({
+      deviceId,
+      component,
+      day: dayOf(now),
+      checks: 1,
+      failures,
+      latencyTotalMs: latencyMs ?? 0,
+      latencyMaxMs: latencyMs,
+    })
+    .onConflictDoUpdate({
+      target: [deviceHealthDailyTable.deviceId, deviceHealthDailyTable.component, deviceHealthDailyTable.day],
+      set: {
+        checks: sql`${deviceHealthDailyTable.checks} + 1`,
+        failures: sql`${deviceHealthDailyTable.failures} + ${failures}`,
+        latencyTotalMs: sql`${deviceHealthDailyTable.latencyTotalMs} + ${latencyMs ?? 0}`,
+        ...(latencyMs !== null && {
+          latencyMaxMs: sql`max(coalesce(${deviceHealthDailyTable.latencyMaxMs}, 0), ${latencyMs})`,
+        }),
+      },
+    })
+    .run();
+};
+
+const minutesBetween = (from: Date, to: Date) => Math.round((to.getTime() - from.getTime()) / 60000);
+
+const formatMinutes = (minutes: number) => (minutes === 1 ? "1 minute" : `${minutes} minutes`);
+
+const toNotification = (event: "firing" | "resolved", outage: DeviceOutage, now: Date): AlertNotification => {
+  const name = getDevice(outage.deviceId)?.name ?? outage.deviceId;
+  const minutes = minutesBetween(outage.startedAt, now);
+
+  return {
+    event,
+    alert: {
+      id: null,
+      name: `${name} ${outage.component} offline`,
+      deviceId: outage.deviceId,
+      sensor: outage.component,
+      severity: "critical",
+      message:
+        event === "firing"
+          ? `The ${outage.component} of ${name} has been offline for ${formatMinutes(minutes)}: ${outage.error ?? "no answer"}`
+          : `The ${outage.component} of ${name} is back online after ${formatMinutes(minutes)}`,
+      value: minutes,
+      firedAt: outage.startedAt,
+      resolvedAt: outage.endedAt,
+    },
+  };
+};
+
+const openOutage = (deviceId: string, component: HealthComponent) =>
+  and(
+    eq(deviceOutageTable.deviceId, deviceId),
+    eq(deviceOutageTable.component, component),
+    isNull(deviceOutageTable.endedAt)
+  );
+
+const recordSuccess = (
+  current: DeviceHealth | undefined,
+  deviceId: string,
+  component: HealthComponent,
+  latencyMs: number | null,
+  now: Date
+) => {
+  const wasOffline = !!current && !current.online;
+  const fields = { online: true, lastCheckAt: now, lastSeenAt: now, lastLatencyMs: latencyMs, consecutiveFailures: 0 };
+
+  db.insert(deviceHealthTable)
+    .values({ deviceId, component, since: now, ...fields })
+    .onConflictDoUpdate({
+      target: [deviceHealthTable.deviceId, deviceHealthTable.component],
+      set: { ...fields, since: current?.online ? current.since : now },
+    })
+    .run();
+
+  if (!wasOffline) return null;
+
+  const outage = db
+    .update(deviceOutageTable)
+    .set({ endedAt: now })
+    .where(openOutage(deviceId, component))
+    .returning()
+    .get();
+  if (!outage) return null;
+
+  console.log(`${deviceId} ${component} is back online after ${formatMinutes(minutesBetween(outage.startedAt, now))}`);
+  return outage.alertedAt ? toNotification("resolved", outage, now) : null;
+};
+
+const recordFailure = (
+  current: DeviceHealth | undefined,
+  deviceId: string,
+  component: HealthComponent,
+  error: string,
+  now: Date
+) => {
+  const wentOffline = !current || current.online;
+
+  db.insert(deviceHealthTable)
+    .values({
+      deviceId,
+      component,
+      online: false,
+      since: now,
+      lastCheckAt: now,
+      consecutiveFailures: 1,
+      lastError: error,
+    })
+    .onConflictDoUpdate({
+      target: [deviceHealthTable.deviceId, deviceHealthTable.component],
+      set: {
+        online: false,
+        since: current && !current.online ? current.since : now,
+        lastCheckAt: now,
+        consecutiveFailures: (current?.consecutiveFailures ?? 0) + 1,
+        lastError: error,
+      },
+    })
+    .run();
+
+  const outage = wentOffline
+    ? db.insert(deviceOutageTable).values({ deviceId, component, startedAt: now, error }).returning().get()
+    : db
+        .update(deviceOutageTable)
+        .set({ failures: sql`${deviceOutageTable.failures} + 1` })
+        .where(openOutage(deviceId, component))
+        .returning()
+        .get();
+
+  const alertMinutes = current?.offlineAlertMinutes;
+  if (!outage || outage.alertedAt || !alertMinutes || now.getTime() - outage.startedAt.getTime() < alertMinutes * 60000) {
+    return null;
+  }
+
+  db.update(deviceOutageTable).set({ alertedAt: now }).where(eq(deviceOutageTable.id, outage.id)).run();
+  return toNotification("firing", outage, now);
+};
+
+export const recordHeartbeat = async (
+  deviceId: string,
+  component: HealthComponent,
+  heartbeat: Heartbeat,
+  now = new Date()
+) => {
+  const notification = db.transaction(() => {
+    countCheck(deviceId, component, heartbeat, now);
+
+    const current = db
+      .select()
+      .from(deviceHealthTable)
+      .where(and(eq(deviceHealthTable.deviceId, deviceId), eq(deviceHealthTable.component, component)))
+      .get();
+
+    return heartbeat.ok
+      ? recordSuccess(current, deviceId, component, heartbeat.latencyMs, now)
+      : recordFailure(current, deviceId, component, heartbeat.error, now);
+  });
+
+  // Delivery is slow, so it happens after the transaction like in services/alerting.ts
+  if (notification) await notifyAll(notification);
+};
+
+// Telemetry listener: every stored sample is a successful heartbeat of the board
+export const recordBoardHeartbeat = ({ deviceId, latencyMs }: TelemetrySample) =>
+  recordHeartbeat(deviceId, "board", { ok: true, latencyMs });
+
+// Poll failure listener
+export const recordBoardFailure = (deviceId: string, error: Error) => {
+  recordHeartbeat(deviceId, "board", { ok: false, error: error.message }).catch((failure) =>
+    console.error(`Health check failed for ${deviceId}:`, failure)
+  );
+};
+
+// Notification threshold for one component, undefined before its first heartbeat
+export const setOfflineAlert = (deviceId: string, component: HealthComponent, offlineAlertMinutes: number | null) =>
+  db
+    .update(deviceHealthTable)
+    .set({ offlineAlertMinutes })
+    .where(and(eq(deviceHealthTable.deviceId, deviceId), eq(deviceHealthTable.component, component)))
+    .returning()
+    .get();
+
+// Per day and component over the last `days` days, today included; days without checks are left out
+export const getDailyAvailability = (deviceId: string, days: number, now = new Date()): DailyAvailability[] =>
+  db
+    .select()
+    .from(deviceHealthDailyTable)
+    .where(
+      and(
+        eq(deviceHealthDailyTable.deviceId, deviceId),
+        gte(deviceHealthDailyTable.day, dayOf(new Date(now.getTime() - (days - 1) * DAY_MS)))
+      )
+    )
+    .orderBy(deviceHealthDailyTable.day, deviceHealthDailyTable.component)
+    .all()
+    .map(({ day, component, checks, failures, latencyTotalMs, latencyMaxMs }) => ({
+      day,
+      component,
+      checks,
+      failures,
+      availability: ((checks - failures) / checks) * 100,
+      // Pushed MQTT statuses are not timed, a day without any timed check has no latency
+      avgLatencyMs:
+        latencyMaxMs !== null && checks > failures ? Math.round(latencyTotalMs / (checks - failures)) : null,
+      maxLatencyMs: latencyMaxMs,
+    }));
+
+// Outages that were still going on at `since` or later, newest first
+export const listOutages = (deviceId: string, since: Date) =>
+  db
+    .select()
+    .from(deviceOutageTable)
+    .where(
+      and(
+        eq(deviceOutageTable.deviceId, deviceId),
+        or(isNull(deviceOutageTable.endedAt), gte(deviceOutageTable.endedAt, since))
+      )
+    )
+    .orderBy(desc(deviceOutageTable.startedAt))
+    .limit(OUTAGE_LIMIT)
+    .all();
@@ -0,0 +1,71 @@
+import { eq, sql } from "drizzle-orm";
+
+import { db } from "../drizzle";
+import {
+  alertDefinitionTable,
+  anomalyTable,
+  automationRuleTable,
+  deviceCropTable,
+  deviceHealthDailyTable,
+  deviceHealthTable,
+  deviceOutageTable,
+  deviceTable,
+  irrigationProgramTable,
+  irrigationRunTable,
+  pumpRunTable,
+  reservoirTable,
+  scheduleTable,
+  sensorRollupTable,
+  telemetrySampleTable,
+} from "../drizzle/schema";
+import { listConfiguredDevices } from "../config/devices";
+import { RELAY_ACTUATORS } from "./esp32Client";
+import { SENSORS } from "../utils/sensors";
+
+// What a board has wired up: its sensors, its actuators and whether it has a camera
+export const DEVICE_CAPABILITIES = [...SENSORS, ...RELAY_ACTUATORS, "stepper", "camera"] as const;
+
+export type DeviceCapability = (typeof DEVICE_CAPABILITIES)[number];
+
+export type Device = typeof deviceTable.$inferSelect;
+
+export const listDevices = () => db.select().from(deviceTable).orderBy(deviceTable.name).all();
+
+export const getDevice = (id: string) => db.select().from(deviceTable).where(eq(deviceTable.id, id)).get();
+
+export const hasCapability = (device: Device, capability: DeviceCapability) =>
+  device.capabilities.includes(capability);
+
+// Removes a device together with its automations, alerts and stored telemetry
+export const deleteDevice = (id: string) =>
+  db.transaction((tx) => {
+    tx.delete(automationRuleTable).where(eq(automationRuleTable.deviceId, id)).run();
+    tx.delete(scheduleTable).where(eq(scheduleTable.deviceId, id)).run();
+    tx.delete(alertDefinitionTable).where(eq(alertDefinitionTable.deviceId, id)).run();
+    tx.delete(deviceCropTable).where(eq(deviceCropTable.deviceId, id)).run();
+    tx.delete(deviceHealthTable).where(eq(deviceHealthTable.deviceId, id)).run();
+    tx.delete(deviceHealthDailyTable).where(eq(deviceHealthDailyTable.deviceId, id)).run();
+    tx.delete(deviceOutageTable).where(eq(deviceOutageTable.deviceId, id)).run();
+    tx.delete(anomalyTable).where(eq(anomalyTable.deviceId, id)).run();
+    tx.delete(irrigationProgramTable).where(eq(irrigationProgramTable.deviceId, id)).run();
+    tx.delete(irrigationRunTable).where(eq(irrigationRunTable.deviceId, id)).run();
+    tx.delete(pumpRunTable).where(eq(pumpRunTable.deviceId, id)).run();
+    tx.delete(reservoirTable).where(eq(reservoirTable.deviceId, id)).run();
+    tx.delete(telemetrySampleTable).where(eq(telemetrySampleTable.deviceId, id)).run();
+    // sensor_rollup has no foreign key, a device registered again under the id would inherit its history
+    tx.delete(sensorRollupTable).where(eq(sensorRollupTable.deviceId, id)).run();
+    return tx.delete(deviceTable).where(eq(deviceTable.id, id)).returning().get();
+  });
+
+// First start only: registers the boards from ESP_DEVICES / ESP_IP so existing setups keep working
+export const seedDevicesFromConfig = () => {
+  const { count } = db.select({ count: sql<number>`count(*)` }).from(deviceTable).get()!;
+  if (count > 0) return;
+
+  for (const { id, transport, baseUrl } of listConfiguredDevices()) {
+    db.insert(deviceTable)
+      .values({ id, name: id, transport, baseUrl, capabilities: [...DEVICE_CAPABILITIES] })
+      .run();
+    console.log(`Registered device ${id} (${baseUrl ?? transport}) from environment`);
+  }
+};
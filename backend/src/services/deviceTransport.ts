@@ -0,0 +1,21 @@
+import type { Device } from "./deviceRegistry";
+import { DeviceStatus, Esp32Client, Esp32Error, FirmwareCommand } from "./esp32Client";
+import { MqttDeviceClient } from "./mqttTransport";
+
+/*
+ * What the rest of the backend needs from a board, whichever way it is reached. Esp32Client
+ * polls the firmware's HTTP API, MqttDeviceClient goes through the broker; both answer with
+ * the same parsed status and firmware responses, and fail with Esp32Error.
+ */
+export interface DeviceTransport {
+  getStatus(): Promise<DeviceStatus>;
+  // Resolves with the firmware's text response ("OK", "Moved forward 10.00 mm", ...)
+  sendCommand(command: FirmwareCommand): Promise<string>;
+}
+
+export const transportFor = (device: Device): DeviceTransport => {
+  if (device.transport === "mqtt") return new MqttDeviceClient(device.id);
+
+  if (!device.baseUrl) throw new Esp32Error(`${device.name} has no base URL`);
+  return new Esp32Client(device.baseUrl);
+};
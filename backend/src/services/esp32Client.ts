@@ -0,0 +1,206 @@
+/*
+ * Typed HTTP client for the greenhouse ESP32 firmware.
+ *
+ * The firmware exposes two endpoints (see esp.md):
+ *   GET /api/status   -> JSON with sensor readings and relay/stepper states
+ *   GET /api/control  -> query-param commands, answers in text/plain
+ * services/mqttTransport.ts carries the same payloads over MQTT.
+ *
+ * Relay states use the inverted convention the dashboard has always relied on:
+ * "0" means the load is ON and "1" means it is OFF. Callers of this module only
+ * ever deal with booleans (true = ON); the encoding stays in here.
+ */
+
+import type { DeviceTransport } from "./deviceTransport";
+
+const DEFAULT_TIMEOUT_MS = 5000;
+
+// Stepper moves are blocking on the ESP32 (400 steps/mm at 250 μs per half step)
+const STEPPER_TIMEOUT_MS = 60000;
+
+const RELAY_ON = "0";
+const RELAY_OFF = "1";
+
+export const RELAY_ACTUATORS = ["fan", "pump1", "pump2", "led"] as const;
+export type RelayActuator = (typeof RELAY_ACTUATORS)[number];
+
+// Both draw from the reservoir the ultrasonic sensor watches
+export const PUMPS = ["pump1", "pump2"] as const satisfies readonly RelayActuator[];
+export type Pump = (typeof PUMPS)[number];
+
+// Raw /api/status payload as sent by the firmware
+export interface Esp32StatusPayload {
+  temperature?: number;
+  humidity?: number;
+  ph?: number;
+  mq135?: number;
+  distance?: number;
+  fan?: string;
+  pump1?: string;
+  pump2?: string;
+  led?: string;
+  stepper_enabled?: string;
+}
+
+export interface SensorReadings {
+  temperature: number | null;
+  humidity: number | null;
+  ph: number | null;
+  mq135: number | null;
+  distance: number | null;
+}
+
+export interface ActuatorStates {
+  fan: boolean;
+  pump1: boolean;
+  pump2: boolean;
+  led: boolean;
+  stepperEnabled: boolean;
+}
+
+export interface DeviceStatus {
+  sensors: SensorReadings;
+  actuators: ActuatorStates;
+  fetchedAt: Date;
+}
+
+export type DeviceCommand =
+  | { actuator: RelayActuator; state: boolean }
+  | { actuator: "stepper"; action: "enable" | "disable" }
+  | { actuator: "stepper"; action: "forward" | "backward"; distance: number }
+  // The firmware has no idea where the vent is: services/vent.ts turns these into relative moves
+  | { actuator: "stepper"; action: "position"; percent: number }
+  | { actuator: "stepper"; action: "home" };
+
+// What /api/control understands as is
+export type FirmwareCommand = Exclude<DeviceCommand, { action: "position" | "home" }>;
+
+export class Esp32Error extends Error {
+  // HTTP status returned by the ESP32, undefined when it could not be reached
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = "Esp32Error";
+    this.status = status;
+  }
+}
+
+const toNumber = (value: unknown): number | null => {
+  if (value === undefined || value === null || value === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+export const parseStatus = (payload: Esp32StatusPayload): DeviceStatus => ({
+  sensors: {
+    temperature: toNumber(payload.temperature),
+    humidity: toNumber(payload.humidity),
+    ph: toNumber(payload.ph),
+    mq135: toNumber(payload.mq135),
+    distance: toNumber(payload.distance),
+  },
+  actuators: {
+    fan: payload.fan === RELAY_ON,
+    pump1: payload.pump1 === RELAY_ON,
+    pump2: payload.pump2 === RELAY_ON,
+    led: payload.led === RELAY_ON,
+    stepperEnabled: payload.stepper_enabled === "1",
+  },
+  fetchedAt: new Date(),
+});
+
+// Whether a status already shows the command's effect; stepper moves leave no trace in it
+export const isCommandApplied = (command: DeviceCommand, actuators: ActuatorStates) => {
+  if (command.actuator !== "stepper") {
+    return actuators[command.actuator] === command.state;
+  }
+  if (command.action === "enable" || command.action === "disable") {
+    return actuators.stepperEnabled === (command.action === "enable");
+  }
+  return false;
+};
+
+export const toControlParams = (command: FirmwareCommand): URLSearchParams => {
+  const params = new URLSearchParams();
+
+  if (command.actuator !== "stepper") {
+    params.set(command.actuator, command.state ? RELAY_ON : RELAY_OFF);
+    return params;
+  }
+
+  switch (command.action) {
+    case "enable":
+    case "disable":
+      params.set("stepper_enable", command.action === "enable" ? "1" : "0");
+      break;
+    case "forward":
+      params.set("stepper_move", String(command.distance));
+      break;
+    case "backward":
+      params.set("stepper_move_back", String(command.distance));
+      break;
+  }
+
+  return params;
+};
+
+export const commandTimeoutFor = (command: FirmwareCommand, timeoutMs = DEFAULT_TIMEOUT_MS) =>
+  command.actuator === "stepper" ? STEPPER_TIMEOUT_MS : timeoutMs;
+
+// Relay commands fall through to the firmware's default "OK" response
+export const checkCommandResponse = (command: FirmwareCommand, message: string) => {
+  if (command.actuator !== "stepper" && message !== "OK") {
+    throw new Esp32Error(`Unexpected response: ${message}`);
+  }
+  return message;
+};
+
+export class Esp32Client implements DeviceTransport {
+  readonly baseUrl: string;
+  private timeoutMs: number;
+
+  constructor(baseUrl: string, timeoutMs = DEFAULT_TIMEOUT_MS) {
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+    this.timeoutMs = timeoutMs;
+  }
+
+  async getStatus(): Promise<DeviceStatus> {
+    const res = await this.request("/api/status", "application/json", this.timeoutMs);
+    const payload = await res.json().catch(() => null);
+
+    if (!payload || typeof payload !== "object") {
+      throw new Esp32Error("Invalid system status format received");
+    }
+
+    return parseStatus(payload as Esp32StatusPayload);
+  }
+
+  // Resolves with the firmware's text response ("OK", "Moved forward 10.00 mm", ...)
+  async sendCommand(command: FirmwareCommand): Promise<string> {
+    const timeout = commandTimeoutFor(command, this.timeoutMs);
+    const res = await this.request(`/api/control?${toControlParams(command)}`, "text/plain", timeout);
+    return checkCommandResponse(command, (await res.text()).trim());
+  }
+
+  private async request(path: string, accept: string, timeoutMs: number) {
+    let res: Response;
+
+    try {
+      res = await fetch(`${this.baseUrl}${path}`, {
+        method: "GET",
+        headers: { Accept: accept },
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+    } catch (error) {
+      throw new Esp32Error(`ESP32 unreachable at ${this.baseUrl}: ${(error as Error).message}`);
+    }
+
+    if (!res.ok) {
+      const body = (await res.text().catch(() => "")).trim();
+      throw new Esp32Error(body || `HTTP ${res.status}: ${res.statusText}`, res.status);
+    }
+
+    return res;
+  }
+}
@@ -0,0 +1,138 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { listDeviceCommands } from "./deviceCommands";
+import { transportFor } from "./deviceTransport";
+import {
+  enforceInterlocks,
+  enforcePumpInterlocks,
+  InterlockError,
+  listInterlockTrips,
+  onPumpInterlock,
+  stepperTravel,
+  updateInterlockSettings,
+} from "./interlocks";
+import { addDevice, telemetrySample } from "../test/fixtures";
+
+vi.mock("./deviceTransport", () => ({ transportFor: vi.fn() }));
+
+const pumpStops = vi.fn();
+onPumpInterlock(pumpStops);
+
+beforeEach(() => {
+  pumpStops.mockReset();
+  vi.mocked(transportFor).mockReturnValue({ getStatus: vi.fn(), sendCommand: vi.fn().mockResolvedValue("OK") });
+});
+
+const pumpOn = (deviceId: string) => ({
+  deviceId,
+  command: { actuator: "pump1", state: true } as const,
+  source: "manual" as const,
+});
+
+describe("stepperTravel", () => {
+  it("counts forward moves as opening and backward ones as closing", () => {
+    expect(stepperTravel({ actuator: "stepper", action: "forward", distance: 12 })).toBe(12);
+    expect(stepperTravel({ actuator: "stepper", action: "backward", distance: 12 })).toBe(-12);
+  });
+
+  it("leaves positions, homing and relays out", () => {
+    expect(stepperTravel({ actuator: "stepper", action: "position", percent: 80 })).toBe(0);
+    expect(stepperTravel({ actuator: "stepper", action: "home" })).toBe(0);
+    expect(stepperTravel({ actuator: "fan", state: true })).toBe(0);
+  });
+});
+
+describe("enforceInterlocks", () => {
+  it("refuses to start a pump while the tank is empty, and reports the trip once", () => {
+    const { id } = addDevice();
+    updateInterlockSettings(id, { maxWaterDistance: 50 });
+    enforcePumpInterlocks(telemetrySample(id, { sensors: { distance: 62.5 } }));
+
+    expect(() => enforceInterlocks(pumpOn(id))).toThrow(InterlockError);
+    expect(() => enforceInterlocks(pumpOn(id))).toThrow(
+      "Water level too low to run pump1: 62.5 cm to the surface, the limit is 50 cm"
+    );
+    expect(listInterlockTrips(id, 10)).toMatchObject([{ interlock: "water_level", actuator: "pump1", action: "refused" }]);
+  });
+
+  it("lets pumps be switched off, and on again once the tank is refilled", () => {
+    const { id } = addDevice();
+    updateInterlockSettings(id, { maxWaterDistance: 50 });
+    enforcePumpInterlocks(telemetrySample(id, { sensors: { distance: 62.5 } }));
+
+    expect(() => enforceInterlocks({ ...pumpOn(id), command: { actuator: "pump1", state: false } })).not.toThrow();
+
+    enforcePumpInterlocks(telemetrySample(id, { sensors: { distance: 30 } }));
+    expect(() => enforceInterlocks(pumpOn(id))).not.toThrow();
+  });
+
+  it("refuses vent moves past the soft limits but lets a vent beyond them move back", () => {
+    const { id } = addDevice();
+    updateInterlockSettings(id, { stepperPosition: 90 });
+    const move = (action: "forward" | "backward", distance: number) =>
+      enforceInterlocks({ deviceId: id, command: { actuator: "stepper", action, distance }, source: "manual" });
+
+    expect(() => move("forward", 20)).toThrow("would take it to 110 mm, outside its 0-100 mm limits");
+    expect(() => move("forward", 10)).not.toThrow();
+
+    updateInterlockSettings(id, { stepperPosition: 120 });
+    expect(() => move("backward", 5)).not.toThrow();
+    expect(() => move("forward", 1)).toThrow(InterlockError);
+  });
+});
+
+describe("enforcePumpInterlocks", () => {
+  it("switches off a pump that ran past its limit and tells the listeners once", () => {
+    const { id } = addDevice();
+    updateInterlockSettings(id, { pumpMaxRunSeconds: 60 });
+    const startedAt = Date.now();
+    const sampleAt = (seconds: number) =>
+      telemetrySample(id, { actuators: { pump1: true }, fetchedAt: new Date(startedAt + seconds * 1000) });
+
+    enforcePumpInterlocks(sampleAt(0));
+    enforcePumpInterlocks(sampleAt(55));
+    expect(listDeviceCommands(id, 10)).toEqual([]);
+
+    enforcePumpInterlocks(sampleAt(60));
+    enforcePumpInterlocks(sampleAt(65));
+
+    expect(listDeviceCommands(id, 10)).toMatchObject([
+      { source: "interlock", command: { actuator: "pump1", state: false } },
+    ]);
+    expect(pumpStops).toHaveBeenCalledTimes(1);
+    expect(pumpStops).toHaveBeenCalledWith(
+      id,
+      "pump1",
+      "pump_runtime",
+      "pump1 switched off after running 60 s, the limit is 60 s"
+    );
+    expect(listInterlockTrips(id, 10)).toMatchObject([{ interlock: "pump_runtime", action: "stopped" }]);
+  });
+
+  it("switches off a running pump once the tank runs dry", () => {
+    const { id } = addDevice();
+    updateInterlockSettings(id, { maxWaterDistance: 50 });
+
+    enforcePumpInterlocks(telemetrySample(id, { sensors: { distance: 51 }, actuators: { pump2: true } }));
+
+    expect(listDeviceCommands(id, 10)).toMatchObject([
+      { source: "interlock", command: { actuator: "pump2", state: false } },
+    ]);
+    expect(pumpStops).toHaveBeenCalledWith(id, "pump2", "water_level", expect.stringContaining("Water level too low"));
+  });
+
+  it("starts counting again once the pump was seen off", () => {
+    const { id } = addDevice();
+    updateInterlockSettings(id, { pumpMaxRunSeconds: 60 });
+    const startedAt = Date.now();
+    const sampleAt = (seconds: number, pump1: boolean) =>
+      telemetrySample(id, { actuators: { pump1 }, fetchedAt: new Date(startedAt + seconds * 1000) });
+
+    enforcePumpInterlocks(sampleAt(0, true));
+    enforcePumpInterlocks(sampleAt(40, false));
+    enforcePumpInterlocks(sampleAt(45, true));
+    enforcePumpInterlocks(sampleAt(100, true));
+
+    expect(pumpStops).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,216 @@
+import { desc, eq } from "drizzle-orm";
+
+import { db } from "../drizzle";
+import { deviceInterlockTable, interlockTripTable } from "../drizzle/schema";
+import { CommandRequest, getDeviceCommand, queueDeviceCommand } from "./deviceCommands";
+import { DeviceCommand, Pump, PUMPS } from "./esp32Client";
+import { publishLiveEvent } from "./liveEvents";
+import type { TelemetrySample } from "./telemetryPoller";
+import { Interlock } from "../utils/interlocks";
+
+export type InterlockSettings = typeof deviceInterlockTable.$inferSelect;
+export type InterlockTrip = typeof interlockTripTable.$inferSelect;
+
+type PumpStopListener = (deviceId: string, pump: Pump, interlock: Interlock, message: string) => void;
+
+// A rule retrying a refused command on every poll should not report a new trip every time
+const TRIP_REPEAT_MS = 60 * 1000;
+
+export class InterlockError extends Error {
+  interlock: Interlock;
+
+  constructor(interlock: Interlock, message: string) {
+    super(message);
+    this.name = "InterlockError";
+    this.interlock = interlock;
+  }
+}
+
+// Last ultrasonic reading per device, null when the sensor did not report
+const waterDistances = new Map<string, number | null>();
+
+// Keyed by `${deviceId}:${pump}`: when the pump was first seen running, and the auto-off queued for it
+const pumpRunningSince = new Map<string, number>();
+const pumpStopCommands = new Map<string, number>();
+
+// Keyed by `${deviceId}:${interlock}:${actuator}:${action}`
+const lastTripAt = new Map<string, number>();
+
+const pumpStopListeners: PumpStopListener[] = [];
+
+// Subscribe to running pumps being switched off by an interlock, e.g. to end what started them
+export const onPumpInterlock = (listener: PumpStopListener) => {
+  pumpStopListeners.push(listener);
+};
+
+export const getInterlockSettings = (deviceId: string): InterlockSettings =>
+  db.select().from(deviceInterlockTable).where(eq(deviceInterlockTable.deviceId, deviceId)).get() ??
+  db.insert(deviceInterlockTable).values({ deviceId }).returning().get();
+
+export const updateInterlockSettings = (
+  deviceId: string,
+  changes: Partial<Omit<InterlockSettings, "deviceId" | "updatedAt">>
+) => {
+  getInterlockSettings(deviceId);
+
+  return db
+    .update(deviceInterlockTable)
+    .set({ ...changes, updatedAt: new Date() })
+    .where(eq(deviceInterlockTable.deviceId, deviceId))
+    .returning()
+    .get()!;
+};
+
+// Newest first
+export const listInterlockTrips = (deviceId: string, limit: number) =>
+  db
+    .select()
+    .from(interlockTripTable)
+    .where(eq(interlockTripTable.deviceId, deviceId))
+    .orderBy(desc(interlockTripTable.createdAt), desc(interlockTripTable.id))
+    .limit(limit)
+    .all();
+
+const recordTrip = (
+  deviceId: string,
+  interlock: Interlock,
+  actuator: DeviceCommand["actuator"],
+  action: InterlockTrip["action"],
+  message: string
+) => {
+  const key = `${deviceId}:${interlock}:${actuator}:${action}`;
+  if (Date.now() - (lastTripAt.get(key) ?? 0) < TRIP_REPEAT_MS) return;
+  lastTripAt.set(key, Date.now());
+
+  const trip = db
+    .insert(interlockTripTable)
+    .values({ deviceId, interlock, actuator, action, message })
+    .returning()
+    .get();
+
+  console.warn(`Interlock ${interlock} tripped on ${deviceId}: ${message}`);
+  publishLiveEvent({ type: "interlock", ...trip, at: trip.createdAt });
+};
+
+export const formatDuration = (seconds: number) =>
+  seconds < 120 ? `${Math.round(seconds)} s` : `${Math.round(seconds / 60)} min`;
+
+const isTankEmpty = (settings: InterlockSettings, distance: number | null | undefined) =>
+  settings.maxWaterDistance !== null && distance !== null && distance !== undefined && distance > settings.maxWaterDistance;
+
+/*
+ * Signed vent travel in mm, forward opens; 0 for anything else. Vent positions and homing
+ * count as 0 here: positions are always within the soft limits, and homing runs into the
+ * closed end on purpose (see services/vent.ts).
+ */
+export const stepperTravel = (command: DeviceCommand) => {
+  if (command.actuator !== "stepper") return 0;
+  if (command.action === "forward") return command.distance;
+  if (command.action === "backward") return -command.distance;
+  return 0;
+};
+
+const checkInterlocks = ({ deviceId, command }: CommandRequest) => {
+  const settings = getInterlockSettings(deviceId);
+
+  if (command.actuator !== "stepper" && PUMPS.includes(command.actuator as Pump) && command.state) {
+    const distance = waterDistances.get(deviceId);
+    if (isTankEmpty(settings, distance)) {
+      throw new InterlockError(
+        "water_level",
+        `Water level too low to run ${command.actuator}: ${distance!.toFixed(1)} cm to the surface, the limit is ${settings.maxWaterDistance} cm`
+      );
+    }
+  }
+
+  const travel = stepperTravel(command);
+  if (travel !== 0) {
+    const target = settings.stepperPosition + travel;
+    // A vent already past a limit (e.g. after its position was corrected) may still move back
+    if ((travel > 0 && target > settings.stepperMaxPosition) || (travel < 0 && target < settings.stepperMinPosition)) {
+      throw new InterlockError(
+        "stepper_limit",
+        `Moving the vent ${travel > 0 ? "forward" : "backward"} ${Math.abs(travel)} mm would take it to ${target} mm, ` +
+          `outside its ${settings.stepperMinPosition}-${settings.stepperMaxPosition} mm limits`
+      );
+    }
+  }
+};
+
+/*
+ * Called by services/deviceCommands.ts when a command is queued and again right before it
+ * is sent, since the tank or the vent may have changed while it waited. Reports the trip
+ * and throws InterlockError when the command must not reach the board.
+ */
+export const enforceInterlocks = (request: CommandRequest) => {
+  try {
+    checkInterlocks(request);
+  } catch (error) {
+    if (error instanceof InterlockError) {
+      recordTrip(request.deviceId, error.interlock, request.command.actuator, "refused", error.message);
+    }
+    throw error;
+  }
+};
+
+// Queues the auto-off once, and again only if that command failed (e.g. the board stayed offline)
+const stopPump = (deviceId: string, pump: Pump, interlock: Interlock, message: string) => {
+  const key = `${deviceId}:${pump}`;
+  const pending = pumpStopCommands.get(key);
+  if (pending !== undefined && getDeviceCommand(deviceId, pending)?.status !== "failed") return;
+
+  try {
+    const command = queueDeviceCommand({ deviceId, command: { actuator: pump, state: false }, source: "interlock" });
+    pumpStopCommands.set(key, command.id);
+    recordTrip(deviceId, interlock, pump, "stopped", message);
+  } catch (error) {
+    console.error(`Could not switch off ${pump} on ${deviceId}:`, error);
+  }
+
+  for (const listener of pumpStopListeners) {
+    try {
+      listener(deviceId, pump, interlock, message);
+    } catch (error) {
+      console.error(`Pump interlock listener failed for ${pump} on ${deviceId}:`, error);
+    }
+  }
+};
+
+// Telemetry listener: switches off pumps that ran too long or are drawing from an empty tank
+export const enforcePumpInterlocks = ({ deviceId, status }: TelemetrySample) => {
+  const distance = status.sensors.distance;
+  waterDistances.set(deviceId, distance);
+
+  const settings = getInterlockSettings(deviceId);
+  const now = status.fetchedAt.getTime();
+
+  for (const pump of PUMPS) {
+    const key = `${deviceId}:${pump}`;
+
+    if (!status.actuators[pump]) {
+      pumpRunningSince.delete(key);
+      pumpStopCommands.delete(key);
+      continue;
+    }
+
+    const since = pumpRunningSince.get(key) ?? now;
+    pumpRunningSince.set(key, since);
+    const runSeconds = (now - since) / 1000;
+
+    if (isTankEmpty(settings, distance)) {
+      stopPump(
+        deviceId,
+        pump,
+        "water_level",
+        `Water level too low, ${pump} switched off: ${distance!.toFixed(1)} cm to the surface, the limit is ${settings.maxWaterDistance} cm`
+      );
+    } else if (settings.pumpMaxRunSeconds !== null && runSeconds >= settings.pumpMaxRunSeconds) {
+      stopPump(
+        deviceId,
+        pump,
+        "pump_runtime",
+        `${pump} switched off after running ${formatDuration(runSeconds)}, the limit is ${formatDuration(settings.pumpMaxRunSeconds)}`
+      );
+    }
+  }
+};
@@ -0,0 +1,157 @@
+import { eq } from "drizzle-orm";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { db } from "../drizzle";
+import { irrigationProgramTable, irrigationRunTable } from "../drizzle/schema";
+import { transportFor } from "./deviceTransport";
+import { FirmwareCommand } from "./esp32Client";
+import { updateInterlockSettings } from "./interlocks";
+import {
+  endRunOnInterlock,
+  interlockConflict,
+  IrrigationError,
+  IrrigationProgram,
+  isProgramRunning,
+  runProgram,
+  stopIrrigationRun,
+} from "./irrigation";
+import { addDevice } from "../test/fixtures";
+
+vi.mock("./deviceTransport", () => ({ transportFor: vi.fn() }));
+
+const sendCommand = vi.fn<(command: FirmwareCommand) => Promise<string>>();
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  sendCommand.mockReset();
+  sendCommand.mockResolvedValue("OK");
+  vi.mocked(transportFor).mockReturnValue({ getStatus: vi.fn(), sendCommand });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+const addProgram = (deviceId: string, changes: Partial<IrrigationProgram> = {}) =>
+  db
+    .insert(irrigationProgramTable)
+    .values({ deviceId, name: "Beds", pump: "pump1", mode: "duration", durationSeconds: 60, timezone: "UTC", ...changes })
+    .returning()
+    .get();
+
+const getRun = (id: number) => db.select().from(irrigationRunTable).where(eq(irrigationRunTable.id, id)).get()!;
+
+const pumpStates = () => sendCommand.mock.calls.map(([command]) => command.actuator !== "stepper" && command.state);
+
+describe("interlockConflict", () => {
+  it("accepts cycles shorter than the pump run limit", () => {
+    const { id } = addDevice();
+
+    expect(interlockConflict({ deviceId: id, durationSeconds: 3600, cycleSeconds: 300 })).toBeNull();
+    expect(interlockConflict({ deviceId: id, durationSeconds: 120, cycleSeconds: null })).toBeNull();
+  });
+
+  it("refuses a program that would run the pump until the interlock switches it off", () => {
+    const { id } = addDevice();
+
+    expect(interlockConflict({ deviceId: id, durationSeconds: 900, cycleSeconds: null })).toBe(
+      "The pump would run 15 min at a time, the interlock switches it off after 10 min. Use shorter cycles."
+    );
+    expect(interlockConflict({ deviceId: id, durationSeconds: 3600, cycleSeconds: 600 })).not.toBeNull();
+  });
+
+  it("accepts anything once the limit is switched off", () => {
+    const { id } = addDevice();
+    updateInterlockSettings(id, { pumpMaxRunSeconds: null });
+
+    expect(interlockConflict({ deviceId: id, durationSeconds: 3600, cycleSeconds: null })).toBeNull();
+  });
+});
+
+describe("runProgram", () => {
+  it("pumps in cycles with a soak in between and books the time pumped", async () => {
+    const { id } = addDevice();
+    const program = addProgram(id, { durationSeconds: 60, cycleSeconds: 20, soakSeconds: 30 });
+
+    const run = runProgram(program, "manual");
+    expect(run.status).toBe("running");
+
+    // Three cycles, two soaks and the wait for the level to settle
+    await vi.advanceTimersByTimeAsync(3 * 60 * 1000);
+
+    expect(pumpStates()).toEqual([true, false, true, false, true, false]);
+    expect(getRun(run.id)).toMatchObject({
+      status: "completed",
+      message: "Pumped 60 s in 3 cycles",
+      pumpSeconds: 60,
+      cycles: 3,
+    });
+    expect(isProgramRunning(program.id)).toBe(false);
+  });
+
+  it("refuses a second run on a busy pump, and skips a scheduled one", async () => {
+    const { id } = addDevice();
+    const program = addProgram(id);
+    const run = runProgram(program, "manual");
+
+    expect(() => runProgram(program, "manual")).toThrow(IrrigationError);
+    expect(runProgram(program, "schedule")).toMatchObject({
+      status: "skipped",
+      message: `pump1 is busy with irrigation run #${run.id}`,
+    });
+
+    stopIrrigationRun(run.id);
+    await vi.advanceTimersByTimeAsync(30 * 1000);
+  });
+
+  it("counts the daily maximum from midnight in the program's timezone", () => {
+    // 22:00 on June 1st in Los Angeles, already June 2nd in UTC
+    vi.setSystemTime(new Date("2025-06-02T05:00:00Z"));
+    const { id } = addDevice();
+    const program = addProgram(id, { timezone: "America/Los_Angeles", maxDailySeconds: 60 });
+    db.insert(irrigationRunTable)
+      .values({
+        programId: program.id,
+        deviceId: id,
+        pump: "pump1",
+        trigger: "schedule",
+        status: "completed",
+        startedAt: new Date("2025-06-01T20:00:00Z"),
+        pumpSeconds: 60,
+      })
+      .run();
+
+    expect(runProgram(program, "schedule")).toMatchObject({
+      status: "skipped",
+      message: "The daily maximum of 60 s is used up",
+    });
+  });
+
+  it("fails a run whose cycles no longer fit a lowered pump run limit", () => {
+    const { id } = addDevice();
+    const program = addProgram(id, { durationSeconds: 300, cycleSeconds: 120 });
+    updateInterlockSettings(id, { pumpMaxRunSeconds: 90 });
+
+    expect(runProgram(program, "schedule")).toMatchObject({
+      status: "failed",
+      message: "The pump would run 2 min at a time, the interlock switches it off after 90 s. Use shorter cycles.",
+    });
+    expect(sendCommand).not.toHaveBeenCalled();
+  });
+
+  it("ends the run when an interlock switches its pump off, booking only the time pumped", async () => {
+    const { id } = addDevice();
+    const program = addProgram(id, { durationSeconds: 300 });
+    const run = runProgram(program, "manual");
+
+    await vi.advanceTimersByTimeAsync(45 * 1000);
+    endRunOnInterlock(id, "pump1", "water_level");
+    await vi.advanceTimersByTimeAsync(30 * 1000);
+
+    expect(getRun(run.id)).toMatchObject({
+      status: "stopped",
+      message: "Switched off by the water_level interlock after 45 s",
+      pumpSeconds: 45,
+    });
+  });
+});
@@ -0,0 +1,371 @@
+import { and, desc, eq, gte, isNotNull, ne, sql } from "drizzle-orm";
+
+import { db } from "../drizzle";
+import { irrigationProgramTable, irrigationRunTable, sensorReadingTable } from "../drizzle/schema";
+import { queueDeviceCommand, sendDeviceCommand } from "./deviceCommands";
+import { Pump } from "./esp32Client";
+import { formatDuration, getInterlockSettings } from "./interlocks";
+import { cronMatches, startOfDay } from "./scheduler";
+import { estimateLiters } from "./waterUsage";
+import { Interlock } from "../utils/interlocks";
+import { Sensor } from "../utils/sensors";
+
+/*
+ * Irrigation programs switch a pump on for a while and make sure it goes off again:
+ *
+ *   - a duration program pumps for durationSeconds, a level program until the distance to the
+ *     water grew by levelDropCm (and at most durationSeconds)
+ *   - with cycleSeconds the pumping is split into cycles with soakSeconds off in between, so the
+ *     water soaks in instead of running off
+ *   - maxDailySeconds caps the pump time a program uses per day in its timezone, a run is cut
+ *     short at it
+ *   - with skipAboveHumidity the run is skipped while the air is that humid
+ *   - a cycle has to end before the pump_runtime interlock would switch the pump off; when an
+ *     interlock does switch it off (an empty tank, a lowered limit) the run ends right there
+ *
+ * Programs start at their cron matches or by hand. Every start is stored as a run, skipped
+ * ones included, with the level before and after it and the liters that works out to (see
+ * services/waterUsage.ts). Only one program runs a pump at a time.
+ */
+
+export type IrrigationProgram = typeof irrigationProgramTable.$inferSelect;
+export type IrrigationRun = typeof irrigationRunTable.$inferSelect;
+export type IrrigationTrigger = IrrigationRun["trigger"];
+
+export class IrrigationError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "IrrigationError";
+    this.status = status;
+  }
+}
+
+interface ActiveRun {
+  runId: number;
+  programId: number;
+  stopRequested: boolean;
+  // Why the run was stopped early, starts its message
+  stopReason: string | null;
+  // Ends the current pause early, set by pause()
+  wake: () => void;
+}
+
+const TICK_INTERVAL_MS = 15000;
+
+// How often a level program compares the water level with its target while pumping
+const LEVEL_CHECK_MS = 2000;
+
+// Wait after the last cycle before taking the level, so a reading from after the stop is in
+const SETTLE_MS = 10000;
+
+// Readings older than this neither skip a run nor count as the level
+const READING_MAX_AGE_MS = 5 * 60 * 1000;
+
+const RUN_LIMIT = 200;
+
+// Keyed by `${deviceId}:${pump}`
+const activeRuns = new Map<string, ActiveRun>();
+
+const round = (value: number) => Number(value.toFixed(1));
+
+// Latest trusted reading of a sensor, null when there is none from the last few minutes
+const latestReading = (deviceId: string, sensor: Sensor) =>
+  db
+    .select({ value: sensorReadingTable.value })
+    .from(sensorReadingTable)
+    .where(
+      and(
+        eq(sensorReadingTable.deviceId, deviceId),
+        eq(sensorReadingTable.sensor, sensor),
+        isNotNull(sensorReadingTable.value),
+        ne(sensorReadingTable.quality, "bad"),
+        gte(sensorReadingTable.recordedAt, new Date(Date.now() - READING_MAX_AGE_MS))
+      )
+    )
+    .orderBy(desc(sensorReadingTable.recordedAt))
+    .limit(1)
+    .get()?.value ?? null;
+
+// Pump seconds the program's runs used since midnight in its timezone
+const usedToday = (program: IrrigationProgram, now: Date) => {
+  const midnight = startOfDay(now, program.timezone);
+  const { used } = db
+    .select({ used: sql<number>`coalesce(sum(${irrigationRunTable.pumpSeconds}), 0)` })
+    .from(irrigationRunTable)
+    .where(and(eq(irrigationRunTable.programId, program.id), gte(irrigationRunTable.startedAt, midnight)))
+    .get()!;
+  return used;
+};
+
+const updateRun = (id: number, changes: Partial<IrrigationRun>) =>
+  db.update(irrigationRunTable).set(changes).where(eq(irrigationRunTable.id, id)).returning().get()!;
+
+// Waits up to ms, or until the run is asked to stop
+const pause = (active: ActiveRun, ms: number) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    active.wake = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+  });
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const setPump = (run: IrrigationRun, state: boolean) =>
+  sendDeviceCommand({
+    deviceId: run.deviceId,
+    command: { actuator: run.pump, state },
+    source: "irrigation",
+    userId: run.userId,
+  });
+
+const runCycles = async (
+  program: IrrigationProgram,
+  run: IrrigationRun,
+  active: ActiveRun,
+  budgetSeconds: number,
+  levelBefore: number | null
+) => {
+  const budgetMs = budgetSeconds * 1000;
+  const cycleMs = (program.cycleSeconds ?? budgetSeconds) * 1000;
+  const levelReached = () => {
+    if (program.mode !== "level" || levelBefore === null) return false;
+    const level = latestReading(run.deviceId, "distance");
+    return level !== null && level - levelBefore >= program.levelDropCm!;
+  };
+
+  let pumpedMs = 0;
+  let cycles = 0;
+  let reached = false;
+  let failure: string | null = null;
+
+  try {
+    while (pumpedMs < budgetMs && !active.stopRequested && !reached) {
+      if (cycles > 0 && program.soakSeconds > 0) {
+        await pause(active, program.soakSeconds * 1000);
+        if (active.stopRequested) break;
+      }
+
+      const cycleLength = Math.min(cycleMs, budgetMs - pumpedMs);
+      await setPump(run, true);
+      cycles++;
+      const started = Date.now();
+
+      try {
+        while (!active.stopRequested) {
+          const left = cycleLength - (Date.now() - started);
+          if (left <= 0) break;
+          await pause(active, program.mode === "level" ? Math.min(LEVEL_CHECK_MS, left) : left);
+          if (levelReached()) {
+            reached = true;
+            break;
+          }
+        }
+      } finally {
+        pumpedMs += Date.now() - started;
+        await setPump(run, false);
+      }
+
+      updateRun(run.id, { pumpSeconds: Math.round(pumpedMs / 1000), cycles });
+    }
+  } catch (error) {
+    failure = (error as Error).message;
+    // The pump may be on if the failure came after it started, an extra OFF does no harm
+    await setPump(run, false).catch(() => undefined);
+  }
+
+  const endedAt = new Date();
+  const pumped = formatDuration(pumpedMs / 1000);
+  let message: string;
+  if (failure) message = failure;
+  else if (active.stopRequested) message = `${active.stopReason} after ${pumped}`;
+  else if (reached) message = `The water level dropped ${program.levelDropCm} cm in ${pumped}`;
+  else if (budgetSeconds < program.durationSeconds) message = `Cut short at the daily maximum after ${pumped}`;
+  else if (program.mode === "level") message = `Pumped the maximum ${pumped} without the level dropping ${program.levelDropCm} cm`;
+  else message = `Pumped ${pumped} in ${cycles} ${cycles === 1 ? "cycle" : "cycles"}`;
+
+  await sleep(SETTLE_MS);
+  const levelAfter = latestReading(run.deviceId, "distance");
+
+  updateRun(run.id, {
+    status: failure ? "failed" : active.stopRequested ? "stopped" : "completed",
+    message,
+    endedAt,
+    pumpSeconds: Math.round(pumpedMs / 1000),
+    cycles,
+    levelAfter,
+    liters: estimateLiters(run.deviceId, levelBefore, levelAfter),
+  });
+};
+
+/*
+ * The pump_runtime interlock switches a pump off once it ran pumpMaxRunSeconds, so a program
+ * whose cycles (or whole run, without cycles) last that long could never finish one. Returns
+ * why, or null when the program fits.
+ */
+export const interlockConflict = (program: Pick<IrrigationProgram, "deviceId" | "durationSeconds" | "cycleSeconds">) => {
+  const { pumpMaxRunSeconds } = getInterlockSettings(program.deviceId);
+  const onSeconds = Math.min(program.cycleSeconds ?? program.durationSeconds, program.durationSeconds);
+  if (pumpMaxRunSeconds === null || onSeconds < pumpMaxRunSeconds) return null;
+
+  return `The pump would run ${formatDuration(onSeconds)} at a time, the interlock switches it off after ${formatDuration(pumpMaxRunSeconds)}. Use shorter cycles.`;
+};
+
+/*
+ * Starts a program and returns its run right away, as running or skipped; the cycles go on
+ * in the background. Throws IrrigationError when the pump is busy with another program.
+ */
+export const runProgram = (program: IrrigationProgram, trigger: IrrigationTrigger, userId: string | null = null) => {
+  const now = new Date();
+  const key = `${program.deviceId}:${program.pump}`;
+  const base = { programId: program.id, deviceId: program.deviceId, pump: program.pump, trigger, userId, startedAt: now };
+  const finish = (status: "skipped" | "failed", message: string) =>
+    db.insert(irrigationRunTable).values({ ...base, status, message, endedAt: now }).returning().get();
+
+  const busy = activeRuns.get(key);
+  if (busy) {
+    const message = `${program.pump} is busy with irrigation run #${busy.runId}`;
+    if (trigger === "schedule") return finish("skipped", message);
+    throw new IrrigationError(`${message}, stop it first`, 409);
+  }
+
+  // The limit may have been lowered since the program was saved
+  const conflict = interlockConflict(program);
+  if (conflict) return finish("failed", conflict);
+
+  if (program.skipAboveHumidity !== null) {
+    const humidity = latestReading(program.deviceId, "humidity");
+    if (humidity !== null && humidity > program.skipAboveHumidity) {
+      return finish("skipped", `Humidity is ${round(humidity)} %, the program skips above ${program.skipAboveHumidity} %`);
+    }
+  }
+
+  let budgetSeconds = program.durationSeconds;
+  if (program.maxDailySeconds !== null) {
+    budgetSeconds = Math.min(budgetSeconds, program.maxDailySeconds - usedToday(program, now));
+    if (budgetSeconds <= 0) {
+      return finish("skipped", `The daily maximum of ${formatDuration(program.maxDailySeconds)} is used up`);
+    }
+  }
+
+  const levelBefore = latestReading(program.deviceId, "distance");
+  if (program.mode === "level" && levelBefore === null) {
+    return finish("failed", "No recent water level reading to measure the drop against");
+  }
+
+  const run = db.insert(irrigationRunTable).values({ ...base, status: "running", levelBefore }).returning().get();
+  const active: ActiveRun = {
+    runId: run.id,
+    programId: program.id,
+    stopRequested: false,
+    stopReason: null,
+    wake: () => undefined,
+  };
+  activeRuns.set(key, active);
+
+  runCycles(program, run, active, budgetSeconds, levelBefore)
+    .catch((error) => console.error(`Irrigation run #${run.id} failed:`, error))
+    .finally(() => activeRuns.delete(key));
+
+  return run;
+};
+
+const requestStop = (active: ActiveRun, reason: string) => {
+  if (active.stopRequested) return;
+  active.stopRequested = true;
+  active.stopReason = reason;
+  active.wake();
+};
+
+// Asks a running run to switch its pump off, false when it is not running
+export const stopIrrigationRun = (runId: number) => {
+  const active = [...activeRuns.values()].find((candidate) => candidate.runId === runId);
+  if (!active) return false;
+
+  requestStop(active, "Stopped by hand");
+  return true;
+};
+
+/*
+ * Pump interlock listener: the interlock already switched the pump off, the run ends there
+ * so only the time the pump really ran is booked, rather than the rest of the cycle.
+ */
+export const endRunOnInterlock = (deviceId: string, pump: Pump, interlock: Interlock) => {
+  const active = activeRuns.get(`${deviceId}:${pump}`);
+  if (active) requestStop(active, `Switched off by the ${interlock} interlock`);
+};
+
+export const isProgramRunning = (programId: number) =>
+  [...activeRuns.values()].some((active) => active.programId === programId);
+
+export const listPrograms = (deviceId?: string) =>
+  db
+    .select()
+    .from(irrigationProgramTable)
+    .where(deviceId ? eq(irrigationProgramTable.deviceId, deviceId) : undefined)
+    .orderBy(irrigationProgramTable.id)
+    .all();
+
+export const getProgram = (id: number) =>
+  db.select().from(irrigationProgramTable).where(eq(irrigationProgramTable.id, id)).get();
+
+// Newest first, with the program's name
+export const listIrrigationRuns = (deviceId: string, limit = RUN_LIMIT) =>
+  db
+    .select({ run: irrigationRunTable, programName: irrigationProgramTable.name })
+    .from(irrigationRunTable)
+    .innerJoin(irrigationProgramTable, eq(irrigationRunTable.programId, irrigationProgramTable.id))
+    .where(eq(irrigationRunTable.deviceId, deviceId))
+    .orderBy(desc(irrigationRunTable.startedAt), desc(irrigationRunTable.id))
+    .limit(Math.min(limit, RUN_LIMIT))
+    .all()
+    .map(({ run, programName }) => ({ ...run, programName }));
+
+// Runs cut off by a restart: recorded as stopped, and their pump is switched off in case it is still on
+const stopInterruptedRuns = () => {
+  const interrupted = db
+    .update(irrigationRunTable)
+    .set({ status: "stopped", message: "Interrupted by a backend restart", endedAt: new Date() })
+    .where(eq(irrigationRunTable.status, "running"))
+    .returning()
+    .all();
+
+  for (const run of interrupted) {
+    try {
+      queueDeviceCommand({ deviceId: run.deviceId, command: { actuator: run.pump, state: false }, source: "irrigation" });
+    } catch (error) {
+      console.error(`Could not switch off ${run.pump} on ${run.deviceId}:`, error);
+    }
+  }
+};
+
+// Starts enabled programs at their cron matches every TICK_INTERVAL_MS. Returns a function that stops it.
+export const startIrrigationScheduler = () => {
+  let lastTick = new Date();
+
+  stopInterruptedRuns();
+
+  const timer = setInterval(() => {
+    const now = new Date();
+    const from = lastTick;
+    lastTick = now;
+
+    for (const program of listPrograms()) {
+      if (!program.enabled || !program.cron) continue;
+      if (cronMatches(program.cron, from, now, program.timezone).length === 0) continue;
+
+      try {
+        runProgram(program, "schedule");
+      } catch (error) {
+        console.error(`Irrigation program ${program.id} did not start:`, (error as Error).message);
+      }
+    }
+  }, TICK_INTERVAL_MS);
+
+  console.log("Irrigation scheduler started");
+
+  return () => clearInterval(timer);
+};
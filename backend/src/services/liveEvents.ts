@@ -0,0 +1,87 @@
+import type { QueuedCommand } from "./deviceCommands";
+import type { QualifiedStatus } from "./dataQuality";
+import type { InterlockTrip } from "./interlocks";
+import type { ActuatorStates } from "./esp32Client";
+import type { TelemetrySample } from "./telemetryPoller";
+
+// What GET /api/devices/:id/events streams to the dashboard, one SSE event per message
+export type LiveEvent =
+  | ({ type: "telemetry"; deviceId: string } & QualifiedStatus)
+  | { type: "actuators"; deviceId: string; actuators: ActuatorStates; changed: (keyof ActuatorStates)[]; at: Date }
+  // Every status change of a queued command, see services/deviceCommands.ts
+  | ({ type: "command"; at: Date } & QueuedCommand)
+  // A safety interlock refused a command or switched an actuator off, see services/interlocks.ts
+  | ({ type: "interlock"; at: Date } & InterlockTrip)
+  | { type: "connection"; deviceId: string; connected: boolean; error: string | null; at: Date };
+
+type LiveListener = (event: LiveEvent) => void;
+
+const listeners = new Map<string, Set<LiveListener>>();
+
+// Last known state per device, replayed to every new subscriber
+const latestStatus = new Map<string, QualifiedStatus>();
+const latestConnection = new Map<string, Extract<LiveEvent, { type: "connection" }>>();
+
+export const publishLiveEvent = (event: LiveEvent) => {
+  for (const listener of listeners.get(event.deviceId) ?? []) {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error(`Live event listener failed for ${event.deviceId}:`, error);
+    }
+  }
+};
+
+// Returns an unsubscribe function; call it when the client goes away
+export const subscribeLiveEvents = (deviceId: string, listener: LiveListener) => {
+  const deviceListeners = listeners.get(deviceId) ?? new Set();
+  deviceListeners.add(listener);
+  listeners.set(deviceId, deviceListeners);
+
+  return () => {
+    deviceListeners.delete(listener);
+    if (deviceListeners.size === 0) listeners.delete(deviceId);
+  };
+};
+
+export const liveSnapshot = (deviceId: string): LiveEvent[] => {
+  const events: LiveEvent[] = [];
+  const status = latestStatus.get(deviceId);
+  const connection = latestConnection.get(deviceId);
+
+  if (status) events.push({ type: "telemetry", deviceId, ...status });
+  if (connection) events.push(connection);
+  return events;
+};
+
+// Only transitions are published, a board that stays offline does not flood the stream
+const setConnection = (deviceId: string, connected: boolean, error: string | null) => {
+  if (latestConnection.get(deviceId)?.connected === connected) return;
+
+  const event = { type: "connection" as const, deviceId, connected, error, at: new Date() };
+  latestConnection.set(deviceId, event);
+  publishLiveEvent(event);
+};
+
+// Telemetry listener: forwards every sample and reports actuators that changed since the last one
+export const publishTelemetrySample = ({ deviceId, status }: TelemetrySample) => {
+  const previous = latestStatus.get(deviceId);
+  latestStatus.set(deviceId, status);
+
+  setConnection(deviceId, true, null);
+  publishLiveEvent({ type: "telemetry", deviceId, ...status });
+
+  if (!previous) return;
+
+  const changed = (Object.keys(status.actuators) as (keyof ActuatorStates)[]).filter(
+    (actuator) => status.actuators[actuator] !== previous.actuators[actuator]
+  );
+  if (changed.length > 0) {
+    publishLiveEvent({ type: "actuators", deviceId, actuators: status.actuators, changed, at: status.fetchedAt });
+  }
+};
+
+// Poll failure listener
+export const publishPollFailure = (deviceId: string, error: Error) => {
+  setConnection(deviceId, false, error.message);
+};
@@ -0,0 +1,73 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+import { Esp32Error } from "./esp32Client";
+import { MqttDeviceClient, onMqttOffline, startMqttTransport } from "./mqttTransport";
+import { VirtualGreenhouse } from "../simulator/greenhouse";
+import { connectMqttBoard, MqttBoardHandle, MqttBrokerHandle, startMqttBroker } from "../simulator/mqtt";
+
+/*
+ * The transport against an embedded aedes broker, with the simulator speaking the board's
+ * side of the topics.
+ */
+
+const DEVICE_ID = "shed";
+
+const offline = vi.fn<(deviceId: string, error: Esp32Error) => void>();
+
+let broker: MqttBrokerHandle;
+let stopTransport: () => void;
+let board: MqttBoardHandle;
+let greenhouse: VirtualGreenhouse;
+
+const client = new MqttDeviceClient(DEVICE_ID);
+
+beforeAll(async () => {
+  broker = await startMqttBroker(0);
+  process.env.MQTT_URL = broker.url;
+  stopTransport = startMqttTransport();
+  onMqttOffline(offline);
+
+  greenhouse = new VirtualGreenhouse({ seed: 1 });
+  board = connectMqttBoard(greenhouse, { url: broker.url, deviceId: DEVICE_ID, publishIntervalMs: 200 });
+
+  await vi.waitFor(() => client.getStatus(), { timeout: 5000 });
+});
+
+afterAll(async () => {
+  await board.close();
+  stopTransport();
+  await broker.close();
+  delete process.env.MQTT_URL;
+});
+
+describe("MQTT transport", () => {
+  it("answers getStatus with the last status the board published", async () => {
+    greenhouse.temperature = 31;
+    greenhouse.relays.led = true;
+
+    await vi.waitFor(async () => expect((await client.getStatus()).actuators.led).toBe(true));
+    expect((await client.getStatus()).sensors.temperature).toBeCloseTo(31, 0);
+  });
+
+  it("sends a command to the board and resolves with its answer", async () => {
+    await expect(client.sendCommand({ actuator: "fan", state: true })).resolves.toBe("OK");
+
+    expect(greenhouse.relays.fan).toBe(true);
+  });
+
+  it("rejects with the board's status when it refuses a command", async () => {
+    const move = client.sendCommand({ actuator: "stepper", action: "forward", distance: 5 });
+
+    await expect(move).rejects.toThrow("ERROR: Stepper disabled. Enable it first!");
+    await expect(move).rejects.toMatchObject({ status: 400 });
+  });
+
+  it("marks the device offline once the broker publishes its last will", async () => {
+    // Drops the connection without a DISCONNECT
+    greenhouse.wifiConnected = false;
+
+    await vi.waitFor(() => expect(offline).toHaveBeenCalledWith(DEVICE_ID, expect.any(Esp32Error)), { timeout: 5000 });
+    await expect(client.getStatus()).rejects.toThrow(`${DEVICE_ID} is offline on MQTT`);
+    await expect(client.sendCommand({ actuator: "fan", state: false })).rejects.toThrow(Esp32Error);
+  });
+});
@@ -0,0 +1,234 @@
+import "dotenv/config";
+import { randomUUID } from "crypto";
+import mqtt, { MqttClient } from "mqtt";
+
+import type { DeviceTransport } from "./deviceTransport";
+import {
+  checkCommandResponse,
+  commandTimeoutFor,
+  DeviceStatus,
+  Esp32Error,
+  Esp32StatusPayload,
+  FirmwareCommand,
+  parseStatus,
+  toControlParams,
+} from "./esp32Client";
+
+/*
+ * MQTT transport for boards the backend cannot reach directly. The backend connects to the
+ * broker at MQTT_URL and uses these topics per device, under MQTT_TOPIC_PREFIX:
+ *
+ *   <prefix>/<deviceId>/status            board -> backend: the /api/status JSON, retained
+ *   <prefix>/<deviceId>/online            board -> backend: "1" once connected, "0" as its last will, retained
+ *   <prefix>/<deviceId>/command           backend -> board: {"id": "...", "query": "fan=0"}
+ *   <prefix>/<deviceId>/command/response  board -> backend: {"id": "...", "status": 200, "message": "OK"}
+ *
+ * The query and the response are what /api/control takes and answers, so both transports
+ * share the firmware's command handling. Statuses are pushed into the telemetry pipeline
+ * as they arrive instead of being polled, see services/telemetryPoller.ts.
+ */
+
+const DEFAULT_TOPIC_PREFIX = "greenhouse";
+
+const RECONNECT_PERIOD_MS = 5000;
+
+type StatusListener = (deviceId: string, status: DeviceStatus) => void;
+type OfflineListener = (deviceId: string, error: Esp32Error) => void;
+
+interface PendingCommand {
+  resolve: (message: string) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+interface CommandResponse {
+  id?: string;
+  status?: number;
+  message?: string;
+}
+
+const topicPrefix = process.env.MQTT_TOPIC_PREFIX || DEFAULT_TOPIC_PREFIX;
+
+let client: MqttClient | null = null;
+
+// What the broker last told us about each device, retained messages included
+const latestStatus = new Map<string, DeviceStatus>();
+const onlineState = new Map<string, boolean>();
+
+const pendingCommands = new Map<string, PendingCommand>();
+
+const statusListeners: StatusListener[] = [];
+const offlineListeners: OfflineListener[] = [];
+
+// Every status a board publishes while the backend is connected
+export const onMqttStatus = (listener: StatusListener) => {
+  statusListeners.push(listener);
+};
+
+// A board published "0" on its online topic, or the broker did it for it
+export const onMqttOffline = (listener: OfflineListener) => {
+  offlineListeners.push(listener);
+};
+
+export const deviceTopic = (deviceId: string, topic: "status" | "online" | "command" | "command/response") =>
+  `${topicPrefix}/${deviceId}/${topic}`;
+
+// Why the device cannot be reached right now, null while it is online
+export const mqttDeviceError = (deviceId: string): Esp32Error | null => {
+  if (!client) return new Esp32Error("MQTT is not configured, set MQTT_URL");
+  if (!client.connected) return new Esp32Error(`MQTT broker unreachable at ${process.env.MQTT_URL}`);
+
+  const online = onlineState.get(deviceId);
+  if (online === undefined) return new Esp32Error(`${deviceId} has not connected to the MQTT broker`);
+  if (!online) return new Esp32Error(`${deviceId} is offline on MQTT`);
+  return null;
+};
+
+const parseJson = (payload: Buffer): unknown => {
+  try {
+    return JSON.parse(payload.toString());
+  } catch {
+    return null;
+  }
+};
+
+const handleStatus = (deviceId: string, payload: Buffer, retained: boolean) => {
+  const parsed = parseJson(payload);
+  if (!parsed || typeof parsed !== "object") {
+    console.error(`Invalid MQTT status from ${deviceId}: ${payload.toString().slice(0, 100)}`);
+    return;
+  }
+
+  const status = parseStatus(parsed as Esp32StatusPayload);
+  latestStatus.set(deviceId, status);
+
+  // A retained status was published before the backend subscribed, it is not a new reading
+  if (retained) return;
+  for (const listener of statusListeners) listener(deviceId, status);
+};
+
+const handleOnline = (deviceId: string, payload: Buffer) => {
+  const online = payload.toString().trim() === "1";
+  const previous = onlineState.get(deviceId);
+  onlineState.set(deviceId, online);
+
+  console.log(`${deviceId} is ${online ? "online" : "offline"} on MQTT`);
+  if (online || previous === false) return;
+
+  const error = new Esp32Error(`${deviceId} went offline on MQTT`);
+  for (const listener of offlineListeners) listener(deviceId, error);
+};
+
+const handleCommandResponse = (payload: Buffer) => {
+  const response = parseJson(payload) as CommandResponse | null;
+  const pending = response?.id ? pendingCommands.get(response.id) : undefined;
+  if (!response?.id || !pending) return;
+
+  pendingCommands.delete(response.id);
+  clearTimeout(pending.timer);
+
+  const status = Number(response.status ?? 200);
+  const message = String(response.message ?? "").trim();
+  if (status >= 400) {
+    pending.reject(new Esp32Error(message || `Board answered ${status}`, status));
+  } else {
+    pending.resolve(message);
+  }
+};
+
+const handleMessage = (topic: string, payload: Buffer, retained: boolean) => {
+  const [deviceId, ...rest] = topic.slice(topicPrefix.length + 1).split("/");
+
+  switch (rest.join("/")) {
+    case "status":
+      handleStatus(deviceId, payload, retained);
+      break;
+    case "online":
+      handleOnline(deviceId, payload);
+      break;
+    case "command/response":
+      handleCommandResponse(payload);
+      break;
+  }
+};
+
+/*
+ * Connects to MQTT_URL (with MQTT_USERNAME / MQTT_PASSWORD if set) and subscribes to every
+ * device's topics; without MQTT_URL, MQTT devices simply stay unreachable. The client
+ * reconnects on its own. Returns a function that disconnects.
+ */
+export const startMqttTransport = () => {
+  const url = process.env.MQTT_URL;
+  if (!url) return () => undefined;
+
+  const connection = mqtt.connect(url, {
+    clientId: `greenhouse-backend-${randomUUID().slice(0, 8)}`,
+    username: process.env.MQTT_USERNAME || undefined,
+    password: process.env.MQTT_PASSWORD || undefined,
+    reconnectPeriod: RECONNECT_PERIOD_MS,
+  });
+  client = connection;
+
+  connection.on("connect", () => {
+    connection.subscribe(
+      ["status", "online", "command/response"].map((topic) => `${topicPrefix}/+/${topic}`),
+      { qos: 1 },
+      (error) => {
+        if (error) console.error(`MQTT subscribe failed: ${error.message}`);
+      }
+    );
+    console.log(`MQTT transport connected to ${url} (topics under ${topicPrefix}/)`);
+  });
+  connection.on("message", (topic, payload, packet) => handleMessage(topic, payload, packet.retain));
+  connection.on("error", (error) => console.error(`MQTT error: ${error.message}`));
+  connection.on("offline", () => console.error(`MQTT broker unreachable at ${url}, retrying`));
+
+  return () => {
+    client = null;
+    connection.end();
+  };
+};
+
+export class MqttDeviceClient implements DeviceTransport {
+  readonly deviceId: string;
+
+  constructor(deviceId: string) {
+    this.deviceId = deviceId;
+  }
+
+  // The board reports on its own, so this is the last status it published
+  async getStatus(): Promise<DeviceStatus> {
+    const error = mqttDeviceError(this.deviceId);
+    if (error) throw error;
+
+    const status = latestStatus.get(this.deviceId);
+    if (!status) throw new Esp32Error(`${this.deviceId} has not published a status yet`);
+    return status;
+  }
+
+  async sendCommand(command: FirmwareCommand): Promise<string> {
+    const error = mqttDeviceError(this.deviceId);
+    if (error) throw error;
+
+    const id = randomUUID();
+    const query = toControlParams(command).toString();
+    const timeoutMs = commandTimeoutFor(command);
+
+    const message = await new Promise<string>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        pendingCommands.delete(id);
+        reject(new Esp32Error(`${this.deviceId} did not answer "${query}" within ${timeoutMs / 1000} s`));
+      }, timeoutMs);
+      pendingCommands.set(id, { resolve, reject, timer });
+
+      client!.publish(deviceTopic(this.deviceId, "command"), JSON.stringify({ id, query }), { qos: 1 }, (publishError) => {
+        if (!publishError) return;
+        clearTimeout(timer);
+        pendingCommands.delete(id);
+        reject(new Esp32Error(`MQTT publish failed: ${publishError.message}`));
+      });
+    });
+
+    return checkCommandResponse(command, message);
+  }
+}
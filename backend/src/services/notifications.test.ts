@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { db } from "../drizzle";
+import { deviceMembershipTable, userTable } from "../drizzle/schema";
+import { AlertNotification, notifyAll } from "./notifications";
+import { Role } from "../utils/permissions";
+import { addDevice } from "../test/fixtures";
+
+const fetchMock = vi.fn<typeof fetch>();
+
+beforeEach(() => {
+  fetchMock.mockReset();
+  fetchMock.mockResolvedValue(new Response(null, { status: 204 }));
+  vi.stubGlobal("fetch", fetchMock);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+// A user who receives alerts on a webhook named after them
+const addUser = (id: string, role: Role) =>
+  db
+    .insert(userTable)
+    .values({ id, name: id, email: `${id}@greenhouse.test`, role, alertWebhookUrl: `https://hooks.test/${id}` })
+    .run();
+
+const notification = (deviceId: string): AlertNotification => ({
+  event: "firing",
+  alert: {
+    id: 1,
+    name: "Too hot",
+    deviceId,
+    sensor: "temperature",
+    severity: "critical",
+    message: "temperature is 38",
+    value: 38,
+    firedAt: new Date(),
+    resolvedAt: null,
+  },
+});
+
+const notifiedUrls = () => fetchMock.mock.calls.map(([url]) => url).sort();
+
+describe("notifyAll", () => {
+  it("notifies the owners and operators of the alert's greenhouse, memberships included", async () => {
+    const { id } = addDevice();
+    addUser("owner", "owner");
+    addUser("viewer", "viewer");
+    addUser("demoted", "operator");
+    addUser("promoted", "viewer");
+    db.insert(deviceMembershipTable)
+      .values([
+        { deviceId: id, userId: "demoted", role: "viewer" },
+        { deviceId: id, userId: "promoted", role: "operator" },
+      ])
+      .run();
+
+    await notifyAll(notification(id));
+
+    expect(notifiedUrls()).toEqual(["https://hooks.test/owner", "https://hooks.test/promoted"]);
+  });
+});
@@ -0,0 +1,147 @@
+import "dotenv/config";
+import nodemailer, { Transporter } from "nodemailer";
+import { eq, isNotNull, or } from "drizzle-orm";
+
+import { db } from "../drizzle";
+import { userTable } from "../drizzle/schema";
+import { can } from "./access";
+
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+export interface AlertNotification {
+  event: "firing" | "resolved" | "test";
+  alert: {
+    id: number | null;
+    name: string;
+    deviceId: string;
+    sensor: string;
+    severity: "warning" | "critical";
+    message: string;
+    value: number | null;
+    firedAt: Date;
+    resolvedAt: Date | null;
+  };
+}
+
+export interface Recipient {
+  id: string;
+  email: string;
+  alertEmailEnabled: boolean;
+  alertWebhookUrl: string | null;
+}
+
+export interface DeliveryResult {
+  channel: "email" | "webhook";
+  target: string;
+  success: boolean;
+  message: string;
+}
+
+let transporter: Transporter | null = null;
+
+/*
+ * SMTP settings come from the environment (SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS).
+ * Without SMTP_HOST email delivery is disabled. Any local sink (e.g. MailHog on port 1025) works.
+ */
+const getTransporter = () => {
+  if (!process.env.SMTP_HOST) return null;
+
+  transporter ??= nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: Number(process.env.SMTP_PORT) || 587,
+    secure: process.env.SMTP_SECURE === "true",
+    auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+  });
+  return transporter;
+};
+
+const subjectFor = ({ event, alert }: AlertNotification) => {
+  const prefix = event === "resolved" ? "RESOLVED" : event === "test" ? "TEST" : alert.severity.toUpperCase();
+  return `[Greenhouse] ${prefix}: ${alert.name}`;
+};
+
+const bodyFor = ({ event, alert }: AlertNotification) =>
+  [
+    alert.message,
+    "",
+    `Device: ${alert.deviceId}`,
+    `Sensor: ${alert.sensor}`,
+    `Fired at: ${alert.firedAt.toISOString()}`,
+    event === "resolved" && alert.resolvedAt ? `Resolved at: ${alert.resolvedAt.toISOString()}` : null,
+  ]
+    .filter((line) => line !== null)
+    .join("\n");
+
+export const sendEmail = async (to: string, notification: AlertNotification) => {
+  const mailer = getTransporter();
+  if (!mailer) {
+    throw new Error("SMTP is not configured");
+  }
+
+  await mailer.sendMail({
+    from: process.env.ALERT_EMAIL_FROM || "greenhouse@localhost",
+    to,
+    subject: subjectFor(notification),
+    text: bodyFor(notification),
+  });
+};
+
+export const sendWebhook = async (url: string, notification: AlertNotification) => {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(notification),
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Webhook responded with HTTP ${response.status}`);
+  }
+};
+
+// Delivers to every channel the user enabled, never throws
+export const notifyUser = async (user: Recipient, notification: AlertNotification): Promise<DeliveryResult[]> => {
+  const deliveries: { channel: DeliveryResult["channel"]; target: string; send: () => Promise<void> }[] = [];
+
+  if (user.alertEmailEnabled) {
+    deliveries.push({ channel: "email", target: user.email, send: () => sendEmail(user.email, notification) });
+  }
+  if (user.alertWebhookUrl) {
+    const url = user.alertWebhookUrl;
+    deliveries.push({ channel: "webhook", target: url, send: () => sendWebhook(url, notification) });
+  }
+
+  return Promise.all(
+    deliveries.map(async ({ channel, target, send }) => {
+      try {
+        await send();
+        return { channel, target, success: true, message: "Delivered" };
+      } catch (error) {
+        console.error(`Alert ${channel} to ${target} failed:`, (error as Error).message);
+        return { channel, target, success: false, message: (error as Error).message };
+      }
+    })
+  );
+};
+
+/*
+ * Fans an alert out to everyone who opted into at least one channel and may acknowledge
+ * alerts on the alert's greenhouse, so a membership that makes someone a viewer there
+ * keeps that greenhouse's alerts out of their inbox.
+ */
+export const notifyAll = async (notification: AlertNotification) => {
+  const recipients = db
+    .select({
+      id: userTable.id,
+      role: userTable.role,
+      email: userTable.email,
+      alertEmailEnabled: userTable.alertEmailEnabled,
+      alertWebhookUrl: userTable.alertWebhookUrl,
+    })
+    .from(userTable)
+    .where(or(eq(userTable.alertEmailEnabled, true), isNotNull(userTable.alertWebhookUrl)))
+    .all()
+    .filter((user) => can(user, "alerts:acknowledge", notification.alert.deviceId));
+
+  await Promise.all(recipients.map((user) => notifyUser(user, notification)));
+};
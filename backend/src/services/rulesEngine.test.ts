@@ -0,0 +1,194 @@
+import { eq } from "drizzle-orm";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { db } from "../drizzle";
+import { automationRuleTable, ruleFiringTable } from "../drizzle/schema";
+import { transportFor } from "./deviceTransport";
+import { DeviceCommand, FirmwareCommand } from "./esp32Client";
+import { enforcePumpInterlocks, updateInterlockSettings } from "./interlocks";
+import {
+  AutomationRule,
+  closeInterruptedFirings,
+  evaluateRule,
+  evaluateRulesForSample,
+  invertCommand,
+} from "./rulesEngine";
+import { addDevice, SENSOR_DEFAULTS, telemetrySample } from "../test/fixtures";
+
+vi.mock("./deviceTransport", () => ({ transportFor: vi.fn() }));
+
+const sendCommand = vi.fn<(command: FirmwareCommand) => Promise<string>>();
+
+beforeEach(() => {
+  sendCommand.mockReset();
+  sendCommand.mockResolvedValue("OK");
+  vi.mocked(transportFor).mockReturnValue({ getStatus: vi.fn(), sendCommand });
+});
+
+// Fan on above 30 °C, off again once it is 2 °C cooler
+const fanRule = (changes: Partial<AutomationRule> = {}): AutomationRule => ({
+  id: 1,
+  deviceId: "board",
+  name: "Cool down",
+  enabled: true,
+  match: "all",
+  conditions: [{ sensor: "temperature", operator: "gt", threshold: 30, hysteresis: 2 }],
+  action: { actuator: "fan", state: true },
+  revertOnClear: true,
+  minOnSeconds: 0,
+  minOffSeconds: 0,
+  active: false,
+  lastTransitionAt: null,
+  createdBy: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...changes,
+});
+
+const readings = (temperature: number | null, humidity: number | null = 60) => ({
+  ...SENSOR_DEFAULTS,
+  temperature,
+  humidity,
+});
+
+describe("evaluateRule", () => {
+  it("activates once the threshold is crossed", () => {
+    expect(evaluateRule(fanRule(), readings(30)).transition).toBeNull();
+    expect(evaluateRule(fanRule(), readings(30.5)).transition).toBe("activate");
+  });
+
+  it("keeps an active rule on within its hysteresis band and clears it past the band", () => {
+    const active = fanRule({ active: true });
+
+    expect(evaluateRule(active, readings(28.5))).toMatchObject({ matched: true, transition: null });
+    expect(evaluateRule(active, readings(28))).toMatchObject({ matched: false, transition: "clear" });
+  });
+
+  it("holds a transition back until the minimum on or off time has passed", () => {
+    const now = new Date();
+    const switchedOn = fanRule({ active: true, minOnSeconds: 300, lastTransitionAt: new Date(now.getTime() - 120 * 1000) });
+    const switchedOff = fanRule({ minOffSeconds: 60, lastTransitionAt: new Date(now.getTime() - 60 * 1000) });
+
+    expect(evaluateRule(switchedOn, readings(20), now)).toMatchObject({ transition: "clear", heldBySeconds: 180 });
+    expect(evaluateRule(switchedOff, readings(35), now)).toMatchObject({ transition: "activate", heldBySeconds: 0 });
+  });
+
+  it("never matches on a missing reading", () => {
+    expect(evaluateRule(fanRule(), readings(null)).matched).toBe(false);
+    expect(evaluateRule(fanRule({ active: true }), readings(null)).transition).toBe("clear");
+  });
+
+  it("needs every condition for match all and one of them for match any", () => {
+    const conditions: AutomationRule["conditions"] = [
+      { sensor: "temperature", operator: "gt", threshold: 30, hysteresis: 0 },
+      { sensor: "humidity", operator: "lt", threshold: 40, hysteresis: 0 },
+    ];
+
+    expect(evaluateRule(fanRule({ conditions }), readings(35, 50)).matched).toBe(false);
+    expect(evaluateRule(fanRule({ conditions, match: "any" }), readings(35, 50)).matched).toBe(true);
+    expect(evaluateRule(fanRule({ conditions, match: "any" }), readings(25, 50)).matched).toBe(false);
+  });
+});
+
+describe("invertCommand", () => {
+  it.each<[DeviceCommand, DeviceCommand]>([
+    [{ actuator: "pump1", state: true }, { actuator: "pump1", state: false }],
+    [{ actuator: "stepper", action: "enable" }, { actuator: "stepper", action: "disable" }],
+    [{ actuator: "stepper", action: "forward", distance: 15 }, { actuator: "stepper", action: "backward", distance: 15 }],
+    [{ actuator: "stepper", action: "position", percent: 60 }, { actuator: "stepper", action: "position", percent: 0 }],
+  ])("undoes %j", (command, inverse) => {
+    expect(invertCommand(command)).toEqual(inverse);
+  });
+});
+
+describe("evaluateRulesForSample", () => {
+  const insertRule = (values: Pick<AutomationRule, "deviceId"> & Partial<AutomationRule>) => {
+    const { id: _, createdAt: __, updatedAt: ___, ...rule } = fanRule(values);
+    return db.insert(automationRuleTable).values(rule).returning().get();
+  };
+
+  const getRule = (id: number) => db.select().from(automationRuleTable).where(eq(automationRuleTable.id, id)).get()!;
+
+  const firings = (ruleId: number) =>
+    db.select().from(ruleFiringTable).where(eq(ruleFiringTable.ruleId, ruleId)).orderBy(ruleFiringTable.id).all();
+
+  it("latches the rule as soon as its command is queued and completes the firing with the board's answer", async () => {
+    const { id } = addDevice();
+    const rule = insertRule({ deviceId: id });
+    sendCommand.mockResolvedValue("Fan ON");
+
+    evaluateRulesForSample(telemetrySample(id, { sensors: { temperature: 33 } }));
+
+    expect(getRule(rule.id).active).toBe(true);
+    expect(firings(rule.id)).toMatchObject([{ kind: "activate", success: null, message: null }]);
+    await vi.waitFor(() => expect(firings(rule.id)).toMatchObject([{ success: true, message: "Fan ON" }]));
+
+    evaluateRulesForSample(telemetrySample(id, { sensors: { temperature: 33 }, actuators: { fan: true } }));
+    expect(firings(rule.id)).toHaveLength(1);
+  });
+
+  it("sends the opposite command once the conditions clear", async () => {
+    const { id } = addDevice();
+    const rule = insertRule({ deviceId: id, active: true });
+
+    evaluateRulesForSample(telemetrySample(id, { sensors: { temperature: 25 }, actuators: { fan: true } }));
+
+    expect(getRule(rule.id).active).toBe(false);
+    await vi.waitFor(() => expect(sendCommand).toHaveBeenCalledWith({ actuator: "fan", state: false }));
+    expect(firings(rule.id)).toMatchObject([{ kind: "clear", command: { actuator: "fan", state: false } }]);
+  });
+
+  it("skips the command when the board already shows the target state", () => {
+    const { id } = addDevice();
+    const rule = insertRule({ deviceId: id });
+
+    evaluateRulesForSample(telemetrySample(id, { sensors: { temperature: 33 }, actuators: { fan: true } }));
+
+    expect(getRule(rule.id).active).toBe(true);
+    expect(firings(rule.id)).toEqual([]);
+  });
+
+  it("latches a rule whose command an interlock refused instead of trying again on every sample", () => {
+    const { id } = addDevice();
+    updateInterlockSettings(id, { maxWaterDistance: 50 });
+    const rule = insertRule({
+      deviceId: id,
+      conditions: [{ sensor: "humidity", operator: "lt", threshold: 40, hysteresis: 0 }],
+      action: { actuator: "pump1", state: true },
+    });
+    const dry = telemetrySample(id, { sensors: { humidity: 30, distance: 70 } });
+    enforcePumpInterlocks(dry);
+
+    evaluateRulesForSample(dry);
+    evaluateRulesForSample(dry);
+    evaluateRulesForSample(dry);
+
+    expect(getRule(rule.id).active).toBe(true);
+    expect(firings(rule.id)).toMatchObject([
+      { kind: "activate", success: false, message: expect.stringContaining("Water level too low to run pump1") },
+    ]);
+    expect(sendCommand).not.toHaveBeenCalled();
+  });
+
+  it("fails firings a restart left pending", () => {
+    const { id } = addDevice();
+    const rule = insertRule({ deviceId: id });
+    sendCommand.mockReturnValue(new Promise(() => undefined));
+
+    evaluateRulesForSample(telemetrySample(id, { sensors: { temperature: 33 } }));
+    closeInterruptedFirings();
+
+    expect(firings(rule.id)).toMatchObject([{ success: false, message: expect.stringContaining("restart") }]);
+  });
+
+  it("leaves rules alone on readings that are not trusted", () => {
+    const { id } = addDevice();
+    const rule = insertRule({ deviceId: id });
+    const sample = telemetrySample(id, { sensors: { temperature: 33 } });
+    sample.status.quality.temperature = { quality: "bad", reason: "Out of range" };
+
+    evaluateRulesForSample(sample);
+
+    expect(getRule(rule.id).active).toBe(false);
+  });
+});
@@ -0,0 +1,201 @@
+import { and, eq, isNull } from "drizzle-orm";
+
+import { db } from "../drizzle";
+import { automationRuleTable, ruleFiringTable } from "../drizzle/schema";
+import { trustedReadings } from "./dataQuality";
+import { DeviceCommand, isCommandApplied, SensorReadings } from "./esp32Client";
+import { queueDeviceCommand } from "./deviceCommands";
+import { TelemetrySample } from "./telemetryPoller";
+import { Sensor } from "../utils/sensors";
+
+export interface RuleCondition {
+  sensor: Sensor;
+  operator: "gt" | "lt";
+  threshold: number;
+  // Once active, the condition only clears after moving this far back past the threshold
+  hysteresis: number;
+}
+
+export type AutomationRule = typeof automationRuleTable.$inferSelect;
+
+export type RuleFiring = typeof ruleFiringTable.$inferSelect;
+
+export interface ConditionResult extends RuleCondition {
+  value: number | null;
+  met: boolean;
+}
+
+export interface RuleEvaluation {
+  conditions: ConditionResult[];
+  // Whether the rule's conditions hold, taking hysteresis into account
+  matched: boolean;
+  // What the evaluator would do right now: activate, clear or nothing
+  transition: "activate" | "clear" | null;
+  // Set when a transition is due but held back by min on/off durations
+  heldBySeconds: number;
+}
+
+const evaluateCondition = (condition: RuleCondition, value: number | null, active: boolean) => {
+  if (value === null) return false;
+
+  // An active rule keeps holding until the value crosses back by the hysteresis band
+  const band = active ? condition.hysteresis : 0;
+
+  return condition.operator === "gt"
+    ? value > condition.threshold - band
+    : value < condition.threshold + band;
+};
+
+export const evaluateRule = (rule: AutomationRule, readings: SensorReadings, now = new Date()): RuleEvaluation => {
+  const conditions = rule.conditions.map((condition) => {
+    const value = readings[condition.sensor];
+    return { ...condition, value, met: evaluateCondition(condition, value, rule.active) };
+  });
+
+  const matched =
+    conditions.length > 0 &&
+    (rule.match === "all" ? conditions.every((c) => c.met) : conditions.some((c) => c.met));
+
+  let transition: RuleEvaluation["transition"] = null;
+  if (matched && !rule.active) transition = "activate";
+  if (!matched && rule.active) transition = "clear";
+
+  // Minimum on time guards clearing, minimum off time guards re-activating
+  let heldBySeconds = 0;
+  if (transition && rule.lastTransitionAt) {
+    const minimum = transition === "clear" ? rule.minOnSeconds : rule.minOffSeconds;
+    const elapsed = (now.getTime() - rule.lastTransitionAt.getTime()) / 1000;
+    heldBySeconds = Math.max(0, Math.ceil(minimum - elapsed));
+  }
+
+  return { conditions, matched, transition, heldBySeconds };
+};
+
+// Command that undoes a rule action when its conditions clear
+export const invertCommand = (command: DeviceCommand): DeviceCommand => {
+  if (command.actuator !== "stepper") {
+    return { ...command, state: !command.state };
+  }
+
+  switch (command.action) {
+    case "enable":
+      return { actuator: "stepper", action: "disable" };
+    case "disable":
+      return { actuator: "stepper", action: "enable" };
+    case "forward":
+      return { actuator: "stepper", action: "backward", distance: command.distance };
+    case "backward":
+      return { actuator: "stepper", action: "forward", distance: command.distance };
+    // The vent goes back to closed rather than to wherever it was before
+    case "position":
+      return { actuator: "stepper", action: "position", percent: 0 };
+    // Not accepted as a rule action, see routes/rules.ts
+    case "home":
+      return command;
+  }
+};
+
+const updateFiring = (id: number, success: boolean, message: string) =>
+  db.update(ruleFiringTable).set({ success, message }).where(eq(ruleFiringTable.id, id)).returning().get()!;
+
+/*
+ * Queues a rule's command and logs the firing right away as pending; the board's answer
+ * completes the firing once it arrives. A command refused before it was queued (an interlock, an actuator
+ * the device lacks) is logged as a failed firing. Never throws.
+ */
+const queueRuleCommand = (
+  rule: AutomationRule,
+  kind: "activate" | "clear" | "test",
+  command: DeviceCommand,
+  readings: SensorReadings,
+  userId: string | null,
+  onSettled?: (firing: RuleFiring) => void
+) => {
+  const { id } = db
+    .insert(ruleFiringTable)
+    .values({
+      ruleId: rule.id,
+      deviceId: rule.deviceId,
+      kind,
+      command,
+      readings: { ...readings },
+      success: null,
+    })
+    .returning()
+    .get();
+  const settle = (success: boolean, message: string) => {
+    const firing = updateFiring(id, success, message);
+    onSettled?.(firing);
+  };
+
+  try {
+    queueDeviceCommand(
+      { deviceId: rule.deviceId, command, source: "rule", userId },
+      { resolve: (message) => settle(true, message), reject: (error) => settle(false, error.message) }
+    );
+  } catch (error) {
+    settle(false, (error as Error).message);
+  }
+};
+
+// Sends a rule's command and resolves with the firing once the board answered, never rejects
+export const executeRuleCommand = (
+  rule: AutomationRule,
+  kind: "activate" | "clear" | "test",
+  command: DeviceCommand,
+  readings: SensorReadings,
+  // Set when a user runs the action from the test endpoint
+  userId: string | null = null
+) => new Promise<RuleFiring>((resolve) => queueRuleCommand(rule, kind, command, readings, userId, resolve));
+
+/*
+ * Relay and enable commands are skipped when the board already reports the target state.
+ * The rule latches as soon as its command is queued, without waiting for the board: the
+ * command queue retries a board that does not answer, and a refused command is logged
+ * once instead of on every sample for as long as the condition holds.
+ */
+const applyTransition = (rule: AutomationRule, transition: "activate" | "clear", sample: TelemetrySample) => {
+  const { sensors, actuators } = sample.status;
+  const now = new Date();
+
+  // Rules without revert just forget they were active once their conditions clear
+  const command = transition === "activate" ? rule.action : rule.revertOnClear ? invertCommand(rule.action) : null;
+
+  if (command && !isCommandApplied(command, actuators)) {
+    queueRuleCommand(rule, transition, command, sensors, null);
+  }
+
+  db.update(automationRuleTable)
+    .set({ active: transition === "activate", lastTransitionAt: now, updatedAt: now })
+    .where(eq(automationRuleTable.id, rule.id))
+    .run();
+};
+
+/*
+ * Firings still pending at startup lost their waiter with the restart. The command itself
+ * may still go out from the resumed queue, the command log has its outcome.
+ */
+export const closeInterruptedFirings = () =>
+  db.update(ruleFiringTable)
+    .set({ success: false, message: "Interrupted by a backend restart before the board answered" })
+    .where(isNull(ruleFiringTable.success))
+    .run();
+
+// Telemetry listener: evaluates every enabled rule of the sampled device
+export const evaluateRulesForSample = (sample: TelemetrySample) => {
+  const rules = db
+    .select()
+    .from(automationRuleTable)
+    .where(and(eq(automationRuleTable.deviceId, sample.deviceId), eq(automationRuleTable.enabled, true)))
+    .all();
+
+  // Bad readings count as missing, an impossible value must not activate anything
+  const readings = trustedReadings(sample.status);
+
+  for (const rule of rules) {
+    const { transition, heldBySeconds } = evaluateRule(rule, readings);
+    if (transition && heldBySeconds === 0) {
+      applyTransition(rule, transition, sample);
+    }
+  }
+};
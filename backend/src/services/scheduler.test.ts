@@ -0,0 +1,86 @@
+import { eq } from "drizzle-orm";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { db } from "../drizzle";
+import { scheduleRunTable, scheduleTable } from "../drizzle/schema";
+import { transportFor } from "./deviceTransport";
+import { FirmwareCommand } from "./esp32Client";
+import { Schedule, startScheduler } from "./scheduler";
+import { addDevice } from "../test/fixtures";
+
+vi.mock("./deviceTransport", () => ({ transportFor: vi.fn() }));
+
+const sendCommand = vi.fn<(command: FirmwareCommand) => Promise<string>>();
+
+let stopScheduler: (() => void) | null = null;
+
+beforeEach(() => {
+  // Only the clock, the command queue still needs real timers to send
+  vi.useFakeTimers({ now: new Date("2025-06-02T20:30:00Z"), toFake: ["Date"] });
+  sendCommand.mockReset();
+  sendCommand.mockResolvedValue("OK");
+  vi.mocked(transportFor).mockReturnValue({ getStatus: vi.fn(), sendCommand });
+});
+
+afterEach(() => {
+  stopScheduler?.();
+  vi.useRealTimers();
+  // Every startup resumes all enabled schedules
+  db.delete(scheduleTable).run();
+});
+
+const addSchedule = (deviceId: string, changes: Partial<Schedule>) =>
+  db
+    .insert(scheduleTable)
+    .values({ deviceId, name: "Lights", actuator: "led", kind: "window", timezone: "UTC", ...changes })
+    .returning()
+    .get();
+
+const runsOf = (scheduleId: number) =>
+  db.select().from(scheduleRunTable).where(eq(scheduleRunTable.scheduleId, scheduleId)).all();
+
+describe("startScheduler", () => {
+  it("brings every window to its current state at startup, ON or OFF", async () => {
+    const { id } = addDevice();
+    const closed = addSchedule(id, { startTime: "08:00", endTime: "18:00" });
+    const open = addSchedule(id, { actuator: "fan", startTime: "20:00", endTime: "06:00" });
+
+    stopScheduler = startScheduler();
+
+    await vi.waitFor(() => expect(sendCommand).toHaveBeenCalledTimes(2));
+    expect(sendCommand.mock.calls.map(([command]) => command)).toEqual(
+      expect.arrayContaining([
+        { actuator: "led", state: false },
+        { actuator: "fan", state: true },
+      ])
+    );
+    await vi.waitFor(() => expect(runsOf(closed.id)).toMatchObject([{ state: false, success: true }]));
+    expect(runsOf(open.id)).toMatchObject([{ state: true, success: true }]);
+  });
+
+  it("switches off a pulse that ended while the backend was down, and leaves a running one alone", async () => {
+    const { id } = addDevice();
+    const ended = addSchedule(id, { actuator: "pump1", kind: "pulse", cron: "0 * * * *", durationSeconds: 600 });
+    const running = addSchedule(id, { actuator: "pump2", kind: "pulse", cron: "25 * * * *", durationSeconds: 600 });
+
+    stopScheduler = startScheduler();
+
+    await vi.waitFor(() =>
+      expect(runsOf(ended.id)).toMatchObject([
+        { state: false, scheduledFor: new Date("2025-06-02T20:10:00Z"), success: true },
+      ])
+    );
+    expect(sendCommand.mock.calls).toEqual([[{ actuator: "pump1", state: false }]]);
+    expect(runsOf(running.id)).toEqual([]);
+  });
+
+  it("records a schedule run as failed when the command is refused before it is queued", () => {
+    const { id } = addDevice(["temperature"]);
+    const schedule = addSchedule(id, { startTime: "20:00", endTime: "22:00" });
+
+    stopScheduler = startScheduler();
+
+    expect(runsOf(schedule.id)).toMatchObject([{ state: true, success: false }]);
+    expect(sendCommand).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,212 @@
+import { eq } from "drizzle-orm";
+import { CronExpressionParser } from "cron-parser";
+
+import { db } from "../drizzle";
+import { scheduleRunTable, scheduleTable } from "../drizzle/schema";
+import { queueDeviceCommand } from "./deviceCommands";
+import { RelayActuator } from "./esp32Client";
+
+const TICK_INTERVAL_MS = 15000;
+
+// Guards against expressions like "* * * * *" flooding a long timeline
+const MAX_EVENTS_PER_SCHEDULE = 2000;
+
+export const DEFAULT_TIMEZONE =
+  process.env.SCHEDULER_TIMEZONE || Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export type Schedule = typeof scheduleTable.$inferSelect;
+
+export interface ScheduleEvent {
+  scheduleId: number;
+  scheduleName: string;
+  deviceId: string;
+  actuator: RelayActuator;
+  state: boolean;
+  at: Date;
+}
+
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+
+// "HH:mm" on the given weekdays as a cron expression; shiftDays moves it to the following day(s)
+const timeToCron = (time: string, days: number[], shiftDays = 0) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  const shifted = days.map((day) => (day + shiftDays) % 7);
+  return `${minutes} ${hours} * * ${[...new Set(shifted)].sort().join(",")}`;
+};
+
+// Cron matches in (from, to], evaluated in the schedule's timezone
+export const cronMatches = (expression: string, from: Date, to: Date, timezone: string) => {
+  const matches: Date[] = [];
+  if (to <= from) return matches;
+
+  const iterator = CronExpressionParser.parse(expression, { currentDate: from, endDate: to, tz: timezone });
+  while (iterator.hasNext() && matches.length < MAX_EVENTS_PER_SCHEDULE) {
+    matches.push(iterator.next().toDate());
+  }
+  return matches;
+};
+
+export const isValidTimezone = (timezone: string) => {
+  try {
+    new Intl.DateTimeFormat(undefined, { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Midnight of the day `date` falls on, in the given timezone
+export const startOfDay = (date: Date, timezone: string) =>
+  CronExpressionParser.parse("0 0 * * *", { currentDate: new Date(date.getTime() + 1), tz: timezone })
+    .prev()
+    .toDate();
+
+export const validateCron = (expression: string) => {
+  try {
+    CronExpressionParser.parse(expression);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// ON/OFF transitions a schedule produces in (from, to], oldest first
+export const scheduleEvents = (schedule: Schedule, from: Date, to: Date): ScheduleEvent[] => {
+  const event = (state: boolean, at: Date): ScheduleEvent => ({
+    scheduleId: schedule.id,
+    scheduleName: schedule.name,
+    deviceId: schedule.deviceId,
+    actuator: schedule.actuator,
+    state,
+    at,
+  });
+
+  const events: ScheduleEvent[] = [];
+
+  if (schedule.kind === "window" && schedule.startTime && schedule.endTime) {
+    const days = schedule.daysOfWeek?.length ? schedule.daysOfWeek : ALL_DAYS;
+    // Overnight windows (20:00-06:00) end on the day after they start
+    const endShift = schedule.endTime <= schedule.startTime ? 1 : 0;
+
+    for (const at of cronMatches(timeToCron(schedule.startTime, days), from, to, schedule.timezone)) {
+      events.push(event(true, at));
+    }
+    for (const at of cronMatches(timeToCron(schedule.endTime, days, endShift), from, to, schedule.timezone)) {
+      events.push(event(false, at));
+    }
+  }
+
+  if (schedule.kind === "pulse" && schedule.cron && schedule.durationSeconds) {
+    const durationMs = schedule.durationSeconds * 1000;
+
+    // Look back one duration so pulses that started before `from` still get switched off
+    for (const at of cronMatches(schedule.cron, new Date(from.getTime() - durationMs), to, schedule.timezone)) {
+      const offAt = new Date(at.getTime() + durationMs);
+      if (at > from) events.push(event(true, at));
+      if (offAt > from && offAt <= to) events.push(event(false, offAt));
+    }
+  }
+
+  return events.sort((a, b) => a.at.getTime() - b.at.getTime());
+};
+
+const listEnabledSchedules = () =>
+  db.select().from(scheduleTable).where(eq(scheduleTable.enabled, true)).all();
+
+const recordRun = (event: ScheduleEvent, success: boolean, message: string) =>
+  db.insert(scheduleRunTable)
+    .values({
+      scheduleId: event.scheduleId,
+      deviceId: event.deviceId,
+      actuator: event.actuator,
+      state: event.state,
+      scheduledFor: event.at,
+      success,
+      message,
+    })
+    .run();
+
+/*
+ * Queues the event's command and records the run once the board answered. The command
+ * queue retries an unreachable board for minutes, so nothing here waits on it.
+ */
+const executeEvent = (event: ScheduleEvent) => {
+  try {
+    queueDeviceCommand(
+      { deviceId: event.deviceId, command: { actuator: event.actuator, state: event.state }, source: "schedule" },
+      {
+        resolve: (message) => recordRun(event, true, message),
+        reject: (error) => recordRun(event, false, error.message),
+      }
+    );
+  } catch (error) {
+    recordRun(event, false, (error as Error).message);
+  }
+};
+
+// The OFF of the latest pulse, if it came due before `now`
+const lastPulseOff = (schedule: Schedule, now: Date): ScheduleEvent | undefined => {
+  if (!schedule.cron || !schedule.durationSeconds) return undefined;
+
+  const iterator = CronExpressionParser.parse(schedule.cron, { currentDate: now, tz: schedule.timezone });
+  const offAt = new Date(iterator.prev().getTime() + schedule.durationSeconds * 1000);
+  if (offAt > now) return undefined;
+
+  return {
+    scheduleId: schedule.id,
+    scheduleName: schedule.name,
+    deviceId: schedule.deviceId,
+    actuator: schedule.actuator,
+    state: false,
+    at: offAt,
+  };
+};
+
+/*
+ * At startup every window is brought to the state it should be in right now, ON or OFF,
+ * and pulses get their last OFF: a window or pulse that ended while the backend was down
+ * would otherwise leave its actuator running. Nothing else that was due is replayed.
+ */
+const resumeSchedules = (now: Date) => {
+  const weekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
+
+  const current = listEnabledSchedules().map((schedule) =>
+    schedule.kind === "window" ? scheduleEvents(schedule, weekAgo, now).pop() : lastPulseOff(schedule, now)
+  );
+
+  for (const event of current) {
+    if (event) executeEvent(event);
+  }
+};
+
+// Executes due schedule transitions every TICK_INTERVAL_MS. Returns a function that stops it.
+export const startScheduler = () => {
+  let lastTick = new Date();
+
+  try {
+    resumeSchedules(lastTick);
+  } catch (error) {
+    console.error("Scheduler resume failed:", error);
+  }
+
+  const timer = setInterval(() => {
+    const now = new Date();
+    const from = lastTick;
+    lastTick = now;
+
+    try {
+      const due = listEnabledSchedules()
+        .flatMap((schedule) => scheduleEvents(schedule, from, now))
+        .sort((a, b) => a.at.getTime() - b.at.getTime());
+
+      // Queued in order right away; a board that is offline only holds up its own commands
+      due.forEach(executeEvent);
+    } catch (error) {
+      console.error("Scheduler tick failed:", error);
+    }
+  }, TICK_INTERVAL_MS);
+
+  console.log(`Scheduler started (timezone ${DEFAULT_TIMEZONE})`);
+
+  return () => clearInterval(timer);
+};
@@ -0,0 +1,276 @@
+import fs from "fs";
+import path from "path";
+import { and, asc, desc, eq, gte, lte, sql } from "drizzle-orm";
+
+import { db } from "../drizzle";
+import { cameraSnapshotTable } from "../drizzle/schema";
+import { DEFAULT_DEVICE_ID } from "../config/devices";
+import { findJpegFrame } from "../utils/jpeg";
+import { recordHeartbeat } from "./deviceHealth";
+import { Device, getDevice, hasCapability, listDevices } from "./deviceRegistry";
+
+/*
+ * Plant camera snapshots: frames cut out of the device's MJPEG stream on a fixed interval
+ * (or on demand) and stored as plain JPEGs under SNAPSHOT_DIR/<deviceId>/YYYYMMDD_HHMMSS.jpg,
+ * with one camera_snapshot row each for the gallery and time-lapse queries.
+ */
+
+// The repository's captured_images folder, where the first camera script left its pictures
+export const SNAPSHOT_DIR = path.resolve(process.env.SNAPSHOT_DIR || path.join(__dirname, "../../../captured_images"));
+
+const DEFAULT_SNAPSHOT_INTERVAL_MS = 5 * 60 * 1000;
+
+// Long enough for a Pi camera to start streaming, short enough not to pile up captures
+const STREAM_TIMEOUT_MS = 10000;
+
+// A frame bigger than this means the stream is not MJPEG, or is broken
+const MAX_FRAME_BYTES = 5 * 1024 * 1024;
+
+const FILE_NAME_PATTERN = /^(\d{4})(\d{2})(\d{2})_(\d{2})(\d{2})(\d{2})(?:_\d+)?\.jpg$/;
+
+export type Snapshot = typeof cameraSnapshotTable.$inferSelect;
+
+export type SnapshotSource = Snapshot["source"];
+
+export class SnapshotError extends Error {
+  status: number;
+
+  constructor(message: string, status = 502) {
+    super(message);
+    this.name = "SnapshotError";
+    this.status = status;
+  }
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// Local time, the same naming the original capture script used
+const toFileStem = (date: Date) =>
+  `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}_` +
+  `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+
+const fromFileName = (fileName: string) => {
+  const match = FILE_NAME_PATTERN.exec(fileName);
+  if (!match) return null;
+
+  const [year, month, day, hours, minutes, seconds] = match.slice(1).map(Number);
+  return new Date(year, month - 1, day, hours, minutes, seconds);
+};
+
+export const snapshotPath = (snapshot: Pick<Snapshot, "fileName">) => path.join(SNAPSHOT_DIR, snapshot.fileName);
+
+// Two captures within the same second (a manual one next to a scheduled one) get a counter
+const uniqueFileName = (deviceId: string, capturedAt: Date) => {
+  const stem = path.posix.join(deviceId, toFileStem(capturedAt));
+  let fileName = `${stem}.jpg`;
+  for (let counter = 1; fs.existsSync(path.join(SNAPSHOT_DIR, fileName)); counter++) {
+    fileName = `${stem}_${counter}.jpg`;
+  }
+  return fileName;
+};
+
+// Reads the stream until the first complete frame has arrived, then hangs up
+const grabFrame = async (streamUrl: string) => {
+  let res: Response;
+  try {
+    res = await fetch(streamUrl, {
+      headers: { Accept: "multipart/x-mixed-replace, image/jpeg" },
+      signal: AbortSignal.timeout(STREAM_TIMEOUT_MS),
+    });
+  } catch (error) {
+    throw new SnapshotError(`Camera unreachable at ${streamUrl}: ${(error as Error).message}`);
+  }
+  if (!res.ok || !res.body) throw new SnapshotError(`Camera answered HTTP ${res.status}`);
+
+  const reader = res.body.getReader();
+  let buffer = Buffer.alloc(0);
+
+  try {
+    while (buffer.length < MAX_FRAME_BYTES) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer = Buffer.concat([buffer, value]);
+      const frame = findJpegFrame(buffer);
+      if (frame) return { ...frame, data: buffer.subarray(frame.start, frame.end) };
+    }
+  } catch (error) {
+    throw new SnapshotError(`Camera stream failed: ${(error as Error).message}`);
+  } finally {
+    reader.cancel().catch(() => undefined);
+  }
+
+  throw new SnapshotError("The camera sent no complete JPEG frame");
+};
+
+export const captureSnapshot = async (device: Device, source: Exclude<SnapshotSource, "import">, userId?: string) => {
+  if (!hasCapability(device, "camera") || !device.cameraUrl) {
+    throw new SnapshotError(`${device.name} has no camera stream configured`, 400);
+  }
+
+  // Every capture doubles as a heartbeat of the camera, see services/deviceHealth.ts
+  const startedAt = Date.now();
+  const frame = await grabFrame(device.cameraUrl).catch(async (error: Error) => {
+    await recordHeartbeat(device.id, "camera", { ok: false, error: error.message });
+    throw error;
+  });
+  await recordHeartbeat(device.id, "camera", { ok: true, latencyMs: Date.now() - startedAt });
+
+  const capturedAt = new Date();
+  const fileName = uniqueFileName(device.id, capturedAt);
+
+  await fs.promises.mkdir(path.dirname(snapshotPath({ fileName })), { recursive: true });
+  await fs.promises.writeFile(snapshotPath({ fileName }), frame.data);
+
+  return db
+    .insert(cameraSnapshotTable)
+    .values({
+      deviceId: device.id,
+      fileName,
+      source,
+      sizeBytes: frame.data.length,
+      width: frame.width,
+      height: frame.height,
+      capturedBy: userId ?? null,
+      capturedAt,
+    })
+    .returning()
+    .get();
+};
+
+const inRange = (deviceId: string, from?: Date, to?: Date) =>
+  and(
+    eq(cameraSnapshotTable.deviceId, deviceId),
+    from ? gte(cameraSnapshotTable.capturedAt, from) : undefined,
+    to ? lte(cameraSnapshotTable.capturedAt, to) : undefined
+  );
+
+export interface SnapshotQuery {
+  from?: Date;
+  to?: Date;
+  limit: number;
+  offset: number;
+}
+
+// Newest first, with the total for paging
+export const listSnapshots = (deviceId: string, { from, to, limit, offset }: SnapshotQuery) => {
+  const where = inRange(deviceId, from, to);
+
+  const snapshots = db
+    .select()
+    .from(cameraSnapshotTable)
+    .where(where)
+    .orderBy(desc(cameraSnapshotTable.capturedAt), desc(cameraSnapshotTable.id))
+    .limit(limit)
+    .offset(offset)
+    .all();
+  const { total } = db.select({ total: sql<number>`count(*)` }).from(cameraSnapshotTable).where(where).get()!;
+
+  return { snapshots, total };
+};
+
+export const getSnapshot = (id: number) =>
+  db.select().from(cameraSnapshotTable).where(eq(cameraSnapshotTable.id, id)).get();
+
+export const deleteSnapshot = async (snapshot: Snapshot) => {
+  db.delete(cameraSnapshotTable).where(eq(cameraSnapshotTable.id, snapshot.id)).run();
+  await fs.promises.rm(snapshotPath(snapshot), { force: true });
+};
+
+/*
+ * Frames of a time-lapse, oldest first. Long ranges are thinned out evenly to maxFrames so a
+ * month of 5-minute captures still plays in seconds.
+ */
+export const listTimelapseFrames = (deviceId: string, from: Date, to: Date, maxFrames: number) => {
+  const frames = db
+    .select({ id: cameraSnapshotTable.id, fileName: cameraSnapshotTable.fileName, capturedAt: cameraSnapshotTable.capturedAt })
+    .from(cameraSnapshotTable)
+    .where(inRange(deviceId, from, to))
+    .orderBy(asc(cameraSnapshotTable.capturedAt), asc(cameraSnapshotTable.id))
+    .all();
+
+  if (frames.length <= maxFrames) return frames;
+
+  const step = frames.length / maxFrames;
+  return Array.from({ length: maxFrames }, (_, index) => frames[Math.floor(index * step)]);
+};
+
+const indexFile = (deviceId: string, fileName: string) => {
+  const capturedAt = fromFileName(path.basename(fileName));
+  if (!capturedAt) return false;
+
+  const data = fs.readFileSync(snapshotPath({ fileName }));
+  const frame = findJpegFrame(data);
+  if (!frame) return false;
+
+  db.insert(cameraSnapshotTable)
+    .values({
+      deviceId,
+      fileName,
+      source: "import",
+      sizeBytes: data.length,
+      width: frame.width,
+      height: frame.height,
+      capturedAt,
+    })
+    .run();
+  return true;
+};
+
+const listJpegs = (directory: string) =>
+  fs.existsSync(directory)
+    ? fs.readdirSync(directory, { withFileTypes: true }).filter((entry) => entry.isFile() && entry.name.endsWith(".jpg"))
+    : [];
+
+/*
+ * Startup: indexes pictures that are on disk but not in the database. That is every file
+ * after a database reset, and the loose files in SNAPSHOT_DIR itself, which the original
+ * single-camera script wrote and which belong to SNAPSHOT_IMPORT_DEVICE ("main" by default).
+ */
+export const importSnapshots = () => {
+  const known = new Set(
+    db.select({ fileName: cameraSnapshotTable.fileName }).from(cameraSnapshotTable).all().map((row) => row.fileName)
+  );
+  let imported = 0;
+
+  const importDirectory = (deviceId: string, directory: string) => {
+    for (const entry of listJpegs(path.join(SNAPSHOT_DIR, directory))) {
+      const fileName = path.posix.join(directory, entry.name);
+      if (!known.has(fileName) && indexFile(deviceId, fileName)) imported++;
+    }
+  };
+
+  const legacyDeviceId = process.env.SNAPSHOT_IMPORT_DEVICE || DEFAULT_DEVICE_ID;
+  if (getDevice(legacyDeviceId)) importDirectory(legacyDeviceId, "");
+
+  for (const device of listDevices()) importDirectory(device.id, device.id);
+
+  if (imported > 0) console.log(`Imported ${imported} camera snapshots from ${SNAPSHOT_DIR}`);
+};
+
+/*
+ * Captures a frame from every device with a camera stream on a fixed interval
+ * (SNAPSHOT_INTERVAL_MS). Like the telemetry poller, a device is skipped while its previous
+ * capture is still running. Returns a function that stops the scheduler.
+ */
+export const startSnapshotScheduler = () => {
+  const intervalMs = Number(process.env.SNAPSHOT_INTERVAL_MS) || DEFAULT_SNAPSHOT_INTERVAL_MS;
+  const inFlight = new Set<string>();
+
+  const tick = () => {
+    for (const device of listDevices()) {
+      if (!hasCapability(device, "camera") || !device.cameraUrl || inFlight.has(device.id)) continue;
+
+      inFlight.add(device.id);
+      captureSnapshot(device, "scheduled")
+        .catch((error) => console.error(`Snapshot failed for ${device.id}: ${(error as Error).message}`))
+        .finally(() => inFlight.delete(device.id));
+    }
+  };
+
+  // No capture at startup, restarting the backend should not add frames to the time-lapse
+  const timer = setInterval(tick, intervalMs);
+  console.log(`Snapshot scheduler started (every ${intervalMs} ms, saving to ${SNAPSHOT_DIR})`);
+
+  return () => clearInterval(timer);
+};
@@ -0,0 +1,176 @@
+import { and, eq, gte, inArray, isNotNull, lt, ne, sql } from "drizzle-orm";
+
+import { db } from "../drizzle";
+import { sensorReadingTable, sensorRollupTable } from "../drizzle/schema";
+import { RetentionTier, ROLLUP_RESOLUTIONS, ROLLUP_SECONDS, RollupResolution } from "../utils/retention";
+import { Sensor } from "../utils/sensors";
+import { listRetentionPolicies } from "./telemetryRollups";
+
+// Selectable history windows and the bucket width that keeps each chart around 60-170 points
+export const HISTORY_RANGES = {
+  "1h": { durationSeconds: 60 * 60, bucketSeconds: 60 },
+  "24h": { durationSeconds: 24 * 60 * 60, bucketSeconds: 10 * 60 },
+  "7d": { durationSeconds: 7 * 24 * 60 * 60, bucketSeconds: 60 * 60 },
+  "30d": { durationSeconds: 30 * 24 * 60 * 60, bucketSeconds: 6 * 60 * 60 },
+  "90d": { durationSeconds: 90 * 24 * 60 * 60, bucketSeconds: 24 * 60 * 60 },
+  "1y": { durationSeconds: 365 * 24 * 60 * 60, bucketSeconds: 3 * 24 * 60 * 60 },
+} as const;
+
+export type HistoryRange = keyof typeof HISTORY_RANGES;
+
+export interface HistoryPoint {
+  time: Date;
+  avg: number;
+  min: number;
+  max: number;
+  count: number;
+}
+
+export interface SensorHistory {
+  range: HistoryRange;
+  bucketSeconds: number;
+  // The stored tier the chart was read from, the newest part may come from finer ones
+  resolution: RetentionTier;
+  from: Date;
+  to: Date;
+  series: Partial<Record<Sensor, HistoryPoint[]>>;
+}
+
+interface BucketRow {
+  sensor: Sensor;
+  bucket: number;
+  // avg * count, so partial buckets from different tiers combine into the right average
+  sum: number;
+  min: number;
+  max: number;
+  count: number;
+}
+
+// Coarsest rollup whose buckets fit evenly into the chart's, e.g. hourly rollups for a 7-day chart
+const resolutionFor = (bucketSeconds: number): RetentionTier =>
+  [...ROLLUP_RESOLUTIONS].reverse().find((resolution) => bucketSeconds % ROLLUP_SECONDS[resolution] === 0) ?? "raw";
+
+const readingBuckets = (deviceId: string, sensors: Sensor[], bucketSeconds: number, from: Date): BucketRow[] => {
+  // recorded_at is stored in unix seconds; numbers are bound as reals, so the cast truncates to the bucket index
+  const bucket = sql<number>`cast(${sensorReadingTable.recordedAt} / ${bucketSeconds} as integer) * ${bucketSeconds}`;
+
+  return db
+    .select({
+      sensor: sensorReadingTable.sensor,
+      bucket,
+      sum: sql<number>`sum(${sensorReadingTable.value})`,
+      min: sql<number>`min(${sensorReadingTable.value})`,
+      max: sql<number>`max(${sensorReadingTable.value})`,
+      count: sql<number>`count(${sensorReadingTable.value})`,
+    })
+    .from(sensorReadingTable)
+    .where(
+      and(
+        eq(sensorReadingTable.deviceId, deviceId),
+        inArray(sensorReadingTable.sensor, sensors),
+        gte(sensorReadingTable.recordedAt, from),
+        isNotNull(sensorReadingTable.value),
+        ne(sensorReadingTable.quality, "bad")
+      )
+    )
+    .groupBy(sensorReadingTable.sensor, bucket)
+    .all();
+};
+
+const rollupBuckets = (
+  deviceId: string,
+  sensors: Sensor[],
+  bucketSeconds: number,
+  resolution: RollupResolution,
+  from: Date,
+  to: Date
+): BucketRow[] => {
+  const bucket = sql<number>`cast(${sensorRollupTable.bucketStart} / ${bucketSeconds} as integer) * ${bucketSeconds}`;
+
+  return db
+    .select({
+      sensor: sensorRollupTable.sensor,
+      bucket,
+      sum: sql<number>`sum(${sensorRollupTable.avg} * ${sensorRollupTable.count})`,
+      min: sql<number>`min(${sensorRollupTable.min})`,
+      max: sql<number>`max(${sensorRollupTable.max})`,
+      count: sql<number>`sum(${sensorRollupTable.count})`,
+    })
+    .from(sensorRollupTable)
+    .where(
+      and(
+        eq(sensorRollupTable.deviceId, deviceId),
+        eq(sensorRollupTable.resolution, resolution),
+        inArray(sensorRollupTable.sensor, sensors),
+        gte(sensorRollupTable.bucketStart, from),
+        lt(sensorRollupTable.bucketStart, to)
+      )
+    )
+    .groupBy(sensorRollupTable.sensor, bucket)
+    .all();
+};
+
+/*
+ * Reads the chart from the coarsest tier that fits. Rollups only exist up to where the
+ * retention job got, so the rest of the window comes from the next finer tier, down to the
+ * raw readings for the last few minutes.
+ */
+export const getSensorHistory = (deviceId: string, sensors: Sensor[], range: HistoryRange): SensorHistory => {
+  const { durationSeconds, bucketSeconds } = HISTORY_RANGES[range];
+  const to = new Date();
+  const from = new Date(to.getTime() - durationSeconds * 1000);
+  const resolution = resolutionFor(bucketSeconds);
+
+  const rows: BucketRow[] = [];
+  let cursor = from;
+
+  if (resolution !== "raw") {
+    const rolledUpTo = Object.fromEntries(listRetentionPolicies().map((policy) => [policy.tier, policy.rolledUpTo]));
+    const tiers = ROLLUP_RESOLUTIONS.slice(0, ROLLUP_RESOLUTIONS.indexOf(resolution) + 1).reverse();
+
+    for (const tier of tiers) {
+      const end = rolledUpTo[tier];
+      if (!end || end <= cursor) continue;
+
+      rows.push(...rollupBuckets(deviceId, sensors, bucketSeconds, tier, cursor, end));
+      cursor = end;
+    }
+  }
+  rows.push(...readingBuckets(deviceId, sensors, bucketSeconds, cursor));
+
+  // A chart bucket can straddle two tiers, merge its parts
+  const merged = new Map<string, BucketRow>();
+  for (const row of rows) {
+    const key = `${row.sensor}:${row.bucket}`;
+    const existing = merged.get(key);
+    merged.set(
+      key,
+      existing
+        ? {
+            ...existing,
+            sum: existing.sum + row.sum,
+            min: Math.min(existing.min, row.min),
+            max: Math.max(existing.max, row.max),
+            count: existing.count + row.count,
+          }
+        : row
+    );
+  }
+
+  const series: SensorHistory["series"] = {};
+  for (const sensor of sensors) {
+    series[sensor] = [];
+  }
+
+  for (const row of [...merged.values()].sort((a, b) => a.bucket - b.bucket)) {
+    series[row.sensor]!.push({
+      time: new Date(row.bucket * 1000),
+      avg: row.sum / row.count,
+      min: row.min,
+      max: row.max,
+      count: row.count,
+    });
+  }
+
+  return { range, bucketSeconds, resolution, from, to, series };
+};
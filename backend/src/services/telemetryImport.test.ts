@@ -0,0 +1,98 @@
+import { eq } from "drizzle-orm";
+import { describe, expect, it } from "vitest";
+
+import { db } from "../drizzle";
+import { sensorReadingTable, telemetrySampleTable } from "../drizzle/schema";
+import { exportTable } from "./dataExport";
+import { importTelemetryCsv } from "./telemetryImport";
+import { toCsv } from "../utils/csv";
+import { addDevice } from "../test/fixtures";
+
+const readingsOf = (deviceId: string) =>
+  db
+    .select({ sensor: sensorReadingTable.sensor, value: sensorReadingTable.value, recordedAt: sensorReadingTable.recordedAt })
+    .from(sensorReadingTable)
+    .where(eq(sensorReadingTable.deviceId, deviceId))
+    .orderBy(sensorReadingTable.recordedAt, sensorReadingTable.sensor)
+    .all();
+
+describe("importTelemetryCsv", () => {
+  it("maps headers with units to sensors and reports the columns it ignored", () => {
+    const { id } = addDevice();
+    const csv =
+      "Timestamp,Temperature (°C),humidity [%],Note\r\n" +
+      '2025-06-01T12:00:00Z,21.5,60,"door open, windy"\r\n' +
+      "2025-06-01T12:01:00Z,,61,\r\n";
+
+    const report = importTelemetryCsv(id, csv, false);
+
+    expect(report).toMatchObject({
+      rows: 2,
+      imported: 2,
+      sensors: ["temperature", "humidity"],
+      ignoredColumns: ["Note"],
+      from: new Date("2025-06-01T12:00:00Z"),
+      to: new Date("2025-06-01T12:01:00Z"),
+      errors: [],
+    });
+    expect(readingsOf(id)).toEqual([
+      { sensor: "humidity", value: 60, recordedAt: new Date("2025-06-01T12:00:00Z") },
+      { sensor: "temperature", value: 21.5, recordedAt: new Date("2025-06-01T12:00:00Z") },
+      { sensor: "humidity", value: 61, recordedAt: new Date("2025-06-01T12:01:00Z") },
+    ]);
+  });
+
+  it("stores nothing when a single row is out of range", () => {
+    const { id } = addDevice();
+    const csv = "time,temperature,ph\n2025-06-01T12:00:00Z,21,6.5\n2025-06-01T12:01:00Z,21,15\nyesterday,21,6\n";
+
+    const report = importTelemetryCsv(id, csv, false);
+
+    expect(report).toMatchObject({
+      imported: 0,
+      errors: [
+        { row: 2, message: "ph 15 is outside 0 to 14" },
+        { row: 3, message: 'Unreadable time "yesterday"' },
+      ],
+      moreErrors: 0,
+    });
+    expect(readingsOf(id)).toEqual([]);
+  });
+
+  it("only reports what it would import on a dry run", () => {
+    const { id } = addDevice();
+    const csv = "time,temperature\n1748779200,21\n1748779260,22\n1748779260,23\n";
+
+    const report = importTelemetryCsv(id, csv, true);
+
+    expect(report).toMatchObject({ dryRun: true, rows: 3, imported: 2, duplicates: 1, errors: [] });
+    expect(db.select().from(telemetrySampleTable).where(eq(telemetrySampleTable.deviceId, id)).all()).toEqual([]);
+  });
+
+  it("imports a telemetry export as is, leaving out the readings it marks bad", () => {
+    const source = addDevice();
+    const target = addDevice();
+    const recordedAt = new Date("2025-06-01T12:00:00Z");
+    const sample = db
+      .insert(telemetrySampleTable)
+      .values({ deviceId: source.id, recordedAt, fan: true, pump1: false, pump2: false, led: false, stepperEnabled: false })
+      .returning()
+      .get();
+    db.insert(sensorReadingTable)
+      .values([
+        { sampleId: sample.id, deviceId: source.id, sensor: "temperature", value: 21, rawValue: 21, recordedAt },
+        { sampleId: sample.id, deviceId: source.id, sensor: "humidity", value: 150, rawValue: 150, quality: "bad", recordedAt },
+      ])
+      .run();
+
+    const { columns, batches } = exportTable("telemetry", { deviceId: source.id, sensors: ["temperature", "humidity"] });
+    const rows = [...batches].flat();
+    expect(columns.slice(3, 7)).toEqual(["temperature", "temperature_quality", "humidity", "humidity_quality"]);
+    expect(rows[0].slice(3, 7)).toEqual([21, "good", 150, "bad"]);
+
+    const report = importTelemetryCsv(target.id, toCsv(columns, rows), false);
+
+    expect(report).toMatchObject({ imported: 1, errors: [], ignoredColumns: ["device", "source", ...columns.slice(7)] });
+    expect(readingsOf(target.id)).toEqual([{ sensor: "temperature", value: 21, recordedAt }]);
+  });
+});
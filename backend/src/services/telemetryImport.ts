@@ -0,0 +1,216 @@
+import { and, eq, gte, lte } from "drizzle-orm";
+
+import { db } from "../drizzle";
+import { sensorReadingTable, telemetrySampleTable } from "../drizzle/schema";
+import { parseCsv } from "../utils/csv";
+import { Sensor, SENSOR_RANGES, SENSORS } from "../utils/sensors";
+import { rebuildRollups } from "./telemetryRollups";
+
+/*
+ * Backfills history from CSV files written by other loggers (or by the telemetry export):
+ * a time column plus one column per sensor, in engineering units. The whole file is checked
+ * before anything is stored, so a rejected file can be fixed and uploaded again as is.
+ */
+
+// Header names accepted for the timestamp column, compared case-insensitively
+const TIME_COLUMNS = ["time", "timestamp", "recorded_at", "datetime", "date"];
+
+export const IMPORT_MAX_ROWS = 100000;
+
+// Readings a telemetry export marks like this in its <sensor>_quality columns are not backfilled
+const SKIPPED_QUALITIES = ["bad", "missing"];
+
+// Enough to see what is wrong with a file without returning thousands of lines
+const MAX_REPORTED_ERRORS = 50;
+
+// Samples stored per transaction chunk, keeps the readings insert under SQLite's parameter limit
+const INSERT_CHUNK_SIZE = 500;
+
+export class TelemetryImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TelemetryImportError";
+  }
+}
+
+export interface ImportRowError {
+  // 1-based data row, the header not counted
+  row: number;
+  message: string;
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  rows: number;
+  imported: number;
+  // Rows whose time the device already has a sample for, or that repeat an earlier row
+  duplicates: number;
+  sensors: Sensor[];
+  ignoredColumns: string[];
+  from: Date | null;
+  to: Date | null;
+  errors: ImportRowError[];
+  // Errors beyond the ones listed
+  moreErrors: number;
+}
+
+interface ParsedSample {
+  recordedAt: Date;
+  values: Partial<Record<Sensor, number>>;
+}
+
+// "Temperature (°C)" and "temperature [C]" both mean temperature
+const normalizeHeader = (name: string) =>
+  name
+    .trim()
+    .toLowerCase()
+    .replace(/\s*[([].*$/, "");
+
+// ISO 8601 or anything Date understands; plain numbers are unix time in seconds, or milliseconds when that large
+const parseTime = (text: string) => {
+  const trimmed = text.trim();
+  if (trimmed === "") return null;
+
+  const numeric = Number(trimmed);
+  const date = Number.isFinite(numeric) ? new Date(numeric < 1e12 ? numeric * 1000 : numeric) : new Date(trimmed);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+// Samples are stored with second precision
+const toSecond = (date: Date) => Math.floor(date.getTime() / 1000);
+
+export const importTelemetryCsv = (deviceId: string, csv: string, dryRun: boolean): ImportReport => {
+  const [header, ...rows] = parseCsv(csv);
+  if (!header || rows.length === 0) throw new TelemetryImportError("The file has no readings");
+  if (rows.length > IMPORT_MAX_ROWS) {
+    throw new TelemetryImportError(`The file has ${rows.length} rows, split it into files of at most ${IMPORT_MAX_ROWS}`);
+  }
+
+  const columns = header.map(normalizeHeader);
+  const timeIndex = columns.findIndex((name) => TIME_COLUMNS.includes(name));
+  if (timeIndex === -1) throw new TelemetryImportError(`No time column, name it one of: ${TIME_COLUMNS.join(", ")}`);
+
+  const sensorColumns = columns
+    .map((name, index) => ({ sensor: name as Sensor, index, qualityIndex: columns.indexOf(`${name}_quality`) }))
+    .filter(({ sensor }) => (SENSORS as readonly string[]).includes(sensor));
+  if (sensorColumns.length === 0) throw new TelemetryImportError(`No sensor column, name them: ${SENSORS.join(", ")}`);
+
+  const ignoredColumns = header.filter(
+    (_, index) =>
+      index !== timeIndex && !sensorColumns.some((column) => column.index === index || column.qualityIndex === index)
+  );
+
+  const errors: ImportRowError[] = [];
+  let errorCount = 0;
+  const addError = (row: number, message: string) => {
+    errorCount++;
+    if (errors.length < MAX_REPORTED_ERRORS) errors.push({ row, message });
+  };
+
+  const samples: ParsedSample[] = [];
+
+  rows.forEach((cells, index) => {
+    const row = index + 1;
+
+    const recordedAt = parseTime(cells[timeIndex] ?? "");
+    if (!recordedAt) {
+      addError(row, `Unreadable time "${cells[timeIndex] ?? ""}"`);
+      return;
+    }
+
+    const values: ParsedSample["values"] = {};
+    for (const { sensor, index: cellIndex, qualityIndex } of sensorColumns) {
+      const text = (cells[cellIndex] ?? "").trim();
+      if (text === "" || SKIPPED_QUALITIES.includes((cells[qualityIndex] ?? "").trim())) continue;
+
+      const value = Number(text);
+      const { min, max } = SENSOR_RANGES[sensor];
+      if (!Number.isFinite(value)) addError(row, `${sensor} "${text}" is not a number`);
+      else if (value < min || value > max) addError(row, `${sensor} ${value} is outside ${min} to ${max}`);
+      else values[sensor] = value;
+    }
+
+    if (Object.keys(values).length > 0) samples.push({ recordedAt, values });
+  });
+
+  const report: ImportReport = {
+    dryRun,
+    rows: rows.length,
+    imported: 0,
+    duplicates: 0,
+    sensors: sensorColumns.map(({ sensor }) => sensor),
+    ignoredColumns,
+    from: null,
+    to: null,
+    errors,
+    moreErrors: errorCount - errors.length,
+  };
+  if (errorCount > 0 || samples.length === 0) return report;
+
+  samples.sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime());
+  report.from = samples[0].recordedAt;
+  report.to = samples[samples.length - 1].recordedAt;
+
+  // Importing the same file twice, or a range the poller already covered, adds nothing
+  const taken = new Set(
+    db
+      .select({ recordedAt: telemetrySampleTable.recordedAt })
+      .from(telemetrySampleTable)
+      .where(
+        and(
+          eq(telemetrySampleTable.deviceId, deviceId),
+          gte(telemetrySampleTable.recordedAt, report.from),
+          lte(telemetrySampleTable.recordedAt, report.to)
+        )
+      )
+      .all()
+      .map(({ recordedAt }) => toSecond(recordedAt))
+  );
+  const fresh = samples.filter((sample) => {
+    const second = toSecond(sample.recordedAt);
+    if (taken.has(second)) return false;
+    taken.add(second);
+    return true;
+  });
+
+  report.duplicates = samples.length - fresh.length;
+  report.imported = fresh.length;
+  if (dryRun) return report;
+
+  db.transaction((tx) => {
+    for (let start = 0; start < fresh.length; start += INSERT_CHUNK_SIZE) {
+      const readings = fresh.slice(start, start + INSERT_CHUNK_SIZE).flatMap(({ recordedAt, values }) => {
+        const { id } = tx
+          .insert(telemetrySampleTable)
+          .values({
+            deviceId,
+            recordedAt,
+            source: "import",
+            fan: false,
+            pump1: false,
+            pump2: false,
+            led: false,
+            stepperEnabled: false,
+          })
+          .returning({ id: telemetrySampleTable.id })
+          .get();
+
+        return Object.entries(values).map(([sensor, value]) => ({
+          sampleId: id,
+          deviceId,
+          sensor: sensor as Sensor,
+          value,
+          rawValue: null,
+          recordedAt,
+        }));
+      });
+
+      tx.insert(sensorReadingTable).values(readings).run();
+    }
+  });
+
+  // Backfilled history is usually older than the rollups, which would otherwise never see it
+  rebuildRollups(deviceId, report.from, report.to);
+
+  return report;
+};
@@ -0,0 +1,141 @@
+import { db } from "../drizzle";
+import { sensorReadingTable, telemetrySampleTable } from "../drizzle/schema";
+import { calibrateStatus } from "./calibration";
+import { assessStatus, QualifiedStatus } from "./dataQuality";
+import { Device, getDevice, listDevices } from "./deviceRegistry";
+import { transportFor } from "./deviceTransport";
+import { DeviceStatus } from "./esp32Client";
+import { mqttDeviceError, onMqttOffline, onMqttStatus } from "./mqttTransport";
+import { SENSORS } from "../utils/sensors";
+
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+
+export interface TelemetrySample {
+  sampleId: number;
+  deviceId: string;
+  status: QualifiedStatus;
+  // How long the board took to answer /api/status, null for statuses pushed over MQTT
+  latencyMs: number | null;
+}
+
+type SampleListener = (sample: TelemetrySample) => void | Promise<void>;
+type FailureListener = (deviceId: string, error: Error) => void;
+
+const sampleListeners: SampleListener[] = [];
+const failureListeners: FailureListener[] = [];
+
+// Subscribe to every stored sample (rules, alerts, live updates, ...)
+export const onTelemetrySample = (listener: SampleListener) => {
+  sampleListeners.push(listener);
+};
+
+// Subscribe to failed polls, e.g. to report a board as offline
+export const onPollFailure = (listener: FailureListener) => {
+  failureListeners.push(listener);
+};
+
+const storeSample = (deviceId: string, status: QualifiedStatus) =>
+  db.transaction((tx) => {
+    const { id } = tx
+      .insert(telemetrySampleTable)
+      .values({
+        deviceId,
+        recordedAt: status.fetchedAt,
+        ...status.actuators,
+      })
+      .returning({ id: telemetrySampleTable.id })
+      .get();
+
+    tx.insert(sensorReadingTable)
+      .values(
+        SENSORS.map((sensor) => ({
+          sampleId: id,
+          deviceId,
+          sensor,
+          value: status.sensors[sensor],
+          rawValue: status.raw[sensor],
+          quality: status.quality[sensor].quality,
+          qualityReason: status.quality[sensor].reason,
+          recordedAt: status.fetchedAt,
+        }))
+      )
+      .run();
+
+    return id;
+  });
+
+const notifyListeners = async (sample: TelemetrySample) => {
+  for (const listener of sampleListeners) {
+    try {
+      await listener(sample);
+    } catch (error) {
+      console.error(`Telemetry listener failed for ${sample.deviceId}:`, error);
+    }
+  }
+};
+
+const reportFailure = (deviceId: string, error: Error) => {
+  console.error(`Telemetry poll failed for ${deviceId}: ${error.message}`);
+  for (const listener of failureListeners) listener(deviceId, error);
+};
+
+const recordStatus = async (deviceId: string, status: DeviceStatus, latencyMs: number | null) => {
+  const qualified = assessStatus(deviceId, calibrateStatus(deviceId, status));
+  const sampleId = storeSample(deviceId, qualified);
+  await notifyListeners({ sampleId, deviceId, status: qualified, latencyMs });
+};
+
+const pollDevice = async (device: Device) => {
+  try {
+    const startedAt = Date.now();
+    const status = await transportFor(device).getStatus();
+    await recordStatus(device.id, status, Date.now() - startedAt);
+  } catch (error) {
+    reportFailure(device.id, error as Error);
+  }
+};
+
+// MQTT boards push their statuses, each one goes through the same pipeline as a poll
+const recordPushedStatus = (deviceId: string, status: DeviceStatus) => {
+  if (getDevice(deviceId)?.transport !== "mqtt") return;
+
+  recordStatus(deviceId, status, null).catch((error) => reportFailure(deviceId, error as Error));
+};
+
+/*
+ * Samples every registered HTTP device on a fixed interval (TELEMETRY_POLL_INTERVAL_MS).
+ * A device is skipped while its previous poll is still in flight so a slow board
+ * never piles up requests. MQTT devices are not polled: their statuses are recorded as
+ * they arrive, and on every tick an MQTT device that is offline counts as a failed poll,
+ * so outages look the same on both transports. Returns a function that stops the poller.
+ */
+export const startTelemetryPoller = () => {
+  const intervalMs = Number(process.env.TELEMETRY_POLL_INTERVAL_MS) || DEFAULT_POLL_INTERVAL_MS;
+  const inFlight = new Set<string>();
+
+  onMqttStatus(recordPushedStatus);
+  onMqttOffline((deviceId, error) => {
+    if (getDevice(deviceId)?.transport === "mqtt") reportFailure(deviceId, error);
+  });
+
+  const tick = () => {
+    for (const device of listDevices()) {
+      if (device.transport === "mqtt") {
+        const error = mqttDeviceError(device.id);
+        if (error) reportFailure(device.id, error);
+        continue;
+      }
+
+      if (inFlight.has(device.id)) continue;
+
+      inFlight.add(device.id);
+      pollDevice(device).finally(() => inFlight.delete(device.id));
+    }
+  };
+
+  tick();
+  const timer = setInterval(tick, intervalMs);
+  console.log(`Telemetry poller started (every ${intervalMs} ms)`);
+
+  return () => clearInterval(timer);
+};
@@ -0,0 +1,149 @@
+import { and, eq } from "drizzle-orm";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { db } from "../drizzle";
+import { retentionPolicyTable, sensorReadingTable, sensorRollupTable, telemetrySampleTable } from "../drizzle/schema";
+import { getSensorHistory } from "./telemetryHistory";
+import { rebuildRollups, runRetention, updateRetentionPolicy } from "./telemetryRollups";
+import { RollupResolution } from "../utils/retention";
+
+const DEVICE_ID = "main";
+
+// Only the clock, the job itself is called by hand
+const setNow = (iso: string) => vi.setSystemTime(new Date(iso));
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  // Retention works across every device, each test starts from an empty store
+  db.delete(sensorReadingTable).run();
+  db.delete(telemetrySampleTable).run();
+  db.delete(sensorRollupTable).run();
+  db.delete(retentionPolicyTable).run();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+const addReading = (iso: string, value: number) => {
+  const recordedAt = new Date(iso);
+  const sample = db
+    .insert(telemetrySampleTable)
+    .values({ deviceId: DEVICE_ID, recordedAt, fan: false, pump1: false, pump2: false, led: false, stepperEnabled: false })
+    .returning()
+    .get();
+  db.insert(sensorReadingTable)
+    .values({ sampleId: sample.id, deviceId: DEVICE_ID, sensor: "temperature", value, rawValue: value, recordedAt })
+    .run();
+};
+
+const rollups = (resolution: RollupResolution) =>
+  db
+    .select({
+      bucketStart: sensorRollupTable.bucketStart,
+      avg: sensorRollupTable.avg,
+      min: sensorRollupTable.min,
+      max: sensorRollupTable.max,
+      count: sensorRollupTable.count,
+    })
+    .from(sensorRollupTable)
+    .where(and(eq(sensorRollupTable.deviceId, DEVICE_ID), eq(sensorRollupTable.resolution, resolution)))
+    .orderBy(sensorRollupTable.bucketStart)
+    .all();
+
+const readingTimes = () =>
+  db
+    .select({ recordedAt: sensorReadingTable.recordedAt })
+    .from(sensorReadingTable)
+    .orderBy(sensorReadingTable.recordedAt)
+    .all()
+    .map(({ recordedAt }) => recordedAt.toISOString());
+
+describe("runRetention", () => {
+  it("weights minute averages by their reading counts when merging them into an hour", () => {
+    addReading("2025-06-02T12:00:10Z", 10);
+    addReading("2025-06-02T12:00:20Z", 10);
+    addReading("2025-06-02T12:00:30Z", 10);
+    addReading("2025-06-02T12:01:10Z", 40);
+    setNow("2025-06-02T13:05:00Z");
+
+    runRetention();
+
+    expect(rollups("1m")).toEqual([
+      { bucketStart: new Date("2025-06-02T12:00:00Z"), avg: 10, min: 10, max: 10, count: 3 },
+      { bucketStart: new Date("2025-06-02T12:01:00Z"), avg: 40, min: 40, max: 40, count: 1 },
+    ]);
+    // (3 × 10 + 40) / 4, not the average of the two minutes
+    expect(rollups("1h")).toEqual([{ bucketStart: new Date("2025-06-02T12:00:00Z"), avg: 17.5, min: 10, max: 40, count: 4 }]);
+  });
+
+  it("gives the same buckets when run again, or rebuilt, over the same range", () => {
+    addReading("2025-06-02T12:00:10Z", 10);
+    addReading("2025-06-02T12:30:10Z", 20);
+    setNow("2025-06-02T13:05:00Z");
+
+    const first = runRetention();
+    const minutes = rollups("1m");
+    const hours = rollups("1h");
+
+    expect(runRetention().rolledUpTo).toEqual(first.rolledUpTo);
+    rebuildRollups(DEVICE_ID, new Date("2025-06-02T12:00:10Z"), new Date("2025-06-02T12:30:10Z"));
+
+    expect(rollups("1m")).toEqual(minutes);
+    expect(rollups("1h")).toEqual(hours);
+  });
+
+  it("refreshes the buckets a backfill lands in", () => {
+    addReading("2025-06-02T12:00:10Z", 10);
+    setNow("2025-06-02T13:05:00Z");
+    runRetention();
+
+    addReading("2025-06-02T12:00:40Z", 30);
+    rebuildRollups(DEVICE_ID, new Date("2025-06-02T12:00:40Z"), new Date("2025-06-02T12:00:40Z"));
+
+    expect(rollups("1m")).toMatchObject([{ avg: 20, count: 2 }]);
+    expect(rollups("1h")).toMatchObject([{ avg: 20, count: 2 }]);
+  });
+
+  it("never prunes a tier past what the next tier has rolled up", () => {
+    addReading("2025-06-02T12:30:00Z", 10);
+    addReading("2025-06-02T13:10:00Z", 20);
+    addReading("2025-06-02T13:30:10Z", 30);
+    setNow("2025-06-02T13:30:30Z");
+    for (const tier of ["raw", "1m", "1h"] as const) updateRetentionPolicy(tier, 0);
+
+    const { rolledUpTo, deleted } = runRetention();
+
+    expect(rolledUpTo).toEqual({
+      "1m": new Date("2025-06-02T13:30:00Z"),
+      "1h": new Date("2025-06-02T13:00:00Z"),
+      "1d": new Date("2025-06-02T00:00:00Z"),
+    });
+    // Raw only up to the last complete minute, minutes only up to the last complete hour
+    expect(readingTimes()).toEqual(["2025-06-02T13:30:10.000Z"]);
+    expect(rollups("1m").map(({ bucketStart }) => bucketStart)).toEqual([new Date("2025-06-02T13:10:00Z")]);
+    // The day is not complete, so the hour stays whatever its policy says
+    expect(rollups("1h").map(({ bucketStart }) => bucketStart)).toEqual([new Date("2025-06-02T12:00:00Z")]);
+    expect(deleted).toEqual({ raw: 2, "1m": 1, "1h": 0 });
+  });
+});
+
+describe("getSensorHistory", () => {
+  it("stitches the rollup tiers and the newest raw readings together without counting a reading twice", () => {
+    addReading("2025-06-02T12:30:00Z", 10);
+    addReading("2025-06-02T13:10:00Z", 20);
+    addReading("2025-06-02T13:29:00Z", 30);
+    setNow("2025-06-02T13:30:30Z");
+    runRetention();
+    addReading("2025-06-02T13:30:10Z", 40);
+
+    // Hourly chart buckets: 12:00 from the hour rollups, 13:00 from minute rollups plus raw readings
+    const { resolution, series } = getSensorHistory(DEVICE_ID, ["temperature"], "7d");
+
+    expect(resolution).toBe("1h");
+    expect(series.temperature).toEqual([
+      { time: new Date("2025-06-02T12:00:00Z"), avg: 10, min: 10, max: 10, count: 1 },
+      { time: new Date("2025-06-02T13:00:00Z"), avg: 30, min: 20, max: 40, count: 3 },
+    ]);
+  });
+});
@@ -0,0 +1,305 @@
+import { and, eq, gte, isNotNull, lt, ne, sql } from "drizzle-orm";
+
+import { db } from "../drizzle";
+import { retentionPolicyTable, sensorReadingTable, sensorRollupTable, telemetrySampleTable } from "../drizzle/schema";
+import { RETENTION_TIERS, RetentionTier, ROLLUP_RESOLUTIONS, ROLLUP_SECONDS, RollupResolution } from "../utils/retention";
+
+/*
+ * Telemetry retention. Raw readings are rolled up into 1-minute buckets, those into 1-hour
+ * buckets and those into 1-day buckets (min/max/avg/count per device and sensor). Each tier
+ * is then kept for its policy's keepDays, but never deleted before the next tier has rolled
+ * it up, so shortening a policy cannot lose data that exists nowhere else.
+ */
+
+export type RetentionPolicy = typeof retentionPolicyTable.$inferSelect;
+
+const DEFAULT_KEEP_DAYS: Record<RetentionTier, number | null> = {
+  raw: 7,
+  "1m": 30,
+  "1h": 365,
+  "1d": null,
+};
+
+const DEFAULT_RETENTION_INTERVAL_MS = 10 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The finer tier each rollup is computed from
+const SOURCE_TIER: Record<RollupResolution, RetentionTier> = {
+  "1m": "raw",
+  "1h": "1m",
+  "1d": "1h",
+};
+
+const floorTo = (date: Date, seconds: number) => new Date(Math.floor(date.getTime() / 1000 / seconds) * seconds * 1000);
+
+const ceilTo = (date: Date, seconds: number) => new Date(Math.ceil(date.getTime() / 1000 / seconds) * seconds * 1000);
+
+// Every tier's policy, the missing ones are created with the defaults
+export const listRetentionPolicies = (): RetentionPolicy[] => {
+  const stored = db.select().from(retentionPolicyTable).all();
+
+  return RETENTION_TIERS.map(
+    (tier) =>
+      stored.find((policy) => policy.tier === tier) ??
+      db.insert(retentionPolicyTable).values({ tier, keepDays: DEFAULT_KEEP_DAYS[tier] }).returning().get()
+  );
+};
+
+const policiesByTier = () =>
+  Object.fromEntries(listRetentionPolicies().map((policy) => [policy.tier, policy])) as Record<RetentionTier, RetentionPolicy>;
+
+export const updateRetentionPolicy = (tier: RetentionTier, keepDays: number | null) => {
+  listRetentionPolicies();
+  return db
+    .update(retentionPolicyTable)
+    .set({ keepDays, updatedAt: new Date() })
+    .where(eq(retentionPolicyTable.tier, tier))
+    .returning()
+    .get();
+};
+
+// Buckets of a resolution computed straight from the sensor readings
+const bucketsFromReadings = (resolution: RollupResolution, from: Date, to: Date, deviceId?: string) => {
+  const seconds = ROLLUP_SECONDS[resolution];
+  // Numbers are bound as reals, the cast makes the division truncate to the bucket index
+  const bucket = sql<number>`cast(${sensorReadingTable.recordedAt} / ${seconds} as integer) * ${seconds}`;
+
+  return db
+    .select({
+      // insert().select() wants every column, a null id lets SQLite assign one
+      id: sql<number>`null`.as("id"),
+      deviceId: sensorReadingTable.deviceId,
+      sensor: sensorReadingTable.sensor,
+      resolution: sql<RollupResolution>`${resolution}`.as("resolution"),
+      bucketStart: sql<Date>`${bucket}`.as("bucket_start"),
+      avg: sql<number>`avg(${sensorReadingTable.value})`.as("avg"),
+      min: sql<number>`min(${sensorReadingTable.value})`.as("min"),
+      max: sql<number>`max(${sensorReadingTable.value})`.as("max"),
+      count: sql<number>`count(${sensorReadingTable.value})`.as("count"),
+    })
+    .from(sensorReadingTable)
+    .where(
+      and(
+        gte(sensorReadingTable.recordedAt, from),
+        lt(sensorReadingTable.recordedAt, to),
+        isNotNull(sensorReadingTable.value),
+        ne(sensorReadingTable.quality, "bad"),
+        deviceId ? eq(sensorReadingTable.deviceId, deviceId) : undefined
+      )
+    )
+    .groupBy(sensorReadingTable.deviceId, sensorReadingTable.sensor, bucket);
+};
+
+// Buckets of a resolution combined from the finer rollup, averages weighted by their reading counts
+const bucketsFromRollups = (resolution: RollupResolution, from: Date, to: Date, deviceId?: string) => {
+  const seconds = ROLLUP_SECONDS[resolution];
+  const source = SOURCE_TIER[resolution] as RollupResolution;
+  const bucket = sql<number>`cast(${sensorRollupTable.bucketStart} / ${seconds} as integer) * ${seconds}`;
+
+  return db
+    .select({
+      id: sql<number>`null`.as("id"),
+      deviceId: sensorRollupTable.deviceId,
+      sensor: sensorRollupTable.sensor,
+      resolution: sql<RollupResolution>`${resolution}`.as("resolution"),
+      bucketStart: sql<Date>`${bucket}`.as("bucket_start"),
+      avg: sql<number>`sum(${sensorRollupTable.avg} * ${sensorRollupTable.count}) / sum(${sensorRollupTable.count})`.as("avg"),
+      min: sql<number>`min(${sensorRollupTable.min})`.as("min"),
+      max: sql<number>`max(${sensorRollupTable.max})`.as("max"),
+      count: sql<number>`sum(${sensorRollupTable.count})`.as("count"),
+    })
+    .from(sensorRollupTable)
+    .where(
+      and(
+        eq(sensorRollupTable.resolution, source),
+        gte(sensorRollupTable.bucketStart, from),
+        lt(sensorRollupTable.bucketStart, to),
+        deviceId ? eq(sensorRollupTable.deviceId, deviceId) : undefined
+      )
+    )
+    .groupBy(sensorRollupTable.deviceId, sensorRollupTable.sensor, bucket);
+};
+
+/*
+ * (Re)computes the buckets of one resolution in [from, to) from its source tier. Upserts, so
+ * running it again over the same range, e.g. after an import, just refreshes the buckets.
+ */
+const aggregate = (resolution: RollupResolution, from: Date, to: Date, deviceId?: string) => {
+  const buckets =
+    SOURCE_TIER[resolution] === "raw"
+      ? bucketsFromReadings(resolution, from, to, deviceId)
+      : bucketsFromRollups(resolution, from, to, deviceId);
+
+  db.insert(sensorRollupTable)
+    .select(buckets)
+    .onConflictDoUpdate({
+      target: [sensorRollupTable.deviceId, sensorRollupTable.sensor, sensorRollupTable.resolution, sensorRollupTable.bucketStart],
+      set: {
+        avg: sql`excluded.avg`,
+        min: sql`excluded.min`,
+        max: sql`excluded.max`,
+        count: sql`excluded.count`,
+      },
+    })
+    .run();
+};
+
+const oldestInTier = (tier: RetentionTier) => {
+  const { oldest } =
+    tier === "raw"
+      ? db.select({ oldest: sql<number | null>`min(${sensorReadingTable.recordedAt})` }).from(sensorReadingTable).get()!
+      : db
+          .select({ oldest: sql<number | null>`min(${sensorRollupTable.bucketStart})` })
+          .from(sensorRollupTable)
+          .where(eq(sensorRollupTable.resolution, tier))
+          .get()!;
+
+  return oldest === null ? null : new Date(oldest * 1000);
+};
+
+const prune = (tier: RetentionTier, cutoff: Date) => {
+  if (tier === "raw") {
+    const { changes } = db.delete(sensorReadingTable).where(lt(sensorReadingTable.recordedAt, cutoff)).run();
+    db.delete(telemetrySampleTable).where(lt(telemetrySampleTable.recordedAt, cutoff)).run();
+    return changes;
+  }
+
+  return db
+    .delete(sensorRollupTable)
+    .where(and(eq(sensorRollupTable.resolution, tier), lt(sensorRollupTable.bucketStart, cutoff)))
+    .run().changes;
+};
+
+export interface RetentionRun {
+  rolledUpTo: Partial<Record<RollupResolution, Date | null>>;
+  // Rows deleted per tier (sensor readings for raw, buckets for the rollups)
+  deleted: Partial<Record<RetentionTier, number>>;
+}
+
+/*
+ * One pass of the background job: rolls every tier up to its last complete bucket, then
+ * deletes what is past its retention. Safe to run at any time and as often as wanted.
+ */
+export const runRetention = (): RetentionRun => {
+  const policies = policiesByTier();
+  const now = new Date();
+  const run: RetentionRun = { rolledUpTo: {}, deleted: {} };
+
+  for (const resolution of ROLLUP_RESOLUTIONS) {
+    const seconds = ROLLUP_SECONDS[resolution];
+    const source = SOURCE_TIER[resolution];
+
+    // Only complete buckets, and a coarse bucket is only complete once its source is
+    const sourceEnd = source === "raw" ? now : policies[source].rolledUpTo;
+    const policy = policies[resolution];
+    run.rolledUpTo[resolution] = policy.rolledUpTo;
+    if (!sourceEnd) continue;
+
+    const to = floorTo(sourceEnd, seconds);
+    // The last bucket is redone in case a reading for it was stored after the previous run
+    const start = policy.rolledUpTo ? new Date(policy.rolledUpTo.getTime() - seconds * 1000) : oldestInTier(source);
+    if (start && start < to) aggregate(resolution, floorTo(start, seconds), to);
+
+    policies[resolution] = db
+      .update(retentionPolicyTable)
+      .set({ rolledUpTo: to, lastRunAt: now })
+      .where(eq(retentionPolicyTable.tier, resolution))
+      .returning()
+      .get();
+    run.rolledUpTo[resolution] = to;
+  }
+
+  RETENTION_TIERS.forEach((tier, index) => {
+    const { keepDays } = policies[tier];
+    if (keepDays === null) return;
+
+    let cutoff = new Date(now.getTime() - keepDays * DAY_MS);
+    const next = RETENTION_TIERS[index + 1] as RollupResolution | undefined;
+    if (next) {
+      const rolledUpTo = policies[next].rolledUpTo;
+      if (!rolledUpTo) return;
+      if (rolledUpTo < cutoff) cutoff = rolledUpTo;
+    }
+
+    run.deleted[tier] = prune(tier, cutoff);
+  });
+
+  return run;
+};
+
+/*
+ * Called after readings were backfilled: refreshes the buckets that the job already passed,
+ * the rest is picked up by its next run.
+ */
+export const rebuildRollups = (deviceId: string, from: Date, to: Date) => {
+  const policies = policiesByTier();
+
+  for (const resolution of ROLLUP_RESOLUTIONS) {
+    const rolledUpTo = policies[resolution].rolledUpTo;
+    const seconds = ROLLUP_SECONDS[resolution];
+    if (!rolledUpTo || from >= rolledUpTo) continue;
+
+    // `to` is the last reading itself, so its bucket is included
+    const end = ceilTo(new Date(to.getTime() + 1000), seconds);
+    aggregate(resolution, floorTo(from, seconds), end < rolledUpTo ? end : rolledUpTo, deviceId);
+  }
+};
+
+export interface TierUsage {
+  tier: RetentionTier;
+  // Sensor readings for raw, buckets for the rollups
+  rows: number;
+  oldest: Date | null;
+}
+
+export const getRetentionUsage = (): TierUsage[] => {
+  const raw = db
+    .select({ rows: sql<number>`count(*)`, oldest: sql<number | null>`min(${sensorReadingTable.recordedAt})` })
+    .from(sensorReadingTable)
+    .get()!;
+  const rollups = db
+    .select({
+      tier: sensorRollupTable.resolution,
+      rows: sql<number>`count(*)`,
+      oldest: sql<number | null>`min(${sensorRollupTable.bucketStart})`,
+    })
+    .from(sensorRollupTable)
+    .groupBy(sensorRollupTable.resolution)
+    .all();
+
+  const toUsage = (tier: RetentionTier, usage?: { rows: number; oldest: number | null }): TierUsage => ({
+    tier,
+    rows: usage?.rows ?? 0,
+    oldest: usage?.oldest ? new Date(usage.oldest * 1000) : null,
+  });
+
+  return [
+    toUsage("raw", raw),
+    ...ROLLUP_RESOLUTIONS.map((resolution) => toUsage(resolution, rollups.find((usage) => usage.tier === resolution))),
+  ];
+};
+
+/*
+ * Runs runRetention() at startup, to catch up after downtime, and then every
+ * RETENTION_INTERVAL_MS. Returns a function that stops the job.
+ */
+export const startRetentionJob = () => {
+  const intervalMs = Number(process.env.RETENTION_INTERVAL_MS) || DEFAULT_RETENTION_INTERVAL_MS;
+
+  const tick = () => {
+    try {
+      const { deleted } = runRetention();
+      const total = Object.values(deleted).reduce((sum, rows) => sum + rows, 0);
+      if (total > 0) console.log(`Retention removed ${total} expired telemetry rows`, deleted);
+    } catch (error) {
+      console.error("Telemetry retention failed:", error);
+    }
+  };
+
+  tick();
+  const timer = setInterval(tick, intervalMs);
+  console.log(`Retention job started (every ${intervalMs} ms)`);
+
+  return () => clearInterval(timer);
+};
@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { sendDeviceCommand } from "./deviceCommands";
+import { transportFor } from "./deviceTransport";
+import { DeviceCommand, Esp32Error, FirmwareCommand } from "./esp32Client";
+import { updateInterlockSettings } from "./interlocks";
+import { getVentState, recordVentMove, toFirmwareCommand } from "./vent";
+import { addDevice } from "../test/fixtures";
+
+vi.mock("./deviceTransport", () => ({ transportFor: vi.fn() }));
+
+const sendCommand = vi.fn<(command: FirmwareCommand) => Promise<string>>();
+
+beforeEach(() => {
+  sendCommand.mockReset();
+  sendCommand.mockResolvedValue("OK");
+  vi.mocked(transportFor).mockReturnValue({ getStatus: vi.fn(), sendCommand });
+});
+
+const openTo = (percent: number): DeviceCommand => ({ actuator: "stepper", action: "position", percent });
+
+// A vent with 20-60 mm of travel, standing at `position`
+const addVent = (position: number) => {
+  const { id } = addDevice();
+  updateInterlockSettings(id, { stepperMinPosition: 20, stepperMaxPosition: 60, stepperPosition: position });
+  return id;
+};
+
+describe("toFirmwareCommand", () => {
+  it("turns a percentage into a move from the tracked position", () => {
+    const id = addVent(30);
+
+    expect(toFirmwareCommand(id, openTo(75))).toEqual({ actuator: "stepper", action: "forward", distance: 20 });
+    expect(toFirmwareCommand(id, openTo(0))).toEqual({ actuator: "stepper", action: "backward", distance: 10 });
+    // Within half a millimetre of 25 %
+    expect(toFirmwareCommand(id, openTo(26))).toBeNull();
+  });
+
+  it("never aims past the soft limits, wherever the vent is tracked", () => {
+    const beyond = addVent(65);
+
+    expect(toFirmwareCommand(beyond, openTo(100))).toEqual({ actuator: "stepper", action: "backward", distance: 5 });
+    expect(toFirmwareCommand(beyond, openTo(150))).toEqual({ actuator: "stepper", action: "backward", distance: 5 });
+    expect(toFirmwareCommand(addVent(40), openTo(-10))).toEqual({ actuator: "stepper", action: "backward", distance: 20 });
+  });
+
+  it("homes by driving backward over the full travel and a little more", () => {
+    expect(toFirmwareCommand(addVent(40), { actuator: "stepper", action: "home" })).toEqual({
+      actuator: "stepper",
+      action: "backward",
+      distance: 45,
+    });
+  });
+});
+
+describe("recordVentMove", () => {
+  it("adds the travel of an acknowledged move to the position", () => {
+    const id = addVent(30);
+
+    recordVentMove(id, openTo(75), { actuator: "stepper", action: "forward", distance: 20 });
+
+    expect(getVentState(id)).toMatchObject({ position: 50, percent: 75, homedAt: null });
+  });
+
+  it("puts a homed vent at the closed end", () => {
+    const id = addVent(45);
+
+    recordVentMove(id, { actuator: "stepper", action: "home" }, { actuator: "stepper", action: "backward", distance: 45 });
+
+    expect(getVentState(id)).toMatchObject({ position: 20, percent: 0, homedAt: expect.any(Date) });
+  });
+});
+
+describe("vent commands", () => {
+  it("loses the position when a move goes unanswered, until the vent is homed again", async () => {
+    const id = addVent(30);
+    await sendDeviceCommand({ deviceId: id, command: { actuator: "stepper", action: "home" }, source: "manual" });
+    expect(getVentState(id).homedAt).toBeInstanceOf(Date);
+
+    // The board enabled the stepper, then lost power mid-move
+    sendCommand.mockResolvedValueOnce("Stepper ENABLED").mockRejectedValueOnce(new Esp32Error("ESP32 unreachable"));
+    await expect(sendDeviceCommand({ deviceId: id, command: openTo(50), source: "manual" })).rejects.toThrow(
+      "ESP32 unreachable"
+    );
+
+    expect(getVentState(id)).toMatchObject({ position: 20, homedAt: null });
+
+    await sendDeviceCommand({ deviceId: id, command: { actuator: "stepper", action: "home" }, source: "manual" });
+    expect(getVentState(id)).toMatchObject({ position: 20, homedAt: expect.any(Date) });
+  });
+
+  it("keeps the position when the board refuses a move", async () => {
+    const id = addVent(30);
+    await sendDeviceCommand({ deviceId: id, command: { actuator: "stepper", action: "home" }, source: "manual" });
+
+    sendCommand.mockResolvedValueOnce("Stepper ENABLED").mockRejectedValueOnce(new Esp32Error("Stepper disabled", 400));
+    await expect(sendDeviceCommand({ deviceId: id, command: openTo(50), source: "manual" })).rejects.toThrow();
+
+    expect(getVentState(id)).toMatchObject({ position: 20, homedAt: expect.any(Date) });
+  });
+});
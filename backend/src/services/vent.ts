@@ -0,0 +1,108 @@
+import { eq } from "drizzle-orm";
+
+import { db } from "../drizzle";
+import { deviceInterlockTable } from "../drizzle/schema";
+import { DeviceCommand, FirmwareCommand } from "./esp32Client";
+import { getInterlockSettings, InterlockSettings, stepperTravel } from "./interlocks";
+
+/*
+ * Roof vent position, tracked by the backend from the relative stepper moves it sends.
+ *
+ * The firmware only knows "move N mm forward/backward", so the position is the net travel of
+ * every acknowledged move (stored with the soft limits in device_interlock). 0 % is the
+ * minimum soft limit (closed) and 100 % the maximum (fully open). Homing drives the vent
+ * into its closed end to get a known reference; zeroing just declares it closed.
+ */
+
+// Shorter moves are not worth a round trip
+const MIN_MOVE_MM = 0.5;
+
+// Homing drives this far past the full travel so the vent ends up against its closed stop
+const HOMING_OVERTRAVEL_MM = 5;
+
+export interface VentState {
+  // mm of travel from the firmware's power-on position, or from the closed end once homed
+  position: number;
+  minPosition: number;
+  maxPosition: number;
+  percent: number;
+  // Null until the vent was homed or zeroed, and again after a move went unanswered; the
+  // position is a guess until then
+  homedAt: Date | null;
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const toVentState = (settings: InterlockSettings): VentState => ({
+  position: settings.stepperPosition,
+  minPosition: settings.stepperMinPosition,
+  maxPosition: settings.stepperMaxPosition,
+  percent: round(
+    ((settings.stepperPosition - settings.stepperMinPosition) / (settings.stepperMaxPosition - settings.stepperMinPosition)) * 100
+  ),
+  homedAt: settings.stepperHomedAt,
+});
+
+export const getVentState = (deviceId: string) => toVentState(getInterlockSettings(deviceId));
+
+// Commands the backend resolves into a move, see toFirmwareCommand()
+export const isVentCommand = (command: DeviceCommand) =>
+  command.actuator === "stepper" && (command.action === "position" || command.action === "home");
+
+/*
+ * What to send to the board for a command, worked out right before it is sent so that the
+ * moves queued before it are accounted for. Null when the vent is already where it should be.
+ */
+export const toFirmwareCommand = (deviceId: string, command: DeviceCommand): FirmwareCommand | null => {
+  if (command.actuator !== "stepper") return command;
+
+  switch (command.action) {
+    case "position": {
+      const settings = getInterlockSettings(deviceId);
+      const percent = Math.min(100, Math.max(0, command.percent));
+      const target = settings.stepperMinPosition + (percent / 100) * (settings.stepperMaxPosition - settings.stepperMinPosition);
+      const travel = round(target - settings.stepperPosition);
+
+      if (Math.abs(travel) < MIN_MOVE_MM) return null;
+      return { actuator: "stepper", action: travel > 0 ? "forward" : "backward", distance: Math.abs(travel) };
+    }
+    case "home": {
+      // Wherever the vent really is, the full travel plus a little takes it to the closed end
+      const settings = getInterlockSettings(deviceId);
+      return {
+        actuator: "stepper",
+        action: "backward",
+        distance: settings.stepperMaxPosition - settings.stepperMinPosition + HOMING_OVERTRAVEL_MM,
+      };
+    }
+    default:
+      return command;
+  }
+};
+
+const setPosition = (deviceId: string, changes: Partial<Pick<InterlockSettings, "stepperPosition" | "stepperHomedAt">>) =>
+  db.update(deviceInterlockTable).set(changes).where(eq(deviceInterlockTable.deviceId, deviceId)).run();
+
+// Called once the board acknowledged a move; the firmware only answers once the move is done
+export const recordVentMove = (deviceId: string, command: DeviceCommand, sent: FirmwareCommand) => {
+  const settings = getInterlockSettings(deviceId);
+
+  if (command.actuator === "stepper" && command.action === "home") {
+    setPosition(deviceId, { stepperPosition: settings.stepperMinPosition, stepperHomedAt: new Date() });
+    return;
+  }
+
+  const travel = stepperTravel(sent);
+  if (travel !== 0) setPosition(deviceId, { stepperPosition: settings.stepperPosition + travel });
+};
+
+// Called when the board did not answer a move: it may have stopped anywhere along it, e.g. when
+// it lost power mid-move, so the position is a guess until the vent is homed again
+export const loseVentPosition = (deviceId: string) => setPosition(deviceId, { stepperHomedAt: null });
+
+// Declares the vent closed where it stands, for vents closed by hand or without an end stop to home against
+export const zeroVent = (deviceId: string) => {
+  const { stepperMinPosition } = getInterlockSettings(deviceId);
+  setPosition(deviceId, { stepperPosition: stepperMinPosition, stepperHomedAt: new Date() });
+  return getVentState(deviceId);
+};
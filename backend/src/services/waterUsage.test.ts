@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+
+import { db } from "../drizzle";
+import { pumpRunTable } from "../drizzle/schema";
+import { getWaterUsage } from "./waterUsage";
+import { addDevice } from "../test/fixtures";
+
+// A minute of pump1 that moved `liters`
+const addRun = (deviceId: string, iso: string, liters: number) => {
+  const startedAt = new Date(iso);
+  db.insert(pumpRunTable)
+    .values({ deviceId, actuator: "pump1", startedAt, endedAt: new Date(startedAt.getTime() + 60000), liters })
+    .run();
+};
+
+describe("getWaterUsage", () => {
+  it("counts a run just after local midnight on the new day and in the new week", () => {
+    const { id } = addDevice();
+    // Sunday 23:30 and Monday 00:30 in Berlin (UTC+2), both still Sunday in UTC
+    addRun(id, "2025-06-01T21:30:00Z", 2);
+    addRun(id, "2025-06-01T22:30:00Z", 3);
+
+    const usage = getWaterUsage(id, 2, "Europe/Berlin", new Date("2025-06-02T10:00:00Z"));
+
+    expect(usage.daily).toMatchObject([
+      { start: "2025-06-01", liters: 2, runs: 1 },
+      { start: "2025-06-02", liters: 3, runs: 1 },
+    ]);
+    expect(usage.weekly).toMatchObject([
+      { start: "2025-05-26", liters: 2, runs: 1 },
+      { start: "2025-06-02", liters: 3, runs: 1 },
+    ]);
+  });
+
+  it("lists every day of the period, across a DST change", () => {
+    const { id } = addDevice();
+    addRun(id, "2025-03-30T00:30:00Z", 1);
+
+    const usage = getWaterUsage(id, 3, "Europe/Berlin", new Date("2025-03-31T12:00:00Z"));
+
+    expect(usage.daily.map(({ start, liters, pumpSeconds }) => [start, liters, pumpSeconds])).toEqual([
+      ["2025-03-29", 0, 0],
+      ["2025-03-30", 1, 60],
+      ["2025-03-31", 0, 0],
+    ]);
+  });
+});
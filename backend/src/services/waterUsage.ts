@@ -0,0 +1,212 @@
+import { and, eq, gte, isNull, lt, lte, or } from "drizzle-orm";
+
+import { db } from "../drizzle";
+import { irrigationRunTable, pumpRunTable, reservoirTable } from "../drizzle/schema";
+import { trustedReadings } from "./dataQuality";
+import { Pump, PUMPS } from "./esp32Client";
+import { startOfDay } from "./scheduler";
+import { TelemetrySample } from "./telemetryPoller";
+
+/*
+ * Water usage ledger. Every pump run the telemetry shows (from the dashboard, a rule, a
+ * schedule or an irrigation program) is stored with the water level right before and right
+ * after it, and the volume those imply for the device's reservoir. Runs are told apart by the
+ * actuator states of consecutive samples, so a run shorter than the poll interval is missed,
+ * and a run that was going while the backend restarted is counted from the first sample after it.
+ */
+
+export type Reservoir = typeof reservoirTable.$inferSelect;
+export type PumpRun = typeof pumpRunTable.$inferSelect;
+
+export interface UsagePeriod {
+  // Local date of the day, or of the Monday the week starts on (YYYY-MM-DD)
+  start: string;
+  liters: number;
+  // Of which irrigation programs used
+  irrigationLiters: number;
+  pumpSeconds: number;
+  runs: number;
+  // Runs without a volume: no level reading around them, or no reservoir calibration at the time
+  unmeasuredRuns: number;
+}
+
+export interface WaterUsage {
+  daily: UsagePeriod[];
+  weekly: UsagePeriod[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A level older than this when a pump starts does not describe the tank before the run
+const LEVEL_MAX_AGE_MS = 5 * 60 * 1000;
+
+// Keyed by `${deviceId}:${pump}`: when the pump was first seen running and the level before it
+const runningPumps = new Map<string, { since: number; levelBefore: number | null }>();
+
+// Latest trusted water level per device
+const lastLevels = new Map<string, { value: number; at: number }>();
+
+export const getReservoir = (deviceId: string) =>
+  db.select().from(reservoirTable).where(eq(reservoirTable.deviceId, deviceId)).get();
+
+export const saveReservoir = (reservoir: Omit<Reservoir, "updatedAt">) =>
+  db
+    .insert(reservoirTable)
+    .values(reservoir)
+    .onConflictDoUpdate({ target: reservoirTable.deviceId, set: { ...reservoir, updatedAt: new Date() } })
+    .returning()
+    .get();
+
+export const litersPerCm = (reservoir: Reservoir) =>
+  reservoir.capacityLiters / (reservoir.emptyDistanceCm - reservoir.fullDistanceCm);
+
+// How full the tank is at a distance, clamped to 0-100 %
+export const fillPercent = (reservoir: Reservoir, distance: number) => {
+  const percent = (100 * (reservoir.emptyDistanceCm - distance)) / (reservoir.emptyDistanceCm - reservoir.fullDistanceCm);
+  return Math.min(100, Math.max(0, percent));
+};
+
+/*
+ * Liters drawn while the distance to the water went from `before` to `after`. A level that
+ * rose (a refill, or noise on a short run) counts as nothing drawn.
+ */
+export const estimateLiters = (deviceId: string, before: number | null, after: number | null) => {
+  const reservoir = getReservoir(deviceId);
+  if (!reservoir || before === null || after === null) return null;
+  return Math.max(0, after - before) * litersPerCm(reservoir);
+};
+
+// The irrigation run a pump start belongs to, by time, since the final cycle's stop is often seen after the run ended
+const irrigationRunAt = (deviceId: string, pump: Pump, at: Date) =>
+  db
+    .select({ id: irrigationRunTable.id })
+    .from(irrigationRunTable)
+    .where(
+      and(
+        eq(irrigationRunTable.deviceId, deviceId),
+        eq(irrigationRunTable.pump, pump),
+        lte(irrigationRunTable.startedAt, at),
+        or(isNull(irrigationRunTable.endedAt), gte(irrigationRunTable.endedAt, at))
+      )
+    )
+    .get()?.id ?? null;
+
+// Telemetry listener: opens a pump run at the first sample a pump is on and stores it at the first one it is off
+export const recordPumpRuns = ({ deviceId, status }: TelemetrySample) => {
+  const level = trustedReadings(status).distance;
+  const now = status.fetchedAt.getTime();
+  const previousLevel = lastLevels.get(deviceId);
+
+  for (const pump of PUMPS) {
+    const key = `${deviceId}:${pump}`;
+    const running = runningPumps.get(key);
+
+    if (status.actuators[pump] && !running) {
+      const fresh = previousLevel && now - previousLevel.at <= LEVEL_MAX_AGE_MS;
+      runningPumps.set(key, { since: now, levelBefore: fresh ? previousLevel.value : null });
+    }
+
+    if (!status.actuators[pump] && running) {
+      runningPumps.delete(key);
+      const startedAt = new Date(running.since);
+
+      db.insert(pumpRunTable)
+        .values({
+          deviceId,
+          actuator: pump,
+          startedAt,
+          endedAt: status.fetchedAt,
+          distanceBefore: running.levelBefore,
+          distanceAfter: level,
+          liters: estimateLiters(deviceId, running.levelBefore, level),
+          irrigationRunId: irrigationRunAt(deviceId, pump, startedAt),
+        })
+        .onConflictDoNothing()
+        .run();
+    }
+  }
+
+  if (level !== null) lastLevels.set(deviceId, { value: level, at: now });
+};
+
+// The device's water level from the telemetry, null when there is no recent trusted one
+export const currentLevel = (deviceId: string) => {
+  const level = lastLevels.get(deviceId);
+  return level && Date.now() - level.at <= LEVEL_MAX_AGE_MS ? level.value : null;
+};
+
+// Pump runs of a device that ended in [from, to), oldest first
+export const listPumpRuns = (deviceId: string, from: Date, to: Date, pump?: Pump) =>
+  db
+    .select()
+    .from(pumpRunTable)
+    .where(
+      and(
+        eq(pumpRunTable.deviceId, deviceId),
+        pump ? eq(pumpRunTable.actuator, pump) : undefined,
+        gte(pumpRunTable.endedAt, from),
+        lt(pumpRunTable.endedAt, to)
+      )
+    )
+    .orderBy(pumpRunTable.startedAt)
+    .all();
+
+// Calendar date a day starts on in the timezone, en-CA formats it as YYYY-MM-DD
+const dateIn = (date: Date, timezone: string) => new Intl.DateTimeFormat("en-CA", { timeZone: timezone }).format(date);
+
+// Monday of the week a calendar date falls in, plain date arithmetic with no timezone involved
+const weekOf = (day: string) => {
+  const date = new Date(day);
+  return new Date(date.getTime() - ((date.getUTCDay() + 6) % 7) * DAY_MS).toISOString().slice(0, 10);
+};
+
+const emptyPeriod = (start: string): UsagePeriod => ({
+  start,
+  liters: 0,
+  irrigationLiters: 0,
+  pumpSeconds: 0,
+  runs: 0,
+  unmeasuredRuns: 0,
+});
+
+const addRun = (period: UsagePeriod, run: PumpRun) => {
+  period.runs++;
+  period.pumpSeconds += Math.round((run.endedAt.getTime() - run.startedAt.getTime()) / 1000);
+  if (run.liters === null) {
+    period.unmeasuredRuns++;
+    return;
+  }
+  period.liters += run.liters;
+  if (run.irrigationRunId !== null) period.irrigationLiters += run.liters;
+};
+
+// Totals per local day over the last `days` days (today included) and per week over the same runs, oldest first
+export const getWaterUsage = (deviceId: string, days: number, timezone: string, now = new Date()): WaterUsage => {
+  // Walked back one midnight at a time, days around a DST change are not 24 hours long
+  const dayStarts = [startOfDay(now, timezone)];
+  while (dayStarts.length < days) dayStarts.unshift(startOfDay(new Date(dayStarts[0].getTime() - 1), timezone));
+
+  const runs = db
+    .select()
+    .from(pumpRunTable)
+    .where(and(eq(pumpRunTable.deviceId, deviceId), gte(pumpRunTable.startedAt, dayStarts[0])))
+    .orderBy(pumpRunTable.startedAt)
+    .all();
+
+  const daily = new Map<number, UsagePeriod>();
+  const weekly = new Map<string, UsagePeriod>();
+  // Every day is listed, days without pumping included
+  for (const start of dayStarts) {
+    const day = dateIn(start, timezone);
+    daily.set(start.getTime(), emptyPeriod(day));
+    if (!weekly.has(weekOf(day))) weekly.set(weekOf(day), emptyPeriod(weekOf(day)));
+  }
+
+  for (const run of runs) {
+    const day = daily.get(startOfDay(run.startedAt, timezone).getTime())!;
+    addRun(day, run);
+    addRun(weekly.get(weekOf(day.start))!, run);
+  }
+
+  return { daily: [...daily.values()], weekly: [...weekly.values()] };
+};
@@ -0,0 +1,104 @@
+/*
+ * Runs the virtual ESP32:
+ *   npm run simulator -- --port 8080 --scenario heat-wave --speed 30
+ *   npm run simulator -- --scenario ./my-scenario.json --relay-levels logical --seed 42
+ *   npm run simulator -- --mqtt-broker 1883 --device-id shed
+ *
+ * --scenario takes a built-in name or a JSON file matching scenarioSchema.
+ * --mqtt <url> also connects the board to an MQTT broker as --device-id, --mqtt-broker <port>
+ * starts an embedded broker for it first. The HTTP API stays available either way.
+ */
+
+import { readFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+
+import { RelayLevels } from "./greenhouse";
+import { connectMqttBoard, MqttBoardHandle, MqttBrokerHandle, startMqttBroker } from "./mqtt";
+import { BUILT_IN_SCENARIOS, Scenario, scenarioSchema } from "./scenarios";
+import { startSimulator } from "./server";
+
+const STATUS_LOG_INTERVAL_MS = 10000;
+
+const { values } = parseArgs({
+  options: {
+    port: { type: "string", default: "8080" },
+    scenario: { type: "string", default: "calm" },
+    speed: { type: "string", default: "1" },
+    "relay-levels": { type: "string", default: "active-low" },
+    seed: { type: "string" },
+    mqtt: { type: "string" },
+    "mqtt-broker": { type: "string" },
+    "mqtt-prefix": { type: "string", default: "greenhouse" },
+    "device-id": { type: "string", default: "main" },
+  },
+});
+
+const loadScenario = (nameOrPath: string): Scenario => {
+  if (BUILT_IN_SCENARIOS[nameOrPath]) return BUILT_IN_SCENARIOS[nameOrPath];
+  return scenarioSchema.parse(JSON.parse(readFileSync(nameOrPath, "utf8")));
+};
+
+const relayLevels = values["relay-levels"];
+if (relayLevels !== "active-low" && relayLevels !== "logical") {
+  console.error(`--relay-levels must be "active-low" or "logical", got "${relayLevels}"`);
+  process.exit(1);
+}
+
+const main = async () => {
+  const scenario = loadScenario(values.scenario);
+  const simulator = await startSimulator({
+    port: Number(values.port),
+    scenario,
+    speed: Number(values.speed),
+    relayLevels: relayLevels as RelayLevels,
+    seed: values.seed ? Number(values.seed) : undefined,
+  });
+
+  console.log(`Simulated ESP32 listening on ${simulator.baseUrl} (scenario "${scenario.name}", ${values.speed}x)`);
+  if (scenario.description) console.log(scenario.description);
+
+  const broker: MqttBrokerHandle | null = values["mqtt-broker"]
+    ? await startMqttBroker(Number(values["mqtt-broker"]))
+    : null;
+  if (broker) console.log(`Embedded MQTT broker listening on ${broker.url}`);
+
+  const mqttUrl = values.mqtt ?? broker?.url;
+  let board: MqttBoardHandle | null = null;
+  if (mqttUrl) {
+    const deviceId = values["device-id"];
+    board = connectMqttBoard(simulator.greenhouse, {
+      url: mqttUrl,
+      deviceId,
+      topicPrefix: values["mqtt-prefix"],
+      speed: Number(values.speed),
+    });
+    console.log(`Publishing on ${mqttUrl}, register it on the Devices page as an MQTT device with id "${deviceId}"`);
+  } else {
+    console.log(`Register it on the Devices page with base URL ${simulator.baseUrl}`);
+  }
+
+  setInterval(() => {
+    const { greenhouse } = simulator;
+    const minutes = Math.floor(greenhouse.elapsedSeconds / 60);
+    console.log(
+      `[${minutes} min] ${greenhouse.temperature.toFixed(1)} °C, ${greenhouse.humidity.toFixed(1)} %, ` +
+        `water at ${greenhouse.waterDistance.toFixed(1)} cm` +
+        (greenhouse.wifiConnected ? "" : ", Wi-Fi DOWN") +
+        (greenhouse.droppedSensors.size ? `, dropped: ${[...greenhouse.droppedSensors].join(", ")}` : "")
+    );
+  }, STATUS_LOG_INTERVAL_MS);
+
+  const shutdown = async () => {
+    await board?.close();
+    await broker?.close();
+    await simulator.close();
+    process.exit(0);
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+};
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
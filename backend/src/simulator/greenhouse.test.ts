@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+
+import { VirtualGreenhouse } from "./greenhouse";
+
+const control = (greenhouse: VirtualGreenhouse, query: string) => greenhouse.control(new URLSearchParams(query));
+
+describe("VirtualGreenhouse", () => {
+  it("encodes relays active-low by default and as written with logical levels", () => {
+    const activeLow = new VirtualGreenhouse({ seed: 1 });
+    const logical = new VirtualGreenhouse({ seed: 1, relayLevels: "logical" });
+
+    control(activeLow, "fan=0");
+    control(logical, "fan=1");
+
+    expect(activeLow.relays.fan).toBe(true);
+    expect(logical.relays.fan).toBe(true);
+    expect(JSON.parse(activeLow.status())).toMatchObject({ fan: "0", pump1: "1" });
+    expect(JSON.parse(logical.status())).toMatchObject({ fan: "1", pump1: "0" });
+  });
+
+  it("refuses stepper moves while disabled, like the firmware", () => {
+    const greenhouse = new VirtualGreenhouse({ seed: 1 });
+
+    expect(control(greenhouse, "stepper_move=10")).toEqual({
+      status: 400,
+      body: "ERROR: Stepper disabled. Enable it first!",
+      blockSeconds: 0,
+    });
+
+    control(greenhouse, "stepper_enable=1");
+    const moved = control(greenhouse, "stepper_move=10");
+
+    expect(moved).toMatchObject({ status: 200, body: "Moved forward 10.00 mm" });
+    expect(moved.blockSeconds).toBeGreaterThan(0);
+    expect(greenhouse.stepperPositionMm).toBe(10);
+  });
+
+  it("cools with the fan, draws the tank down with a pump and stops pumping when it is empty", () => {
+    const greenhouse = new VirtualGreenhouse({ seed: 1 });
+    greenhouse.relays.fan = true;
+    greenhouse.relays.pump1 = true;
+
+    greenhouse.advance(600);
+
+    expect(greenhouse.temperature).toBeLessThan(24);
+    expect(greenhouse.waterDistance).toBeGreaterThan(20);
+
+    greenhouse.advance(3600);
+    expect(greenhouse.tankEmpty).toBe(true);
+  });
+
+  it("keeps the last DHT22 reading while it is dropped and floats a dropped analog input to 0", () => {
+    const greenhouse = new VirtualGreenhouse({ seed: 1 });
+    const before = JSON.parse(greenhouse.status());
+
+    greenhouse.droppedSensors.add("temperature");
+    greenhouse.droppedSensors.add("ph");
+    greenhouse.temperature = 35;
+    const after = JSON.parse(greenhouse.status());
+
+    expect(after.temperature).toBe(before.temperature);
+    expect(after.ph).toBe(0);
+  });
+});
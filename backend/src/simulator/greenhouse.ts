@@ -0,0 +1,211 @@
+/*
+ * Virtual greenhouse behind the simulated ESP32.
+ *
+ * Physics are deliberately simple first-order models, advanced in simulated seconds:
+ *   - temperature drifts towards the ambient temperature, the LED strip heats, the fan cools
+ *   - humidity drifts towards ambient, each running pump raises it, the fan dries the air
+ *   - each running pump draws from the tank, so the ultrasonic distance to the water grows
+ *   - gas accumulates on the MQ135 while the fan is off and is blown out while it runs
+ */
+
+import { RELAY_ACTUATORS, RelayActuator } from "../services/esp32Client";
+
+// Firmware constants from esp.md: 400 steps/mm, 250 μs per half step
+const SECONDS_PER_MM = (400 * 2 * 250) / 1_000_000;
+
+const TANK_DEPTH_CM = 60;
+
+// The vent's mechanical travel; the motor stalls against either end stop
+const VENT_TRAVEL_MM = 100;
+
+export const SIMULATED_SENSORS = ["temperature", "humidity", "ph", "mq135", "distance"] as const;
+export type SimulatedSensor = (typeof SIMULATED_SENSORS)[number];
+
+/*
+ * How relay states appear on the wire. "active-low" reports the pin level the relay board
+ * sees ("0" = energized = ON), which is what the backend decodes. "logical" follows the
+ * esp.md sketch literally ("1" = ON).
+ */
+export type RelayLevels = "active-low" | "logical";
+
+export interface GreenhouseOptions {
+  relayLevels?: RelayLevels;
+  // Seed for the sensor noise, so runs can be reproduced
+  seed?: number;
+}
+
+export interface ControlResponse {
+  status: number;
+  body: string;
+  // Simulated time the firmware blocks before answering (stepper moves)
+  blockSeconds: number;
+}
+
+// mulberry32, small seedable PRNG
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Arduino's String(float) prints two decimals
+const arduinoFloat = (value: number) => value.toFixed(2);
+
+export class VirtualGreenhouse {
+  // Environment, changed by scenarios
+  ambientTemperature = 24;
+  ambientHumidity = 50;
+  wifiConnected = true;
+  readonly droppedSensors = new Set<SimulatedSensor>();
+
+  // Physical state
+  temperature = 24;
+  humidity = 50;
+  waterDistance = 20;
+  gas = 800;
+  phRaw = 1900;
+
+  relays: Record<RelayActuator, boolean> = { fan: false, pump1: false, pump2: false, led: false };
+  stepperEnabled = false;
+  // Where the vent really is, 0 = closed; the firmware itself does not track this
+  stepperPositionMm = 0;
+
+  elapsedSeconds = 0;
+
+  private readonly relayLevels: RelayLevels;
+  private readonly random: () => number;
+  // What the firmware last read successfully, a dropped DHT22 or ultrasonic sensor keeps these
+  private lastReadings: Record<SimulatedSensor, number>;
+
+  constructor(options: GreenhouseOptions = {}) {
+    this.relayLevels = options.relayLevels ?? "active-low";
+    this.random = createRandom(options.seed ?? Date.now());
+    this.lastReadings = this.readSensors();
+  }
+
+  get tankEmpty() {
+    return this.waterDistance >= TANK_DEPTH_CM;
+  }
+
+  refillTank() {
+    this.waterDistance = 10;
+  }
+
+  advance(seconds: number) {
+    const runningPumps = Number(this.relays.pump1) + Number(this.relays.pump2);
+    const pumping = runningPumps > 0 && !this.tankEmpty;
+
+    this.temperature +=
+      seconds *
+      (0.002 * (this.ambientTemperature - this.temperature) +
+        (this.relays.led ? 0.004 : 0) -
+        (this.relays.fan ? 0.01 : 0));
+
+    this.humidity +=
+      seconds *
+      (0.001 * (this.ambientHumidity - this.humidity) +
+        (pumping ? 0.05 * runningPumps : 0) -
+        (this.relays.fan ? 0.02 : 0));
+
+    if (pumping) this.waterDistance += seconds * 0.02 * runningPumps;
+    this.gas += seconds * (this.relays.fan ? -3 : 0.5);
+    this.phRaw += seconds * (this.random() - 0.5) * 0.5;
+
+    this.temperature = clamp(this.temperature, -40, 80);
+    this.humidity = clamp(this.humidity, 0, 100);
+    this.waterDistance = clamp(this.waterDistance, 2, TANK_DEPTH_CM);
+    this.gas = clamp(this.gas, 300, 4095);
+    this.phRaw = clamp(this.phRaw, 0, 4095);
+
+    this.elapsedSeconds += seconds;
+  }
+
+  // GET /api/status body, formatted like handleStatus() in esp.md
+  status() {
+    const readings = this.readSensors();
+
+    // The firmware keeps the previous DHT22/ultrasonic value when a read fails;
+    // a disconnected analog input floats to 0
+    for (const sensor of SIMULATED_SENSORS) {
+      if (!this.droppedSensors.has(sensor)) {
+        this.lastReadings[sensor] = readings[sensor];
+      } else if (sensor === "ph" || sensor === "mq135") {
+        this.lastReadings[sensor] = 0;
+      }
+    }
+
+    const { temperature, humidity, ph, mq135, distance } = this.lastReadings;
+
+    return (
+      "{" +
+      `"temperature":${temperature.toFixed(1)}` +
+      `,"humidity":${humidity.toFixed(1)}` +
+      `,"ph":${Math.round(ph)}` +
+      `,"mq135":${Math.round(mq135)}` +
+      `,"distance":${distance.toFixed(1)}` +
+      RELAY_ACTUATORS.map((relay) => `,"${relay}":"${this.encodeRelay(this.relays[relay])}"`).join("") +
+      `,"stepper_enabled":"${this.stepperEnabled ? "1" : "0"}"` +
+      "}"
+    );
+  }
+
+  // GET /api/control, same precedence and responses as handleControl() in esp.md
+  control(params: URLSearchParams): ControlResponse {
+    for (const relay of RELAY_ACTUATORS) {
+      const value = params.get(relay);
+      if (value !== null) this.relays[relay] = this.decodeRelay(value);
+    }
+
+    const enable = params.get("stepper_enable");
+    if (enable !== null) {
+      this.stepperEnabled = enable === "1";
+      return { status: 200, body: this.stepperEnabled ? "Stepper ENABLED" : "Stepper DISABLED", blockSeconds: 0 };
+    }
+
+    for (const [param, direction, label] of [
+      ["stepper_move", 1, "forward"],
+      ["stepper_move_back", -1, "backward"],
+    ] as const) {
+      const value = params.get(param);
+      if (value === null) continue;
+
+      if (!this.stepperEnabled) {
+        return { status: 400, body: "ERROR: Stepper disabled. Enable it first!", blockSeconds: 0 };
+      }
+
+      // toFloat() yields 0 for anything unparsable
+      const distance = Number.parseFloat(value) || 0;
+      this.stepperPositionMm = clamp(this.stepperPositionMm + direction * distance, 0, VENT_TRAVEL_MM);
+      return {
+        status: 200,
+        body: `Moved ${label} ${arduinoFloat(distance)} mm`,
+        blockSeconds: distance * SECONDS_PER_MM,
+      };
+    }
+
+    return { status: 200, body: "OK", blockSeconds: 0 };
+  }
+
+  private readSensors(): Record<SimulatedSensor, number> {
+    const noise = (amplitude: number) => (this.random() - 0.5) * 2 * amplitude;
+
+    return {
+      temperature: this.temperature + noise(0.1),
+      humidity: this.humidity + noise(0.3),
+      ph: this.phRaw + noise(8),
+      mq135: this.gas + noise(5),
+      distance: this.waterDistance + noise(0.2),
+    };
+  }
+
+  private encodeRelay(on: boolean) {
+    return on === (this.relayLevels === "logical") ? "1" : "0";
+  }
+
+  private decodeRelay(value: string) {
+    return this.relayLevels === "logical" ? value === "1" : value === "0";
+  }
+}
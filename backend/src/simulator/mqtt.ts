@@ -0,0 +1,115 @@
+import { Aedes } from "aedes";
+import mqtt from "mqtt";
+import { AddressInfo, createServer } from "node:net";
+
+import { VirtualGreenhouse } from "./greenhouse";
+
+export interface MqttBoardOptions {
+  url: string;
+  deviceId: string;
+  topicPrefix?: string;
+  // How often the board publishes its status, in real milliseconds
+  publishIntervalMs?: number;
+  // Simulated seconds per real second, for how long stepper moves block
+  speed?: number;
+}
+
+export interface MqttBoardHandle {
+  close: () => Promise<void>;
+}
+
+export interface MqttBrokerHandle {
+  url: string;
+  close: () => Promise<void>;
+}
+
+interface CommandRequest {
+  id?: string;
+  query?: string;
+}
+
+const DEFAULT_PUBLISH_INTERVAL_MS = 5000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/*
+ * Connects a VirtualGreenhouse to a broker the way an MQTT firmware would, with the topics
+ * of services/mqttTransport.ts: "1" on the online topic with "0" as last will, the status
+ * published retained on an interval, and commands answered like GET /api/control. While
+ * the scenario has Wi-Fi down the connection is dropped without a DISCONNECT, so the
+ * broker publishes the last will, and the board reconnects once Wi-Fi is back.
+ */
+export const connectMqttBoard = (greenhouse: VirtualGreenhouse, options: MqttBoardOptions): MqttBoardHandle => {
+  const prefix = options.topicPrefix ?? "greenhouse";
+  const topic = (suffix: string) => `${prefix}/${options.deviceId}/${suffix}`;
+  const speed = options.speed ?? 1;
+
+  const client = mqtt.connect(options.url, {
+    clientId: `greenhouse-sim-${options.deviceId}`,
+    will: { topic: topic("online"), payload: Buffer.from("0"), qos: 1, retain: true },
+    // Reconnects follow the simulated Wi-Fi, see the interval below
+    reconnectPeriod: 0,
+  });
+
+  client.on("connect", () => {
+    client.publish(topic("online"), "1", { qos: 1, retain: true });
+    client.subscribe(topic("command"), { qos: 1 });
+  });
+
+  client.on("message", async (_topic, payload) => {
+    let request: CommandRequest;
+    try {
+      request = JSON.parse(payload.toString());
+    } catch {
+      return;
+    }
+
+    const { status, body, blockSeconds } = greenhouse.control(new URLSearchParams(request.query ?? ""));
+    // Stepper moves block the real firmware until the last step pulse
+    if (blockSeconds > 0) await sleep((blockSeconds * 1000) / speed);
+    client.publish(topic("command/response"), JSON.stringify({ id: request.id, status, message: body }), { qos: 1 });
+  });
+
+  client.on("error", (error) => console.error(`MQTT error: ${error.message}`));
+
+  const publish = () => {
+    if (!greenhouse.wifiConnected) {
+      if (client.connected) client.stream.destroy();
+      return;
+    }
+    if (!client.connected) {
+      if (!client.reconnecting) client.reconnect();
+      return;
+    }
+    client.publish(topic("status"), greenhouse.status(), { qos: 0, retain: true });
+  };
+
+  const timer = setInterval(publish, options.publishIntervalMs ?? DEFAULT_PUBLISH_INTERVAL_MS);
+
+  return {
+    close: () =>
+      new Promise<void>((resolve) => {
+        clearInterval(timer);
+        if (!client.connected) {
+          client.end(true, {}, () => resolve());
+          return;
+        }
+        // A clean shutdown publishes "0" itself, the broker drops the last will on DISCONNECT
+        client.publish(topic("online"), "0", { qos: 1, retain: true }, () => client.end(false, {}, () => resolve()));
+      }),
+  };
+};
+
+// An embedded aedes broker, to try the MQTT transport without installing one
+export const startMqttBroker = async (port: number): Promise<MqttBrokerHandle> => {
+  const broker = await Aedes.createBroker();
+  const server = createServer(broker.handle);
+
+  await new Promise<void>((resolve) => server.listen(port, resolve));
+  const address = server.address() as AddressInfo;
+
+  return {
+    url: `mqtt://127.0.0.1:${address.port}`,
+    close: () => new Promise<void>((resolve) => broker.close(() => server.close(() => resolve()))),
+  };
+};
@@ -0,0 +1,117 @@
+import { z } from "zod";
+
+import { SIMULATED_SENSORS, VirtualGreenhouse } from "./greenhouse";
+
+// One change to the environment at `at` simulated seconds after the scenario started
+const scenarioStepSchema = z.object({
+  at: z.number().min(0),
+  ambientTemperature: z.number().optional(),
+  ambientHumidity: z.number().min(0).max(100).optional(),
+  // Sensors that stop answering, and ones that come back
+  dropout: z.array(z.enum(SIMULATED_SENSORS)).optional(),
+  restore: z.array(z.enum(SIMULATED_SENSORS)).optional(),
+  wifi: z.enum(["up", "down"]).optional(),
+  refillTank: z.boolean().optional(),
+});
+
+export const scenarioSchema = z.object({
+  name: z.string(),
+  description: z.string().default(""),
+  steps: z.array(scenarioStepSchema),
+  // Restart the steps every N simulated seconds
+  repeatEvery: z.number().positive().optional(),
+});
+
+export type Scenario = z.infer<typeof scenarioSchema>;
+export type ScenarioStep = Scenario["steps"][number];
+
+export const BUILT_IN_SCENARIOS: Record<string, Scenario> = {
+  calm: {
+    name: "calm",
+    description: "Mild spring day, nothing happens on its own",
+    steps: [],
+  },
+  "heat-wave": {
+    name: "heat-wave",
+    description: "Ambient climbs to 38 °C and dries out over an hour, then recovers",
+    steps: [
+      { at: 0, ambientTemperature: 28, ambientHumidity: 40 },
+      { at: 900, ambientTemperature: 33, ambientHumidity: 30 },
+      { at: 1800, ambientTemperature: 38, ambientHumidity: 20 },
+      { at: 3600, ambientTemperature: 24, ambientHumidity: 50 },
+    ],
+  },
+  "sensor-dropout": {
+    name: "sensor-dropout",
+    description: "The DHT22 freezes for 5 minutes, later the pH probe is unplugged for 2",
+    steps: [
+      { at: 60, dropout: ["temperature", "humidity"] },
+      { at: 360, restore: ["temperature", "humidity"] },
+      { at: 420, dropout: ["ph"] },
+      { at: 540, restore: ["ph"] },
+    ],
+    repeatEvery: 900,
+  },
+  "wifi-flap": {
+    name: "wifi-flap",
+    description: "Wi-Fi drops for 20 s every 2 minutes, and for a full minute every 10",
+    steps: [
+      { at: 100, wifi: "down" },
+      { at: 120, wifi: "up" },
+      { at: 220, wifi: "down" },
+      { at: 240, wifi: "up" },
+      { at: 480, wifi: "down" },
+      { at: 540, wifi: "up" },
+    ],
+    repeatEvery: 600,
+  },
+};
+
+const applyStep = (greenhouse: VirtualGreenhouse, step: ScenarioStep) => {
+  if (step.ambientTemperature !== undefined) greenhouse.ambientTemperature = step.ambientTemperature;
+  if (step.ambientHumidity !== undefined) greenhouse.ambientHumidity = step.ambientHumidity;
+  step.dropout?.forEach((sensor) => greenhouse.droppedSensors.add(sensor));
+  step.restore?.forEach((sensor) => greenhouse.droppedSensors.delete(sensor));
+  if (step.wifi) greenhouse.wifiConnected = step.wifi === "up";
+  if (step.refillTank) greenhouse.refillTank();
+};
+
+/*
+ * Applies a scenario's steps as simulated time passes. Call advance() with the same
+ * seconds the greenhouse advanced by; steps that became due in between run in order.
+ */
+export class ScenarioPlayer {
+  private readonly scenario: Scenario;
+  private readonly steps: ScenarioStep[];
+  private elapsed = 0;
+  private nextStep = 0;
+
+  constructor(scenario: Scenario) {
+    this.scenario = scenario;
+    this.steps = [...scenario.steps].sort((a, b) => a.at - b.at);
+  }
+
+  start(greenhouse: VirtualGreenhouse) {
+    this.advance(greenhouse, 0);
+  }
+
+  advance(greenhouse: VirtualGreenhouse, seconds: number) {
+    this.elapsed += seconds;
+
+    const { repeatEvery } = this.scenario;
+    while (true) {
+      const step = this.steps[this.nextStep];
+
+      if (step && step.at <= this.elapsed) {
+        applyStep(greenhouse, step);
+        this.nextStep++;
+      } else if (repeatEvery && this.elapsed >= repeatEvery) {
+        // Every step of this round has run, start the next one
+        this.elapsed -= repeatEvery;
+        this.nextStep = 0;
+      } else {
+        return;
+      }
+    }
+  }
+}
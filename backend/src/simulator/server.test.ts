@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { Esp32Client, Esp32Error } from "../services/esp32Client";
+import { SimulatorHandle, startSimulator } from "./server";
+
+/*
+ * Drives the virtual board through the same HTTP client the backend uses for real boards,
+ * so these double as a check that the simulator keeps to the esp.md contract.
+ */
+
+let simulator: SimulatorHandle;
+let client: Esp32Client;
+
+beforeEach(async () => {
+  simulator = await startSimulator({ port: 0, seed: 1, speed: 100 });
+  client = new Esp32Client(simulator.baseUrl);
+});
+
+afterEach(() => simulator.close());
+
+describe("simulated ESP32", () => {
+  it("reports the virtual greenhouse through /api/status", async () => {
+    simulator.greenhouse.temperature = 30;
+    simulator.greenhouse.relays.fan = true;
+
+    const status = await client.getStatus();
+
+    expect(status.sensors.temperature).toBeCloseTo(30, 0);
+    expect(status.actuators).toEqual({ fan: true, pump1: false, pump2: false, led: false, stepperEnabled: false });
+  });
+
+  it("switches relays through /api/control and shows them in the next status", async () => {
+    await expect(client.sendCommand({ actuator: "pump1", state: true })).resolves.toBe("OK");
+
+    expect(simulator.greenhouse.relays.pump1).toBe(true);
+    expect((await client.getStatus()).actuators.pump1).toBe(true);
+  });
+
+  it("answers 400 to a stepper move while the stepper is disabled", async () => {
+    const move = client.sendCommand({ actuator: "stepper", action: "forward", distance: 10 });
+
+    await expect(move).rejects.toThrow(new Esp32Error("ERROR: Stepper disabled. Enable it first!", 400));
+    await expect(move).rejects.toMatchObject({ status: 400 });
+    expect(simulator.greenhouse.stepperPositionMm).toBe(0);
+  });
+
+  it("moves the vent once the stepper is enabled, stopping at the end of its travel", async () => {
+    await expect(client.sendCommand({ actuator: "stepper", action: "enable" })).resolves.toBe("Stepper ENABLED");
+    await expect(client.sendCommand({ actuator: "stepper", action: "forward", distance: 2 })).resolves.toBe(
+      "Moved forward 2.00 mm"
+    );
+    await client.sendCommand({ actuator: "stepper", action: "backward", distance: 5 });
+
+    expect(simulator.greenhouse.stepperPositionMm).toBe(0);
+    expect((await client.getStatus()).actuators.stepperEnabled).toBe(true);
+  });
+
+  it("drops connections while the scenario has Wi-Fi down", async () => {
+    simulator.greenhouse.wifiConnected = false;
+
+    await expect(client.getStatus()).rejects.toThrow(/ESP32 unreachable/);
+  });
+});
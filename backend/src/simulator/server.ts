@@ -0,0 +1,83 @@
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+
+import { GreenhouseOptions, VirtualGreenhouse } from "./greenhouse";
+import { BUILT_IN_SCENARIOS, Scenario, ScenarioPlayer } from "./scenarios";
+
+export interface SimulatorOptions extends GreenhouseOptions {
+  // 0 picks a free port, see SimulatorHandle.port
+  port?: number;
+  scenario?: Scenario;
+  // Simulated seconds per real second, e.g. 60 plays an hour-long heat wave in a minute
+  speed?: number;
+}
+
+export interface SimulatorHandle {
+  greenhouse: VirtualGreenhouse;
+  port: number;
+  baseUrl: string;
+  close: () => Promise<void>;
+}
+
+const TICK_MS = 1000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/*
+ * Serves the esp.md HTTP contract (GET /api/status, GET /api/control) on top of a
+ * VirtualGreenhouse. While the scenario has Wi-Fi down, connections are dropped
+ * without an answer, just like an unreachable board.
+ */
+export const startSimulator = async (options: SimulatorOptions = {}): Promise<SimulatorHandle> => {
+  const greenhouse = new VirtualGreenhouse(options);
+  const player = new ScenarioPlayer(options.scenario ?? BUILT_IN_SCENARIOS.calm);
+  const speed = options.speed ?? 1;
+
+  player.start(greenhouse);
+
+  const server = createServer(async (req, res) => {
+    if (!greenhouse.wifiConnected) {
+      req.socket.destroy();
+      return;
+    }
+
+    const url = new URL(req.url ?? "/", "http://esp32.local");
+    res.setHeader("Access-Control-Allow-Origin", "*");
+
+    if (req.method === "GET" && url.pathname === "/api/status") {
+      res.writeHead(200, { "Content-Type": "application/json" }).end(greenhouse.status());
+      return;
+    }
+
+    if (req.method === "GET" && url.pathname === "/api/control") {
+      const { status, body, blockSeconds } = greenhouse.control(url.searchParams);
+      // Stepper moves block the real firmware until the last step pulse
+      if (blockSeconds > 0) await sleep((blockSeconds * 1000) / speed);
+      res.writeHead(status, { "Content-Type": "text/plain" }).end(body);
+      return;
+    }
+
+    res.writeHead(404, { "Content-Type": "text/plain" }).end(`Not found: ${url.pathname}`);
+  });
+
+  const timer = setInterval(() => {
+    const seconds = (TICK_MS / 1000) * speed;
+    greenhouse.advance(seconds);
+    player.advance(greenhouse, seconds);
+  }, TICK_MS);
+
+  await new Promise<void>((resolve) => server.listen(options.port ?? 0, resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    greenhouse,
+    port,
+    baseUrl: `http://127.0.0.1:${port}`,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        clearInterval(timer);
+        server.closeAllConnections();
+        server.close((error) => (error ? reject(error) : resolve()));
+      }),
+  };
+};
@@ -0,0 +1,58 @@
+import { db } from "../drizzle";
+import { deviceTable } from "../drizzle/schema";
+import { CalibratedStatus } from "../services/calibration";
+import { QualifiedStatus } from "../services/dataQuality";
+import { DEVICE_CAPABILITIES, DeviceCapability } from "../services/deviceRegistry";
+import { ActuatorStates, SensorReadings } from "../services/esp32Client";
+import { TelemetrySample } from "../services/telemetryPoller";
+import { Sensor, SENSORS } from "../utils/sensors";
+
+/*
+ * Builders shared by the service tests. Each test file runs against its own in-memory
+ * database (see setup.ts), but the services keep state in memory per device, so tests
+ * register a device of their own rather than sharing one.
+ */
+
+let deviceCount = 0;
+
+export const addDevice = (capabilities: DeviceCapability[] = [...DEVICE_CAPABILITIES]) => {
+  deviceCount++;
+  return db
+    .insert(deviceTable)
+    .values({ id: `board-${deviceCount}`, name: `Board ${deviceCount}`, baseUrl: "http://board.test", capabilities })
+    .returning()
+    .get();
+};
+
+export const SENSOR_DEFAULTS: SensorReadings = { temperature: 22, humidity: 60, ph: 6.5, mq135: 400, distance: 20 };
+
+export const ACTUATOR_DEFAULTS: ActuatorStates = { fan: false, pump1: false, pump2: false, led: false, stepperEnabled: false };
+
+// A status as calibration hands it to the quality checks, with pH and MQ135 calibrated
+export const calibratedStatus = (
+  sensors: Partial<SensorReadings> = {},
+  { fetchedAt = new Date(), uncalibrated = [] }: Partial<Pick<CalibratedStatus, "fetchedAt" | "uncalibrated">> = {}
+): CalibratedStatus => {
+  const readings = { ...SENSOR_DEFAULTS, ...sensors };
+  return { sensors: readings, raw: readings, actuators: { ...ACTUATOR_DEFAULTS }, fetchedAt, uncalibrated };
+};
+
+// A sample whose readings all passed the quality checks
+export const telemetrySample = (
+  deviceId: string,
+  {
+    sensors = {},
+    actuators = {},
+    fetchedAt = new Date(),
+  }: { sensors?: Partial<SensorReadings>; actuators?: Partial<ActuatorStates>; fetchedAt?: Date } = {}
+): TelemetrySample => {
+  const status: QualifiedStatus = {
+    ...calibratedStatus(sensors, { fetchedAt }),
+    actuators: { ...ACTUATOR_DEFAULTS, ...actuators },
+    quality: Object.fromEntries(SENSORS.map((sensor) => [sensor, { quality: "good", reason: null }])) as Record<
+      Sensor,
+      QualifiedStatus["quality"][Sensor]
+    >,
+  };
+  return { sampleId: 0, deviceId, status, latencyMs: 10 };
+};
@@ -0,0 +1,5 @@
+import { migrate } from "drizzle-orm/better-sqlite3/migrator";
+
+import { db } from "../drizzle";
+
+migrate(db, { migrationsFolder: "src/drizzle/migrations" });
@@ -0,0 +1,11 @@
+// What services/anomalyDetection.ts looks for in the stored telemetry
+export const ANOMALY_KINDS = [
+  // An hour far from the same hour on earlier days
+  "deviation",
+  // A steady trend over the last days, e.g. a pH probe slowly drifting
+  "drift",
+  // A pump run that moved the water level much less than the pump usually does
+  "pump_effect",
+] as const;
+
+export type AnomalyKind = (typeof ANOMALY_KINDS)[number];
@@ -2,6 +2,9 @@ import "dotenv/config";
 import { betterAuth } from "better-auth";
 import { drizzleAdapter } from "better-auth/adapters/drizzle";
 import { nextCookies } from "better-auth/next-js";
+import { APIError, createAuthMiddleware } from "better-auth/api";
+import { sql } from "drizzle-orm";
+import { z } from "zod";
 
 import * as schema from "../drizzle/schema";
 import { db } from "../drizzle";
@@ -9,6 +12,24 @@ import { db } from "../drizzle";
 
 console.log('Initializing better-auth...');
 
+const webhookUrlSchema = z.string().regex(/^https?:\/\/\S+$/).nullable();
+
+// Reject bad webhook URLs with a 400 before better-auth stores them
+const validateAlertPreferences = createAuthMiddleware(async (ctx) => {
+  if (ctx.path !== "/update-user") return;
+
+  const url = ctx.body?.alertWebhookUrl;
+  if (url !== undefined && !webhookUrlSchema.safeParse(url).success) {
+    throw new APIError("BAD_REQUEST", { message: "Webhook URL must be an http(s) URL" });
+  }
+});
+
+// The very first account owns the installation, everyone after starts as a viewer
+const assignInitialRole = async (user: any) => {
+  const { count } = db.select({ count: sql<number>`count(*)` }).from(schema.userTable).get()!;
+  return { data: { ...user, role: count === 0 ? "owner" : "viewer" } };
+};
+
 export const auth = betterAuth({
   database: drizzleAdapter(db, {
     provider: "sqlite",
@@ -18,6 +39,36 @@ export const auth = betterAuth({
       account: schema.accountTable,
     },
   }),
+  user: {
+    // Alert channel preferences are editable through /api/auth/update-user, the role only through /api/users
+    additionalFields: {
+      role: {
+        type: "string",
+        required: false,
+        defaultValue: "viewer",
+        input: false,
+      },
+      alertEmailEnabled: {
+        type: "boolean",
+        required: false,
+        defaultValue: false,
+      },
+      alertWebhookUrl: {
+        type: "string",
+        required: false,
+      },
+    },
+  },
+  hooks: {
+    before: validateAlertPreferences,
+  },
+  databaseHooks: {
+    user: {
+      create: {
+        before: assignInitialRole,
+      },
+    },
+  },
   emailAndPassword: {
     enabled: true,
     autoSignIn: false,
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+
+import { parseCsv, toCsv } from "./csv";
+
+describe("parseCsv", () => {
+  it("reads quoted fields with commas, doubled quotes and line breaks", () => {
+    const text = 'time,note\n2025-06-01T12:00:00Z,"vent, half open"\n2025-06-01T12:01:00Z,"said ""hi""\nthen left"\n';
+
+    expect(parseCsv(text)).toEqual([
+      ["time", "note"],
+      ["2025-06-01T12:00:00Z", "vent, half open"],
+      ["2025-06-01T12:01:00Z", 'said "hi"\nthen left'],
+    ]);
+  });
+
+  it("accepts CRLF line endings, a byte order mark and a missing final line break, and skips blank lines", () => {
+    expect(parseCsv("\uFEFFtime,temperature\r\n\r\n2025-06-01,21.5\r\n2025-06-02,22")).toEqual([
+      ["time", "temperature"],
+      ["2025-06-01", "21.5"],
+      ["2025-06-02", "22"],
+    ]);
+  });
+
+  it("keeps empty fields, leading and trailing ones included", () => {
+    expect(parseCsv(",a,,\n")).toEqual([["", "a", "", ""]]);
+  });
+
+  it("reads back what toCsv writes", () => {
+    const rows = [
+      ["plain", 'with "quotes"'],
+      ["with,comma", "with\r\nbreak"],
+    ];
+
+    expect(parseCsv(toCsv(["a", "b"], rows))).toEqual([["a", "b"], ...rows]);
+  });
+});
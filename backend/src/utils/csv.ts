@@ -0,0 +1,53 @@
+// RFC 4180 quoting: only fields containing a comma, quote or line break get wrapped; objects are written as JSON
+const escapeField = (value: unknown) => {
+  if (value === null || value === undefined) return "";
+  const text =
+    value instanceof Date ? value.toISOString() : typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Rows without a header, for output written in several chunks
+export const toCsvRows = (rows: unknown[][]) => rows.map((row) => row.map(escapeField).join(",") + "\r\n").join("");
+
+export const toCsv = (header: string[], rows: unknown[][]) => toCsvRows([header, ...rows]);
+
+/*
+ * The reverse of toCsv: quoted fields may hold commas, doubled quotes and line breaks.
+ * Accepts \n or \r\n line endings and a UTF-8 byte order mark, skips blank lines.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== "") rows.push(row);
+    row = [];
+    field = "";
+  };
+
+  for (let i = text.charCodeAt(0) === 0xfeff ? 1 : 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char !== '"') field += char;
+      else if (text[i + 1] === '"') field += text[++i];
+      else quoted = false;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) endRow();
+
+  return rows;
+};
@@ -0,0 +1,4 @@
+// What the backend checks on each device: the ESP32's /api/status and the camera stream
+export const HEALTH_COMPONENTS = ["board", "camera"] as const;
+
+export type HealthComponent = (typeof HEALTH_COMPONENTS)[number];
@@ -0,0 +1,11 @@
+// Safety interlocks enforced on the command path, see services/interlocks.ts
+export const INTERLOCKS = [
+  // A pump ran longer than its device's pumpMaxRunSeconds
+  "pump_runtime",
+  // The reservoir is too low (ultrasonic distance above maxWaterDistance) to run a pump
+  "water_level",
+  // A vent move would take the stepper past its soft limits
+  "stepper_limit",
+] as const;
+
+export type Interlock = (typeof INTERLOCKS)[number];
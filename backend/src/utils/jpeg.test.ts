@@ -0,0 +1,41 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { describe, expect, it } from "vitest";
+
+import { findJpegFrame } from "./jpeg";
+
+// Two real ESP32-CAM captures, 640x480 baseline JPEGs
+const captured = (name: string) => readFileSync(path.join(__dirname, "../../../captured_images", name));
+
+const first = captured("20250831_125025.jpg");
+const second = captured("20250831_125045.jpg");
+
+// How the camera's MJPEG stream wraps every frame
+const part = (frame: Buffer) =>
+  Buffer.concat([
+    Buffer.from(`--frame\r\nContent-Type: image/jpeg\r\nContent-Length: ${frame.length}\r\n\r\n`),
+    frame,
+    Buffer.from("\r\n"),
+  ]);
+
+describe("findJpegFrame", () => {
+  it("finds a whole captured image and reads its size", () => {
+    expect(findJpegFrame(first)).toEqual({ start: 0, end: first.length, width: 640, height: 480 });
+  });
+
+  it("waits for the rest of a frame cut off in its scan data", () => {
+    expect(findJpegFrame(first.subarray(0, Math.floor(first.length / 2)))).toBeNull();
+    expect(findJpegFrame(first.subarray(0, first.length - 1))).toBeNull();
+  });
+
+  it("cuts two frames sent back to back out of a multipart stream", () => {
+    const stream = Buffer.concat([part(first), part(second)]);
+
+    const one = findJpegFrame(stream)!;
+    const two = findJpegFrame(stream, one.end)!;
+
+    expect(stream.subarray(one.start, one.end).equals(first)).toBe(true);
+    expect(stream.subarray(two.start, two.end).equals(second)).toBe(true);
+    expect(findJpegFrame(stream, two.end)).toBeNull();
+  });
+});
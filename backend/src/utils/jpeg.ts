@@ -0,0 +1,83 @@
+/*
+ * Just enough JPEG parsing to cut single frames out of an MJPEG stream and read their size,
+ * so the camera pipeline needs no image library. Walks the marker segments rather than
+ * searching for FF D9, since EXIF thumbnails carry an end-of-image marker of their own.
+ */
+
+export interface JpegFrame {
+  // Byte offsets of the frame in the scanned buffer, end is exclusive
+  start: number;
+  end: number;
+  width: number | null;
+  height: number | null;
+}
+
+const SOI = 0xd8;
+const EOI = 0xd9;
+const SOS = 0xda;
+
+// Baseline, progressive and the rarer lossless/arithmetic start-of-frame markers, C4/C8/CC are not frames
+const isStartOfFrame = (marker: number) => marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker);
+
+// Restart markers and TEM have no length field
+const isStandalone = (marker: number) => (marker >= 0xd0 && marker <= 0xd7) || marker === 0x01;
+
+/*
+ * The first complete JPEG in the buffer at or after `from`, or null while it has not fully
+ * arrived yet. Anything before the start-of-image marker (multipart headers) is skipped.
+ */
+export const findJpegFrame = (buffer: Buffer, from = 0): JpegFrame | null => {
+  let start = -1;
+  for (let i = from; i < buffer.length - 1; i++) {
+    if (buffer[i] === 0xff && buffer[i + 1] === SOI) {
+      start = i;
+      break;
+    }
+  }
+  if (start === -1) return null;
+
+  let width: number | null = null;
+  let height: number | null = null;
+  let offset = start + 2;
+  let inScan = false;
+
+  // Header segments: FF <marker> <16-bit length> <payload>
+  while (!inScan && offset + 4 <= buffer.length) {
+    if (buffer[offset] !== 0xff) return null;
+
+    const marker = buffer[offset + 1];
+    if (marker === 0xff) {
+      offset += 1; // Fill byte
+      continue;
+    }
+    if (marker === EOI) return { start, end: offset + 2, width, height };
+    if (isStandalone(marker)) {
+      offset += 2;
+      continue;
+    }
+
+    const length = buffer.readUInt16BE(offset + 2);
+    if (isStartOfFrame(marker) && offset + 9 <= buffer.length) {
+      height = buffer.readUInt16BE(offset + 5);
+      width = buffer.readUInt16BE(offset + 7);
+    }
+    offset += 2 + length;
+    inScan = marker === SOS;
+  }
+  if (!inScan) return null;
+
+  // Entropy-coded data: a real marker is FF followed by anything but 00 (stuffing) or a restart
+  for (let i = offset; i < buffer.length - 1; i++) {
+    if (buffer[i] !== 0xff) continue;
+
+    const next = buffer[i + 1];
+    if (next === EOI) return { start, end: i + 2, width, height };
+    // Another scan of a progressive JPEG, its header has a length like any other segment
+    if (next === SOS || next === 0xc4 || next === 0xdb || next === 0xdd) {
+      if (i + 4 > buffer.length) return null;
+      i += 1 + buffer.readUInt16BE(i + 2);
+    }
+  }
+
+  return null;
+};
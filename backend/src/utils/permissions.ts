@@ -0,0 +1,36 @@
+// Global roles live on user.role, per-greenhouse overrides in device_membership
+export const ROLES = ["owner", "operator", "viewer"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+// Reading sensors, history and the camera only needs a session, so it has no entry here
+export const PERMISSIONS = {
+  "devices:control": ["owner", "operator"],
+  "automation:manage": ["owner", "operator"],
+  "alerts:acknowledge": ["owner", "operator"],
+  "calibration:manage": ["owner", "operator"],
+  "devices:manage": ["owner"],
+  "users:manage": ["owner"],
+} as const satisfies Record<string, readonly Role[]>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const roleHasPermission = (role: Role, permission: Permission) =>
+  (PERMISSIONS[permission] as readonly Role[]).includes(role);
+
+export const permissionsFor = (role: Role) =>
+  (Object.keys(PERMISSIONS) as Permission[]).filter((permission) => roleHasPermission(role, permission));
+
+/*
+ * What an API key may do on top of being signed in as its owner: "read" only reads,
+ * "control" may also send device commands, "admin" anything the owner's role allows.
+ */
+export const API_KEY_SCOPES = ["read", "control", "admin"] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export const SCOPE_PERMISSIONS: Record<ApiKeyScope, readonly Permission[]> = {
+  read: [],
+  control: ["devices:control"],
+  admin: Object.keys(PERMISSIONS) as Permission[],
+};
@@ -0,0 +1,15 @@
+// Storage tiers for telemetry, finest first: raw samples, then rollups computed from the tier before
+export const RETENTION_TIERS = ["raw", "1m", "1h", "1d"] as const;
+
+export type RetentionTier = (typeof RETENTION_TIERS)[number];
+
+export const ROLLUP_RESOLUTIONS = ["1m", "1h", "1d"] as const satisfies readonly RetentionTier[];
+
+export type RollupResolution = (typeof ROLLUP_RESOLUTIONS)[number];
+
+// Bucket width of each rollup; day buckets start at midnight UTC
+export const ROLLUP_SECONDS: Record<RollupResolution, number> = {
+  "1m": 60,
+  "1h": 60 * 60,
+  "1d": 24 * 60 * 60,
+};
@@ -0,0 +1,59 @@
+// Sensors reported by the ESP32 /api/status endpoint, in the order the dashboard shows them
+export const SENSORS = ["temperature", "humidity", "ph", "distance", "mq135"] as const;
+
+export type Sensor = (typeof SENSORS)[number];
+
+// Analog probes the firmware reports as raw 0-4095 ADC counts, converted with a per-device calibration
+export const CALIBRATED_SENSORS = ["ph", "mq135"] as const satisfies readonly Sensor[];
+
+export type CalibratedSensor = (typeof CALIBRATED_SENSORS)[number];
+
+export interface SensorRange {
+  min: number;
+  max: number;
+}
+
+// Readings outside these bounds are sensor faults: flagged bad (services/dataQuality.ts) and refused on import
+export const SENSOR_RANGES: Record<Sensor, SensorRange> = {
+  temperature: { min: -50, max: 100 },
+  humidity: { min: 0, max: 100 },
+  ph: { min: 0, max: 14 },
+  distance: { min: 0, max: 500 },
+  mq135: { min: 0, max: 1000 },
+};
+
+// Optimal ranges when a greenhouse has no crop profile, or its stage leaves a sensor out
+export const DEFAULT_OPTIMAL_RANGES: Record<Sensor, SensorRange> = {
+  temperature: { min: 20, max: 30 },
+  humidity: { min: 20, max: 60 },
+  ph: { min: 6.0, max: 7.5 },
+  distance: { min: 20, max: 40 },
+  mq135: { min: 100, max: 200 },
+};
+
+// The ESP32's 12-bit ADC, what an analog probe reports before it is calibrated
+export const ADC_RANGE: SensorRange = { min: 0, max: 4095 };
+
+// Quality flag stored with every reading, see services/dataQuality.ts
+export const READING_QUALITIES = ["good", "suspect", "bad", "missing"] as const;
+
+export type ReadingQuality = (typeof READING_QUALITIES)[number];
+
+// Largest believable change per minute, faster jumps are flagged suspect
+export const SENSOR_RATE_LIMITS: Record<Sensor, number> = {
+  temperature: 5,
+  humidity: 20,
+  ph: 1,
+  distance: 20,
+  mq135: 300,
+};
+
+// How long a reading may repeat exactly before it counts as stuck; sensor noise moves a working one sooner.
+// The DHT22 reports in steps of 0.1, so a closed, steady greenhouse can hold one value for many minutes
+export const STUCK_AFTER_MINUTES: Record<Sensor, number> = {
+  temperature: 30,
+  humidity: 30,
+  ph: 10,
+  distance: 30,
+  mq135: 10,
+};
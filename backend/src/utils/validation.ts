@@ -0,0 +1,30 @@
+import { z } from "zod";
+
+import { RELAY_ACTUATORS } from "../services/esp32Client";
+
+// Body of POST /api/devices/:id/commands, also used for automation rule actions
+export const deviceCommandSchema = z.union([
+  z.object({
+    actuator: z.enum(RELAY_ACTUATORS),
+    state: z.boolean(),
+  }),
+  z.object({
+    actuator: z.literal("stepper"),
+    action: z.enum(["enable", "disable"]),
+  }),
+  z.object({
+    actuator: z.literal("stepper"),
+    action: z.enum(["forward", "backward"]),
+    distance: z.number().min(1).max(100),
+  }),
+  z.object({
+    actuator: z.literal("stepper"),
+    action: z.literal("position"),
+    // 0 = closed at the minimum soft limit, 100 = fully open at the maximum
+    percent: z.number().min(0).max(100),
+  }),
+  z.object({
+    actuator: z.literal("stepper"),
+    action: z.literal("home"),
+  }),
+]);
@@ -0,0 +1,9 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    // Every test file gets its own migrated in-memory database, see src/test/setup.ts
+    env: { DB_FILE_NAME: ":memory:", COMMAND_SPACING_MS: "1" },
+    setupFiles: ["src/test/setup.ts"],
+  },
+});
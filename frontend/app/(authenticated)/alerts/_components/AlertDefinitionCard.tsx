@@ -0,0 +1,65 @@
+import React from "react";
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { AlertDefinition, describeRange } from "@/lib/alerts";
+import { SENSOR_META } from "@/lib/sensors";
+
+interface AlertDefinitionCardProps {
+  definition: AlertDefinition;
+  onToggle: () => void;
+  onDelete: () => void;
+  // Hides the actions for users who may only look at alerts
+  readOnly?: boolean;
+}
+
+const STATE_LABELS: Record<AlertDefinition["state"], string> = {
+  ok: "OK",
+  pending: "PENDING",
+  firing: "FIRING",
+  resolving: "RESOLVING",
+};
+
+const AlertDefinitionCard = ({ definition, onToggle, onDelete, readOnly }: AlertDefinitionCardProps) => {
+  const meta = SENSOR_META[definition.sensor];
+  const alarming = definition.state === "firing" || definition.state === "resolving";
+
+  return (
+    <Card className="w-80 h-fit">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          {definition.name}
+          <Badge
+            className={
+              !definition.enabled ? "bg-gray-500 text-white" : alarming ? "bg-red-500 text-white" : "bg-green-500 text-white"
+            }
+          >
+            {definition.enabled ? STATE_LABELS[definition.state] : "DISABLED"}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-2 text-sm">
+        <span>
+          {meta.label} {describeRange(definition)}
+          {meta.unit && !definition.watchAnomalies && ` ${meta.unit}`}
+        </span>
+        <span className="text-xs text-muted-foreground">
+          {definition.severity === "critical" ? "Critical" : "Warning"} ·{" "}
+          {definition.watchAnomalies ? "checked hourly" : `debounce ${definition.debounceSeconds}s`}
+        </span>
+      </CardContent>
+      {!readOnly && (
+        <CardFooter className="flex flex-wrap gap-2">
+          <Button size="sm" variant="outline" className="cursor-pointer" onClick={onToggle}>
+            {definition.enabled ? "Disable" : "Enable"}
+          </Button>
+          <Button size="sm" variant="destructive" className="cursor-pointer" onClick={onDelete}>
+            Delete
+          </Button>
+        </CardFooter>
+      )}
+    </Card>
+  );
+};
+
+export default AlertDefinitionCard;
@@ -0,0 +1,78 @@
+import React from "react";
+import dayjs from "dayjs";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Alert } from "@/lib/alerts";
+
+interface AlertInboxProps {
+  title: string;
+  description: string;
+  emptyText: string;
+  alerts: Alert[];
+  onAcknowledge?: (alert: Alert) => void;
+}
+
+const AlertInbox = (props: AlertInboxProps) => {
+  return (
+    <Card className="w-full lg:w-[80%]">
+      <CardHeader>
+        <CardTitle>{props.title}</CardTitle>
+        <CardDescription>{props.description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {props.alerts.length === 0 ? (
+          <p className="text-muted-foreground text-sm">{props.emptyText}</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground border-b">
+                <th className="py-2">Fired</th>
+                <th>Alert</th>
+                <th>Severity</th>
+                <th>Details</th>
+                <th>Status</th>
+                {props.onAcknowledge && <th />}
+              </tr>
+            </thead>
+            <tbody>
+              {props.alerts.map((alert) => (
+                <tr key={alert.id} className="border-b last:border-0">
+                  <td className="py-2 whitespace-nowrap">{dayjs(alert.firedAt).format("YYYY-MM-DD HH:mm:ss")}</td>
+                  <td>{alert.definitionName}</td>
+                  <td>
+                    <Badge className={alert.severity === "critical" ? "bg-red-500 text-white" : "bg-yellow-500 text-white"}>
+                      {alert.severity.toUpperCase()}
+                    </Badge>
+                  </td>
+                  <td>{alert.message}</td>
+                  <td className="whitespace-nowrap text-xs text-muted-foreground">
+                    {alert.resolvedAt
+                      ? `Resolved ${dayjs(alert.resolvedAt).format("MM-DD HH:mm")}`
+                      : alert.acknowledgedAt
+                        ? `Acknowledged ${dayjs(alert.acknowledgedAt).format("MM-DD HH:mm")}`
+                        : "Firing"}
+                  </td>
+                  {props.onAcknowledge && (
+                    <td className="text-right">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="cursor-pointer"
+                        onClick={() => props.onAcknowledge?.(alert)}
+                      >
+                        Acknowledge
+                      </Button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AlertInbox;
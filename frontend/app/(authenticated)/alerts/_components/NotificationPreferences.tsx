@@ -0,0 +1,95 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { apiFetch } from "@/lib/api";
+import { DeliveryResult } from "@/lib/alerts";
+import { authClient, useSession } from "@/lib/authClient";
+
+// Channel preferences live on the better-auth user record
+const NotificationPreferences = () => {
+  const { data: session, refetch } = useSession();
+
+  const [emailEnabled, setEmailEnabled] = useState(false);
+  const [webhookUrl, setWebhookUrl] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!session) return;
+    setEmailEnabled(session.user.alertEmailEnabled ?? false);
+    setWebhookUrl(session.user.alertWebhookUrl ?? "");
+  }, [session]);
+
+  const save = async () => {
+    setIsSaving(true);
+    const { error } = await authClient.updateUser({
+      alertEmailEnabled: emailEnabled,
+      alertWebhookUrl: webhookUrl.trim() || null,
+    });
+    setIsSaving(false);
+
+    if (error) {
+      toast("Could not save preferences", { description: error.message });
+      return;
+    }
+    toast("Notification preferences saved");
+    refetch();
+  };
+
+  const sendTest = async () => {
+    try {
+      const results = await apiFetch<DeliveryResult[]>("/api/alerts/notifications/test", { method: "POST" });
+      for (const result of results) {
+        toast(`${result.channel === "email" ? "Email" : "Webhook"}: ${result.success ? "delivered" : "failed"}`, {
+          description: result.success ? result.target : result.message,
+        });
+      }
+    } catch (err) {
+      toast("Test notification failed", { description: String(err) });
+    }
+  };
+
+  return (
+    <Card className="w-full lg:w-[80%]">
+      <CardHeader>
+        <CardTitle>Notifications</CardTitle>
+        <CardDescription>Where you are told when an alert fires or resolves</CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4">
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={emailEnabled}
+            onChange={(event) => setEmailEnabled(event.target.checked)}
+          />
+          Email me at <strong>{session?.user.email}</strong>
+        </label>
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="webhook-url">Webhook URL</Label>
+          <Input
+            id="webhook-url"
+            placeholder="https://hooks.example.com/greenhouse"
+            value={webhookUrl}
+            onChange={(event) => setWebhookUrl(event.target.value)}
+          />
+          <span className="text-xs text-muted-foreground">Receives a JSON POST for every alert event</span>
+        </div>
+        <div className="flex gap-2">
+          <Button className="cursor-pointer" disabled={isSaving} onClick={save}>
+            Save
+          </Button>
+          <Button variant="outline" className="cursor-pointer" onClick={sendTest}>
+            Send test
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default NotificationPreferences;
@@ -0,0 +1,147 @@
+"use client";
+
+import { BellRing } from "lucide-react";
+import React, { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+
+import { Separator } from "@/components/ui/separator";
+import Header from "@/components/header/Header";
+import { useDevices } from "@/components/DeviceProvider/DeviceProvider";
+import AlertDefinitionForm from "@/components/AlertDefinitionForm/AlertDefinitionForm";
+import { apiFetch } from "@/lib/api";
+import { Alert, AlertDefinition } from "@/lib/alerts";
+import AlertDefinitionCard from "./_components/AlertDefinitionCard";
+import AlertInbox from "./_components/AlertInbox";
+import NotificationPreferences from "./_components/NotificationPreferences";
+
+const AlertsPage = () => {
+  const { deviceId, can } = useDevices();
+  const canManage = can("automation:manage");
+
+  const [definitions, setDefinitions] = useState<AlertDefinition[]>([]);
+  const [firing, setFiring] = useState<Alert[]>([]);
+  const [resolved, setResolved] = useState<Alert[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAlerts = useCallback(async () => {
+    if (!deviceId) return;
+
+    try {
+      const [definitionList, firingList, resolvedList] = await Promise.all([
+        apiFetch<AlertDefinition[]>(`/api/alerts/definitions?deviceId=${deviceId}`),
+        apiFetch<Alert[]>(`/api/alerts?deviceId=${deviceId}&status=firing`),
+        apiFetch<Alert[]>(`/api/alerts?deviceId=${deviceId}&status=resolved`),
+      ]);
+      setDefinitions(definitionList);
+      setFiring(firingList);
+      setResolved(resolvedList);
+      setError(null);
+    } catch (err) {
+      setError(`Failed to load alerts: ${err}`);
+    }
+  }, [deviceId]);
+
+  useEffect(() => {
+    fetchAlerts();
+  }, [fetchAlerts]);
+
+  const acknowledge = async (alert: Alert) => {
+    try {
+      await apiFetch<Alert>(`/api/alerts/${alert.id}/acknowledge`, { method: "POST" });
+      fetchAlerts();
+    } catch (err) {
+      toast("Could not acknowledge alert", { description: String(err) });
+    }
+  };
+
+  const toggleDefinition = async (definition: AlertDefinition) => {
+    try {
+      await apiFetch<AlertDefinition>(`/api/alerts/definitions/${definition.id}`, {
+        method: "PATCH",
+        body: JSON.stringify({ enabled: !definition.enabled }),
+      });
+      fetchAlerts();
+    } catch (err) {
+      toast("Could not update alert", { description: String(err) });
+    }
+  };
+
+  const deleteDefinition = async (definition: AlertDefinition) => {
+    if (!confirm(`Delete alert "${definition.name}" and its history?`)) return;
+
+    try {
+      await apiFetch(`/api/alerts/definitions/${definition.id}`, { method: "DELETE" });
+      fetchAlerts();
+    } catch (err) {
+      toast("Could not delete alert", { description: String(err) });
+    }
+  };
+
+  return (
+    <div className="min-h-screen w-full flex flex-col gap-8 items-center bg-gradient-to-br from-green-50 to-emerald-100 pb-4">
+      {/* Header */}
+      <div className="w-full px-6">
+        <Header />
+        <Separator className="my-2 h-[20px]" />
+      </div>
+
+      <section className="flex flex-col items-center gap-2 text-center">
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <BellRing className="w-10 h-10" />
+          Alerts
+        </h1>
+        <p>Get told when a reading leaves its safe range</p>
+      </section>
+
+      {/* Error Display */}
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded max-w-md text-center">
+          {error}
+        </div>
+      )}
+
+      {/* Inbox */}
+      <AlertInbox
+        title="Active"
+        description="Firing alerts nobody has acknowledged yet"
+        emptyText="All clear"
+        alerts={firing.filter((alert) => !alert.acknowledgedAt)}
+        onAcknowledge={can("alerts:acknowledge") ? acknowledge : undefined}
+      />
+      <AlertInbox
+        title="Acknowledged"
+        description="Still firing, but someone is on it"
+        emptyText="Nothing acknowledged"
+        alerts={firing.filter((alert) => alert.acknowledgedAt)}
+      />
+      <AlertInbox
+        title="Resolved"
+        description="Most recent 100 alerts that returned to range"
+        emptyText="No resolved alerts yet"
+        alerts={resolved}
+      />
+
+      {/* Definitions */}
+      <section className="flex flex-wrap gap-4 w-full lg:w-[80%] justify-center">
+        {definitions.length === 0 && <p className="text-muted-foreground">No alerts defined yet, create one below.</p>}
+        {definitions.map((definition) => (
+          <AlertDefinitionCard
+            key={definition.id}
+            definition={definition}
+            onToggle={() => toggleDefinition(definition)}
+            onDelete={() => deleteDefinition(definition)}
+            readOnly={!canManage}
+          />
+        ))}
+      </section>
+
+      <section className="w-full lg:w-[80%]">
+        {deviceId && canManage && <AlertDefinitionForm deviceId={deviceId} onCreated={fetchAlerts} />}
+      </section>
+
+      <NotificationPreferences />
+    </div>
+  );
+};
+
+export default AlertsPage;
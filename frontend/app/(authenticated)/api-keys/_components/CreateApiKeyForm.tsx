@@ -0,0 +1,123 @@
+import React, { useState } from "react";
+import { Copy } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { NativeSelect } from "@/components/ui/native-select";
+import { apiFetch } from "@/lib/api";
+import { API_KEY_SCOPE_LABELS, ApiKeyScope, CreatedApiKey } from "@/lib/apiKeys";
+
+interface CreateApiKeyFormProps {
+  onCreated: () => void;
+}
+
+const CreateApiKeyForm = ({ onCreated }: CreateApiKeyFormProps) => {
+  const [name, setName] = useState("");
+  const [scope, setScope] = useState<ApiKeyScope>("read");
+  const [rateLimit, setRateLimit] = useState("120");
+  // Empty: the key never expires
+  const [expiresOn, setExpiresOn] = useState("");
+  const [created, setCreated] = useState<CreatedApiKey | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const create = async () => {
+    setIsSaving(true);
+    try {
+      const key = await apiFetch<CreatedApiKey>("/api/keys", {
+        method: "POST",
+        body: JSON.stringify({
+          name,
+          scope,
+          rateLimitPerMinute: Number(rateLimit),
+          expiresAt: expiresOn ? new Date(`${expiresOn}T23:59:59`).toISOString() : null,
+        }),
+      });
+      setCreated(key);
+      setName("");
+      setExpiresOn("");
+      onCreated();
+    } catch (err) {
+      toast("Could not create the API key", { description: String(err) });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const copy = async () => {
+    if (!created) return;
+    await navigator.clipboard.writeText(created.key);
+    toast("API key copied");
+  };
+
+  return (
+    <Card className="w-full lg:w-[80%]">
+      <CardHeader>
+        <CardTitle>New API Key</CardTitle>
+        <CardDescription>A key acts as you, limited to its scope</CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4 text-sm">
+        {created && (
+          <div className="flex flex-col gap-2 border border-emerald-400 bg-emerald-50 rounded-md p-3">
+            <span>
+              Copy the key for <span className="font-medium">{created.name}</span> now, it will not be shown again.
+            </span>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 break-all bg-white border rounded px-2 py-1">{created.key}</code>
+              <Button variant="outline" size="icon" className="cursor-pointer" onClick={copy} aria-label="Copy key">
+                <Copy />
+              </Button>
+            </div>
+            <Button variant="ghost" className="cursor-pointer self-end" onClick={() => setCreated(null)}>
+              Done
+            </Button>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="flex flex-col gap-1">
+            <Label htmlFor="key-name">Name</Label>
+            <Input
+              id="key-name"
+              placeholder="Grafana exporter"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="flex flex-col gap-1">
+            <Label htmlFor="key-scope">Scope</Label>
+            <NativeSelect id="key-scope" value={scope} onChange={(e) => setScope(e.target.value as ApiKeyScope)}>
+              {(Object.keys(API_KEY_SCOPE_LABELS) as ApiKeyScope[]).map((value) => (
+                <option key={value} value={value}>
+                  {API_KEY_SCOPE_LABELS[value]}
+                </option>
+              ))}
+            </NativeSelect>
+          </div>
+          <div className="flex flex-col gap-1">
+            <Label htmlFor="key-rate-limit">Requests per minute</Label>
+            <Input
+              id="key-rate-limit"
+              type="number"
+              min={1}
+              max={6000}
+              className="w-28"
+              value={rateLimit}
+              onChange={(e) => setRateLimit(e.target.value)}
+            />
+          </div>
+          <div className="flex flex-col gap-1">
+            <Label htmlFor="key-expires">Expires</Label>
+            <Input id="key-expires" type="date" value={expiresOn} onChange={(e) => setExpiresOn(e.target.value)} />
+          </div>
+          <Button className="cursor-pointer" disabled={isSaving || name.trim() === "" || !rateLimit} onClick={create}>
+            Create key
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CreateApiKeyForm;
@@ -0,0 +1,143 @@
+"use client";
+
+import { KeyRound } from "lucide-react";
+import React, { useCallback, useEffect, useState } from "react";
+import dayjs from "dayjs";
+import { toast } from "sonner";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import Header from "@/components/header/Header";
+import { apiFetch } from "@/lib/api";
+import { API_KEY_SCOPE_LABELS, ApiKey } from "@/lib/apiKeys";
+import CreateApiKeyForm from "./_components/CreateApiKeyForm";
+
+const keyStatus = (key: ApiKey) => {
+  if (key.revokedAt) return { label: "REVOKED", className: "bg-gray-500 text-white" };
+  if (key.expiresAt && dayjs(key.expiresAt).isBefore(dayjs())) {
+    return { label: "EXPIRED", className: "bg-amber-600 text-white" };
+  }
+  return { label: "ACTIVE", className: "bg-emerald-600 text-white" };
+};
+
+const ApiKeysPage = () => {
+  const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchKeys = useCallback(async () => {
+    try {
+      setKeys(await apiFetch<ApiKey[]>("/api/keys"));
+      setError(null);
+    } catch (err) {
+      setError(`Failed to load API keys: ${err}`);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchKeys();
+  }, [fetchKeys]);
+
+  const revoke = async (key: ApiKey) => {
+    if (!confirm(`Revoke "${key.name}"? Scripts using it will stop working.`)) return;
+
+    try {
+      await apiFetch(`/api/keys/${key.id}`, { method: "DELETE" });
+      await fetchKeys();
+    } catch (err) {
+      toast("Could not revoke the API key", { description: String(err) });
+    }
+  };
+
+  return (
+    <div className="min-h-screen w-full flex flex-col gap-8 items-center bg-gradient-to-br from-green-50 to-emerald-100 pb-4">
+      {/* Header */}
+      <div className="w-full px-6">
+        <Header />
+        <Separator className="my-2 h-[20px]" />
+      </div>
+
+      <section className="flex flex-col items-center gap-2 text-center">
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <KeyRound className="w-10 h-10" />
+          API Keys
+        </h1>
+        <p>
+          Let scripts and integrations call the API with <code>Authorization: Bearer &lt;key&gt;</code>
+        </p>
+      </section>
+
+      {/* Error Display */}
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded max-w-md text-center">
+          {error}
+        </div>
+      )}
+
+      <CreateApiKeyForm onCreated={fetchKeys} />
+
+      <Card className="w-full lg:w-[80%]">
+        <CardHeader>
+          <CardTitle>Your Keys</CardTitle>
+          <CardDescription>Revoked keys stay listed with their last use</CardDescription>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          {keys.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No API keys yet</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground">
+                  <th className="py-1 pr-4 font-normal">Name</th>
+                  <th className="py-1 pr-4 font-normal">Key</th>
+                  <th className="py-1 pr-4 font-normal">Scope</th>
+                  <th className="py-1 pr-4 font-normal">Limit</th>
+                  <th className="py-1 pr-4 font-normal">Last used</th>
+                  <th className="py-1 pr-4 font-normal">Expires</th>
+                  <th className="py-1 pr-4 font-normal">Status</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {keys.map((key) => {
+                  const status = keyStatus(key);
+                  return (
+                    <tr key={key.id} className="border-t">
+                      <td className="py-1 pr-4 font-medium">{key.name}</td>
+                      <td className="py-1 pr-4">
+                        <code>{key.prefix}…</code>
+                      </td>
+                      <td className="py-1 pr-4">{API_KEY_SCOPE_LABELS[key.scope]}</td>
+                      <td className="py-1 pr-4 whitespace-nowrap">{key.rateLimitPerMinute}/min</td>
+                      <td className="py-1 pr-4 whitespace-nowrap">
+                        {key.lastUsedAt
+                          ? `${dayjs(key.lastUsedAt).format("YYYY-MM-DD HH:mm")} from ${key.lastUsedIp ?? "?"}`
+                          : "Never"}
+                      </td>
+                      <td className="py-1 pr-4 whitespace-nowrap">
+                        {key.expiresAt ? dayjs(key.expiresAt).format("YYYY-MM-DD") : "Never"}
+                      </td>
+                      <td className="py-1 pr-4">
+                        <Badge className={status.className}>{status.label}</Badge>
+                      </td>
+                      <td className="py-1 text-right">
+                        {!key.revokedAt && (
+                          <Button variant="outline" size="sm" className="cursor-pointer" onClick={() => revoke(key)}>
+                            Revoke
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ApiKeysPage;
@@ -0,0 +1,51 @@
+import React from "react";
+import dayjs from "dayjs";
+import { Badge } from "@/components/ui/badge";
+import { AuditEntry, SOURCE_LABELS } from "@/lib/audit";
+import { describeCommand } from "@/lib/devices";
+
+interface AuditTableProps {
+  entries: AuditEntry[];
+}
+
+const AuditTable = ({ entries }: AuditTableProps) => {
+  if (entries.length === 0) {
+    return <p className="text-muted-foreground text-sm">No commands match these filters</p>;
+  }
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-muted-foreground border-b">
+          <th className="py-2">Time</th>
+          <th>Source</th>
+          <th>User</th>
+          <th>Command</th>
+          <th>Result</th>
+          <th className="text-right">Latency</th>
+        </tr>
+      </thead>
+      <tbody>
+        {entries.map((entry) => (
+          <tr key={entry.id} className="border-b last:border-0 align-top">
+            <td className="py-2 whitespace-nowrap">{dayjs(entry.createdAt).format("YYYY-MM-DD HH:mm:ss")}</td>
+            <td>{SOURCE_LABELS[entry.source]}</td>
+            <td title={entry.userEmail ?? undefined}>{entry.userName ?? "—"}</td>
+            <td>{describeCommand(entry.command)}</td>
+            <td>
+              <Badge className={entry.success ? "bg-green-500 text-white" : "bg-red-500 text-white"}>
+                {entry.success ? "OK" : "FAILED"}
+              </Badge>
+              <span className={`ml-2 text-xs break-all ${entry.success ? "text-muted-foreground" : "text-red-700"}`}>
+                {entry.response}
+              </span>
+            </td>
+            <td className="text-right whitespace-nowrap">{entry.latencyMs !== null ? `${entry.latencyMs} ms` : "—"}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+export default AuditTable;
@@ -0,0 +1,190 @@
+"use client";
+
+import { Download, ScrollText } from "lucide-react";
+import React, { useCallback, useEffect, useState } from "react";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { NativeSelect } from "@/components/ui/native-select";
+import { Separator } from "@/components/ui/separator";
+import Header from "@/components/header/Header";
+import { useDevices } from "@/components/DeviceProvider/DeviceProvider";
+import { API_URL, apiFetch } from "@/lib/api";
+import { AuditFilters, AuditPage, auditQuery, CommandSource, SOURCE_LABELS } from "@/lib/audit";
+import { ACTUATOR_LABELS } from "@/lib/devices";
+import AuditTable from "./_components/AuditTable";
+
+const PAGE_SIZE = 50;
+
+const EMPTY_FILTERS: AuditFilters = { source: "", actuator: "", success: "", from: "", to: "" };
+
+const AuditPageView = () => {
+  const { deviceId } = useDevices();
+
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [audit, setAudit] = useState<AuditPage | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAudit = useCallback(async () => {
+    if (!deviceId) return;
+
+    try {
+      setAudit(await apiFetch<AuditPage>(`/api/audit?${auditQuery(deviceId, filters)}&page=${page}&pageSize=${PAGE_SIZE}`));
+      setError(null);
+    } catch (err) {
+      setError(`Failed to load audit log: ${err}`);
+    }
+  }, [deviceId, filters, page]);
+
+  useEffect(() => {
+    fetchAudit();
+  }, [fetchAudit]);
+
+  // Any filter change starts again from the first page
+  const updateFilter = <K extends keyof AuditFilters>(key: K, value: AuditFilters[K]) => {
+    setFilters((current) => ({ ...current, [key]: value }));
+    setPage(1);
+  };
+
+  const pageCount = audit ? Math.max(1, Math.ceil(audit.total / audit.pageSize)) : 1;
+
+  return (
+    <div className="min-h-screen w-full flex flex-col gap-8 items-center bg-gradient-to-br from-green-50 to-emerald-100 pb-4">
+      {/* Header */}
+      <div className="w-full px-6">
+        <Header />
+        <Separator className="my-2 h-[20px]" />
+      </div>
+
+      <section className="flex flex-col items-center gap-2 text-center">
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <ScrollText className="w-10 h-10" />
+          Audit Log
+        </h1>
+        <p>Every command sent to the greenhouse, who sent it and what the board answered</p>
+      </section>
+
+      {/* Filters */}
+      <section className="flex flex-wrap gap-4 items-end justify-center">
+        <div className="flex flex-col gap-1">
+          <label className="text-sm text-gray-600">Source</label>
+          <NativeSelect
+            value={filters.source}
+            onChange={(e) => updateFilter("source", e.target.value as AuditFilters["source"])}
+          >
+            <option value="">All</option>
+            {(Object.keys(SOURCE_LABELS) as CommandSource[]).map((source) => (
+              <option key={source} value={source}>
+                {SOURCE_LABELS[source]}
+              </option>
+            ))}
+          </NativeSelect>
+        </div>
+
+        <div className="flex flex-col gap-1">
+          <label className="text-sm text-gray-600">Actuator</label>
+          <NativeSelect
+            value={filters.actuator}
+            onChange={(e) => updateFilter("actuator", e.target.value as AuditFilters["actuator"])}
+          >
+            <option value="">All</option>
+            {(Object.keys(ACTUATOR_LABELS) as (keyof typeof ACTUATOR_LABELS)[]).map((actuator) => (
+              <option key={actuator} value={actuator}>
+                {ACTUATOR_LABELS[actuator]}
+              </option>
+            ))}
+          </NativeSelect>
+        </div>
+
+        <div className="flex flex-col gap-1">
+          <label className="text-sm text-gray-600">Result</label>
+          <NativeSelect
+            value={filters.success}
+            onChange={(e) => updateFilter("success", e.target.value as AuditFilters["success"])}
+          >
+            <option value="">All</option>
+            <option value="true">Succeeded</option>
+            <option value="false">Failed</option>
+          </NativeSelect>
+        </div>
+
+        <div className="flex flex-col gap-1">
+          <label className="text-sm text-gray-600">From</label>
+          <Input type="date" value={filters.from} onChange={(e) => updateFilter("from", e.target.value)} />
+        </div>
+
+        <div className="flex flex-col gap-1">
+          <label className="text-sm text-gray-600">To</label>
+          <Input type="date" value={filters.to} onChange={(e) => updateFilter("to", e.target.value)} />
+        </div>
+
+        <Button
+          variant="outline"
+          className="cursor-pointer"
+          onClick={() => {
+            setFilters(EMPTY_FILTERS);
+            setPage(1);
+          }}
+        >
+          Clear
+        </Button>
+
+        {deviceId && (
+          <Button asChild className="cursor-pointer">
+            <a href={`${API_URL}/api/audit/export.csv?${auditQuery(deviceId, filters)}`}>
+              <Download className="w-4 h-4" />
+              Export CSV
+            </a>
+          </Button>
+        )}
+      </section>
+
+      {/* Error Display */}
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded max-w-md text-center">
+          {error}
+        </div>
+      )}
+
+      <Card className="w-full lg:w-[80%]">
+        <CardHeader>
+          <CardTitle>Commands</CardTitle>
+          <CardDescription>
+            {audit ? `${audit.total} command${audit.total === 1 ? "" : "s"}, newest first` : "Loading..."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-4">
+          <AuditTable entries={audit?.entries ?? []} />
+
+          <div className="flex items-center justify-end gap-2 text-sm">
+            <Button
+              size="sm"
+              variant="outline"
+              className="cursor-pointer"
+              disabled={page <= 1}
+              onClick={() => setPage(page - 1)}
+            >
+              Previous
+            </Button>
+            <span>
+              Page {page} of {pageCount}
+            </span>
+            <Button
+              size="sm"
+              variant="outline"
+              className="cursor-pointer"
+              disabled={page >= pageCount}
+              onClick={() => setPage(page + 1)}
+            >
+              Next
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AuditPageView;
@@ -0,0 +1,93 @@
+import React from "react";
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { describeCommand } from "@/lib/devices";
+import { SENSOR_META } from "@/lib/sensors";
+import { AutomationRule, OPERATOR_SYMBOLS, RuleTestResult } from "@/lib/rules";
+
+interface RuleCardProps {
+  rule: AutomationRule;
+  testResult?: RuleTestResult;
+  onToggle: () => void;
+  onTest: () => void;
+  onRun: () => void;
+  onDelete: () => void;
+  // Hides the actions for users who may only look at rules
+  readOnly?: boolean;
+}
+
+const RuleCard = (props: RuleCardProps) => {
+  const { rule, testResult } = props;
+
+  return (
+    <Card className="w-80 h-fit">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          {rule.name}
+          <Badge className={rule.enabled ? "bg-green-500 text-white" : "bg-gray-500 text-white"}>
+            {rule.enabled ? (rule.active ? "ACTIVE" : "ARMED") : "DISABLED"}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-2 text-sm">
+        <span className="text-muted-foreground">
+          When {rule.match === "all" ? "all" : "any"} of:
+        </span>
+        <ul className="list-disc pl-5">
+          {rule.conditions.map((condition, index) => (
+            <li key={index}>
+              {SENSOR_META[condition.sensor].label} {OPERATOR_SYMBOLS[condition.operator]} {condition.threshold}
+              {condition.hysteresis > 0 && ` (±${condition.hysteresis})`}
+            </li>
+          ))}
+        </ul>
+        <span>
+          Then <strong>{describeCommand(rule.action)}</strong>
+          {rule.revertOnClear && ", undo when cleared"}
+        </span>
+        <span className="text-xs text-muted-foreground">
+          Min on {rule.minOnSeconds}s · min off {rule.minOffSeconds}s
+        </span>
+
+        {testResult && (
+          <div className="mt-2 p-2 rounded border bg-gray-50 text-xs space-y-1">
+            {testResult.evaluation.conditions.map((condition, index) => (
+              <div key={index} className={condition.met ? "text-green-700" : "text-gray-600"}>
+                {condition.met ? "✓" : "✗"} {SENSOR_META[condition.sensor].label} = {condition.value ?? "n/a"}
+              </div>
+            ))}
+            <div className="font-semibold">
+              {testResult.evaluation.matched ? "Conditions met" : "Conditions not met"}
+              {testResult.evaluation.heldBySeconds > 0 &&
+                ` · held for ${testResult.evaluation.heldBySeconds}s`}
+            </div>
+            {testResult.firing && (
+              <div className={testResult.firing.success ? "text-green-700" : "text-red-700"}>
+                Action {testResult.firing.success ? "sent" : "failed"}: {testResult.firing.message}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+      {!props.readOnly && (
+        <CardFooter className="flex flex-wrap gap-2">
+          <Button size="sm" variant="outline" className="cursor-pointer" onClick={props.onToggle}>
+            {rule.enabled ? "Disable" : "Enable"}
+          </Button>
+          <Button size="sm" variant="outline" className="cursor-pointer" onClick={props.onTest}>
+            Test
+          </Button>
+          <Button size="sm" variant="outline" className="cursor-pointer" onClick={props.onRun}>
+            Run action
+          </Button>
+          <Button size="sm" variant="destructive" className="cursor-pointer" onClick={props.onDelete}>
+            Delete
+          </Button>
+        </CardFooter>
+      )}
+    </Card>
+  );
+};
+
+export default RuleCard;
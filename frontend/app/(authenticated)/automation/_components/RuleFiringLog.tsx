@@ -0,0 +1,66 @@
+import React from "react";
+import dayjs from "dayjs";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { describeCommand } from "@/lib/devices";
+import { RuleFiring } from "@/lib/rules";
+
+interface RuleFiringLogProps {
+  firings: RuleFiring[];
+}
+
+const KIND_LABELS: Record<RuleFiring["kind"], string> = {
+  activate: "Triggered",
+  clear: "Cleared",
+  test: "Manual test",
+};
+
+const ResultBadge = ({ success }: Pick<RuleFiring, "success">) => {
+  if (success === null) return <Badge className="bg-yellow-500 text-white">PENDING</Badge>;
+  if (success) return <Badge className="bg-green-500 text-white">OK</Badge>;
+  return <Badge className="bg-red-500 text-white">FAILED</Badge>;
+};
+
+const RuleFiringLog = (props: RuleFiringLogProps) => {
+  return (
+    <Card className="w-full lg:w-[80%]">
+      <CardHeader>
+        <CardTitle>Firing Log</CardTitle>
+        <CardDescription>Most recent 100 actions sent by automation rules</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {props.firings.length === 0 ? (
+          <p className="text-muted-foreground text-sm">No rule has fired yet</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground border-b">
+                <th className="py-2">Time</th>
+                <th>Rule</th>
+                <th>Event</th>
+                <th>Command</th>
+                <th>Result</th>
+              </tr>
+            </thead>
+            <tbody>
+              {props.firings.map((firing) => (
+                <tr key={firing.id} className="border-b last:border-0">
+                  <td className="py-2 whitespace-nowrap">{dayjs(firing.firedAt).format("YYYY-MM-DD HH:mm:ss")}</td>
+                  <td>{firing.ruleName}</td>
+                  <td>{KIND_LABELS[firing.kind]}</td>
+                  <td>{describeCommand(firing.command)}</td>
+                  <td>
+                    <ResultBadge success={firing.success} />
+                    {firing.success === false && <span className="ml-2 text-xs text-red-700">{firing.message}</span>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RuleFiringLog;
@@ -0,0 +1,130 @@
+"use client";
+
+import { Workflow } from "lucide-react";
+import React, { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+
+import { Separator } from "@/components/ui/separator";
+import Header from "@/components/header/Header";
+import { useDevices } from "@/components/DeviceProvider/DeviceProvider";
+import RuleForm from "@/components/RuleForm/RuleForm";
+import { apiFetch } from "@/lib/api";
+import { AutomationRule, RuleFiring, RuleTestResult } from "@/lib/rules";
+import RuleCard from "./_components/RuleCard";
+import RuleFiringLog from "./_components/RuleFiringLog";
+
+const AutomationPage = () => {
+  const { deviceId, can } = useDevices();
+  const canManage = can("automation:manage");
+
+  const [rules, setRules] = useState<AutomationRule[]>([]);
+  const [firings, setFirings] = useState<RuleFiring[]>([]);
+  const [testResults, setTestResults] = useState<Record<number, RuleTestResult>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRules = useCallback(async () => {
+    if (!deviceId) return;
+
+    try {
+      const [ruleList, firingList] = await Promise.all([
+        apiFetch<AutomationRule[]>(`/api/rules?deviceId=${deviceId}`),
+        apiFetch<RuleFiring[]>(`/api/rules/firings?deviceId=${deviceId}`),
+      ]);
+      setRules(ruleList);
+      setFirings(firingList);
+      setError(null);
+    } catch (err) {
+      setError(`Failed to load rules: ${err}`);
+    }
+  }, [deviceId]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const toggleRule = async (rule: AutomationRule) => {
+    try {
+      await apiFetch<AutomationRule>(`/api/rules/${rule.id}`, {
+        method: "PATCH",
+        body: JSON.stringify({ enabled: !rule.enabled }),
+      });
+      fetchRules();
+    } catch (err) {
+      toast("Could not update rule", { description: String(err) });
+    }
+  };
+
+  const testRule = async (rule: AutomationRule, execute: boolean) => {
+    try {
+      const result = await apiFetch<RuleTestResult>(`/api/rules/${rule.id}/test`, {
+        method: "POST",
+        body: JSON.stringify({ execute }),
+      });
+      setTestResults((current) => ({ ...current, [rule.id]: result }));
+      if (execute) fetchRules();
+    } catch (err) {
+      toast("Rule test failed", { description: String(err) });
+    }
+  };
+
+  const deleteRule = async (rule: AutomationRule) => {
+    if (!confirm(`Delete rule "${rule.name}"?`)) return;
+
+    try {
+      await apiFetch(`/api/rules/${rule.id}`, { method: "DELETE" });
+      fetchRules();
+    } catch (err) {
+      toast("Could not delete rule", { description: String(err) });
+    }
+  };
+
+  return (
+    <div className="min-h-screen w-full flex flex-col gap-8 items-center bg-gradient-to-br from-green-50 to-emerald-100 pb-4">
+      {/* Header */}
+      <div className="w-full px-6">
+        <Header />
+        <Separator className="my-2 h-[20px]" />
+      </div>
+
+      <section className="flex flex-col items-center gap-2 text-center">
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <Workflow className="w-10 h-10" />
+          Automation Rules
+        </h1>
+        <p>Let sensor readings drive your actuators</p>
+      </section>
+
+      {/* Error Display */}
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded max-w-md text-center">
+          {error}
+        </div>
+      )}
+
+      {/* Rules */}
+      <section className="flex flex-wrap gap-4 w-full lg:w-[80%] justify-center">
+        {rules.length === 0 && <p className="text-muted-foreground">No rules yet, create one below.</p>}
+        {rules.map((rule) => (
+          <RuleCard
+            key={rule.id}
+            rule={rule}
+            testResult={testResults[rule.id]}
+            onToggle={() => toggleRule(rule)}
+            onTest={() => testRule(rule, false)}
+            onRun={() => testRule(rule, true)}
+            onDelete={() => deleteRule(rule)}
+            readOnly={!canManage}
+          />
+        ))}
+      </section>
+
+      <section className="w-full lg:w-[80%]">
+        {deviceId && canManage && <RuleForm deviceId={deviceId} onCreated={fetchRules} />}
+      </section>
+
+      <RuleFiringLog firings={firings} />
+    </div>
+  );
+};
+
+export default AutomationPage;
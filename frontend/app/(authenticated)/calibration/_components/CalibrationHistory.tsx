@@ -0,0 +1,66 @@
+import React from "react";
+import dayjs from "dayjs";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { CALIBRATION_LABELS, SensorCalibration } from "@/lib/calibration";
+
+interface CalibrationHistoryProps {
+  history: SensorCalibration[];
+  // Omitted for users who may not change calibrations
+  onActivate?: (calibration: SensorCalibration) => void;
+}
+
+const CalibrationHistory = ({ history, onActivate }: CalibrationHistoryProps) => {
+  if (history.length === 0) {
+    return <p className="text-muted-foreground text-sm">No calibrations recorded for this greenhouse yet</p>;
+  }
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-muted-foreground border-b">
+          <th className="py-2">Date</th>
+          <th>Sensor</th>
+          <th>Points (reference ← raw)</th>
+          <th>Slope</th>
+          <th>Offset</th>
+          <th>Status</th>
+          {onActivate && <th />}
+        </tr>
+      </thead>
+      <tbody>
+        {history.map((calibration) => (
+          <tr key={calibration.id} className="border-b last:border-0 align-top">
+            <td className="py-2 whitespace-nowrap">{dayjs(calibration.createdAt).format("YYYY-MM-DD HH:mm")}</td>
+            <td>{CALIBRATION_LABELS[calibration.sensor]}</td>
+            <td>
+              {calibration.points.map((point) => `${point.reference} ← ${Math.round(point.raw)}`).join(", ")}
+            </td>
+            <td>{calibration.slope.toPrecision(4)}</td>
+            <td>{calibration.offset.toPrecision(4)}</td>
+            <td>
+              {calibration.active ? (
+                <Badge className="bg-green-500 text-white">ACTIVE</Badge>
+              ) : (
+                <span className="text-xs text-muted-foreground">
+                  {calibration.retiredAt ? `Retired ${dayjs(calibration.retiredAt).format("YYYY-MM-DD")}` : "Retired"}
+                </span>
+              )}
+            </td>
+            {onActivate && (
+              <td className="text-right">
+                {!calibration.active && (
+                  <Button size="sm" variant="outline" className="cursor-pointer" onClick={() => onActivate(calibration)}>
+                    Restore
+                  </Button>
+                )}
+              </td>
+            )}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+export default CalibrationHistory;
@@ -0,0 +1,227 @@
+"use client";
+import React, { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { apiFetch } from "@/lib/api";
+import {
+  CALIBRATION_LABELS,
+  CALIBRATION_STEPS,
+  CalibratedSensor,
+  CalibrationFit,
+  CalibrationPoint,
+  MAX_RESIDUAL_WARNING,
+  RawReading,
+  SensorCalibration,
+} from "@/lib/calibration";
+import { SENSOR_META } from "@/lib/sensors";
+
+interface CalibrationWizardProps {
+  deviceId: string;
+  sensor: CalibratedSensor;
+  onSaved: (calibration: SensorCalibration) => void;
+  onCancel: () => void;
+}
+
+interface CapturedPoint {
+  reference: string;
+  reading: RawReading | null;
+}
+
+/*
+ * Guided two- or three-point calibration: the probe goes into one reference after the
+ * other, the backend averages a few raw readings for each, and the fitted line is shown
+ * for review before it replaces the active calibration.
+ */
+const CalibrationWizard = ({ deviceId, sensor, onSaved, onCancel }: CalibrationWizardProps) => {
+  const steps = CALIBRATION_STEPS[sensor];
+  const meta = SENSOR_META[sensor];
+
+  const [pointCount, setPointCount] = useState<2 | 3 | null>(null);
+  const [points, setPoints] = useState<CapturedPoint[]>(
+    steps.map((step) => ({ reference: String(step.reference), reading: null }))
+  );
+  const [stepIndex, setStepIndex] = useState(0);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [fit, setFit] = useState<CalibrationFit | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const chosen = pointCount ? points.slice(0, pointCount) : [];
+  const toRequest = (): CalibrationPoint[] =>
+    chosen.map((point) => ({ raw: point.reading!.raw, reference: Number(point.reference) }));
+
+  const updatePoint = (index: number, update: Partial<CapturedPoint>) =>
+    setPoints((current) => current.map((point, i) => (i === index ? { ...point, ...update } : point)));
+
+  const capture = async () => {
+    setIsCapturing(true);
+    try {
+      const reading = await apiFetch<RawReading>(`/api/calibrations/raw?deviceId=${deviceId}&sensor=${sensor}`);
+      updatePoint(stepIndex, { reading });
+    } catch (err) {
+      toast("Could not read the sensor", { description: String(err) });
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  const next = async () => {
+    if (stepIndex < chosen.length - 1) {
+      setStepIndex(stepIndex + 1);
+      return;
+    }
+
+    try {
+      setFit(
+        await apiFetch<CalibrationFit>("/api/calibrations/fit", {
+          method: "POST",
+          body: JSON.stringify({ deviceId, sensor, points: toRequest() }),
+        })
+      );
+    } catch (err) {
+      toast("These points do not make a calibration", { description: String(err) });
+    }
+  };
+
+  const save = async () => {
+    setIsSaving(true);
+    try {
+      const calibration = await apiFetch<SensorCalibration>("/api/calibrations", {
+        method: "POST",
+        body: JSON.stringify({ deviceId, sensor, points: toRequest() }),
+      });
+      toast(`${CALIBRATION_LABELS[sensor]} calibrated`);
+      onSaved(calibration);
+    } catch (err) {
+      toast("Could not save calibration", { description: String(err) });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const current = chosen[stepIndex];
+  const referenceValid = current && current.reference.trim() !== "" && !Number.isNaN(Number(current.reference));
+  const spread = current?.reading ? Math.max(...current.reading.samples) - Math.min(...current.reading.samples) : 0;
+
+  return (
+    <Card className="w-full max-w-lg">
+      <CardHeader>
+        <CardTitle>Calibrate {CALIBRATION_LABELS[sensor]}</CardTitle>
+        <CardDescription>
+          {!pointCount
+            ? "How many reference points do you have?"
+            : fit
+              ? "Review the result before it replaces the current calibration"
+              : `Step ${stepIndex + 1} of ${pointCount}: ${steps[stepIndex].label}`}
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="flex flex-col gap-4 text-sm">
+        {!pointCount && (
+          <div className="flex gap-2">
+            <Button variant="outline" className="cursor-pointer" onClick={() => setPointCount(2)}>
+              Two points
+            </Button>
+            <Button variant="outline" className="cursor-pointer" onClick={() => setPointCount(3)}>
+              Three points
+            </Button>
+          </div>
+        )}
+
+        {pointCount && !fit && current && (
+          <>
+            <p>{steps[stepIndex].instructions} Wait until the reading settles, then capture it.</p>
+            <label className="flex flex-col gap-1">
+              <span className="text-muted-foreground">
+                Reference value{meta.unit && ` (${meta.unit})`}, as printed on the solution or shown by the meter
+              </span>
+              <Input
+                type="number"
+                step="any"
+                value={current.reference}
+                onChange={(e) => updatePoint(stepIndex, { reference: e.target.value })}
+              />
+            </label>
+            <div className="flex items-center gap-4">
+              <Button className="cursor-pointer" onClick={capture} disabled={isCapturing}>
+                {isCapturing ? "Reading..." : current.reading ? "Capture again" : "Capture reading"}
+              </Button>
+              {current.reading && (
+                <span>
+                  Raw <span className="font-semibold">{current.reading.raw.toFixed(1)}</span>
+                  <span className="text-muted-foreground"> (±{(spread / 2).toFixed(1)} over {current.reading.samples.length} samples)</span>
+                </span>
+              )}
+            </div>
+            {spread > 20 && (
+              <p className="text-yellow-800">The reading is still moving, give the probe a bit longer and capture again.</p>
+            )}
+          </>
+        )}
+
+        {fit && pointCount && (
+          <>
+            <table className="w-full">
+              <thead>
+                <tr className="text-left text-muted-foreground border-b">
+                  <th className="py-1">Reference</th>
+                  <th>Raw</th>
+                  <th className="text-right">Fitted</th>
+                </tr>
+              </thead>
+              <tbody>
+                {toRequest().map((point) => (
+                  <tr key={point.reference} className="border-b last:border-0">
+                    <td className="py-1">{point.reference}</td>
+                    <td>{point.raw.toFixed(1)}</td>
+                    <td className="text-right">{(fit.slope * point.raw + fit.offset).toFixed(meta.decimals)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p>
+              value = {fit.slope.toPrecision(4)} × raw {fit.offset >= 0 ? "+" : "−"} {Math.abs(fit.offset).toPrecision(4)}
+            </p>
+            {fit.maxResidual > MAX_RESIDUAL_WARNING[sensor] && (
+              <p className="text-yellow-800">
+                The points are off the line by up to {fit.maxResidual.toFixed(meta.decimals || 1)}. Check that each
+                reference was entered correctly and that no solution is contaminated.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <CardFooter className="flex justify-between gap-2">
+        <Button variant="outline" className="cursor-pointer" onClick={onCancel}>
+          Cancel
+        </Button>
+        {pointCount && !fit && (
+          <div className="flex gap-2">
+            {stepIndex > 0 && (
+              <Button variant="outline" className="cursor-pointer" onClick={() => setStepIndex(stepIndex - 1)}>
+                Back
+              </Button>
+            )}
+            <Button className="cursor-pointer" onClick={next} disabled={!current?.reading || !referenceValid}>
+              {stepIndex < pointCount - 1 ? "Next" : "Review"}
+            </Button>
+          </div>
+        )}
+        {fit && (
+          <div className="flex gap-2">
+            <Button variant="outline" className="cursor-pointer" onClick={() => setFit(null)}>
+              Back
+            </Button>
+            <Button className="cursor-pointer" onClick={save} disabled={isSaving}>
+              {isSaving ? "Saving..." : "Save calibration"}
+            </Button>
+          </div>
+        )}
+      </CardFooter>
+    </Card>
+  );
+};
+
+export default CalibrationWizard;
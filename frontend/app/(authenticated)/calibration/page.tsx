@@ -0,0 +1,161 @@
+"use client";
+
+import { FlaskConical } from "lucide-react";
+import React, { useCallback, useEffect, useState } from "react";
+import dayjs from "dayjs";
+import { toast } from "sonner";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import Header from "@/components/header/Header";
+import { useDevices } from "@/components/DeviceProvider/DeviceProvider";
+import { apiFetch } from "@/lib/api";
+import {
+  CALIBRATED_SENSORS,
+  CALIBRATION_LABELS,
+  CalibratedSensor,
+  CalibrationOverview,
+  SensorCalibration,
+} from "@/lib/calibration";
+import CalibrationHistory from "./_components/CalibrationHistory";
+import CalibrationWizard from "./_components/CalibrationWizard";
+
+const CalibrationPage = () => {
+  const { deviceId, hasCapability, can } = useDevices();
+  const canManage = can("calibration:manage");
+
+  const [overview, setOverview] = useState<CalibrationOverview | null>(null);
+  const [wizardSensor, setWizardSensor] = useState<CalibratedSensor | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchCalibrations = useCallback(async () => {
+    if (!deviceId) return;
+
+    try {
+      setOverview(await apiFetch<CalibrationOverview>(`/api/calibrations?deviceId=${deviceId}`));
+      setError(null);
+    } catch (err) {
+      setError(`Failed to load calibrations: ${err}`);
+    }
+  }, [deviceId]);
+
+  useEffect(() => {
+    setWizardSensor(null);
+    fetchCalibrations();
+  }, [fetchCalibrations]);
+
+  const activate = async (calibration: SensorCalibration) => {
+    try {
+      await apiFetch<SensorCalibration>(`/api/calibrations/${calibration.id}/activate`, { method: "POST" });
+      fetchCalibrations();
+    } catch (err) {
+      toast("Could not restore calibration", { description: String(err) });
+    }
+  };
+
+  const reset = async (sensor: CalibratedSensor) => {
+    if (!confirm(`Show raw ADC readings for the ${CALIBRATION_LABELS[sensor]} until it is calibrated again?`)) return;
+
+    try {
+      await apiFetch(`/api/calibrations/active?deviceId=${deviceId}&sensor=${sensor}`, { method: "DELETE" });
+      fetchCalibrations();
+    } catch (err) {
+      toast("Could not reset calibration", { description: String(err) });
+    }
+  };
+
+  return (
+    <div className="min-h-screen w-full flex flex-col gap-8 items-center bg-gradient-to-br from-green-50 to-emerald-100 pb-4">
+      {/* Header */}
+      <div className="w-full px-6">
+        <Header />
+        <Separator className="my-2 h-[20px]" />
+      </div>
+
+      <section className="flex flex-col items-center gap-2 text-center">
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <FlaskConical className="w-10 h-10" />
+          Calibration
+        </h1>
+        <p>Turn the analog probes&apos; raw readings into pH and ppm</p>
+      </section>
+
+      {/* Error Display */}
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded max-w-md text-center">
+          {error}
+        </div>
+      )}
+
+      {deviceId && wizardSensor && (
+        <CalibrationWizard
+          key={wizardSensor}
+          deviceId={deviceId}
+          sensor={wizardSensor}
+          onSaved={() => {
+            setWizardSensor(null);
+            fetchCalibrations();
+          }}
+          onCancel={() => setWizardSensor(null)}
+        />
+      )}
+
+      {/* Current calibrations */}
+      <section className="flex flex-wrap gap-4 justify-center">
+        {CALIBRATED_SENSORS.filter((sensor) => hasCapability(sensor)).map((sensor) => {
+          const active = overview?.active[sensor];
+
+          return (
+            <Card key={sensor} className="w-80 h-fit">
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between gap-2">
+                  {CALIBRATION_LABELS[sensor]}
+                  <Badge className={active ? "bg-green-500 text-white" : "bg-yellow-500 text-white"}>
+                    {active ? "CALIBRATED" : "RAW"}
+                  </Badge>
+                </CardTitle>
+                <CardDescription>
+                  {active
+                    ? `${active.points.length}-point calibration from ${dayjs(active.createdAt).format("YYYY-MM-DD")}`
+                    : "Readings are raw ADC counts (0-4095)"}
+                </CardDescription>
+              </CardHeader>
+              {active && (
+                <CardContent className="text-sm">
+                  value = {active.slope.toPrecision(4)} × raw {active.offset >= 0 ? "+" : "−"}{" "}
+                  {Math.abs(active.offset).toPrecision(4)}
+                </CardContent>
+              )}
+              {canManage && (
+                <CardFooter className="flex flex-wrap gap-2">
+                  <Button size="sm" className="cursor-pointer" onClick={() => setWizardSensor(sensor)}>
+                    {active ? "Recalibrate" : "Calibrate"}
+                  </Button>
+                  {active && (
+                    <Button size="sm" variant="outline" className="cursor-pointer" onClick={() => reset(sensor)}>
+                      Use raw readings
+                    </Button>
+                  )}
+                </CardFooter>
+              )}
+            </Card>
+          );
+        })}
+      </section>
+
+      <Card className="w-full lg:w-[80%]">
+        <CardHeader>
+          <CardTitle>History</CardTitle>
+          <CardDescription>Every calibration taken on this greenhouse, newest first</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <CalibrationHistory history={overview?.history ?? []} onActivate={canManage ? activate : undefined} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default CalibrationPage;
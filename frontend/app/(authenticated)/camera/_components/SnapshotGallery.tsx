@@ -0,0 +1,90 @@
+import React, { useEffect } from "react";
+import dayjs from "dayjs";
+import { X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Snapshot, SNAPSHOT_SOURCE_LABELS, snapshotImageUrl } from "@/lib/camera";
+
+interface SnapshotGalleryProps {
+  snapshots: Snapshot[];
+  selected: Snapshot | null;
+  onSelect: (snapshot: Snapshot | null) => void;
+  // Omitted for users who may not delete pictures
+  onDelete?: (snapshot: Snapshot) => void;
+}
+
+const formatSize = (bytes: number) => `${Math.round(bytes / 1024)} KB`;
+
+const SnapshotGallery = ({ snapshots, selected, onSelect, onDelete }: SnapshotGalleryProps) => {
+  // Escape closes the enlarged picture
+  useEffect(() => {
+    if (!selected) return;
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onSelect(null);
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [selected, onSelect]);
+
+  if (snapshots.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-8">No pictures in this range</p>;
+  }
+
+  return (
+    <>
+      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3">
+        {snapshots.map((snapshot) => (
+          <button
+            key={snapshot.id}
+            className="group flex flex-col gap-1 text-left cursor-pointer"
+            onClick={() => onSelect(snapshot)}
+          >
+            <img
+              src={snapshotImageUrl(snapshot)}
+              alt={`Plant camera ${dayjs(snapshot.capturedAt).format("YYYY-MM-DD HH:mm")}`}
+              loading="lazy"
+              className="aspect-video w-full rounded-md bg-gray-900 object-cover group-hover:opacity-90"
+            />
+            <span className="text-xs text-muted-foreground">{dayjs(snapshot.capturedAt).format("YYYY-MM-DD HH:mm:ss")}</span>
+          </button>
+        ))}
+      </div>
+
+      {selected && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 p-6" onClick={() => onSelect(null)}>
+          <div className="flex max-h-full max-w-5xl flex-col gap-3" onClick={(e) => e.stopPropagation()}>
+            <img src={snapshotImageUrl(selected)} alt="Plant camera snapshot" className="max-h-[80vh] rounded-md object-contain" />
+            <div className="flex flex-wrap items-center gap-3 text-sm text-white">
+              <span>{dayjs(selected.capturedAt).format("YYYY-MM-DD HH:mm:ss")}</span>
+              <Badge variant="secondary">{SNAPSHOT_SOURCE_LABELS[selected.source]}</Badge>
+              {selected.width && selected.height && (
+                <span>
+                  {selected.width}×{selected.height}
+                </span>
+              )}
+              <span>{formatSize(selected.sizeBytes)}</span>
+              <div className="ml-auto flex gap-2">
+                <Button asChild size="sm" variant="secondary" className="cursor-pointer">
+                  <a href={snapshotImageUrl(selected)} download={selected.fileName.split("/").pop()}>
+                    Download
+                  </a>
+                </Button>
+                {onDelete && (
+                  <Button size="sm" variant="destructive" className="cursor-pointer" onClick={() => onDelete(selected)}>
+                    Delete
+                  </Button>
+                )}
+                <Button size="sm" variant="secondary" className="cursor-pointer" onClick={() => onSelect(null)} aria-label="Close">
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default SnapshotGallery;
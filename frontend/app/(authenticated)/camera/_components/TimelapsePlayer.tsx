@@ -0,0 +1,112 @@
+import React, { useState } from "react";
+import dayjs from "dayjs";
+import { Download, Film, Play } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { NativeSelect } from "@/components/ui/native-select";
+import { TimelapseOptions, timelapseUrl } from "@/lib/camera";
+
+interface TimelapsePlayerProps {
+  deviceId: string;
+}
+
+const FPS_OPTIONS = [2, 5, 10, 20, 30];
+
+const DATETIME_FORMAT = "YYYY-MM-DDTHH:mm";
+
+const TimelapsePlayer = ({ deviceId }: TimelapsePlayerProps) => {
+  const [options, setOptions] = useState<TimelapseOptions>(() => ({
+    from: dayjs().subtract(1, "day").format(DATETIME_FORMAT),
+    to: dayjs().format(DATETIME_FORMAT),
+    fps: 10,
+  }));
+  // Changing the src restarts the stream, so it only changes when Play is pressed
+  const [playing, setPlaying] = useState<string | null>(null);
+
+  const isValid = !!options.from && !!options.to && dayjs(options.from).isBefore(dayjs(options.to));
+
+  return (
+    <Card className="w-full lg:w-[80%]">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Film className="w-5 h-5" /> Time-lapse
+        </CardTitle>
+        <CardDescription>Plays the stored pictures between two dates, long ranges are thinned out to 300 frames</CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="flex flex-col gap-1">
+            <Label htmlFor="timelapse-from">From</Label>
+            <Input
+              id="timelapse-from"
+              type="datetime-local"
+              value={options.from}
+              onChange={(e) => setOptions({ ...options, from: e.target.value })}
+            />
+          </div>
+          <div className="flex flex-col gap-1">
+            <Label htmlFor="timelapse-to">To</Label>
+            <Input
+              id="timelapse-to"
+              type="datetime-local"
+              value={options.to}
+              onChange={(e) => setOptions({ ...options, to: e.target.value })}
+            />
+          </div>
+          <div className="flex flex-col gap-1">
+            <Label htmlFor="timelapse-fps">Speed</Label>
+            <NativeSelect
+              id="timelapse-fps"
+              value={options.fps}
+              onChange={(e) => setOptions({ ...options, fps: Number(e.target.value) })}
+            >
+              {FPS_OPTIONS.map((fps) => (
+                <option key={fps} value={fps}>
+                  {fps} frames/s
+                </option>
+              ))}
+            </NativeSelect>
+          </div>
+          <Button
+            className="cursor-pointer"
+            disabled={!isValid}
+            // The timestamp makes a second Play restart the same range
+            onClick={() => setPlaying(`${timelapseUrl(deviceId, options)}&t=${Date.now()}`)}
+          >
+            <Play className="w-4 h-4" />
+            Play
+          </Button>
+          {isValid && (
+            <Button asChild variant="outline" className="cursor-pointer">
+              <a href={timelapseUrl(deviceId, { ...options, download: true })}>
+                <Download className="w-4 h-4" />
+                Download .mjpeg
+              </a>
+            </Button>
+          )}
+        </div>
+
+        <div className="aspect-video w-full rounded-lg bg-gray-900 flex items-center justify-center overflow-hidden">
+          {playing ? (
+            <img
+              src={playing}
+              alt="Time-lapse"
+              className="w-full h-full object-contain"
+              onError={() => {
+                setPlaying(null);
+                toast("No time-lapse to play", { description: "There are no pictures in this range" });
+              }}
+            />
+          ) : (
+            <span className="text-sm text-white">Pick a range and press Play</span>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TimelapsePlayer;
@@ -0,0 +1,180 @@
+"use client";
+
+import { Camera, Images } from "lucide-react";
+import React, { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Separator } from "@/components/ui/separator";
+import Header from "@/components/header/Header";
+import { useDevices } from "@/components/DeviceProvider/DeviceProvider";
+import { apiFetch } from "@/lib/api";
+import { Snapshot, SnapshotPage } from "@/lib/camera";
+import SnapshotGallery from "./_components/SnapshotGallery";
+import TimelapsePlayer from "./_components/TimelapsePlayer";
+
+const PAGE_SIZE = 24;
+
+const CameraPageView = () => {
+  const { deviceId, device, hasCapability, can } = useDevices();
+
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [page, setPage] = useState(1);
+  const [gallery, setGallery] = useState<SnapshotPage | null>(null);
+  const [selected, setSelected] = useState<Snapshot | null>(null);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchGallery = useCallback(async () => {
+    if (!deviceId) return;
+
+    const params = new URLSearchParams({ deviceId, page: String(page), pageSize: String(PAGE_SIZE) });
+    if (from) params.set("from", new Date(`${from}T00:00:00`).toISOString());
+    if (to) params.set("to", new Date(`${to}T23:59:59.999`).toISOString());
+
+    try {
+      setGallery(await apiFetch<SnapshotPage>(`/api/camera/snapshots?${params}`));
+      setError(null);
+    } catch (err) {
+      setError(`Failed to load pictures: ${err}`);
+    }
+  }, [deviceId, from, to, page]);
+
+  useEffect(() => {
+    fetchGallery();
+  }, [fetchGallery]);
+
+  const captureNow = async () => {
+    if (!deviceId) return;
+
+    setIsCapturing(true);
+    try {
+      await apiFetch<Snapshot>("/api/camera/snapshots", { method: "POST", body: JSON.stringify({ deviceId }) });
+      setPage(1);
+      await fetchGallery();
+    } catch (err) {
+      toast("Could not take a picture", { description: String(err) });
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  const deleteSnapshot = async (snapshot: Snapshot) => {
+    if (!confirm("Delete this picture? It also disappears from time-lapses.")) return;
+
+    try {
+      await apiFetch(`/api/camera/snapshots/${snapshot.id}`, { method: "DELETE" });
+      setSelected(null);
+      await fetchGallery();
+    } catch (err) {
+      toast("Could not delete the picture", { description: String(err) });
+    }
+  };
+
+  const pageCount = gallery ? Math.max(1, Math.ceil(gallery.total / gallery.pageSize)) : 1;
+  const canCapture = hasCapability("camera") && !!device?.cameraUrl && can("devices:control");
+
+  return (
+    <div className="min-h-screen w-full flex flex-col gap-8 items-center bg-gradient-to-br from-green-50 to-emerald-100 pb-4">
+      {/* Header */}
+      <div className="w-full px-6">
+        <Header />
+        <Separator className="my-2 h-[20px]" />
+      </div>
+
+      <section className="flex flex-col items-center gap-2 text-center">
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <Images className="w-10 h-10" />
+          Camera Gallery
+        </h1>
+        <p>Pictures the plant camera took over time, and time-lapses made from them</p>
+      </section>
+
+      {/* Error Display */}
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded max-w-md text-center">
+          {error}
+        </div>
+      )}
+
+      {deviceId && <TimelapsePlayer deviceId={deviceId} />}
+
+      <Card className="w-full lg:w-[80%]">
+        <CardHeader>
+          <CardTitle>Pictures</CardTitle>
+          <CardDescription>
+            {gallery ? `${gallery.total} picture${gallery.total === 1 ? "" : "s"}, newest first` : "Loading..."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="flex flex-col gap-1">
+              <label className="text-sm text-gray-600">From</label>
+              <Input
+                type="date"
+                value={from}
+                onChange={(e) => {
+                  setFrom(e.target.value);
+                  setPage(1);
+                }}
+              />
+            </div>
+            <div className="flex flex-col gap-1">
+              <label className="text-sm text-gray-600">To</label>
+              <Input
+                type="date"
+                value={to}
+                onChange={(e) => {
+                  setTo(e.target.value);
+                  setPage(1);
+                }}
+              />
+            </div>
+            {canCapture && (
+              <Button className="cursor-pointer ml-auto" disabled={isCapturing} onClick={captureNow}>
+                <Camera className="w-4 h-4" />
+                {isCapturing ? "Taking picture..." : "Take picture now"}
+              </Button>
+            )}
+          </div>
+
+          <SnapshotGallery
+            snapshots={gallery?.snapshots ?? []}
+            selected={selected}
+            onSelect={setSelected}
+            onDelete={can("devices:manage") ? deleteSnapshot : undefined}
+          />
+
+          <div className="flex items-center justify-end gap-2 text-sm">
+            <Button
+              size="sm"
+              variant="outline"
+              className="cursor-pointer"
+              disabled={page <= 1}
+              onClick={() => setPage(page - 1)}
+            >
+              Previous
+            </Button>
+            <span>
+              Page {page} of {pageCount}
+            </span>
+            <Button
+              size="sm"
+              variant="outline"
+              className="cursor-pointer"
+              disabled={page >= pageCount}
+              onClick={() => setPage(page + 1)}
+            >
+              Next
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default CameraPageView;
@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from "react";
+import dayjs from "dayjs";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { NativeSelect } from "@/components/ui/native-select";
+import { apiFetch } from "@/lib/api";
+import { ActiveCrop, ActiveCropResponse, CropProfile } from "@/lib/crops";
+
+interface ActiveCropCardProps {
+  deviceId: string;
+  deviceName: string;
+  crop: ActiveCrop | null;
+  profiles: CropProfile[];
+  // Owners and operators may plant a crop
+  canAssign: boolean;
+  onChanged: () => void;
+}
+
+// Each stage's start date, following the stage lengths from the planting date
+const stageStarts = (profile: CropProfile, startedAt: string) => {
+  let start = dayjs(startedAt);
+  return profile.stages.map((stage) => {
+    const current = start;
+    start = start.add(stage.days, "day");
+    return current;
+  });
+};
+
+const ActiveCropCard = ({ deviceId, deviceName, crop, profiles, canAssign, onChanged }: ActiveCropCardProps) => {
+  const [profileId, setProfileId] = useState("");
+  const [startedOn, setStartedOn] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setProfileId(crop ? String(crop.profile.id) : "");
+    setStartedOn(dayjs(crop?.startedAt).format("YYYY-MM-DD"));
+  }, [crop]);
+
+  const plant = async () => {
+    setIsSaving(true);
+    try {
+      await apiFetch<ActiveCropResponse>("/api/crops/active", {
+        method: "PUT",
+        body: JSON.stringify({
+          deviceId,
+          profileId: Number(profileId),
+          startedAt: new Date(`${startedOn}T00:00:00`).toISOString(),
+        }),
+      });
+      toast("Crop saved");
+      onChanged();
+    } catch (err) {
+      toast("Could not save the crop", { description: String(err) });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const clear = async () => {
+    if (!confirm(`Remove the crop from ${deviceName}? The default ranges apply again.`)) return;
+
+    try {
+      await apiFetch(`/api/crops/active?deviceId=${deviceId}`, { method: "DELETE" });
+      onChanged();
+    } catch (err) {
+      toast("Could not remove the crop", { description: String(err) });
+    }
+  };
+
+  return (
+    <Card className="w-full lg:w-[80%]">
+      <CardHeader>
+        <CardTitle>Growing in {deviceName}</CardTitle>
+        <CardDescription>
+          {crop
+            ? `${crop.profile.name}, ${crop.stage.name.toLowerCase()} stage since ${dayjs(crop.stageStartedAt).format("MMM D")}`
+            : "No crop, the dashboard, alerts and rules use the default ranges"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4 text-sm">
+        {crop && (
+          <ol className="flex flex-col gap-2">
+            {stageStarts(crop.profile, crop.startedAt).map((start, index) => {
+              const stage = crop.profile.stages[index];
+              const isLast = index === crop.profile.stages.length - 1;
+
+              return (
+                <li key={index} className="flex items-center gap-3 border-b last:border-0 pb-2">
+                  <span className="text-xs text-muted-foreground w-28 whitespace-nowrap">
+                    {start.format("YYYY-MM-DD")}
+                  </span>
+                  <span className="font-medium">{stage.name}</span>
+                  <span className="text-muted-foreground">{isLast ? `${stage.days}+ days` : `${stage.days} days`}</span>
+                  {index === crop.stageIndex && <Badge className="bg-emerald-600 text-white ml-auto">NOW</Badge>}
+                </li>
+              );
+            })}
+          </ol>
+        )}
+
+        {canAssign && (
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="flex flex-col gap-1">
+              <label className="text-sm text-gray-600">Crop profile</label>
+              <NativeSelect value={profileId} onChange={(e) => setProfileId(e.target.value)}>
+                <option value="">Pick a profile</option>
+                {profiles.map((profile) => (
+                  <option key={profile.id} value={profile.id}>
+                    {profile.name}
+                  </option>
+                ))}
+              </NativeSelect>
+            </div>
+            <div className="flex flex-col gap-1">
+              <label className="text-sm text-gray-600">First stage started</label>
+              <Input type="date" value={startedOn} onChange={(e) => setStartedOn(e.target.value)} />
+            </div>
+            <Button className="cursor-pointer" disabled={!profileId || !startedOn || isSaving} onClick={plant}>
+              {crop ? "Update crop" : "Plant crop"}
+            </Button>
+            {crop && (
+              <Button variant="outline" className="cursor-pointer" onClick={clear}>
+                Remove crop
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ActiveCropCard;
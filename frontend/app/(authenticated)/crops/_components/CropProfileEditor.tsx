@@ -0,0 +1,191 @@
+import React, { useState } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { apiFetch } from "@/lib/api";
+import { CropProfile, CropStage } from "@/lib/crops";
+import { SENSOR_KEYS, SENSOR_META, SensorKey } from "@/lib/sensors";
+
+interface CropProfileEditorProps {
+  // Null creates a new profile
+  profile: CropProfile | null;
+  onSaved: () => void;
+  onCancel: () => void;
+}
+
+// Form fields as typed, a sensor with both bounds empty keeps the default range
+interface StageFields {
+  name: string;
+  days: string;
+  ranges: Record<SensorKey, { min: string; max: string }>;
+}
+
+const toStageFields = (stage?: CropStage): StageFields => ({
+  name: stage?.name ?? "",
+  days: stage ? String(stage.days) : "30",
+  ranges: Object.fromEntries(
+    SENSOR_KEYS.map((sensor) => {
+      const range = stage?.ranges[sensor];
+      return [sensor, { min: range ? String(range.min) : "", max: range ? String(range.max) : "" }];
+    })
+  ) as StageFields["ranges"],
+});
+
+const toStage = (fields: StageFields): CropStage => ({
+  name: fields.name.trim(),
+  days: Number(fields.days),
+  ranges: Object.fromEntries(
+    SENSOR_KEYS.filter((sensor) => fields.ranges[sensor].min !== "" || fields.ranges[sensor].max !== "").map((sensor) => [
+      sensor,
+      { min: Number(fields.ranges[sensor].min), max: Number(fields.ranges[sensor].max) },
+    ])
+  ),
+});
+
+const CropProfileEditor = ({ profile, onSaved, onCancel }: CropProfileEditorProps) => {
+  const [name, setName] = useState(profile?.name ?? "");
+  const [description, setDescription] = useState(profile?.description ?? "");
+  const [stages, setStages] = useState<StageFields[]>(profile ? profile.stages.map(toStageFields) : [toStageFields()]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const updateStage = (index: number, changes: Partial<StageFields>) =>
+    setStages((current) => current.map((stage, i) => (i === index ? { ...stage, ...changes } : stage)));
+
+  const updateRange = (index: number, sensor: SensorKey, bound: "min" | "max", value: string) =>
+    updateStage(index, {
+      ranges: { ...stages[index].ranges, [sensor]: { ...stages[index].ranges[sensor], [bound]: value } },
+    });
+
+  const save = async () => {
+    setIsSaving(true);
+    try {
+      await apiFetch<CropProfile>(profile ? `/api/crops/profiles/${profile.id}` : "/api/crops/profiles", {
+        method: profile ? "PATCH" : "POST",
+        body: JSON.stringify({
+          name,
+          description: description.trim() === "" ? null : description,
+          stages: stages.map(toStage),
+        }),
+      });
+      toast(profile ? "Crop profile saved" : "Crop profile created", { description: name });
+      onSaved();
+    } catch (err) {
+      toast("Could not save the crop profile", { description: String(err) });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="w-full lg:w-[80%]">
+      <CardHeader>
+        <CardTitle>{profile ? `Edit ${profile.name}` : "New Crop Profile"}</CardTitle>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-6 text-sm">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="flex flex-col gap-1">
+            <Label htmlFor="crop-name">Name</Label>
+            <Input id="crop-name" placeholder="Tomato" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div className="flex flex-col gap-1">
+            <Label htmlFor="crop-description">Description</Label>
+            <Input
+              id="crop-description"
+              placeholder="Optional"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {stages.map((stage, index) => (
+          <div key={index} className="flex flex-col gap-3 border rounded-md p-3">
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="flex flex-col gap-1">
+                <Label>Stage {index + 1}</Label>
+                <Input
+                  placeholder="Seedling"
+                  value={stage.name}
+                  onChange={(e) => updateStage(index, { name: e.target.value })}
+                />
+              </div>
+              <div className="flex flex-col gap-1">
+                <Label>Days</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  className="w-24"
+                  value={stage.days}
+                  onChange={(e) => updateStage(index, { days: e.target.value })}
+                />
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="cursor-pointer ml-auto"
+                disabled={stages.length === 1}
+                onClick={() => setStages((current) => current.filter((_, i) => i !== index))}
+                aria-label="Remove stage"
+              >
+                <Trash2 />
+              </Button>
+            </div>
+
+            <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+              {SENSOR_KEYS.map((sensor) => (
+                <div key={sensor} className="flex items-center gap-2">
+                  <span className="w-28">{SENSOR_META[sensor].label}</span>
+                  <Input
+                    type="number"
+                    step="any"
+                    className="w-20"
+                    placeholder={String(SENSOR_META[sensor].optimal.min)}
+                    value={stage.ranges[sensor].min}
+                    onChange={(e) => updateRange(index, sensor, "min", e.target.value)}
+                  />
+                  <span>-</span>
+                  <Input
+                    type="number"
+                    step="any"
+                    className="w-20"
+                    placeholder={String(SENSOR_META[sensor].optimal.max)}
+                    value={stage.ranges[sensor].max}
+                    onChange={(e) => updateRange(index, sensor, "max", e.target.value)}
+                  />
+                  <span className="text-muted-foreground">{SENSOR_META[sensor].unit}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+        <p className="text-xs text-muted-foreground">
+          Stages follow each other from the planting date, the last one lasts until the crop is changed. Leave a
+          sensor empty to keep its default range.
+        </p>
+
+        <div className="flex flex-wrap gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            className="cursor-pointer"
+            onClick={() => setStages((current) => [...current, toStageFields()])}
+          >
+            <Plus /> Add stage
+          </Button>
+          <Button className="cursor-pointer ml-auto" disabled={isSaving || name.trim() === ""} onClick={save}>
+            Save profile
+          </Button>
+          <Button variant="outline" className="cursor-pointer" onClick={onCancel}>
+            Cancel
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CropProfileEditor;
@@ -0,0 +1,181 @@
+"use client";
+
+import { Pencil, Plus, Sprout, Trash2 } from "lucide-react";
+import React, { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import Header from "@/components/header/Header";
+import { useDevices } from "@/components/DeviceProvider/DeviceProvider";
+import { apiFetch } from "@/lib/api";
+import { useSession } from "@/lib/authClient";
+import { CropProfile, formatRange } from "@/lib/crops";
+import { Role, roleHasPermission } from "@/lib/permissions";
+import { SENSOR_KEYS, SENSOR_META } from "@/lib/sensors";
+import ActiveCropCard from "./_components/ActiveCropCard";
+import CropProfileEditor from "./_components/CropProfileEditor";
+
+const CropsPage = () => {
+  const { device, deviceId, can, crop, refreshCrop } = useDevices();
+
+  // Profiles are shared by every greenhouse, so editing them follows the global role
+  const { data: session } = useSession();
+  const canEditProfiles = roleHasPermission(session?.user.role as Role | undefined, "automation:manage");
+
+  const [profiles, setProfiles] = useState<CropProfile[]>([]);
+  // undefined: no editor open, null: creating a new profile
+  const [editing, setEditing] = useState<CropProfile | null | undefined>(undefined);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchProfiles = useCallback(async () => {
+    try {
+      setProfiles(await apiFetch<CropProfile[]>("/api/crops/profiles"));
+      setError(null);
+    } catch (err) {
+      setError(`Failed to load crop profiles: ${err}`);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchProfiles();
+  }, [fetchProfiles]);
+
+  const deleteProfile = async (profile: CropProfile) => {
+    if (!confirm(`Delete the crop profile "${profile.name}"?`)) return;
+
+    try {
+      await apiFetch(`/api/crops/profiles/${profile.id}`, { method: "DELETE" });
+      await fetchProfiles();
+    } catch (err) {
+      toast("Could not delete the crop profile", { description: String(err) });
+    }
+  };
+
+  const afterSave = async () => {
+    setEditing(undefined);
+    await fetchProfiles();
+    // The active crop's ranges may have changed with its profile
+    await refreshCrop();
+  };
+
+  return (
+    <div className="min-h-screen w-full flex flex-col gap-8 items-center bg-gradient-to-br from-green-50 to-emerald-100 pb-4">
+      {/* Header */}
+      <div className="w-full px-6">
+        <Header />
+        <Separator className="my-2 h-[20px]" />
+      </div>
+
+      <section className="flex flex-col items-center gap-2 text-center">
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <Sprout className="w-10 h-10" />
+          Crop Profiles
+        </h1>
+        <p>Optimal ranges for each crop and growth stage, used by the dashboard, alerts and rules</p>
+      </section>
+
+      {/* Error Display */}
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded max-w-md text-center">
+          {error}
+        </div>
+      )}
+
+      {device && (
+        <ActiveCropCard
+          deviceId={device.id}
+          deviceName={device.name}
+          crop={crop}
+          profiles={profiles}
+          canAssign={!!deviceId && can("automation:manage")}
+          onChanged={refreshCrop}
+        />
+      )}
+
+      {editing !== undefined && (
+        <CropProfileEditor
+          key={editing?.id ?? "new"}
+          profile={editing}
+          onSaved={afterSave}
+          onCancel={() => setEditing(undefined)}
+        />
+      )}
+
+      {canEditProfiles && editing === undefined && (
+        <Button className="cursor-pointer" onClick={() => setEditing(null)}>
+          <Plus /> New crop profile
+        </Button>
+      )}
+
+      {profiles.map((profile) => (
+        <Card key={profile.id} className="w-full lg:w-[80%]">
+          <CardHeader className="flex flex-row items-start justify-between gap-4">
+            <div className="flex flex-col gap-1.5">
+              <CardTitle>{profile.name}</CardTitle>
+              <CardDescription>
+                {profile.description ?? `${profile.stages.length} stage${profile.stages.length === 1 ? "" : "s"}`}
+              </CardDescription>
+            </div>
+            {canEditProfiles && (
+              <div className="flex gap-1">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="cursor-pointer"
+                  onClick={() => setEditing(profile)}
+                  aria-label={`Edit ${profile.name}`}
+                >
+                  <Pencil />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="cursor-pointer"
+                  onClick={() => deleteProfile(profile)}
+                  aria-label={`Delete ${profile.name}`}
+                >
+                  <Trash2 />
+                </Button>
+              </div>
+            )}
+          </CardHeader>
+          <CardContent className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground">
+                  <th className="py-1 pr-4 font-normal">Stage</th>
+                  <th className="py-1 pr-4 font-normal">Days</th>
+                  {SENSOR_KEYS.map((sensor) => (
+                    <th key={sensor} className="py-1 pr-4 font-normal">
+                      {SENSOR_META[sensor].label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {profile.stages.map((stage, index) => (
+                  <tr key={index} className="border-t">
+                    <td className="py-1 pr-4 font-medium">{stage.name}</td>
+                    <td className="py-1 pr-4">{stage.days}</td>
+                    {SENSOR_KEYS.map((sensor) => {
+                      const range = stage.ranges[sensor];
+                      return (
+                        <td key={sensor} className={`py-1 pr-4 ${range ? "" : "text-muted-foreground"}`}>
+                          {formatRange(range ?? SENSOR_META[sensor].optimal, SENSOR_META[sensor].unit)}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+};
+
+export default CropsPage;
@@ -3,7 +3,12 @@ import { Camera } from "lucide-react";
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 
-const CameraFeed = () => {
+interface CameraFeedProps {
+  // MJPEG stream of the selected device (its registered camera URL)
+  streamUrl: string;
+}
+
+const CameraFeed = ({ streamUrl }: CameraFeedProps) => {
   const [isOnline, setIsOnline] = useState(true);
   const [currentTime, setCurrentTime] = useState("");
 
@@ -18,10 +23,10 @@ const CameraFeed = () => {
   // Check if the stream is reachable
   useEffect(() => {
     const img = new Image();
-    img.src = `${process.env.NEXT_PUBLIC_PI_STREAM_URL}?t=${Date.now()}`;
+    img.src = `${streamUrl}?t=${Date.now()}`;
     img.onload = () => setIsOnline(true);
     img.onerror = () => setIsOnline(false);
-  }, []);
+  }, [streamUrl]);
 
   return (
     <Card className="w-full lg:w-1/2 p-6 flex flex-col justify-between">
@@ -34,7 +39,7 @@ const CameraFeed = () => {
       <CardContent className="aspect-video bg-gray-900 rounded-lg flex items-center justify-center relative overflow-hidden">
         {isOnline ? (
           <img
-            src={process.env.NEXT_PUBLIC_PI_STREAM_URL}
+            src={streamUrl}
             alt="Plant Camera"
             className="w-full h-full object-cover"
           />
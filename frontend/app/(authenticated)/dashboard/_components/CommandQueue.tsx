@@ -0,0 +1,50 @@
+import React from "react";
+import dayjs from "dayjs";
+import { ListOrdered } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { SOURCE_LABELS } from "@/lib/audit";
+import { CommandStatus, QueuedCommand, describeCommand } from "@/lib/devices";
+
+interface CommandQueueProps {
+  // Newest first
+  commands: QueuedCommand[];
+}
+
+const STATUS_STYLES: Record<CommandStatus, string> = {
+  queued: "bg-gray-500 text-white",
+  sent: "bg-blue-500 text-white",
+  confirmed: "bg-green-500 text-white",
+  failed: "bg-red-500 text-white",
+};
+
+const CommandQueue = ({ commands }: CommandQueueProps) => (
+  <Card className="w-full lg:w-[60%]">
+    <CardHeader>
+      <CardTitle className="flex items-center gap-2">
+        <ListOrdered className="w-5 h-5" /> Recent Commands
+      </CardTitle>
+      <CardDescription>Sent one at a time, retried while the board is unreachable, confirmed by its next reading</CardDescription>
+    </CardHeader>
+    <CardContent>
+      <ul className="flex flex-col gap-2 text-sm">
+        {commands.map((command) => (
+          <li key={command.id} className="flex items-center gap-3 border-b last:border-0 pb-2">
+            <span className="text-xs text-muted-foreground whitespace-nowrap">
+              {dayjs(command.createdAt).format("HH:mm:ss")}
+            </span>
+            <span className="font-medium">{describeCommand(command.command)}</span>
+            <span className="text-xs text-muted-foreground">{SOURCE_LABELS[command.source]}</span>
+            <span className={`ml-auto text-xs truncate ${command.status === "failed" ? "text-red-700" : "text-muted-foreground"}`}>
+              {command.message}
+              {command.attempts > 1 && ` (attempt ${command.attempts})`}
+            </span>
+            <Badge className={STATUS_STYLES[command.status]}>{command.status.toUpperCase()}</Badge>
+          </li>
+        ))}
+      </ul>
+    </CardContent>
+  </Card>
+);
+
+export default CommandQueue;
@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from "react";
+import dayjs from "dayjs";
+import { ShieldAlert } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { apiFetch } from "@/lib/api";
+import { INTERLOCK_LABELS, InterlockOverview, InterlockSettings } from "@/lib/interlocks";
+
+interface SafetyInterlocksProps {
+  deviceId: string;
+  overview: InterlockOverview;
+  // Only owners may change the limits
+  canManage: boolean;
+  onSaved: () => void;
+}
+
+// Form fields as typed, an empty field switches a pump limit off
+interface LimitFields {
+  pumpMaxRunMinutes: string;
+  maxWaterDistance: string;
+  stepperMinPosition: string;
+  stepperMaxPosition: string;
+  stepperPosition: string;
+}
+
+const toFields = (settings: InterlockSettings): LimitFields => ({
+  pumpMaxRunMinutes: settings.pumpMaxRunSeconds === null ? "" : String(settings.pumpMaxRunSeconds / 60),
+  maxWaterDistance: settings.maxWaterDistance === null ? "" : String(settings.maxWaterDistance),
+  stepperMinPosition: String(settings.stepperMinPosition),
+  stepperMaxPosition: String(settings.stepperMaxPosition),
+  stepperPosition: String(settings.stepperPosition),
+});
+
+const optionalNumber = (value: string) => (value.trim() === "" ? null : Number(value));
+
+const SafetyInterlocks = ({ deviceId, overview, canManage, onSaved }: SafetyInterlocksProps) => {
+  const { settings, trips } = overview;
+
+  const [editing, setEditing] = useState(false);
+  const [fields, setFields] = useState<LimitFields>(toFields(settings));
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!editing) setFields(toFields(settings));
+  }, [settings, editing]);
+
+  const updateField = (key: keyof LimitFields, value: string) => setFields((current) => ({ ...current, [key]: value }));
+
+  const save = async () => {
+    const pumpMaxRunMinutes = optionalNumber(fields.pumpMaxRunMinutes);
+
+    setIsSaving(true);
+    try {
+      await apiFetch<InterlockSettings>("/api/interlocks", {
+        method: "PUT",
+        body: JSON.stringify({
+          deviceId,
+          pumpMaxRunSeconds: pumpMaxRunMinutes === null ? null : Math.round(pumpMaxRunMinutes * 60),
+          maxWaterDistance: optionalNumber(fields.maxWaterDistance),
+          stepperMinPosition: Number(fields.stepperMinPosition),
+          stepperMaxPosition: Number(fields.stepperMaxPosition),
+          stepperPosition: Number(fields.stepperPosition),
+        }),
+      });
+      setEditing(false);
+      onSaved();
+    } catch (err) {
+      toast("Could not save safety limits", { description: String(err) });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="w-full lg:w-[60%]">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldAlert className="w-5 h-5" /> Safety Interlocks
+        </CardTitle>
+        <CardDescription>Checked by the backend for every command, whoever sends it</CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4 text-sm">
+        {editing ? (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div className="flex flex-col gap-1">
+              <Label htmlFor="pump-max-run">Max pump run (min)</Label>
+              <Input
+                id="pump-max-run"
+                type="number"
+                placeholder="No limit"
+                value={fields.pumpMaxRunMinutes}
+                onChange={(e) => updateField("pumpMaxRunMinutes", e.target.value)}
+              />
+            </div>
+            <div className="flex flex-col gap-1">
+              <Label htmlFor="max-water-distance">Empty tank above (cm to the water)</Label>
+              <Input
+                id="max-water-distance"
+                type="number"
+                placeholder="Off"
+                value={fields.maxWaterDistance}
+                onChange={(e) => updateField("maxWaterDistance", e.target.value)}
+              />
+            </div>
+            <div className="flex flex-col gap-1">
+              <Label htmlFor="stepper-min">Vent minimum (mm)</Label>
+              <Input
+                id="stepper-min"
+                type="number"
+                value={fields.stepperMinPosition}
+                onChange={(e) => updateField("stepperMinPosition", e.target.value)}
+              />
+            </div>
+            <div className="flex flex-col gap-1">
+              <Label htmlFor="stepper-max">Vent maximum (mm)</Label>
+              <Input
+                id="stepper-max"
+                type="number"
+                value={fields.stepperMaxPosition}
+                onChange={(e) => updateField("stepperMaxPosition", e.target.value)}
+              />
+            </div>
+            <div className="flex flex-col gap-1">
+              <Label htmlFor="stepper-position">Vent is currently at (mm)</Label>
+              <Input
+                id="stepper-position"
+                type="number"
+                value={fields.stepperPosition}
+                onChange={(e) => updateField("stepperPosition", e.target.value)}
+              />
+              <span className="text-xs text-muted-foreground">Correct this after moving the vent by hand</span>
+            </div>
+            <div className="flex items-end gap-2">
+              <Button className="cursor-pointer" disabled={isSaving} onClick={save}>
+                Save
+              </Button>
+              <Button variant="outline" className="cursor-pointer" onClick={() => setEditing(false)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex flex-wrap items-center gap-x-6 gap-y-2">
+            <span>
+              Pumps off after{" "}
+              <strong>{settings.pumpMaxRunSeconds === null ? "no limit" : `${settings.pumpMaxRunSeconds / 60} min`}</strong>
+            </span>
+            <span>
+              Empty tank above <strong>{settings.maxWaterDistance === null ? "off" : `${settings.maxWaterDistance} cm`}</strong>
+            </span>
+            <span>
+              Vent at <strong>{settings.stepperPosition} mm</strong> of {settings.stepperMinPosition}-
+              {settings.stepperMaxPosition} mm
+            </span>
+            {canManage && (
+              <Button size="sm" variant="outline" className="cursor-pointer ml-auto" onClick={() => setEditing(true)}>
+                Edit limits
+              </Button>
+            )}
+          </div>
+        )}
+
+        {trips.length === 0 ? (
+          <p className="text-muted-foreground">No interlock has tripped on this greenhouse</p>
+        ) : (
+          <ul className="flex flex-col gap-2">
+            {trips.map((trip) => (
+              <li key={trip.id} className="flex items-center gap-3 border-b last:border-0 pb-2">
+                <span className="text-xs text-muted-foreground whitespace-nowrap">
+                  {dayjs(trip.createdAt).format("MM-DD HH:mm:ss")}
+                </span>
+                <Badge className={trip.action === "stopped" ? "bg-red-500 text-white" : "bg-yellow-500 text-white"}>
+                  {trip.action.toUpperCase()}
+                </Badge>
+                <span className="font-medium whitespace-nowrap">{INTERLOCK_LABELS[trip.interlock]}</span>
+                <span className="text-xs text-muted-foreground truncate">{trip.message}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SafetyInterlocks;
@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from "react";
+import dayjs from "dayjs";
+import { Wind } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { VentState } from "@/lib/devices";
+
+interface VentGaugeProps {
+  vent: VentState;
+  // Omitted for users who may not send commands
+  onSetPercent?: (percent: number) => void;
+  onHome?: () => void;
+  onZero?: () => void;
+}
+
+const PRESETS = [0, 25, 50, 75, 100];
+
+const clampPercent = (percent: number) => Math.min(100, Math.max(0, percent));
+
+const VentGauge = ({ vent, onSetPercent, onHome, onZero }: VentGaugeProps) => {
+  const [target, setTarget] = useState(Math.round(clampPercent(vent.percent)));
+
+  useEffect(() => {
+    setTarget(Math.round(clampPercent(vent.percent)));
+  }, [vent.percent]);
+
+  return (
+    <Card className="w-full lg:w-[60%]">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Wind className="w-5 h-5" /> Roof Vent
+        </CardTitle>
+        <CardDescription>
+          {vent.homedAt
+            ? `Position tracked since it was homed ${dayjs(vent.homedAt).format("YYYY-MM-DD HH:mm")}`
+            : "Not homed: the position is a guess until the vent is homed or zeroed"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4 text-sm">
+        <div className="flex items-center gap-4">
+          <div className="relative h-6 flex-1 rounded-full bg-gray-200 overflow-hidden" aria-label={`Vent ${vent.percent}% open`}>
+            <div className="h-full bg-sky-500 transition-all" style={{ width: `${clampPercent(vent.percent)}%` }} />
+          </div>
+          <span className="text-2xl font-bold w-20 text-right">{Math.round(vent.percent)}%</span>
+        </div>
+        <div className="flex justify-between text-xs text-muted-foreground">
+          <span>Closed ({vent.minPosition} mm)</span>
+          <span>{vent.position} mm</span>
+          <span>Open ({vent.maxPosition} mm)</span>
+        </div>
+
+        {onSetPercent && (
+          <>
+            <div className="flex flex-wrap gap-2">
+              {PRESETS.map((percent) => (
+                <Button key={percent} size="sm" variant="outline" className="cursor-pointer" onClick={() => onSetPercent(percent)}>
+                  {percent}%
+                </Button>
+              ))}
+            </div>
+            <div className="flex items-center gap-3">
+              <input
+                type="range"
+                min="0"
+                max="100"
+                value={target}
+                onChange={(e) => setTarget(Number(e.target.value))}
+                className="flex-1"
+                aria-label="Target vent opening"
+              />
+              <Button size="sm" className="cursor-pointer" onClick={() => onSetPercent(target)}>
+                Open to {target}%
+              </Button>
+            </div>
+          </>
+        )}
+
+        {(onHome || onZero) && (
+          <div className="flex flex-wrap items-center gap-2">
+            {onHome && (
+              <Button size="sm" variant="outline" className="cursor-pointer" onClick={onHome}>
+                Home
+              </Button>
+            )}
+            {onZero && (
+              <Button size="sm" variant="outline" className="cursor-pointer" onClick={onZero}>
+                Vent is closed now
+              </Button>
+            )}
+            <span className="text-xs text-muted-foreground">
+              Homing closes the vent against its end stop and restarts tracking from there
+            </span>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default VentGauge;
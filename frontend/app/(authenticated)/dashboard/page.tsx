@@ -19,6 +19,8 @@ import {
 } from "lucide-react";
 import React, { useCallback, useEffect, useState } from "react";
 import Image from "next/image";
+import dayjs from "dayjs";
+import { toast } from "sonner";
 
 import {
   Card,
@@ -34,47 +36,31 @@ import SensorUtilityCard from "@/components/SensorUtilityCard/SensorUilityCard";
 import ActuatorControlCard from "@/components/actuatorControlCard/ActuatorControlCard";
 import { Separator } from "@/components/ui/separator";
 import Header from "@/components/header/Header";
+import { useDevices } from "@/components/DeviceProvider/DeviceProvider";
 import CameraFeed from "./_components/CameraFeed";
+import CommandQueue from "./_components/CommandQueue";
+import SafetyInterlocks from "./_components/SafetyInterlocks";
+import VentGauge from "./_components/VentGauge";
+import { apiFetch } from "@/lib/api";
+import { getSensorStatus, SENSOR_META, SensorKey, SensorQuality } from "@/lib/sensors";
+import { formatRange } from "@/lib/crops";
+import { DeviceCommand, QueuedCommand, RelayActuator, VentState, describeCommand } from "@/lib/devices";
+import { CalibratedSensor } from "@/lib/calibration";
+import { INTERLOCK_LABELS, InterlockOverview } from "@/lib/interlocks";
+import { ActuatorStates, LiveEvent, SensorReadings, useLiveEvents } from "@/lib/liveEvents";
 
 // Constants
-const COMMAND_COOLDOWN = 1000; // 1 second between commands
 const USER_ACTION_GRACE_PERIOD = 3000; // 3 seconds after user action
-const DATA_FETCH_INTERVAL = 5000; // 5 seconds
-const STEPPER_MIN_POSITION = -3200;
-const STEPPER_MAX_POSITION = 3200;
-const STEPPER_MIN_SPEED = 100;
-const STEPPER_MAX_SPEED = 5000;
-const STEPPER_MIN_ACCELERATION = 100;
-const STEPPER_MAX_ACCELERATION = 3000;
-
-// TypeScript interfaces for API responses
-interface SensorData {
-  temperature: number;
-  humidity: number;
-  mq135: number;
-  ph: number;
-  distance: number;
-}
-
-interface DeviceResponse {
-  status: string;
-  device?: string;
-  state?: string;
-}
+const RECENT_COMMAND_LIMIT = 8;
+const UNCALIBRATED_HINT = "Raw ADC reading, calibrate the probe on the Calibration page";
 
-// New interface for ESP32 /api/status endpoint
+// Backend /api/devices/:id/status (already decoded from the ESP32 relay convention and calibrated)
 interface SystemStatus {
-  temperature?: number;
-  humidity?: number;
-  ph?: number;
-  mq135?: number;
-  distance?: number;
-  fan?: string;  // "1" or "0"
-  pump1?: string; // "1" or "0"
-  pump2?: string; // "1" or "0"
-  led?: string;   // "1" or "0"
-  stepper_enabled?: string; // "1" or "0"
-  wifiConnected?: boolean;
+  sensors: SensorReadings;
+  uncalibrated: CalibratedSensor[];
+  quality: SensorQuality;
+  actuators: ActuatorStates;
+  fetchedAt: string;
 }
 
 const Dashboard = () => {
@@ -93,66 +79,64 @@ const Dashboard = () => {
   const [isConnected, setIsConnected] = useState(false);
   const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
 
-  // Rate limiting state
-  const [lastCommandTime, setLastCommandTime] = useState<number>(0);
+  // Most recent commands and where they are in the backend's queue
+  const [commands, setCommands] = useState<QueuedCommand[]>([]);
+
+  // Safety limits, the tracked vent position and recent interlock trips
+  const [interlocks, setInterlocks] = useState<InterlockOverview | null>(null);
+  // Where the backend thinks the roof vent is
+  const [vent, setVent] = useState<VentState | null>(null);
 
   // Prevent state sync conflicts during user actions
   const [lastUserAction, setLastUserAction] = useState<number>(0)
   
-  // Get ESP32 IP from environment variable
-  const espIp = process.env.NEXT_PUBLIC_ESP_IP;
-
-  // Sensor data states
-  const [temperature, setTemperature] = useState(0);
-  const [humidity, setHumidity] = useState(0);
-  const [mq135, setMq135] = useState(0);
-  const [ph, setPh] = useState(0);
-  const [distance, setDistance] = useState(0);
-
-  // Validate sensor data ranges
-  const validateSensorData = (data: Partial<SensorData>): SensorData => {
+  const { device, deviceId, hasCapability, can, crop, optimalRange } = useDevices();
+  const canControl = can("devices:control");
+  const canManageDevice = can("devices:manage");
+
+  // The crop stage's range, the built-in one without a crop profile
+  const optimalHint = (sensor: SensorKey) =>
+    `Optimal range: ${formatRange(optimalRange(sensor), SENSOR_META[sensor].unit)}`;
+
+  // Sensor data states, null when the board sent no reading
+  const [temperature, setTemperature] = useState<number | null>(null);
+  const [humidity, setHumidity] = useState<number | null>(null);
+  const [mq135, setMq135] = useState<number | null>(null);
+  const [ph, setPh] = useState<number | null>(null);
+  const [distance, setDistance] = useState<number | null>(null);
+  // Analog sensors the backend could not convert yet, they show raw ADC counts
+  const [uncalibrated, setUncalibrated] = useState<CalibratedSensor[]>([]);
+  // The backend's data-quality flag for each reading
+  const [quality, setQuality] = useState<SensorQuality | null>(null);
+
+  // What a sensor card shows; a missing reading is a dash rather than a believable 0
+  const sensorCard = (sensor: SensorKey, value: number | null, format: (value: number) => string) => {
+    const raw = uncalibrated.includes(sensor as CalibratedSensor);
+
     return {
-      temperature: Math.max(-50, Math.min(100, data.temperature || 0)),
-      humidity: Math.max(0, Math.min(100, data.humidity || 0)),
-      mq135: Math.max(0, Math.min(1000, data.mq135 || 0)),
-      ph: Math.max(0, Math.min(14, data.ph || 0)),
-      distance: Math.max(0, Math.min(500, data.distance || 0))
+      data: value === null ? "—" : raw ? `${value} raw` : format(value),
+      status: value === null ? "No data" : raw ? "Uncalibrated" : getSensorStatus(value, optimalRange(sensor)),
+      hint: raw ? UNCALIBRATED_HINT : optimalHint(sensor),
+      quality: quality?.[sensor],
     };
   };
 
-  // Device command function for new ESP32 API (GET with query parameters)
-  const sendDeviceCommand = async (device: string, state: boolean): Promise<boolean> => {
-    // Rate limiting check
-    const now = Date.now();
-    if (now - lastCommandTime < COMMAND_COOLDOWN) {
-      return false;
-    }
-    setLastCommandTime(now);
-    setLastUserAction(now); // Mark user action time
+  // Queue a command on the backend (the ESP32 is never called directly); it spaces and retries them
+  const postCommand = async (command: DeviceCommand) => {
+    const queued = await apiFetch<QueuedCommand>(`/api/devices/${deviceId}/commands`, {
+      method: 'POST',
+      body: JSON.stringify(command),
+    });
+    trackCommand(queued);
+    return queued;
+  };
 
-    const targetState = state ? "0" : "1";  // Inverted: UI ON sends "0" to ESP32
+  // Relay command; the switch flips right away and follows the board once it answers
+  const sendDeviceCommand = async (device: RelayActuator, state: boolean): Promise<boolean> => {
+    setLastUserAction(Date.now()); // Mark user action time
 
     try {
-      // Use new ESP32 control API with query parameters
-      const url = `http://${espIp}/api/control?${device}=${targetState}`;
-
-      const res = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'Accept': 'text/plain',
-        },
-      });
-
-      if (!res.ok) {
-        throw new Error(`HTTP ${res.status}: ${res.statusText}`);
-      }
-
-      const result = await res.text();
-
-      // ESP32 returns "OK" on success
-      if (result.trim() !== 'OK') {
-        throw new Error(`Unexpected response: ${result}`);
-      }
+      await postCommand({ actuator: device, state });
 
       // Clear any previous errors
       setError(null);
@@ -165,60 +149,156 @@ const Dashboard = () => {
     }
   };
 
-  // Enhanced system status fetching using new ESP32 API
-  const fetchSensorData = useCallback(async () => {
+  // Update device states from ESP32 (sync with actual hardware state)
+  // Only sync if no recent user action to prevent conflicts
+  const syncActuators = (actuators: ActuatorStates) => {
+    const timeSinceUserAction = Date.now() - lastUserAction;
+
+    if (timeSinceUserAction > USER_ACTION_GRACE_PERIOD) {
+      setFan(actuators.fan);
+      setPump1(actuators.pump1);
+      setPump2(actuators.pump2);
+      setLed(actuators.led);
+      setStepperEnabled(actuators.stepperEnabled);
+    }
+  };
+
+  const applyStatus = ({ sensors, uncalibrated, quality, actuators, fetchedAt }: SystemStatus) => {
+    setTemperature(sensors.temperature);
+    setHumidity(sensors.humidity);
+    setMq135(sensors.mq135);
+    setPh(sensors.ph);
+    setDistance(sensors.distance);
+    setUncalibrated(uncalibrated);
+    setQuality(quality);
+    syncActuators(actuators);
+    setLastUpdate(new Date(fetchedAt));
+  };
+
+  const trackCommand = (command: QueuedCommand) => {
+    setCommands((current) =>
+      [command, ...current.filter((c) => c.id !== command.id)]
+        .sort((a, b) => b.id - a.id)
+        .slice(0, RECENT_COMMAND_LIMIT)
+    );
+  };
+
+  // Applies a command someone (or an automation) sent, as soon as the board acknowledged it
+  const applyCommand = (command: DeviceCommand) => {
+    if (command.actuator === "stepper") {
+      if (command.action === "enable" || command.action === "disable") setStepperEnabled(command.action === "enable");
+      return;
+    }
+
+    const setters: Record<RelayActuator, (state: boolean) => void> = {
+      fan: setFan,
+      pump1: setPump1,
+      pump2: setPump2,
+      led: setLed,
+    };
+    setters[command.actuator](command.state);
+  };
+
+  // The backend is the only one polling the ESP32 and pushes every change to us
+  const handleLiveEvent = (event: LiveEvent) => {
+    switch (event.type) {
+      case "telemetry":
+        applyStatus(event);
+        setIsConnected(true);
+        break;
+      case "actuators":
+        syncActuators(event.actuators);
+        break;
+      case "command":
+        trackCommand(event);
+        // Only on the board's answer: a command confirmed later may already be superseded
+        // A superseded command is settled while still sent, its state is no longer wanted
+        if (event.status === "sent" && !event.settledAt) applyCommand(event.command);
+        // Vent moves are confirmed on the board's answer and change the tracked position
+        if (event.status === "confirmed" && event.command.actuator === "stepper") {
+          fetchVent();
+          fetchInterlocks();
+        }
+        if (event.status === "failed" && event.source === "manual") {
+          setError(`${describeCommand(event.command)} failed: ${event.message}`);
+        }
+        break;
+      case "interlock":
+        toast(`${INTERLOCK_LABELS[event.interlock]} interlock ${event.action === "stopped" ? "switched off" : "refused"} ${event.actuator}`, {
+          description: event.message,
+        });
+        fetchInterlocks();
+        break;
+      case "connection":
+        setIsConnected(event.connected);
+        setError(event.connected ? null : `${device?.name ?? "ESP32"} is offline: ${event.error}`);
+        break;
+    }
+  };
+
+  const isStreaming = useLiveEvents(deviceId, handleLiveEvent);
+
+  // Live events only carry changes, so start from what is already in the queue
+  useEffect(() => {
+    setCommands([]);
+    if (!deviceId) return;
+
+    apiFetch<QueuedCommand[]>(`/api/devices/${deviceId}/commands?limit=${RECENT_COMMAND_LIMIT}`)
+      .then((recent) => recent.forEach(trackCommand))
+      .catch((err) => setError(`Failed to load recent commands: ${err}`));
+  }, [deviceId]);
+
+  const fetchInterlocks = useCallback(async () => {
+    if (!deviceId) return;
+
+    try {
+      setInterlocks(await apiFetch<InterlockOverview>(`/api/interlocks?deviceId=${deviceId}&limit=5`));
+    } catch (err) {
+      setError(`Failed to load safety interlocks: ${err}`);
+    }
+  }, [deviceId]);
+
+  useEffect(() => {
+    setInterlocks(null);
+    fetchInterlocks();
+  }, [fetchInterlocks]);
+
+  const fetchVent = useCallback(async () => {
+    if (!deviceId) return;
+
     try {
-      const url = `http://${espIp}/api/status`;
+      setVent(await apiFetch<VentState>(`/api/devices/${deviceId}/vent`));
+    } catch (err) {
+      setError(`Failed to load the vent position: ${err}`);
+    }
+  }, [deviceId]);
 
-      const res = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'Accept': 'application/json',
-        },
-      });
+  useEffect(() => {
+    setVent(null);
+    fetchVent();
+  }, [fetchVent]);
 
-      if (!res.ok) {
-        throw new Error(`HTTP ${res.status}: ${res.statusText}`);
-      }
+  // One-off status request for the Test / Retry buttons
+  const fetchSensorData = useCallback(async () => {
+    if (!deviceId) return;
 
-      const systemStatus: SystemStatus = await res.json();
+    try {
+      const systemStatus = await apiFetch<SystemStatus>(`/api/devices/${deviceId}/status`);
 
       // Validate system status data
-      if (!systemStatus || typeof systemStatus !== 'object') {
+      if (!systemStatus?.sensors || !systemStatus?.actuators) {
         throw new Error('Invalid system status format received');
       }
 
-      // Update sensor data
-      setTemperature(systemStatus.temperature || 0);
-      setHumidity(systemStatus.humidity || 0);
-      setMq135(systemStatus.mq135 || 0);
-      setPh(systemStatus.ph || 0);
-      setDistance(systemStatus.distance || 0);
-
-      // Update device states from ESP32 (sync with actual hardware state)
-      // Only sync if no recent user action to prevent conflicts
-      const now = Date.now();
-      const timeSinceUserAction = now - lastUserAction;
-
-      if (timeSinceUserAction > USER_ACTION_GRACE_PERIOD) {
-        setFan(systemStatus.fan === "0");  // Inverted: ESP32 "0" means UI ON
-        setPump1(systemStatus.pump1 === "0");
-        setPump2(systemStatus.pump2 === "0");
-        setLed(systemStatus.led === "0");
-        setStepperEnabled(systemStatus.stepper_enabled === "1");
-      }
-
-      // Update connection status
+      applyStatus(systemStatus);
       setIsConnected(true);
       setError(null);
-      setLastUpdate(new Date());
-
     } catch (err) {
       const errorMessage = `Failed to fetch system status: ${err}`;
       setError(errorMessage);
       setIsConnected(false);
     }
-  }, [espIp, lastUserAction]);
+  }, [deviceId, lastUserAction]);
 
   // Device control functions with state management
   const toggleFan = async () => {
@@ -258,16 +338,10 @@ const Dashboard = () => {
     const newState = !stepperEnabled;
 
     try {
-      const url = `http://${espIp}/api/control?stepper_enable=${newState ? "1" : "0"}`;
-      const res = await fetch(url, { method: 'GET' });
-
-      if (res.ok) {
-        setStepperEnabled(newState);
-        setLastUserAction(Date.now());
-        setError(null);
-      } else {
-        throw new Error(`HTTP ${res.status}`);
-      }
+      await postCommand({ actuator: "stepper", action: newState ? "enable" : "disable" });
+      setStepperEnabled(newState);
+      setLastUserAction(Date.now());
+      setError(null);
     } catch (err) {
       const errorMessage = `Stepper enable error: ${err}`;
       setError(errorMessage);
@@ -280,22 +354,11 @@ const Dashboard = () => {
       return;
     }
 
-    const now = Date.now();
-    if (now - lastCommandTime < COMMAND_COOLDOWN) {
-      return;
-    }
-    setLastCommandTime(now);
-    setLastUserAction(now);
+    setLastUserAction(Date.now());
 
     try {
-      const url = `http://${espIp}/api/control?stepper_move=${moveDistance}`;
-      const res = await fetch(url, { method: 'GET' });
-
-      if (res.ok) {
-        setError(null);
-      } else {
-        throw new Error(`HTTP ${res.status}`);
-      }
+      await postCommand({ actuator: "stepper", action: "forward", distance: moveDistance });
+      setError(null);
     } catch (err) {
       const errorMessage = `Forward move error: ${err}`;
       setError(errorMessage);
@@ -308,22 +371,11 @@ const Dashboard = () => {
       return;
     }
 
-    const now = Date.now();
-    if (now - lastCommandTime < COMMAND_COOLDOWN) {
-      return;
-    }
-    setLastCommandTime(now);
-    setLastUserAction(now);
+    setLastUserAction(Date.now());
 
     try {
-      const url = `http://${espIp}/api/control?stepper_move_back=${moveDistance}`;
-      const res = await fetch(url, { method: 'GET' });
-
-      if (res.ok) {
-        setError(null);
-      } else {
-        throw new Error(`HTTP ${res.status}`);
-      }
+      await postCommand({ actuator: "stepper", action: "backward", distance: moveDistance });
+      setError(null);
     } catch (err) {
       const errorMessage = `Backward move error: ${err}`;
       setError(errorMessage);
@@ -331,6 +383,38 @@ const Dashboard = () => {
   };
 
 
+  // Roof vent: the backend works out the move from the tracked position (and enables the motor)
+  const setVentPercent = async (percent: number) => {
+    setLastUserAction(Date.now());
+
+    try {
+      await postCommand({ actuator: "stepper", action: "position", percent });
+      setError(null);
+    } catch (err) {
+      setError(`Vent position error: ${err}`);
+    }
+  };
+
+  const homeVent = async () => {
+    if (!confirm("Close the vent fully against its end stop? The motor runs for about 20 seconds.")) return;
+
+    try {
+      await postCommand({ actuator: "stepper", action: "home" });
+      setError(null);
+    } catch (err) {
+      setError(`Vent homing error: ${err}`);
+    }
+  };
+
+  const zeroVent = async () => {
+    try {
+      setVent(await apiFetch<VentState>(`/api/devices/${deviceId}/vent/zero`, { method: "POST" }));
+      fetchInterlocks();
+    } catch (err) {
+      setError(`Could not zero the vent: ${err}`);
+    }
+  };
+
   // Group control functions
   const handleAllPumpsOn = async () => {
     const success1 = await sendDeviceCommand("pump1", true);
@@ -363,43 +447,13 @@ const Dashboard = () => {
   // Connection test function
   const testConnection = async () => {
     try {
-      const response = await fetch(`http://${espIp}/api/status`);
-      if (response.ok) {
-        fetchSensorData();
-      }
+      await apiFetch<SystemStatus>(`/api/devices/${deviceId}/status`);
+      fetchSensorData();
     } catch (err) {
       setError(`Connection test failed: ${err}`);
     }
   };
 
-  // Initialize data fetching
-  useEffect(() => {
-    if (!espIp) {
-      const errorMsg = "ESP32 IP not configured. Please set NEXT_PUBLIC_ESP_IP in your .env.local file";
-      setError(errorMsg);
-      return;
-    }
-
-    // Initial fetch
-    fetchSensorData();
-
-    // Set up interval to fetch data
-    const interval = setInterval(fetchSensorData, DATA_FETCH_INTERVAL);
-
-    // Cleanup interval on component unmount
-    return () => {
-      clearInterval(interval);
-    };
-  }, [espIp, fetchSensorData]);
-
-  // Helper function to get sensor status
-  const getSensorStatus = (value: number, min: number, max: number) => {
-    if (value >= min && value <= max) {
-      return "Normal";
-    }
-    return "Warning";
-  };
-
   return (
     <div className="min-h-screen w-full flex flex-col gap-8 items-center bg-gradient-to-br from-green-50 to-emerald-100 pb-4">
       {/* Header */}
@@ -410,9 +464,13 @@ const Dashboard = () => {
 
       {/* Connection Status */}
       <div className="flex items-center gap-4">
-        <div className={`w-3 h-3 rounded-full ${isConnected ? 'bg-green-500' : 'bg-red-500'}`}></div>
+        <div className={`w-3 h-3 rounded-full ${isConnected && isStreaming ? 'bg-green-500' : 'bg-red-500'}`}></div>
         <span className="text-sm">
-          {isConnected ? 'Connected to ESP32' : 'Disconnected'}
+          {!isStreaming
+            ? 'Reconnecting live updates...'
+            : isConnected
+              ? `Connected to ${device?.name ?? "ESP32"}`
+              : 'Disconnected'}
         </span>
         {lastUpdate && (
           <span className="text-xs text-gray-500">
@@ -433,7 +491,7 @@ const Dashboard = () => {
         <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded max-w-md text-center">
           <strong>Connection Error:</strong> {error}
           <br />
-          <small>ESP32 IP: {espIp || 'Not configured'}</small>
+          <small>Device: {deviceId}</small>
           <br />
           <button
             onClick={fetchSensorData}
@@ -452,93 +510,126 @@ const Dashboard = () => {
           Greenhouse Control Center
         </h1>
         <p>Monitor and control your greenhouse environment</p>
+        {crop && (
+          <p className="text-sm text-muted-foreground">
+            Growing {crop.profile.name}, {crop.stage.name.toLowerCase()} stage
+            {crop.stageEndsAt && ` until ${dayjs(crop.stageEndsAt).format("MMM D")}`}
+          </p>
+        )}
       </section>
 
       {/* Sensor Utilities */}
       <section className="flex items-center gap-4 flex-wrap justify-center">
-        <SensorUtilityCard
-          icon={<Thermometer />}
-          label="Temperature"
-          data={`${temperature.toFixed(1)}°C`}
-          status={getSensorStatus(temperature, 20, 30)}
-          hint="Optimal range: 20°C - 30°C"
-        />
-        <SensorUtilityCard
-          icon={<Droplets />}
-          label="Humidity"
-          data={`${humidity.toFixed(1)}%`}
-          status={getSensorStatus(humidity, 20, 60)}
-          hint="Optimal range: 20% - 60%"
-        />
-        <SensorUtilityCard
-          icon={<FlaskConical />}
-          label="pH Level"
-          data={`${ph.toFixed(2)}`}
-          status={getSensorStatus(ph, 6.0, 7.5)}
-          hint="Optimal range: 6.0 - 7.5"
-        />
-        <SensorUtilityCard
-          icon={<Gauge />}
-          label="Water Level"
-          data={`${distance.toFixed(1)} cm`}
-          status={getSensorStatus(distance, 20, 40)}
-          hint="Optimal range: 20 cm - 40 cm"
-        />
-        <SensorUtilityCard
-          icon={<Cloud />}
-          label="Air Quality"
-          data={`${mq135} ppm`}
-          status={getSensorStatus(mq135, 100, 200)}
-          hint="Optimal range: 100 - 200 ppm"
-        />
-        <SensorUtilityCard
-          icon={<Settings />}
-          label="Stepper Motor"
-          data={stepperEnabled ? "Enabled" : "Disabled"}
-          status={stepperEnabled ? "Ready" : "Disabled"}
-          hint={`Motor is ${stepperEnabled ? 'ready for manual control' : 'disabled'}`}
-        />
+        {hasCapability("temperature") && (
+          <SensorUtilityCard
+            icon={<Thermometer />}
+            label="Temperature"
+            {...sensorCard("temperature", temperature, (value) => `${value.toFixed(1)}°C`)}
+          />
+        )}
+        {hasCapability("humidity") && (
+          <SensorUtilityCard
+            icon={<Droplets />}
+            label="Humidity"
+            {...sensorCard("humidity", humidity, (value) => `${value.toFixed(1)}%`)}
+          />
+        )}
+        {hasCapability("ph") && (
+          <SensorUtilityCard
+            icon={<FlaskConical />}
+            label="pH Level"
+            {...sensorCard("ph", ph, (value) => value.toFixed(2))}
+          />
+        )}
+        {hasCapability("distance") && (
+          <SensorUtilityCard
+            icon={<Gauge />}
+            label="Water Level"
+            {...sensorCard("distance", distance, (value) => `${value.toFixed(1)} cm`)}
+          />
+        )}
+        {hasCapability("mq135") && (
+          <SensorUtilityCard
+            icon={<Cloud />}
+            label="Air Quality"
+            {...sensorCard("mq135", mq135, (value) => `${value.toFixed(0)} ppm`)}
+          />
+        )}
+        {hasCapability("stepper") && (
+          <SensorUtilityCard
+            icon={<Settings />}
+            label="Stepper Motor"
+            data={stepperEnabled ? "Enabled" : "Disabled"}
+            status={stepperEnabled ? "Ready" : "Disabled"}
+            hint={`Motor is ${stepperEnabled ? 'ready for manual control' : 'disabled'}`}
+          />
+        )}
       </section>
 
       {/* Camera Feed */}
-      <CameraFeed />
+      {hasCapability("camera") && device?.cameraUrl && <CameraFeed streamUrl={device.cameraUrl} />}
 
       {/* Actuator Controls */}
       <section className="flex flex-wrap gap-4 w-[60%] items-center justify-center">
-        <ActuatorControlCard
-          actuatorIcon={<Fan />}
-          actuatorName="Fan"
-          status={fan}
-          onToggle={toggleFan}
-        />
-        <ActuatorControlCard
-          actuatorIcon={<Lightbulb />}
-          actuatorName="LED Strip"
-          status={led}
-          onToggle={toggleLed}
-        />
-        <ActuatorControlCard
-          actuatorIcon={<RotateCcw />}
-          actuatorName="Pump 1"
-          status={pump1}
-          onToggle={togglePump1}
-        />
-        <ActuatorControlCard
-          actuatorIcon={<RotateCcw />}
-          actuatorName="Pump 2"
-          status={pump2}
-          onToggle={togglePump2}
-        />
-        <ActuatorControlCard
-          actuatorIcon={<Settings />}
-          actuatorName="Stepper Motor"
-          status={stepperEnabled}
-          onToggle={toggleStepperEnable}
-        />
+        {hasCapability("fan") && (
+          <ActuatorControlCard
+            actuatorIcon={<Fan />}
+            actuatorName="Fan"
+            status={fan}
+            disabled={!canControl}
+            onToggle={toggleFan}
+          />
+        )}
+        {hasCapability("led") && (
+          <ActuatorControlCard
+            actuatorIcon={<Lightbulb />}
+            actuatorName="LED Strip"
+            status={led}
+            disabled={!canControl}
+            onToggle={toggleLed}
+          />
+        )}
+        {hasCapability("pump1") && (
+          <ActuatorControlCard
+            actuatorIcon={<RotateCcw />}
+            actuatorName="Pump 1"
+            status={pump1}
+            disabled={!canControl}
+            onToggle={togglePump1}
+          />
+        )}
+        {hasCapability("pump2") && (
+          <ActuatorControlCard
+            actuatorIcon={<RotateCcw />}
+            actuatorName="Pump 2"
+            status={pump2}
+            disabled={!canControl}
+            onToggle={togglePump2}
+          />
+        )}
+        {hasCapability("stepper") && (
+          <ActuatorControlCard
+            actuatorIcon={<Settings />}
+            actuatorName="Stepper Motor"
+            status={stepperEnabled}
+            disabled={!canControl}
+            onToggle={toggleStepperEnable}
+          />
+        )}
       </section>
 
+      {/* Roof Vent */}
+      {hasCapability("stepper") && vent && (
+        <VentGauge
+          vent={vent}
+          onSetPercent={canControl ? setVentPercent : undefined}
+          onHome={canControl ? homeVent : undefined}
+          onZero={canControl ? zeroVent : undefined}
+        />
+      )}
+
       {/* Stepper Motor Controls */}
-      {stepperEnabled && (
+      {stepperEnabled && canControl && (
         <section className="flex flex-wrap gap-4 justify-center items-start">
           {/* Manual Movement Controls */}
           <div className="bg-white rounded-lg shadow-md p-4 min-w-[350px]">
@@ -621,30 +712,48 @@ const Dashboard = () => {
         </section>
       )}
 
-      {/* Manual Controls */}
-      <section className="flex gap-4 flex-wrap justify-center">
-        <button
-          onClick={handleAllPumpsOn}
-          className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
-          aria-label="Turn all pumps on"
-        >
-          All Pumps ON
-        </button>
-        <button
-          onClick={handleAllPumpsOff}
-          className="px-4 py-2 bg-gray-500 text-white rounded hover:bg-gray-600"
-          aria-label="Turn all pumps off"
-        >
-          All Pumps OFF
-        </button>
-        <button
-          onClick={handleAllOff}
-          className="px-4 py-2 bg-red-500 text-white rounded hover:bg-red-600"
-          aria-label="Emergency: turn all devices off"
-        >
-          🚨 ALL OFF
-        </button>
-      </section>
+      {/* Command Queue */}
+      {commands.length > 0 && <CommandQueue commands={commands} />}
+
+      {/* Safety Interlocks */}
+      {deviceId && interlocks && (
+        <SafetyInterlocks
+          deviceId={deviceId}
+          overview={interlocks}
+          canManage={canManageDevice}
+          onSaved={() => {
+            fetchInterlocks();
+            fetchVent();
+          }}
+        />
+      )}
+
+      {/* Manual Controls, viewers only get to watch */}
+      {canControl && (
+        <section className="flex gap-4 flex-wrap justify-center">
+          <button
+            onClick={handleAllPumpsOn}
+            className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
+            aria-label="Turn all pumps on"
+          >
+            All Pumps ON
+          </button>
+          <button
+            onClick={handleAllPumpsOff}
+            className="px-4 py-2 bg-gray-500 text-white rounded hover:bg-gray-600"
+            aria-label="Turn all pumps off"
+          >
+            All Pumps OFF
+          </button>
+          <button
+            onClick={handleAllOff}
+            className="px-4 py-2 bg-red-500 text-white rounded hover:bg-red-600"
+            aria-label="Emergency: turn all devices off"
+          >
+            🚨 ALL OFF
+          </button>
+        </section>
+      )}
 
     </div>
   );
@@ -0,0 +1,120 @@
+"use client";
+
+import { Cpu } from "lucide-react";
+import React, { useState } from "react";
+import { toast } from "sonner";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import Header from "@/components/header/Header";
+import { useDevices } from "@/components/DeviceProvider/DeviceProvider";
+import DeviceForm from "@/components/DeviceForm/DeviceForm";
+import { apiFetch } from "@/lib/api";
+import { useSession } from "@/lib/authClient";
+import { Device } from "@/lib/devices";
+import { Role, ROLE_LABELS, roleHasPermission } from "@/lib/permissions";
+
+const DevicesPage = () => {
+  const { devices, deviceId, isLoading, selectDevice, refreshDevices } = useDevices();
+  const [editing, setEditing] = useState<Device | null>(null);
+
+  // Registering is tied to the global role, editing and deleting to the role on each device
+  const { data: session } = useSession();
+  const canRegister = roleHasPermission(session?.user.role as Role | undefined, "devices:manage");
+
+  const deleteDevice = async (device: Device) => {
+    if (!confirm(`Delete "${device.name}"? Its rules, schedules, alerts and history are deleted too.`)) return;
+
+    try {
+      await apiFetch(`/api/devices/${device.id}`, { method: "DELETE" });
+      refreshDevices();
+    } catch (err) {
+      toast("Could not delete device", { description: String(err) });
+    }
+  };
+
+  return (
+    <div className="min-h-screen w-full flex flex-col gap-8 items-center bg-gradient-to-br from-green-50 to-emerald-100 pb-4">
+      {/* Header */}
+      <div className="w-full px-6">
+        <Header />
+        <Separator className="my-2 h-[20px]" />
+      </div>
+
+      <section className="flex flex-col items-center gap-2 text-center">
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <Cpu className="w-10 h-10" />
+          Devices
+        </h1>
+        <p>Every greenhouse board the backend talks to</p>
+      </section>
+
+      <section className="flex flex-wrap gap-4 w-full lg:w-[80%] justify-center">
+        {!isLoading && devices.length === 0 && (
+          <p className="text-muted-foreground">
+            {canRegister ? "No devices registered yet, add one below." : "No devices registered yet, ask an owner to add one."}
+          </p>
+        )}
+        {devices.map((device) => (
+          <Card key={device.id} className="w-80 h-fit">
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between gap-2">
+                {device.name}
+                {device.id === deviceId && <Badge className="bg-green-500 text-white">SELECTED</Badge>}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="flex flex-col gap-1 text-sm">
+              <span className="text-muted-foreground">ID: {device.id}</span>
+              {device.location && <span>{device.location}</span>}
+              <span className="break-all">{device.transport === "mqtt" ? "MQTT" : device.baseUrl}</span>
+              {device.cameraUrl && <span className="break-all text-xs text-muted-foreground">{device.cameraUrl}</span>}
+              <span className="text-xs text-muted-foreground">{device.capabilities.join(", ")}</span>
+              <span className="text-xs text-muted-foreground">Your role: {ROLE_LABELS[device.role]}</span>
+            </CardContent>
+            <CardFooter className="flex flex-wrap gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                className="cursor-pointer"
+                disabled={device.id === deviceId}
+                onClick={() => selectDevice(device.id)}
+              >
+                Select
+              </Button>
+              {roleHasPermission(device.role, "devices:manage") && (
+                <>
+                  <Button size="sm" variant="outline" className="cursor-pointer" onClick={() => setEditing(device)}>
+                    Edit
+                  </Button>
+                  <Button size="sm" variant="destructive" className="cursor-pointer" onClick={() => deleteDevice(device)}>
+                    Delete
+                  </Button>
+                </>
+              )}
+            </CardFooter>
+          </Card>
+        ))}
+      </section>
+
+      <section className="w-full lg:w-[80%]">
+        {editing ? (
+          <DeviceForm
+            key={editing.id}
+            device={editing}
+            onSaved={() => {
+              setEditing(null);
+              refreshDevices();
+            }}
+            onCancel={() => setEditing(null)}
+          />
+        ) : (
+          canRegister && <DeviceForm onSaved={() => refreshDevices()} />
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default DevicesPage;
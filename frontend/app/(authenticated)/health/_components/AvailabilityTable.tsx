@@ -0,0 +1,75 @@
+import React from "react";
+import { DailyAvailability, HealthComponent, HEALTH_COMPONENT_LABELS, formatAvailability } from "@/lib/health";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface AvailabilityTableProps {
+  daily: DailyAvailability[];
+  components: HealthComponent[];
+  days: number;
+}
+
+const barColor = (availability: number) => {
+  if (availability >= 99) return "bg-emerald-500";
+  if (availability >= 90) return "bg-amber-500";
+  return "bg-red-500";
+};
+
+// Newest day first; the backend counts days in UTC
+const AvailabilityTable = ({ daily, components, days }: AvailabilityTableProps) => {
+  const byDay = new Map(daily.map((entry) => [`${entry.day}/${entry.component}`, entry]));
+  const dayList = Array.from({ length: days }, (_, index) =>
+    new Date(Date.now() - index * DAY_MS).toISOString().slice(0, 10)
+  );
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-muted-foreground">
+          <th className="py-1 pr-4 font-normal">Day (UTC)</th>
+          {components.map((component) => (
+            <th key={component} className="py-1 pr-4 font-normal">
+              {HEALTH_COMPONENT_LABELS[component]}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {dayList.map((day) => (
+          <tr key={day} className="border-t">
+            <td className="py-1 pr-4 whitespace-nowrap">{day}</td>
+            {components.map((component) => {
+              const entry = byDay.get(`${day}/${component}`);
+              if (!entry) {
+                return (
+                  <td key={component} className="py-1 pr-4 text-muted-foreground">
+                    No checks
+                  </td>
+                );
+              }
+
+              return (
+                <td key={component} className="py-1 pr-4">
+                  <div className="flex items-center gap-2">
+                    <div className="w-24 h-2 rounded bg-gray-200 overflow-hidden">
+                      <div
+                        className={`h-full ${barColor(entry.availability)}`}
+                        style={{ width: `${entry.availability}%` }}
+                      />
+                    </div>
+                    <span className="w-14">{formatAvailability(entry.availability)}</span>
+                    <span className="text-xs text-muted-foreground whitespace-nowrap">
+                      {entry.avgLatencyMs === null ? "" : `${entry.avgLatencyMs} ms avg, ${entry.maxLatencyMs} ms max`}
+                    </span>
+                  </div>
+                </td>
+              );
+            })}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+export default AvailabilityTable;
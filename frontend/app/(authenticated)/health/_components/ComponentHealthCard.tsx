@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from "react";
+import dayjs from "dayjs";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { apiFetch } from "@/lib/api";
+import { ComponentHealth, HEALTH_COMPONENT_LABELS, formatDuration } from "@/lib/health";
+
+interface ComponentHealthCardProps {
+  health: ComponentHealth;
+  // Owners and operators may change the offline notification
+  canManage: boolean;
+  onChanged: () => void;
+}
+
+const ComponentHealthCard = ({ health, canManage, onChanged }: ComponentHealthCardProps) => {
+  // Empty: no notification
+  const [alertMinutes, setAlertMinutes] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setAlertMinutes(health.offlineAlertMinutes === null ? "" : String(health.offlineAlertMinutes));
+  }, [health.offlineAlertMinutes]);
+
+  const saveAlert = async () => {
+    setIsSaving(true);
+    try {
+      await apiFetch<ComponentHealth>("/api/health/offline-alert", {
+        method: "PUT",
+        body: JSON.stringify({
+          deviceId: health.deviceId,
+          component: health.component,
+          offlineAlertMinutes: alertMinutes === "" ? null : Number(alertMinutes),
+        }),
+      });
+      toast(alertMinutes === "" ? "Offline notification switched off" : "Offline notification saved");
+      onChanged();
+    } catch (err) {
+      toast("Could not save the offline notification", { description: String(err) });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const details = [
+    {
+      label: health.online ? "Online for" : "Offline for",
+      value: formatDuration(Date.now() - dayjs(health.since).valueOf()),
+    },
+    {
+      label: "Last answer",
+      value: health.lastSeenAt ? dayjs(health.lastSeenAt).format("YYYY-MM-DD HH:mm:ss") : "Never",
+    },
+    { label: "Latency", value: health.lastLatencyMs === null ? "-" : `${health.lastLatencyMs} ms` },
+    { label: "Failed checks in a row", value: String(health.consecutiveFailures) },
+  ];
+
+  return (
+    <Card className="flex-1 min-w-[280px]">
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="flex flex-col gap-1.5">
+          <CardTitle>{HEALTH_COMPONENT_LABELS[health.component]}</CardTitle>
+          <CardDescription>Last checked {dayjs(health.lastCheckAt).format("HH:mm:ss")}</CardDescription>
+        </div>
+        <Badge className={health.online ? "bg-emerald-600 text-white" : "bg-red-600 text-white"}>
+          {health.online ? "ONLINE" : "OFFLINE"}
+        </Badge>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4 text-sm">
+        <dl className="grid grid-cols-2 gap-x-4 gap-y-1">
+          {details.map(({ label, value }) => (
+            <React.Fragment key={label}>
+              <dt className="text-muted-foreground">{label}</dt>
+              <dd>{value}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+
+        {health.lastError && (
+          <p className={`text-xs break-words ${health.online ? "text-muted-foreground" : "text-red-700"}`}>
+            {health.online ? "Last error: " : ""}
+            {health.lastError}
+          </p>
+        )}
+
+        {canManage ? (
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="flex flex-col gap-1">
+              <label className="text-sm text-gray-600">Notify when offline for (min)</label>
+              <Input
+                type="number"
+                min={1}
+                className="w-28"
+                placeholder="Off"
+                value={alertMinutes}
+                onChange={(e) => setAlertMinutes(e.target.value)}
+              />
+            </div>
+            <Button variant="outline" className="cursor-pointer" disabled={isSaving} onClick={saveAlert}>
+              Save
+            </Button>
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            {health.offlineAlertMinutes === null
+              ? "No offline notification"
+              : `Notifies after ${health.offlineAlertMinutes} min offline`}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ComponentHealthCard;
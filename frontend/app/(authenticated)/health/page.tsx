@@ -0,0 +1,163 @@
+"use client";
+
+import { HeartPulse } from "lucide-react";
+import React, { useCallback, useEffect, useState } from "react";
+import dayjs from "dayjs";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { NativeSelect } from "@/components/ui/native-select";
+import { Separator } from "@/components/ui/separator";
+import Header from "@/components/header/Header";
+import { useDevices } from "@/components/DeviceProvider/DeviceProvider";
+import { apiFetch } from "@/lib/api";
+import { HealthComponent, HealthHistory, HEALTH_COMPONENT_LABELS, formatAvailability, formatDuration } from "@/lib/health";
+import AvailabilityTable from "./_components/AvailabilityTable";
+import ComponentHealthCard from "./_components/ComponentHealthCard";
+
+const PERIODS = [7, 30, 90];
+
+// The current state changes with every poll, the history does not need to keep up
+const REFRESH_MS = 15000;
+
+const HealthPage = () => {
+  const { device, deviceId, can } = useDevices();
+
+  const [days, setDays] = useState(30);
+  const [history, setHistory] = useState<HealthHistory | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchHistory = useCallback(async () => {
+    if (!deviceId) return;
+
+    try {
+      setHistory(await apiFetch<HealthHistory>(`/api/health/history?deviceId=${deviceId}&days=${days}`));
+      setError(null);
+    } catch (err) {
+      setError(`Failed to load device health: ${err}`);
+    }
+  }, [deviceId, days]);
+
+  useEffect(() => {
+    fetchHistory();
+    const timer = setInterval(fetchHistory, REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [fetchHistory]);
+
+  const components = history?.components.map(({ component }) => component) ?? [];
+
+  // Over the whole period, weighted by the number of checks per day
+  const periodAvailability = (component: HealthComponent) => {
+    const entries = history?.daily.filter((entry) => entry.component === component) ?? [];
+    const checks = entries.reduce((sum, entry) => sum + entry.checks, 0);
+    const failures = entries.reduce((sum, entry) => sum + entry.failures, 0);
+    return checks > 0 ? ((checks - failures) / checks) * 100 : null;
+  };
+
+  return (
+    <div className="min-h-screen w-full flex flex-col gap-8 items-center bg-gradient-to-br from-green-50 to-emerald-100 pb-4">
+      {/* Header */}
+      <div className="w-full px-6">
+        <Header />
+        <Separator className="my-2 h-[20px]" />
+      </div>
+
+      <section className="flex flex-col items-center gap-2 text-center">
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <HeartPulse className="w-10 h-10" />
+          Device Health
+        </h1>
+        <p>Heartbeats, latency and uptime of {device?.name ?? "the greenhouse"}, as seen by the backend</p>
+      </section>
+
+      {/* Error Display */}
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded max-w-md text-center">
+          {error}
+        </div>
+      )}
+
+      {history && history.components.length === 0 && (
+        <p className="text-muted-foreground">No heartbeats yet, the backend checks the board on every telemetry poll</p>
+      )}
+
+      <div className="w-full lg:w-[80%] flex flex-wrap gap-4">
+        {history?.components.map((health) => (
+          <ComponentHealthCard
+            key={health.component}
+            health={health}
+            canManage={can("automation:manage")}
+            onChanged={fetchHistory}
+          />
+        ))}
+      </div>
+
+      {history && components.length > 0 && (
+        <Card className="w-full lg:w-[80%]">
+          <CardHeader className="flex flex-row items-start justify-between gap-4">
+            <div className="flex flex-col gap-1.5">
+              <CardTitle>Availability</CardTitle>
+              <CardDescription>
+                {components
+                  .map((component) => {
+                    const availability = periodAvailability(component);
+                    return `${HEALTH_COMPONENT_LABELS[component]}: ${
+                      availability === null ? "no checks" : formatAvailability(availability)
+                    }`;
+                  })
+                  .join(", ")}{" "}
+                over the last {days} days
+              </CardDescription>
+            </div>
+            <NativeSelect value={days} onChange={(e) => setDays(Number(e.target.value))}>
+              {PERIODS.map((period) => (
+                <option key={period} value={period}>
+                  {period} days
+                </option>
+              ))}
+            </NativeSelect>
+          </CardHeader>
+          <CardContent className="overflow-x-auto">
+            <AvailabilityTable daily={history.daily} components={components} days={days} />
+          </CardContent>
+        </Card>
+      )}
+
+      {history && components.length > 0 && (
+        <Card className="w-full lg:w-[80%]">
+          <CardHeader>
+            <CardTitle>Outages</CardTitle>
+            <CardDescription>Every time the board or the camera stopped answering, newest first</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {history.outages.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No outages in the last {days} days</p>
+            ) : (
+              <ul className="flex flex-col gap-2 text-sm">
+                {history.outages.map((outage) => (
+                  <li key={outage.id} className="flex flex-wrap items-center gap-x-3 border-b last:border-0 pb-2">
+                    <span className="text-xs text-muted-foreground w-36 whitespace-nowrap">
+                      {dayjs(outage.startedAt).format("YYYY-MM-DD HH:mm:ss")}
+                    </span>
+                    <span className="font-medium w-24">{HEALTH_COMPONENT_LABELS[outage.component]}</span>
+                    <span className={outage.endedAt ? "" : "text-red-700 font-medium"}>
+                      {outage.endedAt
+                        ? formatDuration(dayjs(outage.endedAt).diff(outage.startedAt))
+                        : `Ongoing for ${formatDuration(Date.now() - dayjs(outage.startedAt).valueOf())}`}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {outage.failures} failed check{outage.failures === 1 ? "" : "s"}
+                      {outage.alertedAt ? ", notified" : ""}
+                    </span>
+                    {outage.error && <span className="basis-full text-xs text-muted-foreground">{outage.error}</span>}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default HealthPage;
@@ -0,0 +1,49 @@
+import React from "react";
+import dayjs from "dayjs";
+
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Anomaly, ANOMALY_KIND_LABELS } from "@/lib/anomalies";
+import { SENSOR_META, SensorKey } from "@/lib/sensors";
+
+interface AnomalyListProps {
+  sensor: SensorKey;
+  anomalies: Anomaly[];
+}
+
+const formatPeriod = (anomaly: Anomaly) => {
+  const start = dayjs(anomaly.startedAt);
+  const end = dayjs(anomaly.lastSeenAt);
+  return `${start.format("YYYY-MM-DD HH:mm")} – ${end.format(end.isSame(start, "day") ? "HH:mm" : "YYYY-MM-DD HH:mm")}`;
+};
+
+// The anomalies shaded on the chart, with what the analysis found
+const AnomalyList = ({ sensor, anomalies }: AnomalyListProps) => (
+  <Card className="w-full lg:w-[80%]">
+    <CardHeader>
+      <CardTitle>Anomalies</CardTitle>
+      <CardDescription>
+        Found by the hourly analysis of {SENSOR_META[sensor].label.toLowerCase()} against its own history
+      </CardDescription>
+    </CardHeader>
+    <CardContent className="flex flex-col gap-3">
+      {anomalies.length === 0 && <p className="text-sm text-muted-foreground">Nothing unusual in this range</p>}
+      {anomalies.map((anomaly) => (
+        <div key={anomaly.id} className="flex flex-col gap-1 border-b pb-3 last:border-b-0 last:pb-0">
+          <div className="flex flex-wrap items-center gap-2 text-sm font-medium">
+            <Badge className={anomaly.severity === "critical" ? "bg-red-500 text-white" : "bg-amber-500 text-white"}>
+              {anomaly.severity === "critical" ? "Critical" : "Warning"}
+            </Badge>
+            {ANOMALY_KIND_LABELS[anomaly.kind]}
+            {anomaly.actuator && ` (${anomaly.actuator})`}
+            {!anomaly.resolvedAt && <Badge variant="outline">Ongoing</Badge>}
+          </div>
+          <p className="text-sm">{anomaly.message}</p>
+          <span className="text-xs text-muted-foreground">{formatPeriod(anomaly)}</span>
+        </div>
+      ))}
+    </CardContent>
+  </Card>
+);
+
+export default AnomalyList;
@@ -0,0 +1,117 @@
+import React, { useState } from "react";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { NativeSelect } from "@/components/ui/native-select";
+import {
+  EXPORT_DATASET_LABELS,
+  EXPORT_FORMAT_LABELS,
+  ExportDataset,
+  ExportFormat,
+  ExportOptions,
+  exportUrl,
+} from "@/lib/dataExport";
+import { SENSOR_KEYS, SENSOR_META, SensorKey } from "@/lib/sensors";
+
+interface DataExportProps {
+  deviceId: string;
+}
+
+const DataExport = ({ deviceId }: DataExportProps) => {
+  const [options, setOptions] = useState<ExportOptions>({
+    dataset: "telemetry",
+    format: "csv",
+    from: "",
+    to: "",
+    sensors: [...SENSOR_KEYS],
+  });
+
+  const toggleSensor = (sensor: SensorKey) =>
+    setOptions((current) => ({
+      ...current,
+      sensors: current.sensors.includes(sensor)
+        ? current.sensors.filter((key) => key !== sensor)
+        : SENSOR_KEYS.filter((key) => key === sensor || current.sensors.includes(key)),
+    }));
+
+  // Commands are not tied to a sensor
+  const usesSensors = options.dataset !== "commands";
+
+  return (
+    <Card className="w-full lg:w-[80%]">
+      <CardHeader>
+        <CardTitle>Export Data</CardTitle>
+        <CardDescription>Every stored row in the range, oldest first; leave the dates empty for everything</CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="flex flex-col gap-1">
+            <label className="text-sm text-gray-600">Data</label>
+            <NativeSelect
+              value={options.dataset}
+              onChange={(e) => setOptions({ ...options, dataset: e.target.value as ExportDataset })}
+            >
+              {(Object.keys(EXPORT_DATASET_LABELS) as ExportDataset[]).map((dataset) => (
+                <option key={dataset} value={dataset}>
+                  {EXPORT_DATASET_LABELS[dataset]}
+                </option>
+              ))}
+            </NativeSelect>
+          </div>
+          <div className="flex flex-col gap-1">
+            <label className="text-sm text-gray-600">Format</label>
+            <NativeSelect
+              value={options.format}
+              onChange={(e) => setOptions({ ...options, format: e.target.value as ExportFormat })}
+            >
+              {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map((format) => (
+                <option key={format} value={format}>
+                  {EXPORT_FORMAT_LABELS[format]}
+                </option>
+              ))}
+            </NativeSelect>
+          </div>
+          <div className="flex flex-col gap-1">
+            <label className="text-sm text-gray-600">From</label>
+            <Input type="date" value={options.from} onChange={(e) => setOptions({ ...options, from: e.target.value })} />
+          </div>
+          <div className="flex flex-col gap-1">
+            <label className="text-sm text-gray-600">To</label>
+            <Input type="date" value={options.to} onChange={(e) => setOptions({ ...options, to: e.target.value })} />
+          </div>
+          {options.sensors.length > 0 || !usesSensors ? (
+            <Button asChild className="cursor-pointer">
+              <a href={exportUrl(deviceId, options)}>
+                <Download className="w-4 h-4" />
+                Download
+              </a>
+            </Button>
+          ) : (
+            <Button disabled>
+              <Download className="w-4 h-4" />
+              Pick a sensor
+            </Button>
+          )}
+        </div>
+
+        {usesSensors && (
+          <div className="flex flex-wrap gap-4 text-sm">
+            {SENSOR_KEYS.map((sensor) => (
+              <label key={sensor} className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={options.sensors.includes(sensor)}
+                  onChange={() => toggleSensor(sensor)}
+                />
+                {SENSOR_META[sensor].label}
+              </label>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DataExport;
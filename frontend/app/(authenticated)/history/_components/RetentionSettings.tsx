@@ -0,0 +1,140 @@
+import React, { useCallback, useEffect, useState } from "react";
+import dayjs from "dayjs";
+import { Archive } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { apiFetch } from "@/lib/api";
+import { RETENTION_TIER_LABELS, RetentionOverview, RetentionPolicy, RetentionTier } from "@/lib/retention";
+
+interface RetentionSettingsProps {
+  // Pruning and new rollups change what the chart shows
+  onApplied: () => void;
+}
+
+// Keep days as typed per tier, an empty field keeps the tier forever
+type KeepFields = Partial<Record<RetentionTier, string>>;
+
+const toField = (policy: RetentionPolicy) => (policy.keepDays === null ? "" : String(policy.keepDays));
+
+const toFields = (policies: RetentionPolicy[]): KeepFields =>
+  Object.fromEntries(policies.map((policy) => [policy.tier, toField(policy)]));
+
+const RetentionSettings = ({ onApplied }: RetentionSettingsProps) => {
+  const [overview, setOverview] = useState<RetentionOverview | null>(null);
+  const [fields, setFields] = useState<KeepFields>({});
+  const [isBusy, setIsBusy] = useState(false);
+
+  const fetchOverview = useCallback(async () => {
+    try {
+      const data = await apiFetch<RetentionOverview>("/api/retention");
+      setOverview(data);
+      setFields(toFields(data.policies));
+    } catch (err) {
+      toast("Could not load retention settings", { description: String(err) });
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchOverview();
+  }, [fetchOverview]);
+
+  const save = async (tier: RetentionTier) => {
+    const value = fields[tier]?.trim() ?? "";
+
+    setIsBusy(true);
+    try {
+      await apiFetch<RetentionPolicy>(`/api/retention/${tier}`, {
+        method: "PUT",
+        body: JSON.stringify({ keepDays: value === "" ? null : Number(value) }),
+      });
+      toast(`${RETENTION_TIER_LABELS[tier]} ${value === "" ? "kept forever" : `kept for ${value} days`}`);
+      await fetchOverview();
+    } catch (err) {
+      toast("Could not save the retention policy", { description: String(err) });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const runNow = async () => {
+    setIsBusy(true);
+    try {
+      await apiFetch("/api/retention/run", { method: "POST" });
+      await fetchOverview();
+      onApplied();
+    } catch (err) {
+      toast("Retention run failed", { description: String(err) });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (!overview) return null;
+
+  // Raw readings have no rollup of their own, the job's last run is stamped on the others
+  const lastRunAt = overview.policies.find((policy) => policy.lastRunAt)?.lastRunAt;
+
+  return (
+    <Card className="w-full lg:w-[80%]">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Archive className="w-5 h-5" /> Data Retention
+        </CardTitle>
+        <CardDescription>
+          Older readings are kept as minute, hour and day summaries for every greenhouse. A tier is only deleted
+          once the next one has summarised it; leave the days empty to keep a tier forever.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4 text-sm">
+        <ul className="flex flex-col gap-2">
+          {overview.policies.map((policy) => {
+            const usage = overview.usage.find((tier) => tier.tier === policy.tier);
+
+            return (
+              <li key={policy.tier} className="flex flex-wrap items-center gap-3 border-b last:border-0 pb-2">
+                <span className="font-medium w-36">{RETENTION_TIER_LABELS[policy.tier]}</span>
+                <Input
+                  type="number"
+                  min={1}
+                  className="w-24"
+                  placeholder="Forever"
+                  value={fields[policy.tier] ?? ""}
+                  onChange={(e) => setFields((current) => ({ ...current, [policy.tier]: e.target.value }))}
+                />
+                <span className="text-muted-foreground">days</span>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="cursor-pointer"
+                  disabled={isBusy || (fields[policy.tier] ?? "") === toField(policy)}
+                  onClick={() => save(policy.tier)}
+                >
+                  Save
+                </Button>
+                <span className="text-xs text-muted-foreground ml-auto">
+                  {usage?.rows.toLocaleString() ?? 0} rows
+                  {usage?.oldest && ` since ${dayjs(usage.oldest).format("YYYY-MM-DD HH:mm")}`}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+
+        <div className="flex items-center gap-4">
+          <Button className="cursor-pointer" disabled={isBusy} onClick={runNow}>
+            Apply now
+          </Button>
+          <span className="text-xs text-muted-foreground">
+            Runs by itself every few minutes
+            {lastRunAt && `, last at ${dayjs(lastRunAt).format("YYYY-MM-DD HH:mm")}`}
+            . Deleting rows does not shrink the database file until it is vacuumed.
+          </span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RetentionSettings;
@@ -0,0 +1,186 @@
+import React from "react";
+import dayjs from "dayjs";
+import {
+  Area,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  ReferenceArea,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+
+import { Anomaly } from "@/lib/anomalies";
+import { SensorRange } from "@/lib/crops";
+import { SENSOR_META, SensorKey } from "@/lib/sensors";
+
+export interface HistoryPoint {
+  time: string;
+  avg: number;
+  min: number;
+  max: number;
+  count: number;
+}
+
+interface SensorHistoryChartProps {
+  sensor: SensorKey;
+  points: HistoryPoint[];
+  // Shaded as the optimal band
+  optimal: SensorRange;
+  compareSensor?: SensorKey;
+  comparePoints?: HistoryPoint[];
+  compareOptimal?: SensorRange;
+  // Shaded over the period each one covered
+  anomalies?: Anomaly[];
+  timeFormat: string;
+}
+
+const PRIMARY_COLOR = "#059669";
+const COMPARE_COLOR = "#2563eb";
+const ANOMALY_COLORS = { warning: "#f59e0b", critical: "#dc2626" } as const;
+
+const formatValue = (sensor: SensorKey, value: number) => {
+  const meta = SENSOR_META[sensor];
+  return `${value.toFixed(meta.decimals)}${meta.unit ? ` ${meta.unit}` : ""}`;
+};
+
+// Merge both series on their bucket timestamps so recharts can draw them on one x axis
+const mergeSeries = (points: HistoryPoint[], comparePoints: HistoryPoint[] = []) => {
+  const rows = new Map<number, { time: number; avg?: number; band?: [number, number]; compare?: number }>();
+
+  for (const point of points) {
+    const time = new Date(point.time).getTime();
+    rows.set(time, { time, avg: point.avg, band: [point.min, point.max] });
+  }
+  for (const point of comparePoints) {
+    const time = new Date(point.time).getTime();
+    rows.set(time, { ...(rows.get(time) ?? { time }), compare: point.avg });
+  }
+
+  return [...rows.values()].sort((a, b) => a.time - b.time);
+};
+
+// Anomaly periods clipped to the charted range, a pump run is widened so it stays visible on long ranges
+const anomalyBands = (anomalies: Anomaly[], start: number, end: number) => {
+  const minWidth = (end - start) / 200;
+
+  return anomalies.flatMap((anomaly) => {
+    const from = Math.max(new Date(anomaly.startedAt).getTime(), start);
+    const to = Math.min(Math.max(new Date(anomaly.lastSeenAt).getTime(), from + minWidth), end);
+    return from < to ? [{ anomaly, from, to }] : [];
+  });
+};
+
+const SensorHistoryChart = (props: SensorHistoryChartProps) => {
+  const meta = SENSOR_META[props.sensor];
+  const compareMeta = props.compareSensor ? SENSOR_META[props.compareSensor] : null;
+  const data = mergeSeries(props.points, props.comparePoints);
+  const bands = data.length > 0 ? anomalyBands(props.anomalies ?? [], data[0].time, data[data.length - 1].time) : [];
+
+  if (data.length === 0) {
+    return (
+      <div className="h-[360px] flex items-center justify-center text-muted-foreground">
+        No readings recorded in this range
+      </div>
+    );
+  }
+
+  return (
+    <ResponsiveContainer width="100%" height={360}>
+      <ComposedChart data={data} margin={{ top: 10, right: 20, bottom: 10, left: 0 }}>
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis
+          dataKey="time"
+          type="number"
+          scale="time"
+          domain={["dataMin", "dataMax"]}
+          tickFormatter={(time) => dayjs(time).format(props.timeFormat)}
+        />
+        <YAxis yAxisId="primary" stroke={PRIMARY_COLOR} domain={["auto", "auto"]} />
+        {compareMeta && (
+          <YAxis yAxisId="compare" orientation="right" stroke={COMPARE_COLOR} domain={["auto", "auto"]} />
+        )}
+
+        {/* Optimal ranges */}
+        <ReferenceArea
+          yAxisId="primary"
+          y1={props.optimal.min}
+          y2={props.optimal.max}
+          fill={PRIMARY_COLOR}
+          fillOpacity={0.08}
+          ifOverflow="extendDomain"
+        />
+        {compareMeta && props.compareOptimal && (
+          <ReferenceArea
+            yAxisId="compare"
+            y1={props.compareOptimal.min}
+            y2={props.compareOptimal.max}
+            fill={COMPARE_COLOR}
+            fillOpacity={0.06}
+            ifOverflow="extendDomain"
+          />
+        )}
+
+        {bands.map(({ anomaly, from, to }) => (
+          <ReferenceArea
+            key={anomaly.id}
+            yAxisId="primary"
+            x1={from}
+            x2={to}
+            fill={ANOMALY_COLORS[anomaly.severity]}
+            fillOpacity={0.15}
+            stroke={ANOMALY_COLORS[anomaly.severity]}
+            strokeOpacity={0.4}
+          />
+        ))}
+
+        <Tooltip
+          labelFormatter={(time) => dayjs(time as number).format("YYYY-MM-DD HH:mm")}
+          formatter={(value, name) => {
+            if (Array.isArray(value)) {
+              return [`${formatValue(props.sensor, value[0])} – ${formatValue(props.sensor, value[1])}`, name];
+            }
+            const sensor = name === compareMeta?.label ? props.compareSensor! : props.sensor;
+            return [formatValue(sensor, Number(value)), name];
+          }}
+        />
+        <Legend />
+
+        <Area
+          yAxisId="primary"
+          dataKey="band"
+          name={`${meta.label} min/max`}
+          stroke="none"
+          fill={PRIMARY_COLOR}
+          fillOpacity={0.15}
+          isAnimationActive={false}
+        />
+        <Line
+          yAxisId="primary"
+          dataKey="avg"
+          name={meta.label}
+          stroke={PRIMARY_COLOR}
+          dot={false}
+          connectNulls
+          isAnimationActive={false}
+        />
+        {compareMeta && (
+          <Line
+            yAxisId="compare"
+            dataKey="compare"
+            name={compareMeta.label}
+            stroke={COMPARE_COLOR}
+            dot={false}
+            connectNulls
+            isAnimationActive={false}
+          />
+        )}
+      </ComposedChart>
+    </ResponsiveContainer>
+  );
+};
+
+export default SensorHistoryChart;
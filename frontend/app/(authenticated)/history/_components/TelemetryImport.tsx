@@ -0,0 +1,119 @@
+import React, { useState } from "react";
+import dayjs from "dayjs";
+import { Upload } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { API_URL } from "@/lib/api";
+import { ImportReport } from "@/lib/dataExport";
+import { SENSOR_KEYS, SENSOR_META } from "@/lib/sensors";
+
+interface TelemetryImportProps {
+  deviceId: string;
+  onImported: () => void;
+}
+
+const TelemetryImport = ({ deviceId, onImported }: TelemetryImportProps) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  // Not apiFetch: the body is the CSV itself, and a rejected file's report is needed too
+  const upload = async (dryRun: boolean) => {
+    if (!file) return;
+
+    setIsBusy(true);
+    try {
+      const res = await fetch(`${API_URL}/api/data/import/telemetry?deviceId=${deviceId}&dryRun=${dryRun}`, {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "text/csv", Accept: "application/json" },
+        body: await file.text(),
+      });
+      const body = await res.json().catch(() => null);
+
+      if (body && "rows" in body) setReport(body as ImportReport);
+      if (!res.ok) {
+        if (!body?.rows) toast("Could not read the file", { description: body?.error || `HTTP ${res.status}` });
+        return;
+      }
+
+      if (!dryRun) {
+        toast(`Imported ${body.imported} samples`);
+        setFile(null);
+        setReport(null);
+        onImported();
+      }
+    } catch (err) {
+      toast("Import failed", { description: String(err) });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const isClean = report?.dryRun && report.errors.length === 0 && report.imported > 0;
+
+  return (
+    <Card className="w-full lg:w-[80%]">
+      <CardHeader>
+        <CardTitle>Import Readings</CardTitle>
+        <CardDescription>
+          Backfill history from another logger&apos;s CSV: a <code>time</code> column plus any of{" "}
+          {SENSOR_KEYS.join(", ")}. Check the file first, nothing is stored while a row is invalid.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4 text-sm">
+        <div className="flex flex-wrap items-center gap-4">
+          <Input
+            type="file"
+            accept=".csv,text/csv"
+            className="max-w-xs"
+            onChange={(e) => {
+              setFile(e.target.files?.[0] ?? null);
+              setReport(null);
+            }}
+          />
+          <Button variant="outline" className="cursor-pointer" disabled={!file || isBusy} onClick={() => upload(true)}>
+            Check file
+          </Button>
+          <Button className="cursor-pointer" disabled={!isClean || isBusy} onClick={() => upload(false)}>
+            <Upload className="w-4 h-4" />
+            Import
+          </Button>
+        </div>
+
+        {report && (
+          <div className="flex flex-col gap-2">
+            <p>
+              {report.rows} rows with {report.sensors.map((sensor) => SENSOR_META[sensor].label).join(", ")}
+              {report.from && report.to && (
+                <>
+                  {" "}
+                  from {dayjs(report.from).format("YYYY-MM-DD HH:mm")} to {dayjs(report.to).format("YYYY-MM-DD HH:mm")}
+                </>
+              )}
+              {report.errors.length === 0 &&
+                `: ${report.imported} new samples, ${report.duplicates} already stored or repeated`}
+            </p>
+            {report.ignoredColumns.length > 0 && (
+              <p className="text-muted-foreground">Ignored columns: {report.ignoredColumns.join(", ")}</p>
+            )}
+            {report.errors.length > 0 && (
+              <ul className="flex flex-col gap-1 text-red-700">
+                {report.errors.map((error, index) => (
+                  <li key={index}>
+                    Row {error.row}: {error.message}
+                  </li>
+                ))}
+                {report.moreErrors > 0 && <li>...and {report.moreErrors} more</li>}
+              </ul>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TelemetryImport;
@@ -0,0 +1,203 @@
+"use client";
+
+import { History } from "lucide-react";
+import React, { useCallback, useEffect, useState } from "react";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { NativeSelect } from "@/components/ui/native-select";
+import { Separator } from "@/components/ui/separator";
+import Header from "@/components/header/Header";
+import { useDevices } from "@/components/DeviceProvider/DeviceProvider";
+import { Anomaly } from "@/lib/anomalies";
+import { apiFetch } from "@/lib/api";
+import { useSession } from "@/lib/authClient";
+import { Role, roleHasPermission } from "@/lib/permissions";
+import { RETENTION_TIER_LABELS, RetentionTier } from "@/lib/retention";
+import { SENSOR_KEYS, SENSOR_META, SensorKey } from "@/lib/sensors";
+import AnomalyList from "./_components/AnomalyList";
+import DataExport from "./_components/DataExport";
+import RetentionSettings from "./_components/RetentionSettings";
+import SensorHistoryChart, { HistoryPoint } from "./_components/SensorHistoryChart";
+import TelemetryImport from "./_components/TelemetryImport";
+
+// Selectable windows and the x-axis tick format for each
+const RANGES = [
+  { value: "1h", label: "1 hour", timeFormat: "HH:mm" },
+  { value: "24h", label: "24 hours", timeFormat: "HH:mm" },
+  { value: "7d", label: "7 days", timeFormat: "ddd DD" },
+  { value: "30d", label: "30 days", timeFormat: "MMM DD" },
+  { value: "90d", label: "90 days", timeFormat: "MMM DD" },
+  { value: "1y", label: "1 year", timeFormat: "MMM YYYY" },
+] as const;
+
+type RangeValue = (typeof RANGES)[number]["value"];
+
+// "10 min", "6 h", "3 day"
+const formatBucket = (seconds: number) =>
+  seconds >= 86400 ? `${seconds / 86400} day` : seconds >= 3600 ? `${seconds / 3600} h` : `${seconds / 60} min`;
+
+interface HistoryResponse {
+  range: RangeValue;
+  bucketSeconds: number;
+  // The stored tier the backend read, picked from the range
+  resolution: RetentionTier;
+  from: string;
+  to: string;
+  series: Partial<Record<SensorKey, HistoryPoint[]>>;
+}
+
+const HistoryPage = () => {
+  const { deviceId, can, crop, optimalRange } = useDevices();
+  const { data: session } = useSession();
+  // Retention covers every greenhouse, so it follows the global role
+  const canManageRetention = roleHasPermission(session?.user.role as Role | undefined, "devices:manage");
+
+  const [range, setRange] = useState<RangeValue>("24h");
+  const [sensor, setSensor] = useState<SensorKey>("temperature");
+  const [compareSensor, setCompareSensor] = useState<SensorKey | "">("");
+  const [history, setHistory] = useState<HistoryResponse | null>(null);
+  const [anomalies, setAnomalies] = useState<Anomaly[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchHistory = useCallback(async () => {
+    if (!deviceId) return;
+
+    const sensors = compareSensor ? [sensor, compareSensor] : [sensor];
+
+    try {
+      setIsLoading(true);
+      const data = await apiFetch<HistoryResponse>(
+        `/api/devices/${deviceId}/history?sensors=${sensors.join(",")}&range=${range}`
+      );
+      // The charted period decides which anomalies are shown
+      const found = await apiFetch<Anomaly[]>(
+        `/api/anomalies?deviceId=${deviceId}&sensor=${sensor}&from=${data.from}&to=${data.to}`
+      );
+      setHistory(data);
+      setAnomalies(found);
+      setError(null);
+    } catch (err) {
+      setError(`Failed to load history: ${err}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [deviceId, range, sensor, compareSensor]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  const timeFormat = RANGES.find((option) => option.value === range)!.timeFormat;
+
+  return (
+    <div className="min-h-screen w-full flex flex-col gap-8 items-center bg-gradient-to-br from-green-50 to-emerald-100 pb-4">
+      {/* Header */}
+      <div className="w-full px-6">
+        <Header />
+        <Separator className="my-2 h-[20px]" />
+      </div>
+
+      <section className="flex flex-col items-center gap-2 text-center">
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <History className="w-10 h-10" />
+          Sensor History
+        </h1>
+        <p>Review how your greenhouse environment changed over time</p>
+      </section>
+
+      {/* Controls */}
+      <section className="flex flex-wrap gap-4 items-end justify-center">
+        <div className="flex flex-col gap-1">
+          <label className="text-sm text-gray-600">Sensor</label>
+          <NativeSelect
+            value={sensor}
+            onChange={(e) => setSensor(e.target.value as SensorKey)}
+          >
+            {SENSOR_KEYS.map((key) => (
+              <option key={key} value={key}>
+                {SENSOR_META[key].label}
+              </option>
+            ))}
+          </NativeSelect>
+        </div>
+
+        <div className="flex flex-col gap-1">
+          <label className="text-sm text-gray-600">Compare with</label>
+          <NativeSelect
+            value={compareSensor}
+            onChange={(e) => setCompareSensor(e.target.value as SensorKey | "")}
+          >
+            <option value="">None</option>
+            {SENSOR_KEYS.filter((key) => key !== sensor).map((key) => (
+              <option key={key} value={key}>
+                {SENSOR_META[key].label}
+              </option>
+            ))}
+          </NativeSelect>
+        </div>
+
+        <div className="flex gap-2">
+          {RANGES.map((option) => (
+            <Button
+              key={option.value}
+              variant={range === option.value ? "default" : "outline"}
+              className="cursor-pointer"
+              onClick={() => setRange(option.value)}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+      </section>
+
+      {/* Error Display */}
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded max-w-md text-center">
+          {error}
+        </div>
+      )}
+
+      {/* Chart */}
+      <Card className="w-full lg:w-[80%]">
+        <CardHeader>
+          <CardTitle>
+            {SENSOR_META[sensor].label}
+            {compareSensor && ` vs ${SENSOR_META[compareSensor].label}`}
+          </CardTitle>
+          <CardDescription>
+            Shaded bands show the optimal range, amber and red periods the anomalies
+            {crop && ` for ${crop.profile.name} (${crop.stage.name})`}
+            {history &&
+              ` · ${formatBucket(history.bucketSeconds)} averages from ${RETENTION_TIER_LABELS[history.resolution].toLowerCase()}`}
+            {isLoading && " · loading..."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <SensorHistoryChart
+            sensor={sensor}
+            points={history?.series[sensor] ?? []}
+            optimal={optimalRange(sensor)}
+            compareSensor={compareSensor || undefined}
+            comparePoints={compareSensor ? history?.series[compareSensor] ?? [] : undefined}
+            compareOptimal={compareSensor ? optimalRange(compareSensor) : undefined}
+            anomalies={anomalies}
+            timeFormat={timeFormat}
+          />
+        </CardContent>
+      </Card>
+
+      <AnomalyList sensor={sensor} anomalies={anomalies} />
+
+      {deviceId && <DataExport deviceId={deviceId} />}
+
+      {/* Backfilling history is part of the device setup */}
+      {deviceId && can("devices:manage") && <TelemetryImport deviceId={deviceId} onImported={fetchHistory} />}
+
+      {canManageRetention && <RetentionSettings onApplied={fetchHistory} />}
+    </div>
+  );
+};
+
+export default HistoryPage;
@@ -0,0 +1,71 @@
+import React from "react";
+import dayjs from "dayjs";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ACTUATOR_LABELS } from "@/lib/devices";
+import { formatDuration } from "@/lib/health";
+import { formatLiters, IrrigationRun, RUN_STATUS_STYLES } from "@/lib/irrigation";
+
+interface IrrigationRunTableProps {
+  runs: IrrigationRun[];
+  // Shown on running runs when the user may control the pumps
+  onStop?: (run: IrrigationRun) => void;
+}
+
+const formatLevel = (level: number | null) => (level === null ? "—" : `${level.toFixed(1)} cm`);
+
+const IrrigationRunTable = ({ runs, onStop }: IrrigationRunTableProps) => {
+  if (runs.length === 0) {
+    return <p className="text-muted-foreground text-sm">No runs yet</p>;
+  }
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-muted-foreground border-b">
+          <th className="py-2">Started</th>
+          <th>Program</th>
+          <th>Status</th>
+          <th className="text-right">Pumped</th>
+          <th className="text-right">Level before / after</th>
+          <th className="text-right">Volume</th>
+        </tr>
+      </thead>
+      <tbody>
+        {runs.map((run) => (
+          <tr key={run.id} className="border-b last:border-0 align-top">
+            <td className="py-2 whitespace-nowrap">
+              {dayjs(run.startedAt).format("YYYY-MM-DD HH:mm:ss")}
+              <span className="block text-xs text-muted-foreground">
+                {run.trigger === "schedule" ? "Scheduled" : "Started by hand"}
+              </span>
+            </td>
+            <td>
+              {run.programName}
+              <span className="block text-xs text-muted-foreground">{ACTUATOR_LABELS[run.pump]}</span>
+            </td>
+            <td>
+              <Badge className={RUN_STATUS_STYLES[run.status]}>{run.status.toUpperCase()}</Badge>
+              {run.status === "running" && onStop && (
+                <Button size="sm" variant="outline" className="cursor-pointer ml-2" onClick={() => onStop(run)}>
+                  Stop
+                </Button>
+              )}
+              {run.message && <span className="block text-xs text-muted-foreground mt-1">{run.message}</span>}
+            </td>
+            <td className="text-right whitespace-nowrap">
+              {formatDuration(run.pumpSeconds * 1000)}
+              {run.cycles > 1 && <span className="block text-xs text-muted-foreground">{run.cycles} cycles</span>}
+            </td>
+            <td className="text-right whitespace-nowrap">
+              {formatLevel(run.levelBefore)} / {formatLevel(run.levelAfter)}
+            </td>
+            <td className="text-right whitespace-nowrap">{formatLiters(run.liters)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+export default IrrigationRunTable;
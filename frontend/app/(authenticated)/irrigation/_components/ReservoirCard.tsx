@@ -0,0 +1,127 @@
+import React, { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { apiFetch } from "@/lib/api";
+import { formatLiters, Reservoir, ReservoirStatus } from "@/lib/irrigation";
+
+interface ReservoirCardProps {
+  deviceId: string;
+  status: ReservoirStatus;
+  // Owners and operators may calibrate the tank
+  canCalibrate: boolean;
+  onChanged: () => void;
+}
+
+const FIELDS = [
+  { key: "fullDistanceCm", label: "Distance when full (cm)" },
+  { key: "emptyDistanceCm", label: "Distance when empty (cm)" },
+  { key: "capacityLiters", label: "Capacity (L)" },
+] as const;
+
+type FieldKey = (typeof FIELDS)[number]["key"];
+
+const ReservoirCard = ({ deviceId, status, canCalibrate, onChanged }: ReservoirCardProps) => {
+  const [values, setValues] = useState<Record<FieldKey, string>>({
+    fullDistanceCm: "",
+    emptyDistanceCm: "",
+    capacityLiters: "",
+  });
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const { reservoir } = status;
+    setValues({
+      fullDistanceCm: reservoir ? String(reservoir.fullDistanceCm) : "",
+      emptyDistanceCm: reservoir ? String(reservoir.emptyDistanceCm) : "",
+      capacityLiters: reservoir ? String(reservoir.capacityLiters) : "",
+    });
+  }, [status.reservoir]);
+
+  // Takes the current reading as the full or empty mark
+  const takeCurrentDistance = (key: FieldKey) => {
+    if (status.distance !== null) setValues({ ...values, [key]: String(status.distance) });
+  };
+
+  const save = async () => {
+    setIsSaving(true);
+    try {
+      await apiFetch<Reservoir>("/api/irrigation/reservoir", {
+        method: "PUT",
+        body: JSON.stringify({
+          deviceId,
+          fullDistanceCm: Number(values.fullDistanceCm),
+          emptyDistanceCm: Number(values.emptyDistanceCm),
+          capacityLiters: Number(values.capacityLiters),
+        }),
+      });
+      toast("Reservoir calibration saved");
+      onChanged();
+    } catch (err) {
+      toast("Could not save the reservoir calibration", { description: String(err) });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="flex-1 min-w-[280px]">
+      <CardHeader>
+        <CardTitle>Reservoir</CardTitle>
+        <CardDescription>
+          {status.reservoir
+            ? `${status.litersPerCm!.toFixed(2)} L per cm of level`
+            : "Not calibrated yet, water volumes are estimated once it is"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4 text-sm">
+        <dl className="grid grid-cols-2 gap-x-4 gap-y-1">
+          <dt className="text-muted-foreground">Distance to the water</dt>
+          <dd>{status.distance === null ? "No recent reading" : `${status.distance.toFixed(1)} cm`}</dd>
+          <dt className="text-muted-foreground">Fill level</dt>
+          <dd>{status.fillPercent === null ? "—" : `${Math.round(status.fillPercent)} %`}</dd>
+          <dt className="text-muted-foreground">Water left</dt>
+          <dd>{formatLiters(status.liters)}</dd>
+        </dl>
+
+        {canCalibrate && (
+          <div className="flex flex-wrap items-end gap-2">
+            {FIELDS.map(({ key, label }) => (
+              <div key={key} className="flex flex-col gap-1">
+                <label className="text-sm text-gray-600">{label}</label>
+                <div className="flex gap-1">
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.1"
+                    className="w-28"
+                    value={values[key]}
+                    onChange={(e) => setValues({ ...values, [key]: e.target.value })}
+                  />
+                  {key !== "capacityLiters" && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="cursor-pointer"
+                      disabled={status.distance === null}
+                      title="Use the current distance"
+                      onClick={() => takeCurrentDistance(key)}
+                    >
+                      Now
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+            <Button variant="outline" className="cursor-pointer" disabled={isSaving} onClick={save}>
+              Save
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ReservoirCard;
@@ -0,0 +1,35 @@
+import React from "react";
+import dayjs from "dayjs";
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+
+import { UsagePeriod } from "@/lib/irrigation";
+
+interface WaterUsageChartProps {
+  periods: UsagePeriod[];
+  period: "daily" | "weekly";
+}
+
+// Irrigation programs and all other pumping (dashboard, rules, schedules) stacked per day or week
+const WaterUsageChart = ({ periods, period }: WaterUsageChartProps) => {
+  const data = periods.map((usage) => ({
+    label: period === "daily" ? dayjs(usage.start).format("MMM D") : `Week of ${dayjs(usage.start).format("MMM D")}`,
+    irrigation: Number(usage.irrigationLiters.toFixed(1)),
+    other: Number((usage.liters - usage.irrigationLiters).toFixed(1)),
+  }));
+
+  return (
+    <ResponsiveContainer width="100%" height={280}>
+      <BarChart data={data}>
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis dataKey="label" fontSize={12} />
+        <YAxis unit=" L" fontSize={12} />
+        <Tooltip formatter={(value) => `${value} L`} />
+        <Legend />
+        <Bar dataKey="irrigation" name="Irrigation programs" stackId="liters" fill="#059669" />
+        <Bar dataKey="other" name="Other pumping" stackId="liters" fill="#93c5fd" />
+      </BarChart>
+    </ResponsiveContainer>
+  );
+};
+
+export default WaterUsageChart;
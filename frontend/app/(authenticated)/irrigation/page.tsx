@@ -0,0 +1,278 @@
+"use client";
+
+import { Droplets, Trash2 } from "lucide-react";
+import React, { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { NativeSelect } from "@/components/ui/native-select";
+import { Separator } from "@/components/ui/separator";
+import Header from "@/components/header/Header";
+import { useDevices } from "@/components/DeviceProvider/DeviceProvider";
+import IrrigationProgramForm from "@/components/IrrigationProgramForm/IrrigationProgramForm";
+import { apiFetch } from "@/lib/api";
+import { ACTUATOR_LABELS } from "@/lib/devices";
+import {
+  describeProgram,
+  formatLiters,
+  IrrigationProgram,
+  IrrigationRun,
+  ReservoirStatus,
+  WaterUsage,
+} from "@/lib/irrigation";
+import IrrigationRunTable from "./_components/IrrigationRunTable";
+import ReservoirCard from "./_components/ReservoirCard";
+import WaterUsageChart from "./_components/WaterUsageChart";
+
+const PERIODS = [14, 28, 91];
+
+// Water usage is split into the viewer's days
+const TIMEZONE = encodeURIComponent(Intl.DateTimeFormat().resolvedOptions().timeZone);
+
+// Runs change every few seconds while a program is pumping
+const REFRESH_MS = 5000;
+
+const IrrigationPage = () => {
+  const { deviceId, can } = useDevices();
+  const canManage = can("automation:manage");
+  const canControl = can("devices:control");
+
+  const [programs, setPrograms] = useState<IrrigationProgram[]>([]);
+  const [runs, setRuns] = useState<IrrigationRun[]>([]);
+  const [reservoir, setReservoir] = useState<ReservoirStatus | null>(null);
+  const [usage, setUsage] = useState<WaterUsage | null>(null);
+  const [days, setDays] = useState(28);
+  const [period, setPeriod] = useState<"daily" | "weekly">("daily");
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchIrrigation = useCallback(async () => {
+    if (!deviceId) return;
+
+    try {
+      const [programList, runList, reservoirStatus, waterUsage] = await Promise.all([
+        apiFetch<IrrigationProgram[]>(`/api/irrigation/programs?deviceId=${deviceId}`),
+        apiFetch<IrrigationRun[]>(`/api/irrigation/runs?deviceId=${deviceId}&limit=50`),
+        apiFetch<ReservoirStatus>(`/api/irrigation/reservoir?deviceId=${deviceId}`),
+        apiFetch<WaterUsage>(`/api/irrigation/usage?deviceId=${deviceId}&days=${days}&timezone=${TIMEZONE}`),
+      ]);
+      setPrograms(programList);
+      setRuns(runList);
+      setReservoir(reservoirStatus);
+      setUsage(waterUsage);
+      setError(null);
+    } catch (err) {
+      setError(`Failed to load irrigation: ${err}`);
+    }
+  }, [deviceId, days]);
+
+  useEffect(() => {
+    fetchIrrigation();
+    const timer = setInterval(fetchIrrigation, REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [fetchIrrigation]);
+
+  const runProgram = async (program: IrrigationProgram) => {
+    try {
+      const run = await apiFetch<IrrigationRun>(`/api/irrigation/programs/${program.id}/run`, { method: "POST" });
+      if (run.status === "running") toast(`${program.name} started`);
+      else toast(`${program.name} did not start`, { description: run.message ?? undefined });
+      fetchIrrigation();
+    } catch (err) {
+      toast("Could not start the program", { description: String(err) });
+    }
+  };
+
+  const stopRun = async (run: IrrigationRun) => {
+    try {
+      await apiFetch(`/api/irrigation/runs/${run.id}/stop`, { method: "POST" });
+      toast(`Stopping ${run.programName}`);
+      fetchIrrigation();
+    } catch (err) {
+      toast("Could not stop the run", { description: String(err) });
+    }
+  };
+
+  const toggleProgram = async (program: IrrigationProgram) => {
+    try {
+      await apiFetch<IrrigationProgram>(`/api/irrigation/programs/${program.id}`, {
+        method: "PATCH",
+        body: JSON.stringify({ enabled: !program.enabled }),
+      });
+      fetchIrrigation();
+    } catch (err) {
+      toast("Could not update program", { description: String(err) });
+    }
+  };
+
+  const deleteProgram = async (program: IrrigationProgram) => {
+    if (!confirm(`Delete irrigation program "${program.name}" and its runs?`)) return;
+
+    try {
+      await apiFetch(`/api/irrigation/programs/${program.id}`, { method: "DELETE" });
+      fetchIrrigation();
+    } catch (err) {
+      toast("Could not delete program", { description: String(err) });
+    }
+  };
+
+  const periods = usage?.[period] ?? [];
+  const totalLiters = periods.reduce((sum, entry) => sum + entry.liters, 0);
+  const unmeasuredRuns = periods.reduce((sum, entry) => sum + entry.unmeasuredRuns, 0);
+
+  return (
+    <div className="min-h-screen w-full flex flex-col gap-8 items-center bg-gradient-to-br from-green-50 to-emerald-100 pb-4">
+      {/* Header */}
+      <div className="w-full px-6">
+        <Header />
+        <Separator className="my-2 h-[20px]" />
+      </div>
+
+      <section className="flex flex-col items-center gap-2 text-center">
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <Droplets className="w-10 h-10" />
+          Irrigation
+        </h1>
+        <p>Watering programs, the reservoir and how much water the greenhouse uses</p>
+      </section>
+
+      {/* Error Display */}
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded max-w-md text-center">
+          {error}
+        </div>
+      )}
+
+      {/* Programs */}
+      <section className="flex flex-wrap gap-4 w-full lg:w-[80%] justify-center">
+        {programs.length === 0 && <p className="text-muted-foreground">No irrigation programs yet, create one below.</p>}
+        {programs.map((program) => (
+          <Card key={program.id} className="w-full max-w-sm">
+            <CardHeader className="flex flex-row items-center justify-between gap-2">
+              <CardTitle>{program.name}</CardTitle>
+              {program.running ? (
+                <Badge className="bg-blue-500 text-white">Running</Badge>
+              ) : (
+                <Badge variant={program.enabled ? "default" : "secondary"}>
+                  {program.enabled ? "Enabled" : "Disabled"}
+                </Badge>
+              )}
+            </CardHeader>
+            <CardContent className="flex flex-col gap-3 text-sm">
+              <p>
+                <span className="font-medium">{ACTUATOR_LABELS[program.pump]}</span> {describeProgram(program)}
+              </p>
+              <ul className="text-muted-foreground">
+                <li>{program.cron ? `Starts at "${program.cron}" (${program.timezone})` : "Started by hand only"}</li>
+                {program.maxDailySeconds !== null && <li>At most {program.maxDailySeconds} s of pumping a day</li>}
+                {program.skipAboveHumidity !== null && <li>Skipped above {program.skipAboveHumidity} % humidity</li>}
+              </ul>
+              {(canControl || canManage) && (
+                <div className="flex gap-2">
+                  {canControl && !program.running && (
+                    <Button size="sm" className="cursor-pointer" onClick={() => runProgram(program)}>
+                      Run now
+                    </Button>
+                  )}
+                  {canControl && program.running && (
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      className="cursor-pointer"
+                      onClick={() => {
+                        const run = runs.find((entry) => entry.programId === program.id && entry.status === "running");
+                        if (run) stopRun(run);
+                      }}
+                    >
+                      Stop
+                    </Button>
+                  )}
+                  {canManage && (
+                    <>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="cursor-pointer"
+                        onClick={() => toggleProgram(program)}
+                      >
+                        {program.enabled ? "Disable" : "Enable"}
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="cursor-pointer ml-auto"
+                        disabled={program.running}
+                        onClick={() => deleteProgram(program)}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        ))}
+      </section>
+
+      <section className="w-full lg:w-[80%] flex flex-wrap gap-4">
+        {deviceId && reservoir && (
+          <ReservoirCard
+            deviceId={deviceId}
+            status={reservoir}
+            canCalibrate={can("calibration:manage")}
+            onChanged={fetchIrrigation}
+          />
+        )}
+      </section>
+
+      {usage && (
+        <Card className="w-full lg:w-[80%]">
+          <CardHeader className="flex flex-row items-start justify-between gap-4">
+            <div className="flex flex-col gap-1.5">
+              <CardTitle>Water Usage</CardTitle>
+              <CardDescription>
+                {formatLiters(totalLiters)} over the last {days} days
+                {unmeasuredRuns > 0 &&
+                  `, ${unmeasuredRuns} pump ${unmeasuredRuns === 1 ? "run" : "runs"} without a level reading or reservoir calibration not included`}
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <NativeSelect value={period} onChange={(e) => setPeriod(e.target.value as "daily" | "weekly")}>
+                <option value="daily">Per day</option>
+                <option value="weekly">Per week</option>
+              </NativeSelect>
+              <NativeSelect value={days} onChange={(e) => setDays(Number(e.target.value))}>
+                {PERIODS.map((option) => (
+                  <option key={option} value={option}>
+                    {option} days
+                  </option>
+                ))}
+              </NativeSelect>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <WaterUsageChart periods={periods} period={period} />
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="w-full lg:w-[80%]">
+        <CardHeader>
+          <CardTitle>Runs</CardTitle>
+          <CardDescription>Every start of a program, skipped ones included</CardDescription>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          <IrrigationRunTable runs={runs} onStop={canControl ? stopRun : undefined} />
+        </CardContent>
+      </Card>
+
+      <section className="w-full lg:w-[80%]">
+        {deviceId && canManage && <IrrigationProgramForm deviceId={deviceId} onCreated={fetchIrrigation} />}
+      </section>
+    </div>
+  );
+};
+
+export default IrrigationPage;
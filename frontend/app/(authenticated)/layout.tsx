@@ -0,0 +1,9 @@
+import DeviceProvider from "@/components/DeviceProvider/DeviceProvider";
+
+export default function AuthenticatedLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return <DeviceProvider>{children}</DeviceProvider>;
+}
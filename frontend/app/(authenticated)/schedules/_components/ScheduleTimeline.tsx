@@ -0,0 +1,99 @@
+import React from "react";
+import dayjs from "dayjs";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ACTUATOR_LABELS, RelayActuator } from "@/lib/devices";
+import { ScheduleEvent, ScheduleTimeline as Timeline } from "@/lib/schedules";
+
+interface ScheduleTimelineProps {
+  timeline: Timeline;
+}
+
+const ACTUATORS: RelayActuator[] = ["led", "pump1", "pump2", "fan"];
+
+interface Interval {
+  start: number;
+  end: number;
+  scheduleName: string;
+}
+
+// Pair ON/OFF transitions into bars; a leading OFF means the actuator was already on at `from`
+const toIntervals = (events: ScheduleEvent[], from: number, to: number): Interval[] => {
+  const intervals: Interval[] = [];
+  let open: { start: number; scheduleName: string } | null = null;
+
+  for (const event of events) {
+    const at = new Date(event.at).getTime();
+    if (event.state) {
+      open = open ?? { start: at, scheduleName: event.scheduleName };
+    } else {
+      intervals.push({ start: open?.start ?? from, end: at, scheduleName: event.scheduleName });
+      open = null;
+    }
+  }
+  if (open) intervals.push({ ...open, end: to });
+
+  return intervals;
+};
+
+const ScheduleTimeline = ({ timeline }: ScheduleTimelineProps) => {
+  const from = new Date(timeline.from).getTime();
+  const to = new Date(timeline.to).getTime();
+  const now = new Date(timeline.now).getTime();
+  const position = (time: number) => `${((time - from) / (to - from)) * 100}%`;
+
+  const ticks = Array.from({ length: 9 }, (_, index) => from + ((to - from) * index) / 8);
+
+  return (
+    <Card className="w-full lg:w-[80%]">
+      <CardHeader>
+        <CardTitle>Timeline</CardTitle>
+        <CardDescription>
+          Bars are scheduled ON periods, dots are executed actions (green = sent, red = failed). The line marks now.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {ACTUATORS.map((actuator) => {
+          const events = timeline.events.filter((event) => event.actuator === actuator);
+          const runs = timeline.runs.filter((run) => run.actuator === actuator);
+
+          return (
+            <div key={actuator} className="flex items-center gap-3">
+              <span className="w-24 text-sm font-medium">{ACTUATOR_LABELS[actuator]}</span>
+              <div className="relative flex-1 h-8 bg-gray-100 rounded">
+                {toIntervals(events, from, to).map((interval, index) => (
+                  <div
+                    key={index}
+                    title={`${interval.scheduleName}: ${dayjs(interval.start).format("ddd HH:mm")} – ${dayjs(interval.end).format("ddd HH:mm")}`}
+                    className={`absolute top-1 bottom-1 rounded min-w-[3px] ${interval.end < now ? "bg-emerald-300" : "bg-emerald-500"}`}
+                    style={{ left: position(interval.start), width: `calc(${position(interval.end)} - ${position(interval.start)})` }}
+                  />
+                ))}
+                {runs.map((run) => (
+                  <div
+                    key={run.id}
+                    title={`${run.scheduleName}: ${run.state ? "ON" : "OFF"} at ${dayjs(run.executedAt).format("ddd HH:mm:ss")}${run.success ? "" : ` (${run.message})`}`}
+                    className={`absolute -bottom-1 w-2 h-2 rounded-full -translate-x-1 ${run.success ? "bg-green-600" : "bg-red-600"}`}
+                    style={{ left: position(new Date(run.scheduledFor).getTime()) }}
+                  />
+                ))}
+                <div className="absolute top-0 bottom-0 w-px bg-red-500" style={{ left: position(now) }} />
+              </div>
+            </div>
+          );
+        })}
+        <div className="flex items-center gap-3">
+          <span className="w-24" />
+          <div className="relative flex-1 h-4 text-xs text-muted-foreground">
+            {ticks.map((tick) => (
+              <span key={tick} className="absolute -translate-x-1/2" style={{ left: position(tick) }}>
+                {dayjs(tick).format("ddd HH:mm")}
+              </span>
+            ))}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ScheduleTimeline;
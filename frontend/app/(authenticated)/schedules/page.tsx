@@ -0,0 +1,143 @@
+"use client";
+
+import { CalendarClock, Trash2 } from "lucide-react";
+import React, { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import Header from "@/components/header/Header";
+import { useDevices } from "@/components/DeviceProvider/DeviceProvider";
+import ScheduleForm from "@/components/ScheduleForm/ScheduleForm";
+import { apiFetch } from "@/lib/api";
+import { ACTUATOR_LABELS } from "@/lib/devices";
+import { describeSchedule, Schedule, ScheduleTimeline as Timeline } from "@/lib/schedules";
+import ScheduleTimeline from "./_components/ScheduleTimeline";
+
+const SchedulesPage = () => {
+  const { deviceId, can } = useDevices();
+  const canManage = can("automation:manage");
+
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [timeline, setTimeline] = useState<Timeline | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSchedules = useCallback(async () => {
+    if (!deviceId) return;
+
+    try {
+      const [scheduleList, scheduleTimeline] = await Promise.all([
+        apiFetch<Schedule[]>(`/api/schedules?deviceId=${deviceId}`),
+        apiFetch<Timeline>(`/api/schedules/timeline?deviceId=${deviceId}&hours=24`),
+      ]);
+      setSchedules(scheduleList);
+      setTimeline(scheduleTimeline);
+      setError(null);
+    } catch (err) {
+      setError(`Failed to load schedules: ${err}`);
+    }
+  }, [deviceId]);
+
+  useEffect(() => {
+    fetchSchedules();
+  }, [fetchSchedules]);
+
+  const toggleSchedule = async (schedule: Schedule) => {
+    try {
+      await apiFetch<Schedule>(`/api/schedules/${schedule.id}`, {
+        method: "PATCH",
+        body: JSON.stringify({ enabled: !schedule.enabled }),
+      });
+      fetchSchedules();
+    } catch (err) {
+      toast("Could not update schedule", { description: String(err) });
+    }
+  };
+
+  const deleteSchedule = async (schedule: Schedule) => {
+    if (!confirm(`Delete schedule "${schedule.name}"?`)) return;
+
+    try {
+      await apiFetch(`/api/schedules/${schedule.id}`, { method: "DELETE" });
+      fetchSchedules();
+    } catch (err) {
+      toast("Could not delete schedule", { description: String(err) });
+    }
+  };
+
+  return (
+    <div className="min-h-screen w-full flex flex-col gap-8 items-center bg-gradient-to-br from-green-50 to-emerald-100 pb-4">
+      {/* Header */}
+      <div className="w-full px-6">
+        <Header />
+        <Separator className="my-2 h-[20px]" />
+      </div>
+
+      <section className="flex flex-col items-center gap-2 text-center">
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <CalendarClock className="w-10 h-10" />
+          Schedules
+        </h1>
+        <p>Photoperiods and timed irrigation runs</p>
+      </section>
+
+      {/* Error Display */}
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded max-w-md text-center">
+          {error}
+        </div>
+      )}
+
+      {timeline && <ScheduleTimeline timeline={timeline} />}
+
+      {/* Schedules */}
+      <section className="flex flex-wrap gap-4 w-full lg:w-[80%] justify-center">
+        {schedules.length === 0 && <p className="text-muted-foreground">No schedules yet, create one below.</p>}
+        {schedules.map((schedule) => (
+          <Card key={schedule.id} className="w-full max-w-sm">
+            <CardHeader className="flex flex-row items-center justify-between gap-2">
+              <CardTitle>{schedule.name}</CardTitle>
+              <Badge variant={schedule.enabled ? "default" : "secondary"}>
+                {schedule.enabled ? "Enabled" : "Disabled"}
+              </Badge>
+            </CardHeader>
+            <CardContent className="flex flex-col gap-3 text-sm">
+              <p>
+                <span className="font-medium">{ACTUATOR_LABELS[schedule.actuator]}</span> {describeSchedule(schedule)}
+              </p>
+              <p className="text-muted-foreground">{schedule.timezone}</p>
+              {canManage && (
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="cursor-pointer"
+                    onClick={() => toggleSchedule(schedule)}
+                  >
+                    {schedule.enabled ? "Disable" : "Enable"}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="cursor-pointer ml-auto"
+                    onClick={() => deleteSchedule(schedule)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        ))}
+      </section>
+
+      <section className="w-full lg:w-[80%]">
+        {deviceId && canManage && <ScheduleForm deviceId={deviceId} onCreated={fetchSchedules} />}
+      </section>
+    </div>
+  );
+};
+
+export default SchedulesPage;
@@ -0,0 +1,59 @@
+import React from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { NativeSelect } from "@/components/ui/native-select";
+import { Device } from "@/lib/devices";
+import { Role, ROLE_LABELS, ROLES } from "@/lib/permissions";
+import { ManagedUser } from "@/lib/users";
+
+interface UserCardProps {
+  user: ManagedUser;
+  devices: Device[];
+  onRoleChange: (role: Role) => void;
+  // null removes the membership so the global role applies again
+  onMembershipChange: (deviceId: string, role: Role | null) => void;
+}
+
+const UserCard = ({ user, devices, onRoleChange, onMembershipChange }: UserCardProps) => {
+  return (
+    <Card className="w-80 h-fit">
+      <CardHeader>
+        <CardTitle>{user.name}</CardTitle>
+        <CardDescription className="break-all">{user.email}</CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-3 text-sm">
+        <label className="flex flex-col gap-1">
+          <span className="text-muted-foreground">Global role</span>
+          <NativeSelect value={user.role} onChange={(event) => onRoleChange(event.target.value as Role)}>
+            {ROLES.map((role) => (
+              <option key={role} value={role}>
+                {ROLE_LABELS[role]}
+              </option>
+            ))}
+          </NativeSelect>
+        </label>
+
+        {devices.map((device) => {
+          const membership = user.memberships.find((candidate) => candidate.deviceId === device.id);
+          return (
+            <label key={device.id} className="flex flex-col gap-1">
+              <span className="text-muted-foreground">{device.name}</span>
+              <NativeSelect
+                value={membership?.role ?? ""}
+                onChange={(event) => onMembershipChange(device.id, (event.target.value as Role) || null)}
+              >
+                <option value="">Global role ({ROLE_LABELS[user.role]})</option>
+                {ROLES.map((role) => (
+                  <option key={role} value={role}>
+                    {ROLE_LABELS[role]}
+                  </option>
+                ))}
+              </NativeSelect>
+            </label>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default UserCard;
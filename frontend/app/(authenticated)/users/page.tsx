@@ -0,0 +1,99 @@
+"use client";
+
+import { Users } from "lucide-react";
+import React, { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+
+import { Separator } from "@/components/ui/separator";
+import Header from "@/components/header/Header";
+import { useDevices } from "@/components/DeviceProvider/DeviceProvider";
+import { apiFetch } from "@/lib/api";
+import { Role } from "@/lib/permissions";
+import { ManagedUser } from "@/lib/users";
+import UserCard from "./_components/UserCard";
+
+const UsersPage = () => {
+  const { devices, refreshDevices } = useDevices();
+
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchUsers = useCallback(async () => {
+    try {
+      setUsers(await apiFetch<ManagedUser[]>("/api/users"));
+      setError(null);
+    } catch (err) {
+      setError(`Failed to load users: ${err}`);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchUsers();
+  }, [fetchUsers]);
+
+  // Roles decide what the switcher's devices allow, so reload those too
+  const afterChange = () => {
+    fetchUsers();
+    refreshDevices();
+  };
+
+  const changeRole = async (user: ManagedUser, role: Role) => {
+    try {
+      await apiFetch(`/api/users/${user.id}`, { method: "PATCH", body: JSON.stringify({ role }) });
+      afterChange();
+    } catch (err) {
+      toast("Could not change role", { description: String(err) });
+    }
+  };
+
+  const changeMembership = async (user: ManagedUser, deviceId: string, role: Role | null) => {
+    try {
+      await apiFetch(
+        `/api/users/${user.id}/memberships/${deviceId}`,
+        role ? { method: "PUT", body: JSON.stringify({ role }) } : { method: "DELETE" }
+      );
+      afterChange();
+    } catch (err) {
+      toast("Could not change greenhouse role", { description: String(err) });
+    }
+  };
+
+  return (
+    <div className="min-h-screen w-full flex flex-col gap-8 items-center bg-gradient-to-br from-green-50 to-emerald-100 pb-4">
+      {/* Header */}
+      <div className="w-full px-6">
+        <Header />
+        <Separator className="my-2 h-[20px]" />
+      </div>
+
+      <section className="flex flex-col items-center gap-2 text-center">
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <Users className="w-10 h-10" />
+          Users
+        </h1>
+        <p>Viewers watch, operators control, owners also manage devices and people</p>
+      </section>
+
+      {/* Error Display */}
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded max-w-md text-center">
+          {error}
+        </div>
+      )}
+
+      <section className="flex flex-wrap gap-4 w-full lg:w-[80%] justify-center">
+        {users.map((user) => (
+          <UserCard
+            key={user.id}
+            user={user}
+            devices={devices}
+            onRoleChange={(role) => changeRole(user, role)}
+            onMembershipChange={(deviceId, role) => changeMembership(user, deviceId, role)}
+          />
+        ))}
+      </section>
+    </div>
+  );
+};
+
+export default UsersPage;
@@ -0,0 +1,279 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { NativeSelect } from "@/components/ui/native-select";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Icons } from "../icons";
+import { useDevices } from "@/components/DeviceProvider/DeviceProvider";
+import { apiFetch } from "@/lib/api";
+import { AlertDefinition } from "@/lib/alerts";
+import { SENSOR_KEYS, SENSOR_META, SensorKey } from "@/lib/sensors";
+
+// Bounds stay strings in the form, an empty input means that side is open
+const toBound = (value: string) => (value.trim() === "" ? null : Number(value));
+
+const bound = z.string().refine((value) => !Number.isNaN(toBound(value)), "Enter a number");
+
+const formSchema = z
+  .object({
+    name: z.string().trim().min(1, "Give the alert a name"),
+    sensor: z.enum(["temperature", "humidity", "ph", "distance", "mq135"]),
+    minValue: bound,
+    maxValue: bound,
+    severity: z.enum(["warning", "critical"]),
+    debounceSeconds: z.coerce.number().int().min(0),
+    followCropProfile: z.boolean(),
+    watchAnomalies: z.boolean(),
+  })
+  .refine(
+    (values) =>
+      values.followCropProfile ||
+      values.watchAnomalies ||
+      toBound(values.minValue) !== null ||
+      toBound(values.maxValue) !== null,
+    {
+      message: "Set a minimum or a maximum",
+      path: ["maxValue"],
+    }
+  )
+  .refine(
+    (values) => {
+      const [min, max] = [toBound(values.minValue), toBound(values.maxValue)];
+      return min === null || max === null || min < max;
+    },
+    {
+      message: "Minimum must be below maximum",
+      path: ["maxValue"],
+    }
+  );
+
+type FormValues = z.infer<typeof formSchema>;
+
+interface AlertDefinitionFormProps {
+  deviceId: string;
+  onCreated?: (definition: AlertDefinition) => void;
+}
+
+function AlertDefinitionForm(props: AlertDefinitionFormProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const { crop, optimalRange } = useDevices();
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: "",
+      sensor: "ph",
+      minValue: String(optimalRange("ph").min),
+      maxValue: String(optimalRange("ph").max),
+      severity: "warning",
+      debounceSeconds: 60,
+      followCropProfile: false,
+      watchAnomalies: false,
+    },
+  });
+  const followCropProfile = form.watch("followCropProfile");
+  const watchAnomalies = form.watch("watchAnomalies");
+
+  // Start from the optimal range the dashboard cards already use, i.e. the crop stage's
+  const selectSensor = (sensor: SensorKey) => {
+    form.setValue("sensor", sensor);
+    form.setValue("minValue", String(optimalRange(sensor).min));
+    form.setValue("maxValue", String(optimalRange(sensor).max));
+  };
+
+  // The crop profile loads after the form, refresh the bounds unless they were edited
+  useEffect(() => {
+    if (form.getFieldState("minValue").isDirty || form.getFieldState("maxValue").isDirty) return;
+    selectSensor(form.getValues("sensor"));
+  }, [crop]);
+
+  async function onSubmit(values: FormValues) {
+    try {
+      setIsLoading(true);
+
+      const definition = await apiFetch<AlertDefinition>("/api/alerts/definitions", {
+        method: "POST",
+        body: JSON.stringify({
+          deviceId: props.deviceId,
+          ...values,
+          minValue: toBound(values.minValue),
+          maxValue: toBound(values.maxValue),
+        }),
+      });
+
+      toast("Alert created", { description: definition.name });
+      form.reset();
+      props.onCreated?.(definition);
+    } catch (error) {
+      toast("Error Creating Alert", { description: String(error) });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle>New Alert</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <div className="grid gap-4 sm:grid-cols-3">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="pH drifting" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="sensor"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Sensor</FormLabel>
+                    <FormControl>
+                      <NativeSelect {...field} onChange={(event) => selectSensor(event.target.value as SensorKey)}>
+                        {SENSOR_KEYS.map((sensor) => (
+                          <option key={sensor} value={sensor}>
+                            {SENSOR_META[sensor].label}
+                          </option>
+                        ))}
+                      </NativeSelect>
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="severity"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Severity</FormLabel>
+                    <FormControl>
+                      <NativeSelect {...field}>
+                        <option value="warning">Warning</option>
+                        <option value="critical">Critical</option>
+                      </NativeSelect>
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-3">
+              <FormField
+                control={form.control}
+                name="minValue"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Minimum</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="any" disabled={followCropProfile || watchAnomalies} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="maxValue"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Maximum</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="any" disabled={followCropProfile || watchAnomalies} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="debounceSeconds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Debounce (seconds)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" {...field} />
+                    </FormControl>
+                    <FormDescription>How long a reading must stay out of range before alerting</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="followCropProfile"
+              render={({ field }) => (
+                <FormItem className="flex items-center gap-2">
+                  <FormControl>
+                    <input type="checkbox" checked={field.value} onChange={(e) => field.onChange(e.target.checked)} />
+                  </FormControl>
+                  <FormLabel>
+                    Follow the crop profile
+                    {crop && ` (${crop.profile.name}, ${crop.stage.name.toLowerCase()} now)`}
+                  </FormLabel>
+                  <FormDescription>The range moves with each growth stage instead of the bounds above</FormDescription>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="watchAnomalies"
+              render={({ field }) => (
+                <FormItem className="flex items-center gap-2">
+                  <FormControl>
+                    <input type="checkbox" checked={field.value} onChange={(e) => field.onChange(e.target.checked)} />
+                  </FormControl>
+                  <FormLabel>Alert on anomalies</FormLabel>
+                  <FormDescription>
+                    Fires when the hourly analysis finds the sensor unusual for the time of day, drifting, or (for the
+                    water level) a pump run that did not move it
+                  </FormDescription>
+                </FormItem>
+              )}
+            />
+
+            <Button type="submit" className="w-full cursor-pointer" disabled={isLoading}>
+              {isLoading ? (
+                <>
+                  <Icons.spinner className="mr-2 h-4 w-4 animate-spin" />
+                  Saving....
+                </>
+              ) : (
+                "Create Alert"
+              )}
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default AlertDefinitionForm;
@@ -0,0 +1,277 @@
+"use client";
+import React, { useState } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { NativeSelect } from "@/components/ui/native-select";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Icons } from "../icons";
+import { apiFetch } from "@/lib/api";
+import {
+  ACTUATOR_LABELS,
+  Device,
+  DEVICE_CAPABILITIES,
+  DeviceCapability,
+  DeviceTransport,
+  TRANSPORT_LABELS,
+} from "@/lib/devices";
+import { SENSOR_META, SensorKey } from "@/lib/sensors";
+
+const formSchema = z
+  .object({
+    name: z.string().trim().min(1, "Give the greenhouse a name"),
+    id: z
+      .string()
+      .regex(/^([a-z0-9][a-z0-9-]{0,49})?$/, "Lowercase letters, digits and dashes only"),
+    location: z.string(),
+    transport: z.enum(["http", "mqtt"]),
+    baseUrl: z.string().trim(),
+    cameraUrl: z.string(),
+    capabilities: z.array(z.string()),
+  })
+  .refine((values) => values.transport === "mqtt" || values.baseUrl.length > 0, {
+    message: "Where can the backend reach the ESP32?",
+    path: ["baseUrl"],
+  });
+
+type FormValues = z.infer<typeof formSchema>;
+
+const capabilityLabel = (capability: DeviceCapability) => {
+  if (capability === "camera") return "Camera";
+  if (capability in SENSOR_META) return SENSOR_META[capability as SensorKey].label;
+  return ACTUATOR_LABELS[capability as keyof typeof ACTUATOR_LABELS];
+};
+
+interface DeviceFormProps {
+  // Edit this device instead of registering a new one
+  device?: Device;
+  onSaved?: (device: Device) => void;
+  onCancel?: () => void;
+}
+
+function DeviceForm(props: DeviceFormProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const editing = !!props.device;
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: props.device?.name ?? "",
+      id: props.device?.id ?? "",
+      location: props.device?.location ?? "",
+      transport: props.device?.transport ?? "http",
+      baseUrl: props.device?.baseUrl ?? "",
+      cameraUrl: props.device?.cameraUrl ?? "",
+      capabilities: props.device?.capabilities ?? [...DEVICE_CAPABILITIES],
+    },
+  });
+
+  const transport = form.watch("transport");
+
+  async function onSubmit(values: FormValues) {
+    const body = {
+      name: values.name,
+      location: values.location.trim() || null,
+      transport: values.transport,
+      // MQTT boards have no address, the backend meets them on the broker
+      baseUrl: values.transport === "http" ? values.baseUrl : null,
+      cameraUrl: values.cameraUrl.trim() || null,
+      capabilities: values.capabilities,
+    };
+
+    try {
+      setIsLoading(true);
+
+      const device = editing
+        ? await apiFetch<Device>(`/api/devices/${props.device!.id}`, { method: "PATCH", body: JSON.stringify(body) })
+        : await apiFetch<Device>("/api/devices", {
+            method: "POST",
+            body: JSON.stringify({ ...body, id: values.id || undefined }),
+          });
+
+      toast(editing ? "Device updated" : "Device registered", { description: device.name });
+      if (!editing) form.reset();
+      props.onSaved?.(device);
+    } catch (error) {
+      toast("Error Saving Device", { description: String(error) });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle>{editing ? `Edit ${props.device!.name}` : "Register Device"}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <div className="grid gap-4 sm:grid-cols-3">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Nursery tent" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Device ID</FormLabel>
+                    <FormControl>
+                      <Input placeholder="nursery-tent" disabled={editing} {...field} />
+                    </FormControl>
+                    <FormDescription>Optional, derived from the name when empty</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="location"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Location</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Basement" {...field} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-3">
+              <FormField
+                control={form.control}
+                name="transport"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Transport</FormLabel>
+                    <FormControl>
+                      <NativeSelect {...field}>
+                        {(Object.keys(TRANSPORT_LABELS) as DeviceTransport[]).map((value) => (
+                          <option key={value} value={value}>
+                            {TRANSPORT_LABELS[value]}
+                          </option>
+                        ))}
+                      </NativeSelect>
+                    </FormControl>
+                    {transport === "mqtt" && (
+                      <FormDescription>The board publishes under its device ID on the backend&apos;s broker</FormDescription>
+                    )}
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="baseUrl"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>ESP32 address</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder={transport === "mqtt" ? "Not needed for MQTT" : "192.168.1.100 or https://tunnel.example.com"}
+                        disabled={transport === "mqtt"}
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="cameraUrl"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Camera stream URL</FormLabel>
+                    <FormControl>
+                      <Input placeholder="http://192.168.1.50:8000/stream.mjpg" {...field} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="capabilities"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Capabilities</FormLabel>
+                  <div className="flex flex-wrap gap-1">
+                    {DEVICE_CAPABILITIES.map((capability) => {
+                      const selected = field.value.includes(capability);
+                      return (
+                        <Button
+                          key={capability}
+                          type="button"
+                          size="sm"
+                          variant={selected ? "default" : "outline"}
+                          className="cursor-pointer"
+                          onClick={() =>
+                            field.onChange(
+                              selected
+                                ? field.value.filter((value) => value !== capability)
+                                : DEVICE_CAPABILITIES.filter((value) => value === capability || field.value.includes(value))
+                            )
+                          }
+                        >
+                          {capabilityLabel(capability)}
+                        </Button>
+                      );
+                    })}
+                  </div>
+                  <FormDescription>What this board has wired up; the dashboard only shows these</FormDescription>
+                </FormItem>
+              )}
+            />
+
+            <div className="flex gap-2">
+              <Button type="submit" className="flex-1 cursor-pointer" disabled={isLoading}>
+                {isLoading ? (
+                  <>
+                    <Icons.spinner className="mr-2 h-4 w-4 animate-spin" />
+                    Saving....
+                  </>
+                ) : editing ? (
+                  "Save Changes"
+                ) : (
+                  "Register Device"
+                )}
+              </Button>
+              {props.onCancel && (
+                <Button type="button" variant="outline" className="cursor-pointer" onClick={props.onCancel}>
+                  Cancel
+                </Button>
+              )}
+            </div>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default DeviceForm;
@@ -0,0 +1,101 @@
+"use client";
+import React, { createContext, useCallback, useContext, useEffect, useState } from "react";
+import { apiFetch } from "@/lib/api";
+import { ActiveCrop, ActiveCropResponse, SensorRange } from "@/lib/crops";
+import { Device, DeviceCapability } from "@/lib/devices";
+import { Permission, roleHasPermission } from "@/lib/permissions";
+import { SENSOR_META, SensorKey } from "@/lib/sensors";
+
+const STORAGE_KEY = "greenhouse.deviceId";
+
+interface DeviceContextValue {
+  devices: Device[];
+  device: Device | null;
+  // Selected device id, null until the registry has loaded (or when it is empty)
+  deviceId: string | null;
+  isLoading: boolean;
+  selectDevice: (id: string) => void;
+  refreshDevices: () => Promise<void>;
+  hasCapability: (capability: DeviceCapability) => boolean;
+  // Whether the user's role on the selected device grants the permission
+  can: (permission: Permission) => boolean;
+  // The crop growing in the selected greenhouse and its current stage, null without one
+  crop: ActiveCrop | null;
+  // Optimal range from the crop stage, the built-in defaults until it has loaded or without a crop
+  optimalRange: (sensor: SensorKey) => SensorRange;
+  refreshCrop: () => Promise<void>;
+}
+
+const DeviceContext = createContext<DeviceContextValue | null>(null);
+
+// Loads the device registry and remembers which greenhouse the user is looking at
+function DeviceProvider({ children }: { children: React.ReactNode }) {
+  const [devices, setDevices] = useState<Device[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [cropInfo, setCropInfo] = useState<ActiveCropResponse | null>(null);
+
+  const refreshDevices = useCallback(async () => {
+    try {
+      setDevices(await apiFetch<Device[]>("/api/devices"));
+    } catch (error) {
+      console.error("Failed to load devices:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    setSelectedId(localStorage.getItem(STORAGE_KEY));
+    refreshDevices();
+  }, [refreshDevices]);
+
+  const selectDevice = (id: string) => {
+    localStorage.setItem(STORAGE_KEY, id);
+    setSelectedId(id);
+  };
+
+  // Fall back to the first device when nothing (or a deleted device) was selected
+  const device = devices.find((candidate) => candidate.id === selectedId) ?? devices[0] ?? null;
+  const deviceId = device?.id ?? null;
+
+  const refreshCrop = useCallback(async () => {
+    if (!deviceId) return;
+    try {
+      setCropInfo(await apiFetch<ActiveCropResponse>(`/api/crops/active?deviceId=${deviceId}`));
+    } catch (error) {
+      console.error("Failed to load the crop profile:", error);
+    }
+  }, [deviceId]);
+
+  useEffect(() => {
+    setCropInfo(null);
+    refreshCrop();
+  }, [refreshCrop]);
+
+  const value: DeviceContextValue = {
+    devices,
+    device,
+    deviceId,
+    isLoading,
+    selectDevice,
+    refreshDevices,
+    hasCapability: (capability) => !!device?.capabilities.includes(capability),
+    can: (permission) => roleHasPermission(device?.role, permission),
+    crop: cropInfo?.crop ?? null,
+    optimalRange: (sensor) => cropInfo?.ranges[sensor] ?? SENSOR_META[sensor].optimal,
+    refreshCrop,
+  };
+
+  return <DeviceContext.Provider value={value}>{children}</DeviceContext.Provider>;
+}
+
+export const useDevices = () => {
+  const context = useContext(DeviceContext);
+  if (!context) {
+    throw new Error("useDevices must be used inside DeviceProvider");
+  }
+  return context;
+};
+
+export default DeviceProvider;
@@ -0,0 +1,306 @@
+"use client";
+import React, { useState } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { NativeSelect } from "@/components/ui/native-select";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Icons } from "../icons";
+import { apiFetch } from "@/lib/api";
+import { ACTUATOR_LABELS } from "@/lib/devices";
+import { IrrigationProgram } from "@/lib/irrigation";
+
+// Optional limits stay strings in the form, an empty input leaves them off
+const toOptional = (value: string) => (value.trim() === "" ? null : Number(value));
+
+const optional = z.string().refine((value) => !Number.isNaN(toOptional(value)), "Enter a number");
+
+const formSchema = z
+  .object({
+    name: z.string().trim().min(1, "Give the program a name"),
+    pump: z.enum(["pump1", "pump2"]),
+    mode: z.enum(["duration", "level"]),
+    durationSeconds: z.coerce.number().int().min(1).max(86400),
+    levelDropCm: optional,
+    cycleSeconds: optional,
+    soakSeconds: z.coerce.number().int().min(0).max(86400),
+    maxDailySeconds: optional,
+    skipAboveHumidity: optional,
+    cron: z.string(),
+    timezone: z.string().min(1),
+  })
+  .refine((values) => values.mode === "duration" || (toOptional(values.levelDropCm) ?? 0) > 0, {
+    message: "Set how far the level should drop",
+    path: ["levelDropCm"],
+  })
+  .refine((values) => (toOptional(values.cycleSeconds) ?? 10) >= 10, {
+    message: "Cycles are at least 10 seconds",
+    path: ["cycleSeconds"],
+  });
+
+type FormValues = z.infer<typeof formSchema>;
+
+interface IrrigationProgramFormProps {
+  deviceId: string;
+  onCreated?: (program: IrrigationProgram) => void;
+}
+
+function IrrigationProgramForm(props: IrrigationProgramFormProps) {
+  const [isLoading, setIsLoading] = useState(false);
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: "",
+      pump: "pump1",
+      mode: "duration",
+      durationSeconds: 120,
+      levelDropCm: "",
+      cycleSeconds: "",
+      soakSeconds: 0,
+      maxDailySeconds: "",
+      skipAboveHumidity: "",
+      cron: "",
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    },
+  });
+
+  const mode = form.watch("mode");
+
+  async function onSubmit(values: FormValues) {
+    try {
+      setIsLoading(true);
+
+      const program = await apiFetch<IrrigationProgram>("/api/irrigation/programs", {
+        method: "POST",
+        body: JSON.stringify({
+          deviceId: props.deviceId,
+          ...values,
+          levelDropCm: values.mode === "level" ? toOptional(values.levelDropCm) : null,
+          cycleSeconds: toOptional(values.cycleSeconds),
+          maxDailySeconds: toOptional(values.maxDailySeconds),
+          skipAboveHumidity: toOptional(values.skipAboveHumidity),
+          cron: values.cron.trim() === "" ? null : values.cron.trim(),
+        }),
+      });
+
+      toast("Irrigation program created", { description: program.name });
+      form.reset();
+      props.onCreated?.(program);
+    } catch (error) {
+      toast("Error Creating Program", { description: String(error) });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle>New Irrigation Program</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <div className="grid gap-4 sm:grid-cols-3">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Tomato beds" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="pump"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Pump</FormLabel>
+                    <FormControl>
+                      <NativeSelect {...field}>
+                        {(["pump1", "pump2"] as const).map((pump) => (
+                          <option key={pump} value={pump}>
+                            {ACTUATOR_LABELS[pump]}
+                          </option>
+                        ))}
+                      </NativeSelect>
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="mode"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Stop</FormLabel>
+                    <FormControl>
+                      <NativeSelect {...field}>
+                        <option value="duration">After a duration</option>
+                        <option value="level">When the water level dropped</option>
+                      </NativeSelect>
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="durationSeconds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{mode === "level" ? "Pump at most (seconds)" : "Pump for (seconds)"}</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="1" {...field} />
+                    </FormControl>
+                    <FormDescription>Pump time, soaks not included</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {mode === "level" && (
+                <FormField
+                  control={form.control}
+                  name="levelDropCm"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Until the level dropped (cm)</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="0.1" min="0" {...field} />
+                      </FormControl>
+                      <FormDescription>Measured by the distance sensor in the reservoir</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="cycleSeconds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Cycle length (seconds)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="10" placeholder="One go" {...field} />
+                    </FormControl>
+                    <FormDescription>Splits the run so the water can soak in between</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="soakSeconds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Soak between cycles (seconds)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="maxDailySeconds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Daily maximum (seconds)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="1" placeholder="No limit" {...field} />
+                    </FormControl>
+                    <FormDescription>Pump time per UTC day, a run is cut short at it</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="skipAboveHumidity"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Skip above humidity (%)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" max="100" placeholder="Never skip" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="cron"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Start at (cron)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="0 7,19 * * *" {...field} />
+                    </FormControl>
+                    <FormDescription>Leave empty to only start it by hand</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="timezone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Timezone</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <Button type="submit" className="w-full cursor-pointer" disabled={isLoading}>
+              {isLoading ? (
+                <>
+                  <Icons.spinner className="mr-2 h-4 w-4 animate-spin" />
+                  Saving....
+                </>
+              ) : (
+                "Create Program"
+              )}
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default IrrigationProgramForm;
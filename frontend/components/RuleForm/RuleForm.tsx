@@ -0,0 +1,442 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useFieldArray, useForm } from "react-hook-form";
+import { z } from "zod";
+import { Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { NativeSelect } from "@/components/ui/native-select";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Icons } from "../icons";
+import { useDevices } from "@/components/DeviceProvider/DeviceProvider";
+import { apiFetch } from "@/lib/api";
+import { ACTUATOR_LABELS, DeviceCommand } from "@/lib/devices";
+import { SENSOR_KEYS, SENSOR_META, SensorKey } from "@/lib/sensors";
+import { AutomationRule } from "@/lib/rules";
+
+const formSchema = z.object({
+  name: z.string().trim().min(1, "Give the rule a name"),
+  match: z.enum(["all", "any"]),
+  conditions: z
+    .array(
+      z.object({
+        sensor: z.enum(["temperature", "humidity", "ph", "distance", "mq135"]),
+        operator: z.enum(["gt", "lt"]),
+        threshold: z.coerce.number(),
+        hysteresis: z.coerce.number().min(0),
+      })
+    )
+    .min(1, "Add at least one condition"),
+  actuator: z.enum(["fan", "pump1", "pump2", "led", "stepper"]),
+  state: z.enum(["on", "off"]),
+  stepperAction: z.enum(["enable", "disable", "forward", "backward", "position"]),
+  distance: z.coerce.number().min(1).max(100),
+  percent: z.coerce.number().min(0).max(100),
+  revertOnClear: z.boolean(),
+  minOnSeconds: z.coerce.number().int().min(0),
+  minOffSeconds: z.coerce.number().int().min(0),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+const toCommand = (values: FormValues): DeviceCommand => {
+  if (values.actuator !== "stepper") {
+    return { actuator: values.actuator, state: values.state === "on" };
+  }
+  if (values.stepperAction === "forward" || values.stepperAction === "backward") {
+    return { actuator: "stepper", action: values.stepperAction, distance: values.distance };
+  }
+  if (values.stepperAction === "position") {
+    return { actuator: "stepper", action: "position", percent: values.percent };
+  }
+  return { actuator: "stepper", action: values.stepperAction };
+};
+
+interface RuleFormProps {
+  deviceId: string;
+  onCreated?: (rule: AutomationRule) => void;
+}
+
+function RuleForm(props: RuleFormProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const { crop, optimalRange } = useDevices();
+
+  // Thresholds start at the edge of the crop stage's optimal range: its top for "above", its bottom for "below"
+  const suggestedThreshold = (sensor: SensorKey, operator: "gt" | "lt") =>
+    operator === "gt" ? optimalRange(sensor).max : optimalRange(sensor).min;
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: "",
+      match: "all",
+      conditions: [
+        { sensor: "temperature", operator: "gt", threshold: suggestedThreshold("temperature", "gt"), hysteresis: 1 },
+      ],
+      actuator: "fan",
+      state: "on",
+      stepperAction: "forward",
+      distance: 10,
+      percent: 50,
+      revertOnClear: true,
+      minOnSeconds: 60,
+      minOffSeconds: 60,
+    },
+  });
+
+  const conditions = useFieldArray({ control: form.control, name: "conditions" });
+  const actuator = form.watch("actuator");
+
+  // The crop profile loads after the form, move the untouched first threshold along
+  useEffect(() => {
+    if (form.getFieldState("conditions.0.threshold").isDirty) return;
+    const [first] = form.getValues("conditions");
+    if (first) form.setValue("conditions.0.threshold", suggestedThreshold(first.sensor, first.operator));
+  }, [crop]);
+
+  const suggestThreshold = (index: number, sensor: SensorKey, operator: "gt" | "lt") =>
+    form.setValue(`conditions.${index}.threshold`, suggestedThreshold(sensor, operator));
+  const stepperAction = form.watch("stepperAction");
+
+  async function onSubmit(values: FormValues) {
+    const payload = {
+      deviceId: props.deviceId,
+      name: values.name,
+      match: values.match,
+      conditions: values.conditions,
+      action: toCommand(values),
+      revertOnClear: values.revertOnClear,
+      minOnSeconds: values.minOnSeconds,
+      minOffSeconds: values.minOffSeconds,
+    };
+
+    try {
+      setIsLoading(true);
+
+      const rule = await apiFetch<AutomationRule>("/api/rules", {
+        method: "POST",
+        body: JSON.stringify(payload),
+      });
+
+      toast("Rule created", { description: rule.name });
+      form.reset();
+      props.onCreated?.(rule);
+    } catch (error) {
+      toast("Error Creating Rule", { description: String(error) });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle>New Rule</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Cool down when hot" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="match"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Trigger when</FormLabel>
+                    <FormControl>
+                      <NativeSelect {...field}>
+                        <option value="all">All conditions hold</option>
+                        <option value="any">Any condition holds</option>
+                      </NativeSelect>
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {/* Conditions */}
+            <div className="space-y-3">
+              <FormLabel>Conditions</FormLabel>
+              {conditions.fields.map((condition, index) => (
+                <div key={condition.id} className="grid gap-2 grid-cols-[2fr_1fr_1fr_1fr_auto] items-end">
+                  <FormField
+                    control={form.control}
+                    name={`conditions.${index}.sensor`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormControl>
+                          <NativeSelect
+                            {...field}
+                            onChange={(event) => {
+                              field.onChange(event);
+                              const operator = form.getValues(`conditions.${index}.operator`);
+                              suggestThreshold(index, event.target.value as SensorKey, operator);
+                            }}
+                          >
+                            {SENSOR_KEYS.map((key) => (
+                              <option key={key} value={key}>
+                                {SENSOR_META[key].label}
+                              </option>
+                            ))}
+                          </NativeSelect>
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`conditions.${index}.operator`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormControl>
+                          <NativeSelect
+                            {...field}
+                            onChange={(event) => {
+                              field.onChange(event);
+                              const sensor = form.getValues(`conditions.${index}.sensor`);
+                              suggestThreshold(index, sensor, event.target.value as "gt" | "lt");
+                            }}
+                          >
+                            <option value="gt">above</option>
+                            <option value="lt">below</option>
+                          </NativeSelect>
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`conditions.${index}.threshold`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormControl>
+                          <Input type="number" step="any" placeholder="Threshold" {...field} />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`conditions.${index}.hysteresis`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormControl>
+                          <Input type="number" step="any" min="0" placeholder="Hysteresis" {...field} />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="cursor-pointer"
+                    disabled={conditions.fields.length === 1}
+                    onClick={() => conditions.remove(index)}
+                    aria-label="Remove condition"
+                  >
+                    <Trash2 />
+                  </Button>
+                </div>
+              ))}
+              <p className="text-xs text-muted-foreground">
+                Hysteresis: once triggered, the value must move back past the threshold by this much before the rule clears.
+              </p>
+              <Button
+                type="button"
+                variant="outline"
+                className="cursor-pointer"
+                onClick={() =>
+                  conditions.append({
+                    sensor: "humidity",
+                    operator: "gt",
+                    threshold: suggestedThreshold("humidity", "gt"),
+                    hysteresis: 2,
+                  })
+                }
+              >
+                <Plus /> Add condition
+              </Button>
+            </div>
+
+            {/* Action */}
+            <div className="grid gap-4 sm:grid-cols-3">
+              <FormField
+                control={form.control}
+                name="actuator"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Actuator</FormLabel>
+                    <FormControl>
+                      <NativeSelect {...field}>
+                        {Object.entries(ACTUATOR_LABELS).map(([value, label]) => (
+                          <option key={value} value={value}>
+                            {label}
+                          </option>
+                        ))}
+                      </NativeSelect>
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              {actuator === "stepper" ? (
+                <>
+                  <FormField
+                    control={form.control}
+                    name="stepperAction"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Action</FormLabel>
+                        <FormControl>
+                          <NativeSelect {...field}>
+                            <option value="enable">Enable</option>
+                            <option value="disable">Disable</option>
+                            <option value="forward">Move forward</option>
+                            <option value="backward">Move backward</option>
+                            <option value="position">Open vent to</option>
+                          </NativeSelect>
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                  {(stepperAction === "forward" || stepperAction === "backward") && (
+                    <FormField
+                      control={form.control}
+                      name="distance"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Distance (mm)</FormLabel>
+                          <FormControl>
+                            <Input type="number" min="1" max="100" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                  {stepperAction === "position" && (
+                    <FormField
+                      control={form.control}
+                      name="percent"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Opening (%)</FormLabel>
+                          <FormControl>
+                            <Input type="number" min="0" max="100" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                </>
+              ) : (
+                <FormField
+                  control={form.control}
+                  name="state"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Turn</FormLabel>
+                      <FormControl>
+                        <NativeSelect {...field}>
+                          <option value="on">ON</option>
+                          <option value="off">OFF</option>
+                        </NativeSelect>
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-3 items-end">
+              <FormField
+                control={form.control}
+                name="minOnSeconds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Minimum on (s)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="minOffSeconds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Minimum off (s)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="revertOnClear"
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-2 h-9">
+                    <FormControl>
+                      <input
+                        type="checkbox"
+                        checked={field.value}
+                        onChange={(e) => field.onChange(e.target.checked)}
+                      />
+                    </FormControl>
+                    <FormLabel>
+                      {actuator === "stepper" && stepperAction === "position"
+                        ? "Close the vent when cleared"
+                        : "Undo action when cleared"}
+                    </FormLabel>
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <Button type="submit" className="w-full cursor-pointer" disabled={isLoading}>
+              {isLoading ? (
+                <>
+                  <Icons.spinner className="mr-2 h-4 w-4 animate-spin" />
+                  Saving....
+                </>
+              ) : (
+                "Create Rule"
+              )}
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default RuleForm;
@@ -0,0 +1,283 @@
+"use client";
+import React, { useState } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { NativeSelect } from "@/components/ui/native-select";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Icons } from "../icons";
+import { apiFetch } from "@/lib/api";
+import { ACTUATOR_LABELS } from "@/lib/devices";
+import { Schedule, WEEKDAYS } from "@/lib/schedules";
+
+const formSchema = z.object({
+  name: z.string().trim().min(1, "Give the schedule a name"),
+  actuator: z.enum(["fan", "pump1", "pump2", "led"]),
+  kind: z.enum(["window", "pulse"]),
+  startTime: z.string(),
+  endTime: z.string(),
+  daysOfWeek: z.array(z.number()).min(1, "Pick at least one day"),
+  cron: z.string(),
+  durationSeconds: z.coerce.number().int().min(1).max(86400),
+  timezone: z.string().min(1),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+interface ScheduleFormProps {
+  deviceId: string;
+  onCreated?: (schedule: Schedule) => void;
+}
+
+function ScheduleForm(props: ScheduleFormProps) {
+  const [isLoading, setIsLoading] = useState(false);
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: "",
+      actuator: "led",
+      kind: "window",
+      startTime: "06:00",
+      endTime: "20:00",
+      daysOfWeek: [0, 1, 2, 3, 4, 5, 6],
+      cron: "0 */4 * * *",
+      durationSeconds: 30,
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    },
+  });
+
+  const kind = form.watch("kind");
+
+  async function onSubmit(values: FormValues) {
+    const payload =
+      values.kind === "window"
+        ? {
+            kind: values.kind,
+            startTime: values.startTime,
+            endTime: values.endTime,
+            daysOfWeek: values.daysOfWeek,
+          }
+        : {
+            kind: values.kind,
+            cron: values.cron,
+            durationSeconds: values.durationSeconds,
+          };
+
+    try {
+      setIsLoading(true);
+
+      const schedule = await apiFetch<Schedule>("/api/schedules", {
+        method: "POST",
+        body: JSON.stringify({
+          deviceId: props.deviceId,
+          name: values.name,
+          actuator: values.actuator,
+          timezone: values.timezone,
+          ...payload,
+        }),
+      });
+
+      toast("Schedule created", { description: schedule.name });
+      form.reset();
+      props.onCreated?.(schedule);
+    } catch (error) {
+      toast("Error Creating Schedule", { description: String(error) });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle>New Schedule</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <div className="grid gap-4 sm:grid-cols-3">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Grow lights" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="actuator"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Actuator</FormLabel>
+                    <FormControl>
+                      <NativeSelect {...field}>
+                        {(["led", "pump1", "pump2", "fan"] as const).map((actuator) => (
+                          <option key={actuator} value={actuator}>
+                            {ACTUATOR_LABELS[actuator]}
+                          </option>
+                        ))}
+                      </NativeSelect>
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="kind"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Type</FormLabel>
+                    <FormControl>
+                      <NativeSelect {...field}>
+                        <option value="window">Daily on/off window</option>
+                        <option value="pulse">Repeating run</option>
+                      </NativeSelect>
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {kind === "window" ? (
+              <div className="grid gap-4 sm:grid-cols-3">
+                <FormField
+                  control={form.control}
+                  name="startTime"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Turn on at</FormLabel>
+                      <FormControl>
+                        <Input type="time" {...field} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="endTime"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Turn off at</FormLabel>
+                      <FormControl>
+                        <Input type="time" {...field} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="daysOfWeek"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Days</FormLabel>
+                      <div className="flex flex-wrap gap-1">
+                        {WEEKDAYS.map((label, day) => {
+                          const selected = field.value.includes(day);
+                          return (
+                            <Button
+                              key={label}
+                              type="button"
+                              size="sm"
+                              variant={selected ? "default" : "outline"}
+                              className="cursor-pointer px-2"
+                              onClick={() =>
+                                field.onChange(
+                                  selected
+                                    ? field.value.filter((value) => value !== day)
+                                    : [...field.value, day].sort()
+                                )
+                              }
+                            >
+                              {label}
+                            </Button>
+                          );
+                        })}
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            ) : (
+              <div className="grid gap-4 sm:grid-cols-2">
+                <FormField
+                  control={form.control}
+                  name="cron"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Start at (cron)</FormLabel>
+                      <FormControl>
+                        <Input placeholder="0 */4 * * *" {...field} />
+                      </FormControl>
+                      <FormDescription>minute hour day month weekday, e.g. every 4 hours: 0 */4 * * *</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="durationSeconds"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Run for (seconds)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="1" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
+            <FormField
+              control={form.control}
+              name="timezone"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Timezone</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <Button type="submit" className="w-full cursor-pointer" disabled={isLoading}>
+              {isLoading ? (
+                <>
+                  <Icons.spinner className="mr-2 h-4 w-4 animate-spin" />
+                  Saving....
+                </>
+              ) : (
+                "Create Schedule"
+              )}
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default ScheduleForm;
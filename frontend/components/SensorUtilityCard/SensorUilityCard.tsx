@@ -7,6 +7,7 @@ import {
   CardTitle,
 } from "../ui/card";
 import { Badge } from "../ui/badge";
+import { QUALITY_LABELS, ReadingAssessment, ReadingQuality } from "@/lib/sensors";
 
 interface Props {
   icon: any;
@@ -14,26 +15,44 @@ interface Props {
   data: string;
   status: string;
   hint?: string; // Optional hint for additional information
+  quality?: ReadingAssessment; // Data-quality flag of the reading, only shown when it is not good
 }
 
+// Value and badge colors per flag; a bad reading is struck through, it is not what the greenhouse is at
+const QUALITY_STYLES: Record<Exclude<ReadingQuality, "good">, { value: string; badge: string }> = {
+  suspect: { value: "text-amber-600", badge: "bg-amber-500 text-white" },
+  bad: { value: "text-gray-400 line-through", badge: "bg-red-700 text-white" },
+  missing: { value: "text-gray-400", badge: "bg-gray-500 text-white" },
+};
+
 const SensorUilityCard = (props: Props) => {
+  const flag = props.quality && props.quality.quality !== "good" ? props.quality.quality : null;
+
   return (
-    <Card className="">
+    <Card className={flag ? "border-dashed border-2" : ""}>
       <CardHeader>
         <CardTitle className="flex gap-4 items-center">
           {props.icon} {props.label}
         </CardTitle>
       </CardHeader>
       <CardContent className="flex flex-col  gap-2">
-        <span className="font-bold text-2xl text-emerald-600">
+        <span className={`font-bold text-2xl ${flag ? QUALITY_STYLES[flag].value : "text-emerald-600"}`}>
           {props.data}
         </span>
         <p>{props.hint}</p>
+        {flag && props.quality?.reason && (
+          <p className="text-sm text-muted-foreground">{props.quality.reason}</p>
+        )}
       </CardContent>
-      <CardFooter>
+      <CardFooter className="flex gap-2">
         <Badge variant="secondary" className="bg-red-500 text-white">
           {props.status}
         </Badge>
+        {flag && (
+          <Badge variant="secondary" className={QUALITY_STYLES[flag].badge}>
+            {QUALITY_LABELS[flag]}
+          </Badge>
+        )}
       </CardFooter>
     </Card>
   );
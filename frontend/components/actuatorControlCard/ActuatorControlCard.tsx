@@ -16,6 +16,8 @@ interface ActuatorControlCardProps {
     actuatorName: string;
     status: boolean;
     onToggle?: () => void;
+    // Shown read-only, e.g. when the user's role cannot send commands
+    disabled?: boolean;
 }
 
 const ActuatorControlCard = (props: ActuatorControlCardProps) => {
@@ -31,7 +33,7 @@ const ActuatorControlCard = (props: ActuatorControlCardProps) => {
         <Badge className={`${props.status ? "bg-green-500 text-white" : "bg-red-500 text-white"}`}>{props.status ? "ON" : "OFF"}</Badge>
       </CardContent>
       <CardFooter>
-        <Button className={`${props.status  ? "bg-red-500 text-white" : "bg-green-500 text-white"} cursor-pointer w-full`} onClick={props.onToggle}>{props.status ? "Turn Off" : "Turn On"}</Button>
+        <Button className={`${props.status  ? "bg-red-500 text-white" : "bg-green-500 text-white"} cursor-pointer w-full`} disabled={props.disabled} onClick={props.onToggle}>{props.status ? "Turn Off" : "Turn On"}</Button>
       </CardFooter>
     </Card>
   );
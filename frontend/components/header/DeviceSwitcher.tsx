@@ -0,0 +1,33 @@
+"use client";
+import React from "react";
+import { Warehouse } from "lucide-react";
+import { NativeSelect } from "@/components/ui/native-select";
+import { useDevices } from "@/components/DeviceProvider/DeviceProvider";
+
+// Greenhouse picker shared by every page through DeviceProvider
+function DeviceSwitcher() {
+  const { devices, deviceId, selectDevice } = useDevices();
+
+  if (devices.length === 0) return null;
+
+  return (
+    <label className="flex items-center gap-2 text-sm">
+      <Warehouse className="w-4 h-4" />
+      <NativeSelect
+        aria-label="Greenhouse"
+        className="w-48"
+        value={deviceId ?? ""}
+        onChange={(event) => selectDevice(event.target.value)}
+      >
+        {devices.map((device) => (
+          <option key={device.id} value={device.id}>
+            {device.name}
+            {device.location ? ` · ${device.location}` : ""}
+          </option>
+        ))}
+      </NativeSelect>
+    </label>
+  );
+}
+
+export default DeviceSwitcher;
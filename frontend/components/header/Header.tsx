@@ -1,14 +1,46 @@
+"use client";
 import React from "react";
+import Link from "next/link";
 import UserMenu from "@/components/userMenu/userMenu";
+import { useSession } from "@/lib/authClient";
+import { Role, roleHasPermission } from "@/lib/permissions";
+import DeviceSwitcher from "./DeviceSwitcher";
+
+const NAV_LINKS = [
+  { href: "/dashboard", label: "Dashboard" },
+  { href: "/history", label: "History" },
+  { href: "/camera", label: "Camera" },
+  { href: "/crops", label: "Crops" },
+  { href: "/automation", label: "Automation" },
+  { href: "/schedules", label: "Schedules" },
+  { href: "/irrigation", label: "Irrigation" },
+  { href: "/alerts", label: "Alerts" },
+  { href: "/calibration", label: "Calibration" },
+  { href: "/audit", label: "Audit" },
+  { href: "/devices", label: "Devices" },
+  { href: "/health", label: "Health" },
+  { href: "/users", label: "Users", permission: "users:manage" as const },
+];
 
 function Header() {
+  const { data: session } = useSession();
+  const role = session?.user.role as Role | undefined;
+
   return (
     <div className="bg-custom-background flex justify-between items-center p-2  text-custom-text">
       <div className="flex flex-col">
         <h1 className="text-2xl font-bold">Green House</h1>
         <p className="text-sm">Control Your System Remotely</p>
       </div>
-      <div className="flex gap-2">
+      <nav className="flex gap-4 text-sm font-medium">
+        {NAV_LINKS.filter((link) => !link.permission || roleHasPermission(role, link.permission)).map((link) => (
+          <Link key={link.href} href={link.href} className="hover:underline underline-offset-4">
+            {link.label}
+          </Link>
+        ))}
+      </nav>
+      <div className="flex items-center gap-4">
+        <DeviceSwitcher />
         <UserMenu imgSrc="https://github.com/shadcn.png" imgFallback="SC" />
       </div>
     </div>
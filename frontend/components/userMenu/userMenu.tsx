@@ -32,7 +32,9 @@ function UserMenu(props: UserMenuProps) {
         <DropdownMenuLabel>My Account</DropdownMenuLabel>
         <DropdownMenuSeparator />
         <div className="flex flex-col gap-2">
-          
+          <DropdownMenuItem className="cursor-pointer" onClick={() => router.push("/api-keys")}>
+            API Keys
+          </DropdownMenuItem>
 
           <DropdownMenuItem
             className="cursor-pointer bg-red-700 text-white "
@@ -0,0 +1,59 @@
+import { SensorKey } from "@/lib/sensors";
+
+export type AlertSeverity = "warning" | "critical";
+
+export interface AlertDefinition {
+  id: number;
+  deviceId: string;
+  name: string;
+  sensor: SensorKey;
+  minValue: number | null;
+  maxValue: number | null;
+  severity: AlertSeverity;
+  debounceSeconds: number;
+  enabled: boolean;
+  // Watches the crop stage's optimal range, minValue/maxValue are then ignored
+  followCropProfile: boolean;
+  // Fires on the sensor's anomalies, the range is then ignored
+  watchAnomalies: boolean;
+  state: "ok" | "pending" | "firing" | "resolving";
+  stateSince: string | null;
+}
+
+export interface Alert {
+  id: number;
+  definitionId: number;
+  definitionName: string;
+  deviceId: string;
+  sensor: SensorKey;
+  severity: AlertSeverity;
+  status: "firing" | "resolved";
+  message: string;
+  value: number;
+  firedAt: string;
+  resolvedAt: string | null;
+  acknowledgedAt: string | null;
+  acknowledgedBy: string | null;
+}
+
+export interface DeliveryResult {
+  channel: "email" | "webhook";
+  target: string;
+  success: boolean;
+  message: string;
+}
+
+export const describeRange = (
+  definition: Pick<AlertDefinition, "minValue" | "maxValue" | "followCropProfile" | "watchAnomalies">
+) => {
+  if (definition.watchAnomalies) {
+    return "behaving unusually";
+  }
+  if (definition.followCropProfile) {
+    return "outside the crop profile's range";
+  }
+  if (definition.minValue !== null && definition.maxValue !== null) {
+    return `outside ${definition.minValue}–${definition.maxValue}`;
+  }
+  return definition.minValue !== null ? `below ${definition.minValue}` : `above ${definition.maxValue}`;
+};
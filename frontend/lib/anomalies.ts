@@ -0,0 +1,30 @@
+import { AlertSeverity } from "@/lib/alerts";
+import { SensorKey } from "@/lib/sensors";
+
+// Mirrors ANOMALY_KINDS in backend/src/utils/anomalies.ts
+export type AnomalyKind = "deviation" | "drift" | "pump_effect";
+
+export const ANOMALY_KIND_LABELS: Record<AnomalyKind, string> = {
+  deviation: "Unusual for the time of day",
+  drift: "Drifting",
+  pump_effect: "Pump without effect",
+};
+
+export interface Anomaly {
+  id: number;
+  deviceId: string;
+  sensor: SensorKey;
+  kind: AnomalyKind;
+  // The pump of a pump_effect anomaly
+  actuator: "pump1" | "pump2" | null;
+  severity: AlertSeverity;
+  message: string;
+  value: number;
+  expected: number | null;
+  // Baseline spreads off, deviations only
+  score: number | null;
+  startedAt: string;
+  lastSeenAt: string;
+  // Null while it is still going on
+  resolvedAt: string | null;
+}
@@ -0,0 +1,22 @@
+export const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:5000";
+
+// Fetch helper for the Express backend: sends the better-auth cookie and unwraps JSON errors
+export async function apiFetch<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const res = await fetch(`${API_URL}${path}`, {
+    ...init,
+    credentials: "include",
+    headers: {
+      Accept: "application/json",
+      ...(init.body ? { "Content-Type": "application/json" } : {}),
+      ...init.headers,
+    },
+  });
+
+  const body = await res.json().catch(() => null);
+
+  if (!res.ok) {
+    throw new Error(body?.error || `HTTP ${res.status}: ${res.statusText}`);
+  }
+
+  return body as T;
+}
@@ -0,0 +1,28 @@
+// Mirrors API_KEY_SCOPES in backend/src/utils/permissions.ts
+export type ApiKeyScope = "read" | "control" | "admin";
+
+export const API_KEY_SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  read: "Read only",
+  control: "Read and send commands",
+  admin: "Everything your role allows",
+};
+
+// GET /api/keys; the key itself is only known when it is created
+export interface ApiKey {
+  id: number;
+  name: string;
+  // First characters of the key, to tell keys apart
+  prefix: string;
+  scope: ApiKeyScope;
+  rateLimitPerMinute: number;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+// POST /api/keys
+export interface CreatedApiKey extends ApiKey {
+  key: string;
+}
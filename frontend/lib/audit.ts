@@ -0,0 +1,57 @@
+import { DeviceCommand, RelayActuator } from "@/lib/devices";
+
+export type CommandSource = "manual" | "rule" | "schedule" | "irrigation" | "interlock";
+
+export const SOURCE_LABELS: Record<CommandSource, string> = {
+  manual: "Dashboard",
+  rule: "Rule",
+  schedule: "Schedule",
+  irrigation: "Irrigation",
+  interlock: "Interlock",
+};
+
+export interface AuditEntry {
+  id: number;
+  userId: string | null;
+  userName: string | null;
+  userEmail: string | null;
+  deviceId: string;
+  source: CommandSource;
+  actuator: RelayActuator | "stepper";
+  command: DeviceCommand;
+  success: boolean;
+  response: string;
+  latencyMs: number | null;
+  createdAt: string;
+}
+
+export interface AuditPage {
+  entries: AuditEntry[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export interface AuditFilters {
+  source: CommandSource | "";
+  actuator: RelayActuator | "stepper" | "";
+  success: "true" | "false" | "";
+  from: string;
+  to: string;
+}
+
+// Query string for /api/audit and /api/audit/export.csv, dates are whole local days
+export const auditQuery = (deviceId: string, filters: AuditFilters) => {
+  const params = new URLSearchParams({ deviceId });
+  if (filters.source) params.set("source", filters.source);
+  if (filters.actuator) params.set("actuator", filters.actuator);
+  if (filters.success) params.set("success", filters.success);
+  if (filters.from) params.set("from", new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) {
+    // The API's "to" is exclusive, so the range ends at the next local midnight
+    const end = new Date(`${filters.to}T00:00:00`);
+    end.setDate(end.getDate() + 1);
+    params.set("to", end.toISOString());
+  }
+  return params.toString();
+};
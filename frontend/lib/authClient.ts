@@ -1,12 +1,23 @@
 "use client";
 import { createAuthClient } from "better-auth/react";
+import { inferAdditionalFields } from "better-auth/client/plugins";
 
 export const authClient = createAuthClient({
   baseURL: "http://localhost:5000", // Your Express backend
   fetchOptions: {
     credentials: "include", // Ensure cookies are sent with requests
   },
+  plugins: [
+    // Mirrors user.additionalFields in backend/src/utils/auth.ts
+    inferAdditionalFields({
+      user: {
+        alertEmailEnabled: { type: "boolean", required: false },
+        alertWebhookUrl: { type: "string", required: false },
+        role: { type: "string", required: false, input: false },
+      },
+    }),
+  ],
 });
 
 // Export hooks for easy use in components
-export const { useSession, signIn, signOut } = authClient;
\ No newline at end of file
+export const { useSession, signIn, signOut } = authClient;
@@ -0,0 +1,96 @@
+import { SensorKey } from "@/lib/sensors";
+
+// Mirrors CALIBRATED_SENSORS in backend/src/utils/sensors.ts
+export type CalibratedSensor = Extract<SensorKey, "ph" | "mq135">;
+
+export const CALIBRATED_SENSORS: CalibratedSensor[] = ["ph", "mq135"];
+
+export interface CalibrationPoint {
+  raw: number;
+  reference: number;
+}
+
+export interface SensorCalibration {
+  id: number;
+  deviceId: string;
+  sensor: CalibratedSensor;
+  slope: number;
+  offset: number;
+  points: CalibrationPoint[];
+  active: boolean;
+  createdBy: string | null;
+  createdAt: string;
+  retiredAt: string | null;
+}
+
+export interface CalibrationOverview {
+  active: Record<CalibratedSensor, SensorCalibration | null>;
+  history: SensorCalibration[];
+}
+
+export interface CalibrationFit {
+  slope: number;
+  offset: number;
+  maxResidual: number;
+}
+
+export interface RawReading {
+  sensor: CalibratedSensor;
+  raw: number;
+  samples: number[];
+}
+
+export interface CalibrationStep {
+  label: string;
+  reference: number;
+  instructions: string;
+}
+
+// Wizard steps in the order they are taken; only the first two are used for a two-point calibration
+export const CALIBRATION_STEPS: Record<CalibratedSensor, CalibrationStep[]> = {
+  ph: [
+    {
+      label: "pH 7.00 buffer",
+      reference: 7,
+      instructions: "Rinse the probe with distilled water and put it in the pH 7.00 buffer.",
+    },
+    {
+      label: "pH 4.01 buffer",
+      reference: 4.01,
+      instructions: "Rinse the probe again and put it in the pH 4.01 buffer.",
+    },
+    {
+      label: "pH 10.01 buffer",
+      reference: 10.01,
+      instructions: "Rinse the probe again and put it in the pH 10.01 buffer.",
+    },
+  ],
+  mq135: [
+    {
+      label: "Fresh outdoor air",
+      reference: 400,
+      instructions: "Let the sensor warm up for at least 24 hours, then take it outside into fresh air.",
+    },
+    {
+      label: "Reference concentration",
+      reference: 1000,
+      instructions: "Expose the sensor to a known concentration, e.g. next to a calibrated CO₂ meter.",
+    },
+    {
+      label: "Second reference concentration",
+      reference: 2000,
+      instructions: "Expose the sensor to a second, clearly different known concentration.",
+    },
+  ],
+};
+
+// Above this the points do not sit on a line and a buffer was probably mixed up or contaminated
+export const MAX_RESIDUAL_WARNING: Record<CalibratedSensor, number> = {
+  ph: 0.1,
+  mq135: 50,
+};
+
+export const CALIBRATION_LABELS: Record<CalibratedSensor, string> = {
+  ph: "pH probe",
+  mq135: "MQ135 air quality sensor",
+};
@@ -0,0 +1,52 @@
+import { API_URL } from "@/lib/api";
+
+export type SnapshotSource = "scheduled" | "manual" | "import";
+
+export const SNAPSHOT_SOURCE_LABELS: Record<SnapshotSource, string> = {
+  scheduled: "Scheduled",
+  manual: "Manual",
+  import: "Imported",
+};
+
+// A row of GET /api/camera/snapshots, the JPEG is served by snapshotImageUrl()
+export interface Snapshot {
+  id: number;
+  deviceId: string;
+  fileName: string;
+  source: SnapshotSource;
+  sizeBytes: number;
+  width: number | null;
+  height: number | null;
+  capturedBy: string | null;
+  capturedAt: string;
+}
+
+export interface SnapshotPage {
+  snapshots: Snapshot[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+// <img> tags send the session cookie by themselves, no apiFetch needed
+export const snapshotImageUrl = (snapshot: Snapshot) => `${API_URL}/api/camera/snapshots/${snapshot.id}/image`;
+
+export interface TimelapseOptions {
+  // datetime-local values, in the browser's time zone
+  from: string;
+  to: string;
+  fps: number;
+  download?: boolean;
+}
+
+// The MJPEG stream plays in an <img> tag, download=true returns it as a .mjpeg file instead
+export const timelapseUrl = (deviceId: string, { from, to, fps, download }: TimelapseOptions) => {
+  const params = new URLSearchParams({
+    deviceId,
+    from: new Date(from).toISOString(),
+    to: new Date(to).toISOString(),
+    fps: String(fps),
+  });
+  if (download) params.set("download", "true");
+  return `${API_URL}/api/camera/timelapse?${params}`;
+};
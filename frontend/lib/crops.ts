@@ -0,0 +1,46 @@
+import { SensorKey } from "@/lib/sensors";
+
+export interface SensorRange {
+  min: number;
+  max: number;
+}
+
+// Mirrors CropStage in backend/src/services/cropProfiles.ts; sensors left out keep the default range
+export interface CropStage {
+  name: string;
+  days: number;
+  ranges: Partial<Record<SensorKey, SensorRange>>;
+}
+
+// GET /api/crops/profiles
+export interface CropProfile {
+  id: number;
+  name: string;
+  description: string | null;
+  stages: CropStage[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ActiveCrop {
+  deviceId: string;
+  profile: CropProfile;
+  startedAt: string;
+  stageIndex: number;
+  stage: CropStage;
+  stageStartedAt: string;
+  // Null during the last stage, which lasts until another crop is planted
+  stageEndsAt: string | null;
+}
+
+// GET /api/crops/active?deviceId=main; ranges cover every sensor, the defaults without a crop
+export interface ActiveCropResponse {
+  crop: ActiveCrop | null;
+  ranges: Record<SensorKey, SensorRange>;
+}
+
+// "Optimal range: 20°C - 30°C", with the unit glued to °C and %
+export const formatRange = ({ min, max }: SensorRange, unit: string) => {
+  const suffix = unit === "" ? "" : unit === "°C" || unit === "%" ? unit : ` ${unit}`;
+  return `${min}${suffix} - ${max}${suffix}`;
+};
@@ -0,0 +1,52 @@
+import { API_URL } from "@/lib/api";
+import { SensorKey } from "@/lib/sensors";
+
+// Mirrors EXPORT_DATASETS in backend/src/services/dataExport.ts
+export type ExportDataset = "telemetry" | "commands" | "alerts";
+
+export const EXPORT_DATASET_LABELS: Record<ExportDataset, string> = {
+  telemetry: "Sensor readings",
+  commands: "Commands",
+  alerts: "Alerts",
+};
+
+export type ExportFormat = "csv" | "json" | "ndjson";
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: "CSV (spreadsheets)",
+  json: "JSON",
+  ndjson: "NDJSON (one row per line)",
+};
+
+export interface ExportOptions {
+  dataset: ExportDataset;
+  format: ExportFormat;
+  // yyyy-mm-dd from <input type="date">, whole days in the browser's time zone
+  from: string;
+  to: string;
+  sensors: SensorKey[];
+}
+
+// A plain link: the backend streams the file as a download with the session cookie
+export const exportUrl = (deviceId: string, { dataset, format, from, to, sensors }: ExportOptions) => {
+  const params = new URLSearchParams({ deviceId, format });
+  // Without sensors the backend includes them all
+  if (sensors.length > 0) params.set("sensors", sensors.join(","));
+  if (from) params.set("from", new Date(`${from}T00:00:00`).toISOString());
+  if (to) params.set("to", new Date(`${to}T23:59:59.999`).toISOString());
+  return `${API_URL}/api/data/export/${dataset}?${params}`;
+};
+
+// POST /api/data/import/telemetry
+export interface ImportReport {
+  dryRun: boolean;
+  rows: number;
+  imported: number;
+  duplicates: number;
+  sensors: SensorKey[];
+  ignoredColumns: string[];
+  from: string | null;
+  to: string | null;
+  errors: { row: number; message: string }[];
+  moreErrors: number;
+}
@@ -0,0 +1,105 @@
+import { CommandSource } from "@/lib/audit";
+import { Role } from "@/lib/permissions";
+import { SensorKey } from "@/lib/sensors";
+
+export type RelayActuator = "fan" | "pump1" | "pump2" | "led";
+
+export type DeviceCapability = SensorKey | RelayActuator | "stepper" | "camera";
+
+export const DEVICE_CAPABILITIES: DeviceCapability[] = [
+  "temperature",
+  "humidity",
+  "ph",
+  "distance",
+  "mq135",
+  "fan",
+  "pump1",
+  "pump2",
+  "led",
+  "stepper",
+  "camera",
+];
+
+// http: the backend polls the board, mqtt: the board publishes to the backend's broker
+export type DeviceTransport = "http" | "mqtt";
+
+export const TRANSPORT_LABELS: Record<DeviceTransport, string> = {
+  http: "HTTP polling",
+  mqtt: "MQTT",
+};
+
+// A greenhouse board registered on the backend (/api/devices)
+export interface Device {
+  id: string;
+  name: string;
+  location: string | null;
+  transport: DeviceTransport;
+  // Null for MQTT boards
+  baseUrl: string | null;
+  cameraUrl: string | null;
+  capabilities: DeviceCapability[];
+  // The signed-in user's role on this device (membership, else their global role)
+  role: Role;
+}
+
+export type DeviceCommand =
+  | { actuator: RelayActuator; state: boolean }
+  | { actuator: "stepper"; action: "enable" | "disable" }
+  | { actuator: "stepper"; action: "forward" | "backward"; distance: number }
+  // Resolved into a relative move by the backend, which tracks where the vent is
+  | { actuator: "stepper"; action: "position"; percent: number }
+  | { actuator: "stepper"; action: "home" };
+
+// GET /api/devices/:id/vent; 0 % is the minimum soft limit (closed), 100 % the maximum
+export interface VentState {
+  position: number;
+  minPosition: number;
+  maxPosition: number;
+  percent: number;
+  // Null until the vent was homed or zeroed
+  homedAt: string | null;
+}
+
+// queued -> sent (the board answered) -> confirmed (a later status reading shows it), or failed
+export type CommandStatus = "queued" | "sent" | "confirmed" | "failed";
+
+// A command in the backend's per-device queue (/api/devices/:id/commands)
+export interface QueuedCommand {
+  id: number;
+  deviceId: string;
+  source: CommandSource;
+  userId: string | null;
+  command: DeviceCommand;
+  status: CommandStatus;
+  attempts: number;
+  // Firmware response, why it is being retried, or why it failed
+  message: string | null;
+  createdAt: string;
+  sentAt: string | null;
+  settledAt: string | null;
+}
+
+export const ACTUATOR_LABELS: Record<RelayActuator | "stepper", string> = {
+  fan: "Fan",
+  pump1: "Pump 1",
+  pump2: "Pump 2",
+  led: "LED Strip",
+  stepper: "Stepper Motor",
+};
+
+export const describeCommand = (command: DeviceCommand) => {
+  const label = ACTUATOR_LABELS[command.actuator];
+  if (command.actuator !== "stepper") {
+    return `${label} ${command.state ? "ON" : "OFF"}`;
+  }
+  if (command.action === "forward" || command.action === "backward") {
+    return `${label} ${command.action} ${command.distance}mm`;
+  }
+  if (command.action === "position") {
+    return `Roof vent to ${command.percent}%`;
+  }
+  if (command.action === "home") {
+    return "Roof vent homing";
+  }
+  return `${label} ${command.action}`;
+};
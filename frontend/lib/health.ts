@@ -0,0 +1,63 @@
+// Mirrors HEALTH_COMPONENTS in backend/src/utils/health.ts
+export type HealthComponent = "board" | "camera";
+
+export const HEALTH_COMPONENT_LABELS: Record<HealthComponent, string> = {
+  board: "ESP32 board",
+  camera: "Camera",
+};
+
+export interface ComponentHealth {
+  deviceId: string;
+  component: HealthComponent;
+  online: boolean;
+  // When online last changed
+  since: string;
+  lastCheckAt: string;
+  lastSeenAt: string | null;
+  lastLatencyMs: number | null;
+  consecutiveFailures: number;
+  lastError: string | null;
+  offlineAlertMinutes: number | null;
+}
+
+export interface DailyAvailability {
+  day: string;
+  component: HealthComponent;
+  checks: number;
+  failures: number;
+  availability: number;
+  avgLatencyMs: number | null;
+  maxLatencyMs: number | null;
+}
+
+export interface DeviceOutage {
+  id: number;
+  component: HealthComponent;
+  startedAt: string;
+  // Null while the outage is going on
+  endedAt: string | null;
+  error: string | null;
+  failures: number;
+  alertedAt: string | null;
+}
+
+// GET /api/health/history
+export interface HealthHistory {
+  components: ComponentHealth[];
+  daily: DailyAvailability[];
+  outages: DeviceOutage[];
+}
+
+export const formatAvailability = (availability: number) =>
+  availability === 100 ? "100%" : `${availability.toFixed(availability >= 99 ? 2 : 1)}%`;
+
+// "3 h 12 min", "45 s"
+export const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds} s`;
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours} h ${minutes % 60} min`;
+  return `${Math.floor(hours / 24)} d ${hours % 24} h`;
+};
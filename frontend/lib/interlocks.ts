@@ -0,0 +1,38 @@
+import { RelayActuator } from "@/lib/devices";
+
+// Mirrors INTERLOCKS in backend/src/utils/interlocks.ts
+export type Interlock = "pump_runtime" | "water_level" | "stepper_limit";
+
+export const INTERLOCK_LABELS: Record<Interlock, string> = {
+  pump_runtime: "Pump run time",
+  water_level: "Low water",
+  stepper_limit: "Vent limit",
+};
+
+// GET /api/interlocks; null switches a pump limit off
+export interface InterlockSettings {
+  deviceId: string;
+  pumpMaxRunSeconds: number | null;
+  maxWaterDistance: number | null;
+  stepperMinPosition: number;
+  stepperMaxPosition: number;
+  // Net travel of the acknowledged vent moves, in mm
+  stepperPosition: number;
+  updatedAt: string;
+}
+
+export interface InterlockTrip {
+  id: number;
+  deviceId: string;
+  interlock: Interlock;
+  actuator: RelayActuator | "stepper";
+  // Whether a command was refused or a running actuator was switched off
+  action: "refused" | "stopped";
+  message: string;
+  createdAt: string;
+}
+
+export interface InterlockOverview {
+  settings: InterlockSettings;
+  trips: InterlockTrip[];
+}
@@ -0,0 +1,102 @@
+import { formatDuration } from "@/lib/health";
+
+export type Pump = "pump1" | "pump2";
+
+export type IrrigationMode = "duration" | "level";
+
+export type IrrigationRunStatus = "running" | "completed" | "stopped" | "skipped" | "failed";
+
+// GET /api/irrigation/programs
+export interface IrrigationProgram {
+  id: number;
+  deviceId: string;
+  name: string;
+  pump: Pump;
+  mode: IrrigationMode;
+  // The most a run pumps, in level mode too
+  durationSeconds: number;
+  // Level mode: stop once the distance to the water grew by this much
+  levelDropCm: number | null;
+  cycleSeconds: number | null;
+  soakSeconds: number;
+  maxDailySeconds: number | null;
+  skipAboveHumidity: number | null;
+  // Manual only when null
+  cron: string | null;
+  timezone: string;
+  enabled: boolean;
+  running: boolean;
+}
+
+export interface IrrigationRun {
+  id: number;
+  programId: number;
+  programName: string;
+  deviceId: string;
+  pump: Pump;
+  trigger: "schedule" | "manual";
+  status: IrrigationRunStatus;
+  message: string | null;
+  startedAt: string;
+  endedAt: string | null;
+  pumpSeconds: number;
+  cycles: number;
+  levelBefore: number | null;
+  levelAfter: number | null;
+  liters: number | null;
+}
+
+// Distances from the ultrasonic sensor to the water surface
+export interface Reservoir {
+  deviceId: string;
+  fullDistanceCm: number;
+  emptyDistanceCm: number;
+  capacityLiters: number;
+  updatedAt: string;
+}
+
+// GET /api/irrigation/reservoir
+export interface ReservoirStatus {
+  reservoir: Reservoir | null;
+  distance: number | null;
+  fillPercent: number | null;
+  liters: number | null;
+  litersPerCm: number | null;
+}
+
+export interface UsagePeriod {
+  // UTC day, or the Monday a week starts on
+  start: string;
+  liters: number;
+  irrigationLiters: number;
+  pumpSeconds: number;
+  runs: number;
+  unmeasuredRuns: number;
+}
+
+// GET /api/irrigation/usage
+export interface WaterUsage {
+  daily: UsagePeriod[];
+  weekly: UsagePeriod[];
+}
+
+export const RUN_STATUS_STYLES: Record<IrrigationRunStatus, string> = {
+  running: "bg-blue-500 text-white",
+  completed: "bg-green-500 text-white",
+  stopped: "bg-amber-500 text-white",
+  skipped: "bg-gray-400 text-white",
+  failed: "bg-red-500 text-white",
+};
+
+export const formatLiters = (liters: number | null) => (liters === null ? "—" : `${liters.toFixed(1)} L`);
+
+// "Up to 10 min in 2 min cycles with 5 min soaks, until the level drops 3 cm"
+export const describeProgram = (program: IrrigationProgram) => {
+  const parts = [`${program.mode === "level" ? "Up to" : "For"} ${formatDuration(program.durationSeconds * 1000)}`];
+  if (program.cycleSeconds !== null && program.cycleSeconds < program.durationSeconds) {
+    parts.push(`in ${formatDuration(program.cycleSeconds * 1000)} cycles`);
+    if (program.soakSeconds > 0) parts.push(`with ${formatDuration(program.soakSeconds * 1000)} soaks`);
+  }
+  const description = parts.join(" ");
+  return program.mode === "level" ? `${description}, until the level drops ${program.levelDropCm} cm` : description;
+};
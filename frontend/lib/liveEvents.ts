@@ -0,0 +1,69 @@
+"use client";
+import { useEffect, useRef, useState } from "react";
+import { API_URL } from "@/lib/api";
+import { CalibratedSensor } from "@/lib/calibration";
+import { QueuedCommand } from "@/lib/devices";
+import { InterlockTrip } from "@/lib/interlocks";
+import { SensorKey, SensorQuality } from "@/lib/sensors";
+
+export type SensorReadings = Record<SensorKey, number | null>;
+
+export interface ActuatorStates {
+  fan: boolean;
+  pump1: boolean;
+  pump2: boolean;
+  led: boolean;
+  stepperEnabled: boolean;
+}
+
+// Mirrors LiveEvent in backend/src/services/liveEvents.ts
+export type LiveEvent =
+  | {
+      type: "telemetry";
+      deviceId: string;
+      sensors: SensorReadings;
+      // As the board sent them, before calibration
+      raw: SensorReadings;
+      uncalibrated: CalibratedSensor[];
+      quality: SensorQuality;
+      actuators: ActuatorStates;
+      fetchedAt: string;
+    }
+  | { type: "actuators"; deviceId: string; actuators: ActuatorStates; changed: (keyof ActuatorStates)[]; at: string }
+  | ({ type: "command"; at: string } & QueuedCommand)
+  | ({ type: "interlock"; at: string } & InterlockTrip)
+  | { type: "connection"; deviceId: string; connected: boolean; error: string | null; at: string };
+
+const LIVE_EVENT_TYPES: LiveEvent["type"][] = ["telemetry", "actuators", "command", "interlock", "connection"];
+
+/*
+ * Subscribes to the backend's event stream for a device. The browser reconnects on its own
+ * after a dropped connection; the returned flag tells whether the stream is currently open.
+ */
+export function useLiveEvents(deviceId: string | null, onEvent: (event: LiveEvent) => void) {
+  const [isStreaming, setIsStreaming] = useState(false);
+
+  // Always call the latest handler without reopening the stream on every render
+  const handlerRef = useRef(onEvent);
+  useEffect(() => {
+    handlerRef.current = onEvent;
+  });
+
+  useEffect(() => {
+    if (!deviceId) return;
+
+    const source = new EventSource(`${API_URL}/api/devices/${deviceId}/events`, { withCredentials: true });
+    const handle = (message: MessageEvent) => handlerRef.current(JSON.parse(message.data));
+
+    LIVE_EVENT_TYPES.forEach((type) => source.addEventListener(type, handle));
+    source.onopen = () => setIsStreaming(true);
+    source.onerror = () => setIsStreaming(false);
+
+    return () => {
+      source.close();
+      setIsStreaming(false);
+    };
+  }, [deviceId]);
+
+  return isStreaming;
+}
@@ -0,0 +1,24 @@
+// Mirrors backend/src/utils/permissions.ts; the backend still enforces every check
+export type Role = "owner" | "operator" | "viewer";
+
+export const ROLES: Role[] = ["owner", "operator", "viewer"];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  owner: "Owner",
+  operator: "Operator",
+  viewer: "Viewer",
+};
+
+const PERMISSIONS = {
+  "devices:control": ["owner", "operator"],
+  "automation:manage": ["owner", "operator"],
+  "alerts:acknowledge": ["owner", "operator"],
+  "calibration:manage": ["owner", "operator"],
+  "devices:manage": ["owner"],
+  "users:manage": ["owner"],
+} satisfies Record<string, Role[]>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const roleHasPermission = (role: Role | null | undefined, permission: Permission) =>
+  !!role && (PERMISSIONS[permission] as Role[]).includes(role);
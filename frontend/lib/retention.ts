@@ -0,0 +1,30 @@
+// Mirrors RETENTION_TIERS in backend/src/utils/retention.ts, finest first
+export type RetentionTier = "raw" | "1m" | "1h" | "1d";
+
+export const RETENTION_TIER_LABELS: Record<RetentionTier, string> = {
+  raw: "Raw readings",
+  "1m": "1-minute rollups",
+  "1h": "1-hour rollups",
+  "1d": "1-day rollups",
+};
+
+// GET /api/retention; keepDays null keeps the tier forever
+export interface RetentionPolicy {
+  tier: RetentionTier;
+  keepDays: number | null;
+  // Rollups only: how far the background job has aggregated
+  rolledUpTo: string | null;
+  lastRunAt: string | null;
+  updatedAt: string;
+}
+
+export interface TierUsage {
+  tier: RetentionTier;
+  rows: number;
+  oldest: string | null;
+}
+
+export interface RetentionOverview {
+  policies: RetentionPolicy[];
+  usage: TierUsage[];
+}
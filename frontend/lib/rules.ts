@@ -0,0 +1,54 @@
+import { DeviceCommand } from "@/lib/devices";
+import { SensorKey } from "@/lib/sensors";
+
+export interface RuleCondition {
+  sensor: SensorKey;
+  operator: "gt" | "lt";
+  threshold: number;
+  hysteresis: number;
+}
+
+export interface AutomationRule {
+  id: number;
+  deviceId: string;
+  name: string;
+  enabled: boolean;
+  match: "all" | "any";
+  conditions: RuleCondition[];
+  action: DeviceCommand;
+  revertOnClear: boolean;
+  minOnSeconds: number;
+  minOffSeconds: number;
+  active: boolean;
+  lastTransitionAt: string | null;
+  createdAt: string;
+}
+
+export interface RuleFiring {
+  id: number;
+  ruleId: number;
+  ruleName: string;
+  deviceId: string;
+  kind: "activate" | "clear" | "test";
+  command: DeviceCommand;
+  readings: Partial<Record<SensorKey, number | null>>;
+  // null while the command waits for the board's answer
+  success: boolean | null;
+  message: string | null;
+  firedAt: string;
+}
+
+export interface RuleTestResult {
+  evaluation: {
+    conditions: (RuleCondition & { value: number | null; met: boolean })[];
+    matched: boolean;
+    transition: "activate" | "clear" | null;
+    heldBySeconds: number;
+  };
+  firing: RuleFiring | null;
+}
+
+export const OPERATOR_SYMBOLS: Record<RuleCondition["operator"], string> = {
+  gt: ">",
+  lt: "<",
+};
@@ -0,0 +1,57 @@
+import { RelayActuator } from "@/lib/devices";
+
+export interface Schedule {
+  id: number;
+  deviceId: string;
+  name: string;
+  actuator: RelayActuator;
+  kind: "window" | "pulse";
+  startTime: string | null;
+  endTime: string | null;
+  daysOfWeek: number[] | null;
+  cron: string | null;
+  durationSeconds: number | null;
+  timezone: string;
+  enabled: boolean;
+}
+
+export interface ScheduleEvent {
+  scheduleId: number;
+  scheduleName: string;
+  actuator: RelayActuator;
+  state: boolean;
+  at: string;
+}
+
+export interface ScheduleRun {
+  id: number;
+  scheduleId: number;
+  scheduleName: string;
+  actuator: RelayActuator;
+  state: boolean;
+  scheduledFor: string;
+  executedAt: string;
+  success: boolean;
+  message: string | null;
+}
+
+export interface ScheduleTimeline {
+  from: string;
+  now: string;
+  to: string;
+  events: ScheduleEvent[];
+  runs: ScheduleRun[];
+}
+
+export const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export const describeSchedule = (schedule: Schedule) => {
+  if (schedule.kind === "window") {
+    const days =
+      !schedule.daysOfWeek || schedule.daysOfWeek.length === 7
+        ? "every day"
+        : schedule.daysOfWeek.map((day) => WEEKDAYS[day]).join(", ");
+    return `ON ${schedule.startTime}–${schedule.endTime}, ${days}`;
+  }
+  return `ON for ${schedule.durationSeconds}s at "${schedule.cron}"`;
+};
@@ -0,0 +1,50 @@
+export type SensorKey = "temperature" | "humidity" | "ph" | "distance" | "mq135";
+
+export interface SensorMeta {
+  label: string;
+  unit: string;
+  decimals: number;
+  // Default optimal range, mirrors DEFAULT_OPTIMAL_RANGES in backend/src/utils/sensors.ts; a crop profile overrides it
+  optimal: { min: number; max: number };
+  // Plausible readings, anything outside is a sensor fault; mirrors SENSOR_RANGES in backend/src/utils/sensors.ts
+  valid: { min: number; max: number };
+}
+
+// Display metadata and default ranges shared by the dashboard cards and the history charts
+export const SENSOR_META: Record<SensorKey, SensorMeta> = {
+  temperature: {
+    label: "Temperature",
+    unit: "°C",
+    decimals: 1,
+    optimal: { min: 20, max: 30 },
+    valid: { min: -50, max: 100 },
+  },
+  humidity: { label: "Humidity", unit: "%", decimals: 1, optimal: { min: 20, max: 60 }, valid: { min: 0, max: 100 } },
+  ph: { label: "pH Level", unit: "", decimals: 2, optimal: { min: 6.0, max: 7.5 }, valid: { min: 0, max: 14 } },
+  distance: { label: "Water Level", unit: "cm", decimals: 1, optimal: { min: 20, max: 40 }, valid: { min: 0, max: 500 } },
+  mq135: { label: "Air Quality", unit: "ppm", decimals: 0, optimal: { min: 100, max: 200 }, valid: { min: 0, max: 1000 } },
+};
+
+export const SENSOR_KEYS = Object.keys(SENSOR_META) as SensorKey[];
+
+// Flag the backend stores with every reading, see backend/src/services/dataQuality.ts
+export type ReadingQuality = "good" | "suspect" | "bad" | "missing";
+
+export interface ReadingAssessment {
+  quality: ReadingQuality;
+  // Why the reading is not good, null when it is
+  reason: string | null;
+}
+
+export type SensorQuality = Record<SensorKey, ReadingAssessment>;
+
+export const QUALITY_LABELS: Record<ReadingQuality, string> = {
+  good: "Good",
+  suspect: "Suspect",
+  bad: "Bad reading",
+  missing: "No reading",
+};
+
+// range is the crop stage's optimal range, see useDevices().optimalRange
+export const getSensorStatus = (value: number, range: { min: number; max: number }) =>
+  value >= range.min && value <= range.max ? "Normal" : "Warning";
@@ -0,0 +1,16 @@
+import { Role } from "@/lib/permissions";
+
+export interface Membership {
+  deviceId: string;
+  role: Role;
+}
+
+// An account as listed by /api/users (owners only)
+export interface ManagedUser {
+  id: string;
+  name: string;
+  email: string;
+  role: Role;
+  createdAt: string;
+  memberships: Membership[];
+}
@@ -7,7 +7,7 @@ export async function middleware(request: Request) {
   const pathname = url.pathname;
 
   const publicRoutes = ["/", "/login", "/register"];
-  const protectedRoutes = ["/dashboard", "/overview"];
+  const protectedRoutes = ["/dashboard", "/overview", "/history", "/camera", "/crops", "/automation", "/schedules", "/irrigation", "/alerts", "/devices", "/health", "/users", "/audit", "/calibration", "/api-keys"];
 
   const isPublicRoute = publicRoutes.includes(pathname);
   const isProtectedRoute = protectedRoutes.some((route) =>